@@ -1,7 +1,7 @@
 import type { Config } from "drizzle-kit";
 
 export default {
-  schema: "./src/libs/database/schema/",
+  schema: "./src/core/database/schema/",
   out: "./drizzle",
   dialect: "postgresql",
   dbCredentials: {
@@ -0,0 +1,2 @@
+-- Baseline: the schema as it stood before the migrations that follow. It was created with db:push,
+-- so this migration only records the snapshot the later migrations are generated against.
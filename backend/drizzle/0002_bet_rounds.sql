@@ -0,0 +1,18 @@
+CREATE TABLE "bet_rounds" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp(3) with time zone,
+	"user_id" uuid NOT NULL,
+	"round_id" uuid NOT NULL,
+	"game_id" uuid,
+	"game_session_id" uuid,
+	"wager_amount" integer NOT NULL,
+	"win_amount" integer DEFAULT 0 NOT NULL,
+	"outcome" jsonb,
+	CONSTRAINT "bet_rounds_user_round_unique" UNIQUE("user_id","round_id")
+);
+--> statement-breakpoint
+ALTER TABLE "bet_rounds" ADD CONSTRAINT "bet_rounds_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bet_rounds" ADD CONSTRAINT "bet_rounds_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bet_rounds" ADD CONSTRAINT "bet_rounds_game_session_id_game_sessions_id_fk" FOREIGN KEY ("game_session_id") REFERENCES "public"."game_sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "bet_rounds_game_session_index" ON "bet_rounds" USING btree ("game_session_id");
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TYPE "public"."bet_round_action_type_enum" AS ENUM('DEBIT', 'CREDIT', 'ROLLBACK');--> statement-breakpoint
+CREATE TYPE "public"."bet_round_status_enum" AS ENUM('OPEN', 'CLOSED', 'ROLLED_BACK');--> statement-breakpoint
+CREATE TABLE "bet_round_actions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+	"bet_round_id" uuid NOT NULL,
+	"transaction_id" text NOT NULL,
+	"type" "bet_round_action_type_enum" NOT NULL,
+	"amount" integer NOT NULL,
+	"real_amount" integer DEFAULT 0 NOT NULL,
+	"bonus_amount" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "bet_round_actions_round_transaction_unique" UNIQUE("bet_round_id","transaction_id")
+);
+--> statement-breakpoint
+ALTER TABLE "bet_rounds" ADD COLUMN "status" "bet_round_status_enum" DEFAULT 'OPEN' NOT NULL;--> statement-breakpoint
+ALTER TABLE "bet_rounds" ADD COLUMN "real_balance_before" integer;--> statement-breakpoint
+ALTER TABLE "bet_rounds" ADD COLUMN "bonus_balance_before" integer;--> statement-breakpoint
+ALTER TABLE "bet_rounds" ADD COLUMN "closed_at" timestamp(3) with time zone;--> statement-breakpoint
+ALTER TABLE "bet_round_actions" ADD CONSTRAINT "bet_round_actions_bet_round_id_bet_rounds_id_fk" FOREIGN KEY ("bet_round_id") REFERENCES "public"."bet_rounds"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
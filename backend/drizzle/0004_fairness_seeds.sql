@@ -0,0 +1,16 @@
+CREATE TABLE "fairness_seeds" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp(3) with time zone,
+	"user_id" uuid NOT NULL,
+	"server_seed" text NOT NULL,
+	"server_seed_hash" text NOT NULL,
+	"client_seed" text NOT NULL,
+	"nonce" integer DEFAULT 0 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"revealed_at" timestamp(3) with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "fairness_seeds" ADD CONSTRAINT "fairness_seeds_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "fairness_seeds_user_id_index" ON "fairness_seeds" USING btree ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "fairness_seeds_active_user_unique" ON "fairness_seeds" USING btree ("user_id") WHERE "fairness_seeds"."is_active";
\ No newline at end of file
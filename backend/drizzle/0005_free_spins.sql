@@ -0,0 +1,18 @@
+CREATE TABLE "free_spin_grants" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp(3) with time zone,
+	"user_id" uuid NOT NULL,
+	"source" text NOT NULL,
+	"status" "bonus_status_enum" DEFAULT 'ACTIVE' NOT NULL,
+	"spins_granted" integer NOT NULL,
+	"spins_remaining" integer NOT NULL,
+	"spin_value" integer,
+	"game_ids" text[],
+	"total_won" integer DEFAULT 0 NOT NULL,
+	"expires_at" timestamp(3) with time zone,
+	"completed_at" timestamp(3) with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "free_spin_grants" ADD CONSTRAINT "free_spin_grants_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "free_spin_grants_user_status_idx" ON "free_spin_grants" USING btree ("user_id","status");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "platform_settings" ALTER COLUMN "wagering_config" SET DEFAULT '{"defaultWageringMultiplier":30,"maxBonusBetPercentage":0.1,"bonusExpiryDays":30,"gameContributions":{"SLOTS":100,"FISH":100,"TABLE":10,"LIVE":10,"OTHER":50}}'::jsonb;
\ No newline at end of file
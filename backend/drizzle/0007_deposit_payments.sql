@@ -0,0 +1 @@
+ALTER TABLE "platform_settings" ADD COLUMN "deposit_config" jsonb DEFAULT '{"partialPayment":"CREDIT_RECEIVED","overpayment":"CREDIT_ACTUAL"}'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TYPE "public"."job_run_status_enum" AS ENUM('RUNNING', 'SUCCEEDED', 'FAILED');--> statement-breakpoint
+CREATE TABLE "job_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_name" text NOT NULL,
+	"status" "job_run_status_enum" DEFAULT 'RUNNING' NOT NULL,
+	"started_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+	"finished_at" timestamp(3) with time zone,
+	"processed" integer DEFAULT 0 NOT NULL,
+	"result" jsonb,
+	"error" text
+);
+--> statement-breakpoint
+ALTER TABLE "platform_settings" ALTER COLUMN "deposit_config" SET DEFAULT '{"partialPayment":"CREDIT_RECEIVED","overpayment":"CREDIT_ACTUAL","pendingTtlMinutes":{"CASHAPP":60,"INSTORE_CASH":1440,"INSTORE_CARD":1440},"defaultPendingTtlMinutes":1440}'::jsonb;--> statement-breakpoint
+CREATE INDEX "job_runs_job_name_started_at_index" ON "job_runs" USING btree ("job_name","started_at");
\ No newline at end of file
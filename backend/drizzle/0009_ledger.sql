@@ -0,0 +1,33 @@
+CREATE TYPE "public"."ledger_account_type_enum" AS ENUM('PLAYER_REAL', 'PLAYER_BONUS', 'OPERATOR_FLOAT', 'JACKPOT_POOL', 'GGR');--> statement-breakpoint
+CREATE TABLE "ledger_accounts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+	"type" "ledger_account_type_enum" NOT NULL,
+	"owner_id" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "ledger_entries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+	"journal_id" uuid NOT NULL,
+	"account_id" uuid NOT NULL,
+	"amount" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "ledger_journals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+	"type" "transaction_type_enum" NOT NULL,
+	"user_id" uuid,
+	"related_id" text,
+	"description" text,
+	"metadata" jsonb
+);
+--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_journal_id_ledger_journals_id_fk" FOREIGN KEY ("journal_id") REFERENCES "public"."ledger_journals"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_account_id_ledger_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."ledger_accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "ledger_accounts_type_owner_unique" ON "ledger_accounts" USING btree ("type","owner_id");--> statement-breakpoint
+CREATE INDEX "ledger_entries_journal_id_index" ON "ledger_entries" USING btree ("journal_id");--> statement-breakpoint
+CREATE INDEX "ledger_entries_account_id_index" ON "ledger_entries" USING btree ("account_id");--> statement-breakpoint
+CREATE INDEX "ledger_journals_user_id_index" ON "ledger_journals" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "ledger_journals_related_id_index" ON "ledger_journals" USING btree ("related_id");
\ No newline at end of file
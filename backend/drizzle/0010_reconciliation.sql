@@ -0,0 +1,5 @@
+DROP INDEX "ledger_journals_user_id_index";--> statement-breakpoint
+ALTER TABLE "ledger_journals" ADD COLUMN "sequence" bigserial NOT NULL;--> statement-breakpoint
+ALTER TABLE "ledger_journals" ADD COLUMN "real_balance_after" integer;--> statement-breakpoint
+ALTER TABLE "ledger_journals" ADD COLUMN "bonus_balance_after" integer;--> statement-breakpoint
+CREATE INDEX "ledger_journals_user_id_index" ON "ledger_journals" USING btree ("user_id","sequence");
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TYPE "public"."outbox_status_enum" AS ENUM('PENDING', 'DELIVERED', 'DEAD');--> statement-breakpoint
+CREATE TABLE "outbox_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp(3) with time zone,
+	"event_type" text NOT NULL,
+	"aggregate_id" text,
+	"user_id" uuid,
+	"payload" jsonb NOT NULL,
+	"results" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"status" "outbox_status_enum" DEFAULT 'PENDING' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"next_attempt_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+	"last_error" text,
+	"delivered_at" timestamp(3) with time zone
+);
+--> statement-breakpoint
+CREATE INDEX "outbox_events_status_next_attempt_index" ON "outbox_events" USING btree ("status","next_attempt_at");--> statement-breakpoint
+CREATE INDEX "outbox_events_aggregate_id_index" ON "outbox_events" USING btree ("aggregate_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "platform_settings" ADD COLUMN "session_config" jsonb DEFAULT '{"idleTimeoutMinutes":30,"abandonAfterMinutes":10}'::jsonb NOT NULL;
\ No newline at end of file
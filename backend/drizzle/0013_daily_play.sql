@@ -0,0 +1,11 @@
+CREATE TABLE "user_daily_play" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"day" date NOT NULL,
+	"wagered" integer DEFAULT 0 NOT NULL,
+	"won" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp(3) with time zone,
+	CONSTRAINT "user_daily_play_user_day_unique" UNIQUE("user_id","day")
+);
+--> statement-breakpoint
+ALTER TABLE "user_daily_play" ADD CONSTRAINT "user_daily_play_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
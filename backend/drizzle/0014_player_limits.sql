@@ -0,0 +1,47 @@
+CREATE TYPE "public"."player_exclusion_type_enum" AS ENUM('COOL_OFF', 'SELF_EXCLUSION');--> statement-breakpoint
+CREATE TYPE "public"."player_limit_change_enum" AS ENUM('SET', 'DECREASED', 'INCREASE_SCHEDULED', 'INCREASE_APPLIED', 'REMOVAL_SCHEDULED', 'REMOVED', 'PENDING_CANCELLED', 'COOL_OFF_STARTED', 'SELF_EXCLUSION_STARTED');--> statement-breakpoint
+CREATE TYPE "public"."player_limit_period_enum" AS ENUM('DAILY', 'WEEKLY', 'MONTHLY');--> statement-breakpoint
+CREATE TYPE "public"."player_limit_type_enum" AS ENUM('DEPOSIT', 'LOSS', 'WAGER', 'SESSION_TIME');--> statement-breakpoint
+CREATE TABLE "player_exclusions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"type" "player_exclusion_type_enum" NOT NULL,
+	"starts_at" timestamp(3) with time zone NOT NULL,
+	"ends_at" timestamp(3) with time zone,
+	"reason" text
+);
+--> statement-breakpoint
+CREATE TABLE "player_limit_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"action" "player_limit_change_enum" NOT NULL,
+	"type" "player_limit_type_enum",
+	"period" "player_limit_period_enum",
+	"exclusion_type" "player_exclusion_type_enum",
+	"previous_amount" integer,
+	"new_amount" integer,
+	"effective_at" timestamp(3) with time zone,
+	"changed_by" uuid
+);
+--> statement-breakpoint
+CREATE TABLE "player_limits" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp(3) with time zone,
+	"user_id" uuid NOT NULL,
+	"type" "player_limit_type_enum" NOT NULL,
+	"period" "player_limit_period_enum",
+	"amount" integer NOT NULL,
+	"pending_amount" integer,
+	"pending_effective_at" timestamp(3) with time zone,
+	CONSTRAINT "player_limits_user_type_period_unique" UNIQUE NULLS NOT DISTINCT("user_id","type","period")
+);
+--> statement-breakpoint
+ALTER TABLE "platform_settings" ADD COLUMN "responsible_gambling_config" jsonb DEFAULT '{"increaseDelayHours":24,"minCoolOffHours":24,"maxCoolOffDays":42,"minSelfExclusionDays":180}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "player_exclusions" ADD CONSTRAINT "player_exclusions_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "player_limit_history" ADD CONSTRAINT "player_limit_history_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "player_limits" ADD CONSTRAINT "player_limits_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "player_exclusions_user_id_index" ON "player_exclusions" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "player_limit_history_user_created_index" ON "player_limit_history" USING btree ("user_id","created_at");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "platform_settings" ALTER COLUMN "session_config" SET DEFAULT '{"idleTimeoutMinutes":30,"abandonAfterMinutes":10,"realityCheckIntervalMinutes":60,"maxSessionMinutes":240}'::jsonb;--> statement-breakpoint
+ALTER TABLE "game_sessions" ADD COLUMN "last_reality_check_at" timestamp(3) with time zone;--> statement-breakpoint
+ALTER TABLE "game_sessions" ADD COLUMN "reality_check_pending_since" timestamp(3) with time zone;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TYPE "public"."restriction_scope_enum" AS ENUM('OPERATOR', 'USER');--> statement-breakpoint
+CREATE TABLE "bet_restriction_overrides" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp(3) with time zone,
+	"scope" "restriction_scope_enum" NOT NULL,
+	"scope_id" uuid NOT NULL,
+	"min_bet_amount" integer,
+	"max_bet_amount" integer,
+	"max_daily_loss" integer,
+	"max_session_loss" integer,
+	"reason" text,
+	"updated_by" uuid,
+	CONSTRAINT "bet_restriction_overrides_scope_unique" UNIQUE("scope","scope_id")
+);
@@ -0,0 +1,14 @@
+CREATE TABLE "platform_setting_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+	"setting_id" uuid NOT NULL,
+	"version" integer NOT NULL,
+	"settings" jsonb NOT NULL,
+	"changed_by" uuid,
+	"reason" text,
+	"restored_from_version" integer,
+	CONSTRAINT "platform_setting_versions_setting_version_unique" UNIQUE("setting_id","version")
+);
+--> statement-breakpoint
+ALTER TABLE "platform_settings" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "platform_setting_versions" ADD CONSTRAINT "platform_setting_versions_setting_id_platform_settings_id_fk" FOREIGN KEY ("setting_id") REFERENCES "public"."platform_settings"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "operator_settings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp(3) with time zone,
+	"operator_id" uuid NOT NULL,
+	"overrides" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"version" integer DEFAULT 1 NOT NULL,
+	"updated_by" uuid,
+	CONSTRAINT "operator_settings_operator_id_unique" UNIQUE("operator_id")
+);
+--> statement-breakpoint
+ALTER TABLE "operator_settings" ADD CONSTRAINT "operator_settings_operator_id_operators_id_fk" FOREIGN KEY ("operator_id") REFERENCES "public"."operators"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
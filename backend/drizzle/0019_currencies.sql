@@ -0,0 +1,30 @@
+CREATE TABLE "currencies" (
+	"code" text PRIMARY KEY NOT NULL,
+	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp(3) with time zone,
+	"name" text NOT NULL,
+	"symbol" text,
+	"minor_units" integer DEFAULT 2 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"updated_by" text DEFAULT 'system' NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "fx_rates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp(3) with time zone,
+	"base_currency" text NOT NULL,
+	"quote_currency" text NOT NULL,
+	"rate" double precision NOT NULL,
+	"updated_by" text DEFAULT 'system' NOT NULL,
+	CONSTRAINT "fx_rates_pair_unique" UNIQUE("base_currency","quote_currency")
+);
+--> statement-breakpoint
+ALTER TABLE "deposits" ADD COLUMN "currency" text DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "currency" text DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+ALTER TABLE "withdrawals" ADD COLUMN "currency" text DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_balances" ADD COLUMN "currency" text DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+ALTER TABLE "platform_settings" ADD COLUMN "currency_config" jsonb DEFAULT '{"defaultCurrency":"USD","allowedCurrencies":["USD"],"reportingCurrency":"USD"}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "fx_rates" ADD CONSTRAINT "fx_rates_base_currency_currencies_code_fk" FOREIGN KEY ("base_currency") REFERENCES "public"."currencies"("code") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "fx_rates" ADD CONSTRAINT "fx_rates_quote_currency_currencies_code_fk" FOREIGN KEY ("quote_currency") REFERENCES "public"."currencies"("code") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "transaction_log_currency_index" ON "transactions" USING btree ("currency","created_at");
\ No newline at end of file
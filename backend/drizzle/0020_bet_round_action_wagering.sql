@@ -0,0 +1 @@
+ALTER TABLE "bet_round_actions" ADD COLUMN "wagering" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "bet_rounds" ADD COLUMN "fairness" jsonb;
\ No newline at end of file
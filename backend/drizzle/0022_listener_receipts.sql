@@ -0,0 +1,9 @@
+CREATE TABLE "listener_receipts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+	"listener" text NOT NULL,
+	"event_key" text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "listener_receipts_listener_event_key_unique" ON "listener_receipts" USING btree ("listener","event_key");--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_jackpot_contribution_history_bet_type" ON "jackpot_contribution_history" USING btree ("bet_transaction_id","jackpot_type");
\ No newline at end of file
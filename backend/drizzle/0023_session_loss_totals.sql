@@ -0,0 +1,2 @@
+ALTER TABLE "game_sessions" ADD COLUMN "play_wagered" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "game_sessions" ADD COLUMN "play_won" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
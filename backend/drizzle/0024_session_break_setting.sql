@@ -0,0 +1 @@
+ALTER TABLE "platform_settings" ALTER COLUMN "responsible_gambling_config" SET DEFAULT '{"increaseDelayHours":24,"minCoolOffHours":24,"maxCoolOffDays":42,"minSelfExclusionDays":180,"sessionBreakMinutes":15}'::jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "platform_settings" ALTER COLUMN "deposit_config" SET DEFAULT '{"partialPayment":"CREDIT_RECEIVED","overpayment":"CREDIT_ACTUAL","pendingTtlMinutes":{"CASHAPP":60,"INSTORE_CASH":1440,"INSTORE_CARD":1440},"defaultPendingTtlMinutes":1440,"minDepositAmount":10,"maxDepositAmount":1000000}'::jsonb;
\ No newline at end of file
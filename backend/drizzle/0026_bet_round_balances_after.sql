@@ -0,0 +1,2 @@
+ALTER TABLE "bet_rounds" ADD COLUMN "real_balance_after" integer;--> statement-breakpoint
+ALTER TABLE "bet_rounds" ADD COLUMN "bonus_balance_after" integer;
\ No newline at end of file
@@ -0,0 +1,19 @@
+import type { MiddlewareHandler } from "hono";
+
+/**
+ * Restrict a route to admins. Runs after authMiddleware, which sets the user.
+ */
+const adminMiddleware: MiddlewareHandler = async (c, next) => {
+	const user = c.get("user");
+
+	if (!user) {
+		return c.json({ error: "User not authenticated" }, 401);
+	}
+	if (user.role !== "ADMIN") {
+		return c.json({ error: "Admin access required" }, 403);
+	}
+
+	return await next();
+};
+
+export default adminMiddleware;
@@ -0,0 +1,19 @@
+import { WEBHOOK_SIGNATURE_HEADER, verifyWebhookSignature } from "@/modules/payments/webhook-signature";
+import type { MiddlewareHandler } from "hono";
+
+/**
+ * Restrict a route to the game provider. The provider signs each request body with HMAC-SHA256
+ * using the shared GAME_PROVIDER_WALLET_SECRET and sends the hex digest in x-webhook-signature.
+ */
+const providerMiddleware: MiddlewareHandler = async (c, next) => {
+	const rawBody = await c.req.text();
+	const secret = Bun.env.GAME_PROVIDER_WALLET_SECRET ?? "";
+
+	if (!verifyWebhookSignature(rawBody, c.req.header(WEBHOOK_SIGNATURE_HEADER), secret)) {
+		return c.json({ error: "Invalid provider signature" }, 401);
+	}
+
+	return await next();
+};
+
+export default providerMiddleware;
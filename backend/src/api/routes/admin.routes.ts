@@ -0,0 +1,603 @@
+import { zValidator } from "../middlewares/zodValidator.middleware";
+import adminMiddleware from "../middlewares/admin.middleware";
+import authMiddleware from "../middlewares/auth.middleware";
+import type { AppBindings } from "../../shared/types";
+import { WITHDRAWAL_ERROR_STATUS } from "./withdrawal.routes";
+import { RESTRICTION_ERROR_STATUS } from "./game.routes";
+import { BONUS_ERROR_STATUS } from "./bonus.routes";
+import { outboxStatusEnum, restrictionScopeEnum, transactionStatusEnum } from "@/core/database/schema";
+import {
+	WithdrawalError,
+	approveWithdrawal,
+	getWithdrawalQueue,
+	rejectWithdrawal,
+	startWithdrawalProcessing,
+} from "@/modules/gameplay/core/core-withdrawal.service";
+import {
+	RestrictionError,
+	getEffectiveBetRestrictions,
+	getRestrictionOverrides,
+	removeRestrictionOverride,
+	restrictionOverrideSchema,
+	setRestrictionOverride,
+} from "@/modules/gameplay/core/restrictions.service";
+import { BonusError, claimBonus, claimBonusSchema } from "@/modules/bonus/bonus.service";
+import { RECONCILIATION_JOB, reconcileBalances } from "@/modules/ledger/reconciliation.service";
+import { domainEvents } from "@/modules/events/event-bus";
+import { type OutboxErrorCode, OutboxError, getOutboxEvents, replayOutboxEvent } from "@/modules/outbox/outbox.service";
+import { getRecentJobRuns, runRecordedJob } from "@/shared/job-runs.service";
+import {
+	type CurrencyErrorCode,
+	CurrencyError,
+	currencyCodeSchema,
+	currencySchema,
+	fxRateSchema,
+	getCurrencies,
+	getFxRates,
+	getRevenueReport,
+	removeFxRate,
+	revenueReportQuerySchema,
+	setFxRate,
+	upsertCurrency,
+} from "@/modules/currency/currency.service";
+import {
+	type ConfigurationErrorCode,
+	ConfigurationError,
+	configurationManager,
+	operatorSettingsUpdateSchema,
+	settingsUpdateSchema,
+} from "@/shared/config";
+import { Hono } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { z } from "zod";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+
+const OUTBOX_ERROR_STATUS: Record<OutboxErrorCode, ContentfulStatusCode> = {
+	EVENT_NOT_FOUND: 404,
+	INVALID_STATUS: 409,
+};
+
+const CONFIGURATION_ERROR_STATUS: Record<ConfigurationErrorCode, ContentfulStatusCode> = {
+	INVALID_SETTINGS: 400,
+	VERSION_CONFLICT: 409,
+	VERSION_NOT_FOUND: 404,
+	OPERATOR_NOT_FOUND: 404,
+};
+
+const CURRENCY_ERROR_STATUS: Record<CurrencyErrorCode, ContentfulStatusCode> = {
+	INVALID_CURRENCY: 400,
+	CURRENCY_NOT_FOUND: 404,
+	CURRENCY_NOT_ALLOWED: 400,
+	CURRENCY_MISMATCH: 400,
+	INVALID_FX_RATE: 400,
+};
+
+const withdrawalParamSchema = z.object({ id: z.uuid() });
+const fxRateParamSchema = z.object({ base: currencyCodeSchema, quote: currencyCodeSchema });
+const restrictionOverrideParamSchema = z.object({
+	scope: z.enum(restrictionScopeEnum.enumValues),
+	scopeId: z.uuid(),
+});
+
+const adminRoutes = new Hono<{ Variables: AppBindings }>()
+	.use("*", authMiddleware)
+	.use("*", adminMiddleware)
+	.get(
+		"/withdrawals",
+		zValidator(
+			"query",
+			z.object({
+				status: z.enum(transactionStatusEnum.enumValues).optional(),
+				limit: z.coerce.number().int().min(1).max(100).optional(),
+				offset: z.coerce.number().int().min(0).optional(),
+			}),
+		),
+		async (c) => {
+			const currentUser = c.get("user");
+			const context = createOperationContext({
+				domain: "api",
+				operation: "getWithdrawalQueue",
+				userId: currentUser?.id,
+			});
+
+			try {
+				const { status, limit, offset } = c.req.valid("query");
+				return c.json(await getWithdrawalQueue(status, limit, offset));
+			} catch (error) {
+				appLogger.error("Error fetching withdrawal queue:", context, error as Error);
+				return c.json({ error: "Failed to fetch withdrawal queue" }, 500);
+			}
+		},
+	)
+	.post("/withdrawals/:id/process", zValidator("param", withdrawalParamSchema), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "processWithdrawal", userId: currentUser?.id });
+
+		try {
+			const { id } = c.req.valid("param");
+			return c.json(await startWithdrawalProcessing(id, currentUser.id));
+		} catch (error) {
+			if (error instanceof WithdrawalError) {
+				return c.json({ error: error.message, code: error.code }, WITHDRAWAL_ERROR_STATUS[error.code]);
+			}
+			appLogger.error("Error processing withdrawal:", context, error as Error);
+			return c.json({ error: "Failed to process withdrawal" }, 500);
+		}
+	})
+	.post("/withdrawals/:id/approve", zValidator("param", withdrawalParamSchema), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "approveWithdrawal", userId: currentUser?.id });
+
+		try {
+			const { id } = c.req.valid("param");
+			return c.json(await approveWithdrawal(id, currentUser.id));
+		} catch (error) {
+			if (error instanceof WithdrawalError) {
+				return c.json({ error: error.message, code: error.code }, WITHDRAWAL_ERROR_STATUS[error.code]);
+			}
+			appLogger.error("Error approving withdrawal:", context, error as Error);
+			return c.json({ error: "Failed to approve withdrawal" }, 500);
+		}
+	})
+	.post(
+		"/withdrawals/:id/reject",
+		zValidator("param", withdrawalParamSchema),
+		zValidator("json", z.object({ reason: z.string().trim().min(1).max(500) })),
+		async (c) => {
+			const currentUser = c.get("user");
+			const context = createOperationContext({ domain: "api", operation: "rejectWithdrawal", userId: currentUser?.id });
+
+			try {
+				const { id } = c.req.valid("param");
+				const { reason } = c.req.valid("json");
+				return c.json(await rejectWithdrawal(id, currentUser.id, reason));
+			} catch (error) {
+				if (error instanceof WithdrawalError) {
+					return c.json({ error: error.message, code: error.code }, WITHDRAWAL_ERROR_STATUS[error.code]);
+				}
+				appLogger.error("Error rejecting withdrawal:", context, error as Error);
+				return c.json({ error: "Failed to reject withdrawal" }, 500);
+			}
+		},
+	)
+	.get(
+		"/reconciliation",
+		zValidator("query", z.object({ userId: z.uuid().optional(), jackpots: z.stringbool().optional() })),
+		async (c) => {
+			const currentUser = c.get("user");
+			const context = createOperationContext({
+				domain: "api",
+				operation: "reconcileBalances",
+				userId: currentUser?.id,
+			});
+
+			try {
+				const { userId, jackpots } = c.req.valid("query");
+				return c.json(
+					await runRecordedJob(RECONCILIATION_JOB, () =>
+						reconcileBalances({ userId, includeJackpots: jackpots ?? false }),
+					),
+				);
+			} catch (error) {
+				appLogger.error("Error reconciling balances:", context, error as Error);
+				return c.json({ error: "Failed to reconcile balances" }, 500);
+			}
+		},
+	)
+	.get(
+		"/reconciliation/runs",
+		zValidator("query", z.object({ limit: z.coerce.number().int().min(1).max(100).optional() })),
+		async (c) => {
+			const currentUser = c.get("user");
+			const context = createOperationContext({
+				domain: "api",
+				operation: "getReconciliationRuns",
+				userId: currentUser?.id,
+			});
+
+			try {
+				const { limit } = c.req.valid("query");
+				return c.json(await getRecentJobRuns(RECONCILIATION_JOB, limit));
+			} catch (error) {
+				appLogger.error("Error fetching reconciliation runs:", context, error as Error);
+				return c.json({ error: "Failed to fetch reconciliation runs" }, 500);
+			}
+		},
+	)
+	.get(
+		"/outbox",
+		zValidator(
+			"query",
+			z.object({
+				status: z.enum(outboxStatusEnum.enumValues).optional(),
+				limit: z.coerce.number().int().min(1).max(100).optional(),
+				offset: z.coerce.number().int().min(0).optional(),
+			}),
+		),
+		async (c) => {
+			const currentUser = c.get("user");
+			const context = createOperationContext({ domain: "api", operation: "getOutboxEvents", userId: currentUser?.id });
+
+			try {
+				const { status, limit, offset } = c.req.valid("query");
+				return c.json(await getOutboxEvents(status, limit, offset));
+			} catch (error) {
+				appLogger.error("Error fetching outbox events:", context, error as Error);
+				return c.json({ error: "Failed to fetch outbox events" }, 500);
+			}
+		},
+	)
+	.post("/outbox/:id/replay", zValidator("param", z.object({ id: z.uuid() })), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "replayOutboxEvent", userId: currentUser?.id });
+
+		try {
+			const { id } = c.req.valid("param");
+			const event = await replayOutboxEvent(id);
+			appLogger.info("Outbox event replayed", context, { eventId: id, status: event.status, adminId: currentUser.id });
+			return c.json(event);
+		} catch (error) {
+			if (error instanceof OutboxError) {
+				return c.json({ error: error.message, code: error.code }, OUTBOX_ERROR_STATUS[error.code]);
+			}
+			appLogger.error("Error replaying outbox event:", context, error as Error);
+			return c.json({ error: "Failed to replay outbox event" }, 500);
+		}
+	})
+	.get(
+		"/restriction-overrides",
+		zValidator(
+			"query",
+			z.object({ scope: z.enum(restrictionScopeEnum.enumValues).optional(), scopeId: z.uuid().optional() }),
+		),
+		async (c) => {
+			const currentUser = c.get("user");
+			const context = createOperationContext({
+				domain: "api",
+				operation: "getRestrictionOverrides",
+				userId: currentUser?.id,
+			});
+
+			try {
+				return c.json(await getRestrictionOverrides(c.req.valid("query")));
+			} catch (error) {
+				appLogger.error("Error fetching restriction overrides:", context, error as Error);
+				return c.json({ error: "Failed to fetch restriction overrides" }, 500);
+			}
+		},
+	)
+	.put(
+		"/restriction-overrides/:scope/:scopeId",
+		zValidator("param", restrictionOverrideParamSchema),
+		zValidator("json", restrictionOverrideSchema),
+		async (c) => {
+			const currentUser = c.get("user");
+			const context = createOperationContext({
+				domain: "api",
+				operation: "setRestrictionOverride",
+				userId: currentUser?.id,
+			});
+
+			try {
+				const { scope, scopeId } = c.req.valid("param");
+				const override = await setRestrictionOverride(scope, scopeId, c.req.valid("json"), currentUser.id);
+				appLogger.info("Restriction override set", context, { scope, scopeId, adminId: currentUser.id });
+				return c.json(override);
+			} catch (error) {
+				if (error instanceof RestrictionError) {
+					return c.json({ error: error.message, code: error.code }, RESTRICTION_ERROR_STATUS[error.code]);
+				}
+				appLogger.error("Error setting restriction override:", context, error as Error);
+				return c.json({ error: "Failed to set restriction override" }, 500);
+			}
+		},
+	)
+	.delete("/restriction-overrides/:scope/:scopeId", zValidator("param", restrictionOverrideParamSchema), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({
+			domain: "api",
+			operation: "removeRestrictionOverride",
+			userId: currentUser?.id,
+		});
+
+		try {
+			const { scope, scopeId } = c.req.valid("param");
+			if (!(await removeRestrictionOverride(scope, scopeId))) {
+				return c.json({ error: "Restriction override not found" }, 404);
+			}
+			appLogger.info("Restriction override removed", context, { scope, scopeId, adminId: currentUser.id });
+			return c.json({ success: true });
+		} catch (error) {
+			appLogger.error("Error removing restriction override:", context, error as Error);
+			return c.json({ error: "Failed to remove restriction override" }, 500);
+		}
+	})
+	.post(
+		"/users/:id/bonuses",
+		zValidator("param", z.object({ id: z.uuid() })),
+		zValidator("json", claimBonusSchema),
+		async (c) => {
+			const currentUser = c.get("user");
+			const context = createOperationContext({ domain: "api", operation: "awardBonus", userId: currentUser?.id });
+
+			try {
+				const { id } = c.req.valid("param");
+				const { bonusId, ...options } = c.req.valid("json");
+				const userBonus = await claimBonus(id, bonusId, options);
+				appLogger.info("Bonus awarded", context, { targetUserId: id, bonusId, adminId: currentUser.id });
+				return c.json(userBonus, 201);
+			} catch (error) {
+				if (error instanceof BonusError) {
+					return c.json({ error: error.message, code: error.code }, BONUS_ERROR_STATUS[error.code]);
+				}
+				appLogger.error("Error awarding bonus:", context, error as Error);
+				return c.json({ error: "Failed to award bonus" }, 500);
+			}
+		},
+	)
+	.get(
+		"/users/:id/restrictions",
+		zValidator("param", z.object({ id: z.uuid() })),
+		zValidator("query", z.object({ gameId: z.uuid() })),
+		async (c) => {
+			const currentUser = c.get("user");
+			const context = createOperationContext({
+				domain: "api",
+				operation: "getUserRestrictions",
+				userId: currentUser?.id,
+			});
+
+			try {
+				const { id } = c.req.valid("param");
+				const { gameId } = c.req.valid("query");
+				return c.json(await getEffectiveBetRestrictions(id, gameId));
+			} catch (error) {
+				if (error instanceof RestrictionError) {
+					return c.json({ error: error.message, code: error.code }, RESTRICTION_ERROR_STATUS[error.code]);
+				}
+				appLogger.error("Error fetching user restrictions:", context, error as Error);
+				return c.json({ error: "Failed to fetch user restrictions" }, 500);
+			}
+		},
+	)
+	.get("/settings", async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "getSettings", userId: currentUser?.id });
+
+		try {
+			await configurationManager.refresh();
+			return c.json(configurationManager.getConfiguration());
+		} catch (error) {
+			appLogger.error("Error fetching settings:", context, error as Error);
+			return c.json({ error: "Failed to fetch settings" }, 500);
+		}
+	})
+	.put("/settings", zValidator("json", settingsUpdateSchema), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "updateSettings", userId: currentUser?.id });
+
+		try {
+			return c.json(await configurationManager.update(c.req.valid("json"), currentUser.id));
+		} catch (error) {
+			if (error instanceof ConfigurationError) {
+				return c.json({ error: error.message, code: error.code }, CONFIGURATION_ERROR_STATUS[error.code]);
+			}
+			appLogger.error("Error updating settings:", context, error as Error);
+			return c.json({ error: "Failed to update settings" }, 500);
+		}
+	})
+	.get(
+		"/settings/versions",
+		zValidator("query", z.object({ limit: z.coerce.number().int().min(1).max(100).optional() })),
+		async (c) => {
+			const currentUser = c.get("user");
+			const context = createOperationContext({
+				domain: "api",
+				operation: "getSettingsVersions",
+				userId: currentUser?.id,
+			});
+
+			try {
+				const { limit } = c.req.valid("query");
+				return c.json(await configurationManager.getVersions(limit));
+			} catch (error) {
+				appLogger.error("Error fetching settings versions:", context, error as Error);
+				return c.json({ error: "Failed to fetch settings versions" }, 500);
+			}
+		},
+	)
+	.get(
+		"/settings/diff",
+		zValidator(
+			"query",
+			z.object({ from: z.coerce.number().int().positive(), to: z.coerce.number().int().positive().optional() }),
+		),
+		async (c) => {
+			const currentUser = c.get("user");
+			const context = createOperationContext({ domain: "api", operation: "diffSettings", userId: currentUser?.id });
+
+			try {
+				const { from, to } = c.req.valid("query");
+				return c.json({ from, to: to ?? null, changes: await configurationManager.diffVersions(from, to) });
+			} catch (error) {
+				if (error instanceof ConfigurationError) {
+					return c.json({ error: error.message, code: error.code }, CONFIGURATION_ERROR_STATUS[error.code]);
+				}
+				appLogger.error("Error diffing settings:", context, error as Error);
+				return c.json({ error: "Failed to diff settings" }, 500);
+			}
+		},
+	)
+	.post(
+		"/settings/rollback",
+		zValidator(
+			"json",
+			z.object({ version: z.number().int().positive(), reason: z.string().trim().max(500).optional() }),
+		),
+		async (c) => {
+			const currentUser = c.get("user");
+			const context = createOperationContext({ domain: "api", operation: "rollbackSettings", userId: currentUser?.id });
+
+			try {
+				const { version, reason } = c.req.valid("json");
+				return c.json(await configurationManager.rollback(version, currentUser.id, reason));
+			} catch (error) {
+				if (error instanceof ConfigurationError) {
+					return c.json({ error: error.message, code: error.code }, CONFIGURATION_ERROR_STATUS[error.code]);
+				}
+				appLogger.error("Error rolling back settings:", context, error as Error);
+				return c.json({ error: "Failed to roll back settings" }, 500);
+			}
+		},
+	)
+	.get("/operators/:id/settings", zValidator("param", z.object({ id: z.uuid() })), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({
+			domain: "api",
+			operation: "getOperatorSettings",
+			userId: currentUser?.id,
+		});
+
+		try {
+			const { id } = c.req.valid("param");
+			return c.json(await configurationManager.getOperatorSettings(id));
+		} catch (error) {
+			appLogger.error("Error fetching operator settings:", context, error as Error);
+			return c.json({ error: "Failed to fetch operator settings" }, 500);
+		}
+	})
+	.put(
+		"/operators/:id/settings",
+		zValidator("param", z.object({ id: z.uuid() })),
+		zValidator("json", operatorSettingsUpdateSchema),
+		async (c) => {
+			const currentUser = c.get("user");
+			const context = createOperationContext({
+				domain: "api",
+				operation: "setOperatorSettings",
+				userId: currentUser?.id,
+			});
+
+			try {
+				const { id } = c.req.valid("param");
+				return c.json(await configurationManager.setOperatorSettings(id, c.req.valid("json"), currentUser.id));
+			} catch (error) {
+				if (error instanceof ConfigurationError) {
+					return c.json({ error: error.message, code: error.code }, CONFIGURATION_ERROR_STATUS[error.code]);
+				}
+				appLogger.error("Error setting operator settings:", context, error as Error);
+				return c.json({ error: "Failed to set operator settings" }, 500);
+			}
+		},
+	)
+	.delete("/operators/:id/settings", zValidator("param", z.object({ id: z.uuid() })), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({
+			domain: "api",
+			operation: "removeOperatorSettings",
+			userId: currentUser?.id,
+		});
+
+		try {
+			const { id } = c.req.valid("param");
+			if (!(await configurationManager.removeOperatorSettings(id))) {
+				return c.json({ error: "Operator has no settings overrides" }, 404);
+			}
+			appLogger.info("Operator settings removed", context, { operatorId: id, adminId: currentUser.id });
+			return c.json({ success: true });
+		} catch (error) {
+			appLogger.error("Error removing operator settings:", context, error as Error);
+			return c.json({ error: "Failed to remove operator settings" }, 500);
+		}
+	})
+	.get("/currencies", async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "getCurrencies", userId: currentUser?.id });
+
+		try {
+			return c.json({ currencies: await getCurrencies() });
+		} catch (error) {
+			appLogger.error("Error fetching currencies:", context, error as Error);
+			return c.json({ error: "Failed to fetch currencies" }, 500);
+		}
+	})
+	.put(
+		"/currencies/:code",
+		zValidator("param", z.object({ code: currencyCodeSchema })),
+		zValidator("json", currencySchema),
+		async (c) => {
+			const currentUser = c.get("user");
+			const context = createOperationContext({ domain: "api", operation: "upsertCurrency", userId: currentUser?.id });
+
+			try {
+				const { code } = c.req.valid("param");
+				return c.json(await upsertCurrency(code, c.req.valid("json"), currentUser.id));
+			} catch (error) {
+				if (error instanceof CurrencyError) {
+					return c.json({ error: error.message, code: error.code }, CURRENCY_ERROR_STATUS[error.code]);
+				}
+				appLogger.error("Error saving currency:", context, error as Error);
+				return c.json({ error: "Failed to save currency" }, 500);
+			}
+		},
+	)
+	.get("/fx-rates", async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "getFxRates", userId: currentUser?.id });
+
+		try {
+			return c.json({ rates: await getFxRates() });
+		} catch (error) {
+			appLogger.error("Error fetching FX rates:", context, error as Error);
+			return c.json({ error: "Failed to fetch FX rates" }, 500);
+		}
+	})
+	.put(
+		"/fx-rates/:base/:quote",
+		zValidator("param", fxRateParamSchema),
+		zValidator("json", fxRateSchema),
+		async (c) => {
+			const currentUser = c.get("user");
+			const context = createOperationContext({ domain: "api", operation: "setFxRate", userId: currentUser?.id });
+
+			try {
+				const { base, quote } = c.req.valid("param");
+				return c.json(await setFxRate(base, quote, c.req.valid("json").rate, currentUser.id));
+			} catch (error) {
+				if (error instanceof CurrencyError) {
+					return c.json({ error: error.message, code: error.code }, CURRENCY_ERROR_STATUS[error.code]);
+				}
+				appLogger.error("Error setting FX rate:", context, error as Error);
+				return c.json({ error: "Failed to set FX rate" }, 500);
+			}
+		},
+	)
+	.delete("/fx-rates/:base/:quote", zValidator("param", fxRateParamSchema), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "removeFxRate", userId: currentUser?.id });
+
+		try {
+			const { base, quote } = c.req.valid("param");
+			if (!(await removeFxRate(base, quote))) {
+				return c.json({ error: "FX rate not found" }, 404);
+			}
+			return c.json({ success: true });
+		} catch (error) {
+			appLogger.error("Error removing FX rate:", context, error as Error);
+			return c.json({ error: "Failed to remove FX rate" }, 500);
+		}
+	})
+	.get("/reports/revenue", zValidator("query", revenueReportQuerySchema), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "getRevenueReport", userId: currentUser?.id });
+
+		try {
+			return c.json(await getRevenueReport(c.req.valid("query")));
+		} catch (error) {
+			appLogger.error("Error building revenue report:", context, error as Error);
+			return c.json({ error: "Failed to build revenue report" }, 500);
+		}
+	})
+	.get("/events/metrics", (c) => c.json(domainEvents.getMetrics()));
+
+export default adminRoutes;
@@ -9,6 +9,7 @@ import { HTTPException } from "hono/http-exception";
 import { endTime, startTime } from "hono/timing";
 import { z } from "zod";
 import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+import { getActiveExclusion } from "@/modules/responsible-gambling/player-limits.service";
 
 const CREATING_BOTS = false;
 
@@ -97,6 +98,19 @@ const authRoutes = new Hono<{ Variables: AppBindings }>()
 				});
 			}
 
+			const exclusion = await getActiveExclusion(response.data.user.id);
+			if (exclusion) {
+				appLogger.info("Sign in refused during exclusion", context, { type: exclusion.type });
+				return c.json(
+					{
+						error: exclusion.type === "SELF_EXCLUSION" ? "Account is self-excluded" : "Account is cooling off",
+						code: exclusion.type === "SELF_EXCLUSION" ? "SELF_EXCLUDED" : "COOLING_OFF",
+						until: exclusion.endsAt,
+					},
+					403,
+				);
+			}
+
 			setCookie(c, "access_token", response.data?.session.access_token, {
 				...(response.data?.session.expires_at && {
 					expires: new Date(response.data.session.expires_at),
@@ -0,0 +1,96 @@
+import { zValidator } from "../middlewares/zodValidator.middleware";
+import authMiddleware from "../middlewares/auth.middleware";
+import type { AppBindings } from "../../shared/types";
+import { betRequestSchema, type BetErrorCode } from "@/modules/gameplay/core/core-bet.service";
+import { getBetDetails, processBet } from "@/modules/gameplay/orchestrators/bet.orchestrator";
+import { Hono } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { z } from "zod";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+
+/**
+ * Placing a bet on behalf of the authenticated user.
+ * userId and operatorId are always taken from the session, never from the body,
+ * and the outcome is generated server-side.
+ */
+const placeBetSchema = betRequestSchema.omit({ userId: true, operatorId: true });
+
+/**
+ * HTTP status for each bet error code; anything unmapped is a server error
+ */
+export const BET_ERROR_STATUS: Record<BetErrorCode, ContentfulStatusCode> = {
+	BET_TOO_LOW: 400,
+	BET_TOO_HIGH: 400,
+	INSUFFICIENT_BALANCE: 422,
+	DAILY_LOSS_LIMIT_EXCEEDED: 403,
+	SESSION_LOSS_LIMIT_EXCEEDED: 403,
+	SELF_EXCLUDED: 403,
+	COOLING_OFF: 403,
+	DEPOSIT_LIMIT_EXCEEDED: 403,
+	WAGER_LIMIT_EXCEEDED: 403,
+	PLAYER_LOSS_LIMIT_EXCEEDED: 403,
+	SESSION_TIME_LIMIT_REACHED: 403,
+	REALITY_CHECK_PENDING: 409,
+	GAME_SESSION_REQUIRED: 409,
+	GAME_SESSION_EXPIRED: 409,
+	USER_NOT_FOUND: 404,
+	GAME_NOT_FOUND: 404,
+	DUPLICATE_ROUND: 409,
+	ROUND_IN_PROGRESS: 409,
+	ROUND_MISMATCH: 409,
+	NO_FREE_SPINS: 422,
+	BONUS_MAX_BET_EXCEEDED: 400,
+	BONUS_GAME_RESTRICTED: 403,
+	BET_PROCESSING_FAILED: 500,
+};
+
+const betRoutes = new Hono<{ Variables: AppBindings }>()
+	.use("*", authMiddleware)
+	.post("/", zValidator("json", placeBetSchema), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "placeBet", userId: currentUser?.id });
+
+		if (!currentUser) {
+			return c.json({ error: "User not authenticated" }, 401);
+		}
+
+		const bet = c.req.valid("json");
+
+		const result = await processBet({
+			...bet,
+			userId: currentUser.id,
+			operatorId: currentUser.operatorId ?? undefined,
+		});
+
+		if (!result.success) {
+			const errorCode = result.errorCode ?? "BET_PROCESSING_FAILED";
+			appLogger.warn("Bet rejected", context, { gameId: bet.gameId, errorCode, error: result.error });
+			return c.json({ error: result.error ?? "Bet processing failed", code: errorCode }, BET_ERROR_STATUS[errorCode]);
+		}
+
+		return c.json(result, result.replayed ? 200 : 201);
+	})
+	.get("/:id", zValidator("param", z.object({ id: z.uuid() })), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "getBet", userId: currentUser?.id });
+
+		try {
+			if (!currentUser) {
+				return c.json({ error: "User not authenticated" }, 401);
+			}
+
+			const { id } = c.req.valid("param");
+			const bet = await getBetDetails(id, currentUser.id);
+
+			if (!bet) {
+				return c.json({ error: "Bet not found" }, 404);
+			}
+
+			return c.json(bet);
+		} catch (error) {
+			appLogger.error("Error fetching bet:", context, error as Error);
+			return c.json({ error: "Failed to fetch bet" }, 500);
+		}
+	});
+
+export default betRoutes;
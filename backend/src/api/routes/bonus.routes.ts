@@ -0,0 +1,84 @@
+import { zValidator } from "../middlewares/zodValidator.middleware";
+import authMiddleware from "../middlewares/auth.middleware";
+import type { AppBindings } from "../../shared/types";
+import {
+	type BonusErrorCode,
+	BonusError,
+	activateBonus,
+	cancelBonus,
+	getUserBonuses,
+} from "@/modules/bonus/bonus.service";
+import { Hono } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { z } from "zod";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+
+export const BONUS_ERROR_STATUS: Record<BonusErrorCode, ContentfulStatusCode> = {
+	BONUS_NOT_FOUND: 404,
+	BONUS_UNAVAILABLE: 409,
+	INVALID_TRANSITION: 409,
+	NOTHING_TO_AWARD: 422,
+	BONUS_MAX_BET_EXCEEDED: 400,
+	BONUS_GAME_RESTRICTED: 403,
+};
+
+const userBonusParamSchema = z.object({ id: z.uuid() });
+
+const bonusRoutes = new Hono<{ Variables: AppBindings }>()
+	.use("*", authMiddleware)
+	.get("/", zValidator("query", z.object({ all: z.stringbool().optional() })), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "getUserBonuses", userId: currentUser?.id });
+
+		try {
+			if (!currentUser) {
+				return c.json({ error: "User not authenticated" }, 401);
+			}
+
+			const { all } = c.req.valid("query");
+			return c.json(await getUserBonuses(currentUser.id, all ?? false));
+		} catch (error) {
+			appLogger.error("Error fetching bonuses:", context, error as Error);
+			return c.json({ error: "Failed to fetch bonuses" }, 500);
+		}
+	})
+	.post("/:id/activate", zValidator("param", userBonusParamSchema), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "activateBonus", userId: currentUser?.id });
+
+		try {
+			if (!currentUser) {
+				return c.json({ error: "User not authenticated" }, 401);
+			}
+
+			const { id } = c.req.valid("param");
+			return c.json(await activateBonus(currentUser.id, id));
+		} catch (error) {
+			if (error instanceof BonusError) {
+				return c.json({ error: error.message, code: error.code }, BONUS_ERROR_STATUS[error.code]);
+			}
+			appLogger.error("Error activating bonus:", context, error as Error);
+			return c.json({ error: "Failed to activate bonus" }, 500);
+		}
+	})
+	.post("/:id/cancel", zValidator("param", userBonusParamSchema), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "cancelBonus", userId: currentUser?.id });
+
+		try {
+			if (!currentUser) {
+				return c.json({ error: "User not authenticated" }, 401);
+			}
+
+			const { id } = c.req.valid("param");
+			return c.json(await cancelBonus(currentUser.id, id));
+		} catch (error) {
+			if (error instanceof BonusError) {
+				return c.json({ error: error.message, code: error.code }, BONUS_ERROR_STATUS[error.code]);
+			}
+			appLogger.error("Error cancelling bonus:", context, error as Error);
+			return c.json({ error: "Failed to cancel bonus" }, 500);
+		}
+	});
+
+export default bonusRoutes;
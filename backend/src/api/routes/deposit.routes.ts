@@ -0,0 +1,211 @@
+import { zValidator } from "../middlewares/zodValidator.middleware";
+import authMiddleware from "../middlewares/auth.middleware";
+import type { AppBindings } from "../../shared/types";
+import {
+	PaymentMethod,
+	getDepositPaymentProvider,
+	getUserDepositHistory,
+	getdepositTabletatus,
+	initiateDeposit,
+	processDepositConfirmation,
+	processDepositFailure,
+} from "@/modules/gameplay/orchestrators/deposit.orchestrator";
+import { validateDeposit } from "@/modules/gameplay/core/restrictions.service";
+import { currencyCodeSchema } from "@/modules/currency/currency.service";
+import {
+	checkWebhookRateLimit,
+	shouldBlockTransaction,
+	validateWebhookSource,
+} from "@/modules/gameplay/gameplay.security";
+import { type PaymentProviderErrorCode, PaymentProviderError } from "@/modules/payments/payment-provider";
+import { paymentProviders } from "@/modules/payments/payment-registry";
+import { Hono } from "hono";
+import { getConnInfo } from "hono/bun";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { z } from "zod";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+
+const depositRequestSchema = z.object({
+	amount: z.number().int().positive(),
+	paymentMethod: z.enum(PaymentMethod),
+	currency: currencyCodeSchema.optional(), // Defaults to the wallet's currency
+	bonusId: z.uuid().optional(), // DEPOSIT_MATCH offer to claim with this deposit
+	note: z.string().trim().max(500).optional(),
+});
+
+const PAYMENT_PROVIDER_ERROR_STATUS: Record<PaymentProviderErrorCode, ContentfulStatusCode> = {
+	PROVIDER_NOT_FOUND: 404,
+	INVALID_SIGNATURE: 401,
+	INVALID_PAYLOAD: 400,
+	PROVIDER_ERROR: 502,
+};
+
+const depositRoutes = new Hono<{ Variables: AppBindings }>()
+	.use("*", authMiddleware)
+	.post("/", zValidator("json", depositRequestSchema), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "initiateDeposit", userId: currentUser?.id });
+
+		try {
+			if (!currentUser) {
+				return c.json({ error: "User not authenticated" }, 401);
+			}
+
+			const { amount, paymentMethod, currency, bonusId, note } = c.req.valid("json");
+
+			const validation = await validateDeposit(currentUser, amount, paymentMethod);
+			if (!validation.valid) {
+				return c.json({ error: validation.reason, code: validation.error }, 400);
+			}
+
+			const securityCheck = await shouldBlockTransaction(currentUser.id, amount, "deposit");
+			if (securityCheck.blocked) {
+				return c.json({ error: securityCheck.reason ?? "Deposit blocked", code: "TRANSACTION_BLOCKED" }, 403);
+			}
+
+			const result = await initiateDeposit({
+				userId: currentUser.id,
+				operatorId: currentUser.operatorId,
+				amount,
+				bonusAmount: 0,
+				paymentMethod,
+				currency,
+				bonusId,
+				note,
+			});
+			if (!result.success) {
+				return c.json({ error: result.error ?? "Failed to initiate deposit" }, 400);
+			}
+
+			return c.json(
+				{
+					depositId: result.depositId,
+					status: result.status,
+					instructions: result.instructions,
+					referenceId: result.referenceId,
+				},
+				201,
+			);
+		} catch (error) {
+			appLogger.error("Error initiating deposit:", context, error as Error);
+			return c.json({ error: "Failed to initiate deposit" }, 500);
+		}
+	})
+	.get(
+		"/",
+		zValidator(
+			"query",
+			z.object({
+				limit: z.coerce.number().int().min(1).max(100).optional(),
+				offset: z.coerce.number().int().min(0).optional(),
+			}),
+		),
+		async (c) => {
+			const currentUser = c.get("user");
+			const context = createOperationContext({
+				domain: "api",
+				operation: "getDepositHistory",
+				userId: currentUser?.id,
+			});
+
+			try {
+				if (!currentUser) {
+					return c.json({ error: "User not authenticated" }, 401);
+				}
+
+				const { limit, offset } = c.req.valid("query");
+				const history = await getUserDepositHistory(currentUser.id, limit, offset);
+				if (history.error) {
+					return c.json({ error: "Failed to fetch deposits" }, 500);
+				}
+				return c.json({ deposits: history.deposits, total: Number(history.total) });
+			} catch (error) {
+				appLogger.error("Error fetching deposits:", context, error as Error);
+				return c.json({ error: "Failed to fetch deposits" }, 500);
+			}
+		},
+	)
+	.get("/:id", zValidator("param", z.object({ id: z.uuid() })), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "getDepositStatus", userId: currentUser?.id });
+
+		try {
+			if (!currentUser) {
+				return c.json({ error: "User not authenticated" }, 401);
+			}
+
+			const { id } = c.req.valid("param");
+			const result = await getdepositTabletatus(id);
+			// Other players' deposits are reported as missing
+			if (!result?.deposit || result.deposit.userId !== currentUser.id) {
+				return c.json({ error: "Deposit not found" }, 404);
+			}
+			return c.json({ deposit: result.deposit, status: result.status });
+		} catch (error) {
+			appLogger.error("Error fetching deposit:", context, error as Error);
+			return c.json({ error: "Failed to fetch deposit" }, 500);
+		}
+	})
+	/**
+	 * Payment provider webhook. Public: trusted through the IP allowlist and the provider's signature check,
+	 * and only for deposits that provider serves.
+	 */
+	.post(
+		"/webhook/:method",
+		zValidator("param", z.object({ method: z.enum(PaymentMethod) })),
+		zValidator("query", z.object({ operatorId: z.uuid().optional() })),
+		async (c) => {
+			const context = createOperationContext({ domain: "api", operation: "depositWebhook" });
+
+			try {
+				const sourceIP = getConnInfo(c).remote.address ?? "";
+
+				const rateLimit = checkWebhookRateLimit(sourceIP, "deposits/webhook");
+				if (!rateLimit.allowed) {
+					if (rateLimit.resetTime) {
+						c.header("Retry-After", String(Math.ceil((rateLimit.resetTime - Date.now()) / 1000)));
+					}
+					return c.json({ error: "Too many requests" }, 429);
+				}
+
+				const allowedIPs = (Bun.env.PAYMENT_WEBHOOK_ALLOWED_IPS ?? "")
+					.split(",")
+					.map((ip) => ip.trim())
+					.filter(Boolean);
+				if (!validateWebhookSource(sourceIP, allowedIPs)) {
+					appLogger.warn("Webhook rejected from unknown source", context, { sourceIP });
+					return c.json({ error: "Forbidden" }, 403);
+				}
+
+				const { method } = c.req.valid("param");
+				const { operatorId } = c.req.valid("query");
+				const provider = paymentProviders.get(method, operatorId);
+				const event = await provider.parseWebhook({ rawBody: await c.req.text(), headers: c.req.header() });
+
+				// Only the deposit's own provider may settle it: another operator's or method's secret must not
+				const depositId = event.type === "failed" ? event.depositId : event.confirmation.transactionId;
+				const depositProvider = await getDepositPaymentProvider(depositId);
+				if (depositProvider && depositProvider !== provider) {
+					appLogger.warn("Webhook provider does not serve the deposit", context, { depositId, method, operatorId });
+					return c.json({ error: "Webhook provider does not match the deposit", code: "PROVIDER_MISMATCH" }, 403);
+				}
+
+				if (event.type === "failed") {
+					const result = await processDepositFailure(event.depositId, event.reason);
+					return c.json(result, result.success ? 200 : 422);
+				}
+
+				const result = await processDepositConfirmation(event.confirmation);
+				return c.json(result, result.success ? 200 : 422);
+			} catch (error) {
+				if (error instanceof PaymentProviderError) {
+					appLogger.warn("Webhook rejected by payment provider", context, { code: error.code });
+					return c.json({ error: error.message, code: error.code }, PAYMENT_PROVIDER_ERROR_STATUS[error.code]);
+				}
+				appLogger.error("Error processing deposit webhook:", context, error as Error);
+				return c.json({ error: "Failed to process webhook" }, 500);
+			}
+		},
+	);
+
+export default depositRoutes;
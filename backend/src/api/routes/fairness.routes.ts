@@ -0,0 +1,74 @@
+import { zValidator } from "../middlewares/zodValidator.middleware";
+import authMiddleware from "../middlewares/auth.middleware";
+import type { AppBindings } from "../../shared/types";
+import { getFairnessState, rotateSeed, verifyRound } from "@/modules/gameplay/core/fairness.service";
+import { Hono } from "hono";
+import { z } from "zod";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+
+const fairnessRoutes = new Hono<{ Variables: AppBindings }>()
+	.use("*", authMiddleware)
+	.get("/", async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "getFairnessState", userId: currentUser?.id });
+
+		try {
+			if (!currentUser) {
+				return c.json({ error: "User not authenticated" }, 401);
+			}
+
+			return c.json(await getFairnessState(currentUser.id));
+		} catch (error) {
+			appLogger.error("Error fetching fairness state:", context, error as Error);
+			return c.json({ error: "Failed to fetch fairness state" }, 500);
+		}
+	})
+	.post(
+		"/rotate",
+		zValidator(
+			"json",
+			z.object({
+				clientSeed: z.string().trim().min(1).max(64).optional(),
+			}),
+		),
+		async (c) => {
+			const currentUser = c.get("user");
+			const context = createOperationContext({ domain: "api", operation: "rotateSeed", userId: currentUser?.id });
+
+			try {
+				if (!currentUser) {
+					return c.json({ error: "User not authenticated" }, 401);
+				}
+
+				const { clientSeed } = c.req.valid("json");
+				return c.json(await rotateSeed(currentUser.id, clientSeed));
+			} catch (error) {
+				appLogger.error("Error rotating fairness seed:", context, error as Error);
+				return c.json({ error: "Failed to rotate seed" }, 500);
+			}
+		},
+	)
+	.get("/verify", zValidator("query", z.object({ roundId: z.uuid() })), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "verifyRound", userId: currentUser?.id });
+
+		try {
+			if (!currentUser) {
+				return c.json({ error: "User not authenticated" }, 401);
+			}
+
+			const { roundId } = c.req.valid("query");
+			const verification = await verifyRound(currentUser.id, roundId);
+
+			if (!verification) {
+				return c.json({ error: "Round not found" }, 404);
+			}
+
+			return c.json(verification);
+		} catch (error) {
+			appLogger.error("Error verifying round:", context, error as Error);
+			return c.json({ error: "Failed to verify round" }, 500);
+		}
+	});
+
+export default fairnessRoutes;
@@ -1,11 +1,26 @@
 import { db } from "../../core/database/db";
 import { gameTable } from "../../core/database/schema/game";
 import authMiddleware from "../middlewares/auth.middleware";
+import { zValidator } from "../middlewares/zodValidator.middleware";
 import type { AppBindings, PaginatedResponse, PaginationMeta, PaginationParams } from "../../shared/types";
 import { and, count, eq } from "drizzle-orm";
 import { Hono } from "hono";
+import { z } from "zod";
 import { createPaginatedQuery, getPaginationParams } from "../utils/pagination";
 import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+import {
+	type RestrictionErrorCode,
+	RestrictionError,
+	getEffectiveBetRestrictions,
+} from "@/modules/gameplay/core/restrictions.service";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+
+export const RESTRICTION_ERROR_STATUS: Record<RestrictionErrorCode, ContentfulStatusCode> = {
+	USER_NOT_FOUND: 404,
+	GAME_NOT_FOUND: 404,
+	OPERATOR_NOT_FOUND: 404,
+	INVALID_OVERRIDE: 400,
+};
 
 const gameRoutes = new Hono<{ Variables: AppBindings }>()
 	.use("*", authMiddleware)
@@ -80,6 +95,28 @@ const gameRoutes = new Hono<{ Variables: AppBindings }>()
 	})
 	// *** FIX: Moved this route before /:id ***
 
+	// Stake and loss limits in force for the current user on a game, for rendering bet sliders
+	.get("/:id/limits", zValidator("param", z.object({ id: z.uuid() })), async (c) => {
+		const currentUser = c.get("user");
+		const { id: gameId } = c.req.valid("param");
+		const context = createOperationContext({
+			domain: "api",
+			operation: "getGameLimits",
+			userId: currentUser?.id,
+			gameId,
+		});
+
+		try {
+			return c.json(await getEffectiveBetRestrictions(currentUser.id, gameId));
+		} catch (error) {
+			if (error instanceof RestrictionError) {
+				return c.json({ error: error.message, code: error.code }, RESTRICTION_ERROR_STATUS[error.code]);
+			}
+			appLogger.error("Error fetching game limits:", context, error as Error);
+			return c.json({ error: "Failed to fetch game limits" }, 500);
+		}
+	})
+
 	// *** This dynamic route now comes AFTER /balances ***
 	.get("/:id", async (c) => {
 		const currentUser = c.get("user");
@@ -1,7 +1,35 @@
+import { zValidator } from "../middlewares/zodValidator.middleware";
 import authMiddleware from "../middlewares/auth.middleware";
 import type { AppBindings } from "../../shared/types";
 import { Hono } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { z } from "zod";
 import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+import { getFreeSpins } from "@/modules/gameplay/core/free-spins.service";
+import {
+	type PlayerLimitErrorCode,
+	PlayerLimitError,
+	getPlayerLimitHistory,
+	getPlayerLimits,
+	setPlayerLimit,
+	setPlayerLimitSchema,
+	startPlayerExclusion,
+} from "@/modules/responsible-gambling/player-limits.service";
+
+const PLAYER_LIMIT_ERROR_STATUS: Record<PlayerLimitErrorCode, ContentfulStatusCode> = {
+	INVALID_LIMIT: 400,
+	INVALID_DURATION: 400,
+};
+
+const coolOffSchema = z.object({ hours: z.number().int().positive() });
+const selfExclusionSchema = z.object({
+	days: z.number().int().positive().nullable(), // null excludes indefinitely
+	reason: z.string().trim().max(500).optional(),
+});
+const limitHistoryQuerySchema = z.object({
+	limit: z.coerce.number().int().min(1).max(200).optional(),
+	offset: z.coerce.number().int().min(0).optional(),
+});
 
 const meRoutes = new Hono<{ Variables: AppBindings }>()
 	.get("/test", async (c) => {
@@ -17,6 +45,100 @@ const meRoutes = new Hono<{ Variables: AppBindings }>()
 		const user = c.get("user");
 		appLogger.info("GET /me", createOperationContext({ domain: 'api', userId: user?.id, operation: '/me' }));
 		return c.json(user);
+	})
+	.get("/free-spins", async (c) => {
+		const user = c.get("user");
+		if (!user) {
+			return c.json({ error: "User not authenticated" }, 401);
+		}
+		const context = createOperationContext({ domain: "api", userId: user.id, operation: "/me/free-spins" });
+		try {
+			const grants = await getFreeSpins(user.id);
+			return c.json({
+				freeSpinsRemaining: grants.reduce((sum, grant) => sum + grant.spinsRemaining, 0),
+				grants,
+			});
+		} catch (error) {
+			appLogger.error("Error fetching free spins:", context, error as Error);
+			return c.json({ error: "Failed to fetch free spins" }, 500);
+		}
+	})
+	.get("/limits", async (c) => {
+		const user = c.get("user");
+		if (!user) {
+			return c.json({ error: "User not authenticated" }, 401);
+		}
+		const context = createOperationContext({ domain: "api", userId: user.id, operation: "/me/limits" });
+		try {
+			return c.json(await getPlayerLimits(user.id));
+		} catch (error) {
+			appLogger.error("Error fetching player limits:", context, error as Error);
+			return c.json({ error: "Failed to fetch limits" }, 500);
+		}
+	})
+	.put("/limits", zValidator("json", setPlayerLimitSchema), async (c) => {
+		const user = c.get("user");
+		if (!user) {
+			return c.json({ error: "User not authenticated" }, 401);
+		}
+		const context = createOperationContext({ domain: "api", userId: user.id, operation: "/me/limits" });
+		try {
+			return c.json(await setPlayerLimit(user.id, c.req.valid("json")));
+		} catch (error) {
+			if (error instanceof PlayerLimitError) {
+				return c.json({ error: error.message, code: error.code }, PLAYER_LIMIT_ERROR_STATUS[error.code]);
+			}
+			appLogger.error("Error setting player limit:", context, error as Error);
+			return c.json({ error: "Failed to set limit" }, 500);
+		}
+	})
+	.post("/limits/cool-off", zValidator("json", coolOffSchema), async (c) => {
+		const user = c.get("user");
+		if (!user) {
+			return c.json({ error: "User not authenticated" }, 401);
+		}
+		const context = createOperationContext({ domain: "api", userId: user.id, operation: "/me/limits/cool-off" });
+		try {
+			const { hours } = c.req.valid("json");
+			return c.json(await startPlayerExclusion(user.id, "COOL_OFF", hours), 201);
+		} catch (error) {
+			if (error instanceof PlayerLimitError) {
+				return c.json({ error: error.message, code: error.code }, PLAYER_LIMIT_ERROR_STATUS[error.code]);
+			}
+			appLogger.error("Error starting cool-off:", context, error as Error);
+			return c.json({ error: "Failed to start cool-off" }, 500);
+		}
+	})
+	.post("/limits/self-exclusion", zValidator("json", selfExclusionSchema), async (c) => {
+		const user = c.get("user");
+		if (!user) {
+			return c.json({ error: "User not authenticated" }, 401);
+		}
+		const context = createOperationContext({ domain: "api", userId: user.id, operation: "/me/limits/self-exclusion" });
+		try {
+			const { days, reason } = c.req.valid("json");
+			return c.json(await startPlayerExclusion(user.id, "SELF_EXCLUSION", days, reason), 201);
+		} catch (error) {
+			if (error instanceof PlayerLimitError) {
+				return c.json({ error: error.message, code: error.code }, PLAYER_LIMIT_ERROR_STATUS[error.code]);
+			}
+			appLogger.error("Error starting self-exclusion:", context, error as Error);
+			return c.json({ error: "Failed to start self-exclusion" }, 500);
+		}
+	})
+	.get("/limits/history", zValidator("query", limitHistoryQuerySchema), async (c) => {
+		const user = c.get("user");
+		if (!user) {
+			return c.json({ error: "User not authenticated" }, 401);
+		}
+		const context = createOperationContext({ domain: "api", userId: user.id, operation: "/me/limits/history" });
+		try {
+			const { limit, offset } = c.req.valid("query");
+			return c.json(await getPlayerLimitHistory(user.id, limit, offset));
+		} catch (error) {
+			appLogger.error("Error fetching player limit history:", context, error as Error);
+			return c.json({ error: "Failed to fetch limit history" }, 500);
+		}
 	});
 
 export default meRoutes;
@@ -0,0 +1,134 @@
+import { zValidator } from "../middlewares/zodValidator.middleware";
+import authMiddleware from "../middlewares/auth.middleware";
+import type { AppBindings } from "../../shared/types";
+import {
+	type GameSessionErrorCode,
+	GameSessionError,
+	acknowledgeRealityCheck,
+	endGameSession,
+	getActiveGameSession,
+	getGameSession,
+	startGameSession,
+} from "@/modules/gameplay/core/game-session.service";
+import { Hono } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { z } from "zod";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+
+const GAME_SESSION_ERROR_STATUS: Record<GameSessionErrorCode, ContentfulStatusCode> = {
+	SESSION_NOT_FOUND: 404,
+	SESSION_NOT_ACTIVE: 409,
+	GAME_NOT_FOUND: 404,
+	REALITY_CHECK_PENDING: 409,
+};
+
+const sessionParamSchema = z.object({ id: z.uuid() });
+
+const sessionRoutes = new Hono<{ Variables: AppBindings }>()
+	.use("*", authMiddleware)
+	.post("/", zValidator("json", z.object({ gameId: z.uuid() })), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "startGameSession", userId: currentUser?.id });
+
+		try {
+			if (!currentUser) {
+				return c.json({ error: "User not authenticated" }, 401);
+			}
+
+			const { gameId } = c.req.valid("json");
+			return c.json(await startGameSession(currentUser.id, gameId), 201);
+		} catch (error) {
+			if (error instanceof GameSessionError) {
+				return c.json({ error: error.message, code: error.code }, GAME_SESSION_ERROR_STATUS[error.code]);
+			}
+			appLogger.error("Error starting game session:", context, error as Error);
+			return c.json({ error: "Failed to start game session" }, 500);
+		}
+	})
+	.get("/active", async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({
+			domain: "api",
+			operation: "getActiveGameSession",
+			userId: currentUser?.id,
+		});
+
+		try {
+			if (!currentUser) {
+				return c.json({ error: "User not authenticated" }, 401);
+			}
+
+			const session = await getActiveGameSession(currentUser.id);
+			if (!session) {
+				return c.json({ error: "No active game session" }, 404);
+			}
+			return c.json(session);
+		} catch (error) {
+			appLogger.error("Error fetching active game session:", context, error as Error);
+			return c.json({ error: "Failed to fetch game session" }, 500);
+		}
+	})
+	.get("/:id", zValidator("param", sessionParamSchema), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "getGameSession", userId: currentUser?.id });
+
+		try {
+			if (!currentUser) {
+				return c.json({ error: "User not authenticated" }, 401);
+			}
+
+			const { id } = c.req.valid("param");
+			const session = await getGameSession(id, currentUser.id);
+			if (!session) {
+				return c.json({ error: "Game session not found" }, 404);
+			}
+			return c.json(session);
+		} catch (error) {
+			appLogger.error("Error fetching game session:", context, error as Error);
+			return c.json({ error: "Failed to fetch game session" }, 500);
+		}
+	})
+	.post("/:id/end", zValidator("param", sessionParamSchema), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "endGameSession", userId: currentUser?.id });
+
+		try {
+			if (!currentUser) {
+				return c.json({ error: "User not authenticated" }, 401);
+			}
+
+			const { id } = c.req.valid("param");
+			return c.json(await endGameSession(currentUser.id, id));
+		} catch (error) {
+			if (error instanceof GameSessionError) {
+				return c.json({ error: error.message, code: error.code }, GAME_SESSION_ERROR_STATUS[error.code]);
+			}
+			appLogger.error("Error ending game session:", context, error as Error);
+			return c.json({ error: "Failed to end game session" }, 500);
+		}
+	})
+	.post("/:id/reality-check/ack", zValidator("param", sessionParamSchema), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({
+			domain: "api",
+			operation: "acknowledgeRealityCheck",
+			userId: currentUser?.id,
+		});
+
+		try {
+			if (!currentUser) {
+				return c.json({ error: "User not authenticated" }, 401);
+			}
+
+			const { id } = c.req.valid("param");
+			return c.json(await acknowledgeRealityCheck(currentUser.id, id));
+		} catch (error) {
+			if (error instanceof GameSessionError) {
+				return c.json({ error: error.message, code: error.code }, GAME_SESSION_ERROR_STATUS[error.code]);
+			}
+			appLogger.error("Error acknowledging reality check:", context, error as Error);
+			return c.json({ error: "Failed to acknowledge reality check" }, 500);
+		}
+	});
+
+export default sessionRoutes;
@@ -0,0 +1,65 @@
+import { zValidator } from "../middlewares/zodValidator.middleware";
+import providerMiddleware from "../middlewares/provider.middleware";
+import type { AppBindings } from "../../shared/types";
+import { BET_ERROR_STATUS } from "./bet.routes";
+import {
+	type WalletErrorCode,
+	walletCreditSchema,
+	walletDebitSchema,
+	walletRollbackSchema,
+} from "@/modules/gameplay/core/core-wallet.service";
+import { credit, debit, endRound, rollback } from "@/modules/gameplay/orchestrators/wallet.orchestrator";
+import { Hono } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { z } from "zod";
+
+/**
+ * Seamless-wallet calls from the game provider. Every request is signed by the provider
+ * (see provider.middleware); player sessions are not accepted here.
+ */
+
+const WALLET_ERROR_STATUS: Record<WalletErrorCode, ContentfulStatusCode> = {
+	...BET_ERROR_STATUS,
+	ROUND_NOT_FOUND: 404,
+	ROUND_CLOSED: 409,
+	ROUND_ROLLED_BACK: 409,
+};
+
+const endRoundSchema = z.object({
+	userId: z.string().min(1),
+	roundId: z.uuid(),
+});
+
+const walletRoutes = new Hono<{ Variables: AppBindings }>()
+	.use("*", providerMiddleware)
+	.post("/debit", zValidator("json", walletDebitSchema), async (c) => {
+		const result = await debit(c.req.valid("json"));
+		if (!result.success) {
+			return c.json({ error: result.error, code: result.errorCode }, WALLET_ERROR_STATUS[result.errorCode]);
+		}
+		return c.json(result);
+	})
+	.post("/credit", zValidator("json", walletCreditSchema), async (c) => {
+		const result = await credit(c.req.valid("json"));
+		if (!result.success) {
+			return c.json({ error: result.error, code: result.errorCode }, WALLET_ERROR_STATUS[result.errorCode]);
+		}
+		return c.json(result);
+	})
+	.post("/rollback", zValidator("json", walletRollbackSchema), async (c) => {
+		const result = await rollback(c.req.valid("json"));
+		if (!result.success) {
+			return c.json({ error: result.error, code: result.errorCode }, WALLET_ERROR_STATUS[result.errorCode]);
+		}
+		return c.json(result);
+	})
+	.post("/end-round", zValidator("json", endRoundSchema), async (c) => {
+		const { userId, roundId } = c.req.valid("json");
+		const result = await endRound(userId, roundId);
+		if (!result.success) {
+			return c.json({ error: result.error, code: result.errorCode }, WALLET_ERROR_STATUS[result.errorCode]);
+		}
+		return c.json(result);
+	});
+
+export default walletRoutes;
@@ -0,0 +1,93 @@
+import { zValidator } from "../middlewares/zodValidator.middleware";
+import authMiddleware from "../middlewares/auth.middleware";
+import type { AppBindings } from "../../shared/types";
+import {
+	type WithdrawalErrorCode,
+	WithdrawalError,
+	getUserWithdrawals,
+	getWithdrawal,
+	requestWithdrawal,
+	withdrawalRequestSchema,
+} from "@/modules/gameplay/core/core-withdrawal.service";
+import { Hono } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { z } from "zod";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+
+export const WITHDRAWAL_ERROR_STATUS: Record<WithdrawalErrorCode, ContentfulStatusCode> = {
+	TRANSACTION_BLOCKED: 403,
+	WAGERING_OUTSTANDING: 409,
+	INSUFFICIENT_BALANCE: 400,
+	WITHDRAWAL_NOT_FOUND: 404,
+	INVALID_STATUS: 409,
+};
+
+const withdrawalRoutes = new Hono<{ Variables: AppBindings }>()
+	.use("*", authMiddleware)
+	.post("/", zValidator("json", withdrawalRequestSchema.omit({ userId: true })), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "requestWithdrawal", userId: currentUser?.id });
+
+		try {
+			if (!currentUser) {
+				return c.json({ error: "User not authenticated" }, 401);
+			}
+
+			const body = c.req.valid("json");
+			return c.json(await requestWithdrawal({ ...body, userId: currentUser.id }), 201);
+		} catch (error) {
+			if (error instanceof WithdrawalError) {
+				return c.json({ error: error.message, code: error.code }, WITHDRAWAL_ERROR_STATUS[error.code]);
+			}
+			appLogger.error("Error requesting withdrawal:", context, error as Error);
+			return c.json({ error: "Failed to request withdrawal" }, 500);
+		}
+	})
+	.get(
+		"/",
+		zValidator(
+			"query",
+			z.object({
+				limit: z.coerce.number().int().min(1).max(100).optional(),
+				offset: z.coerce.number().int().min(0).optional(),
+			}),
+		),
+		async (c) => {
+			const currentUser = c.get("user");
+			const context = createOperationContext({ domain: "api", operation: "getWithdrawals", userId: currentUser?.id });
+
+			try {
+				if (!currentUser) {
+					return c.json({ error: "User not authenticated" }, 401);
+				}
+
+				const { limit, offset } = c.req.valid("query");
+				return c.json(await getUserWithdrawals(currentUser.id, limit, offset));
+			} catch (error) {
+				appLogger.error("Error fetching withdrawals:", context, error as Error);
+				return c.json({ error: "Failed to fetch withdrawals" }, 500);
+			}
+		},
+	)
+	.get("/:id", zValidator("param", z.object({ id: z.uuid() })), async (c) => {
+		const currentUser = c.get("user");
+		const context = createOperationContext({ domain: "api", operation: "getWithdrawal", userId: currentUser?.id });
+
+		try {
+			if (!currentUser) {
+				return c.json({ error: "User not authenticated" }, 401);
+			}
+
+			const { id } = c.req.valid("param");
+			const withdrawal = await getWithdrawal(id, currentUser.id);
+			if (!withdrawal) {
+				return c.json({ error: "Withdrawal not found" }, 404);
+			}
+			return c.json(withdrawal);
+		} catch (error) {
+			appLogger.error("Error fetching withdrawal:", context, error as Error);
+			return c.json({ error: "Failed to fetch withdrawal" }, 500);
+		}
+	});
+
+export default withdrawalRoutes;
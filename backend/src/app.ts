@@ -9,10 +9,18 @@ import { timing } from "hono/timing";
 import cache, { initializeDataCache } from "./api/middlewares/cache.middleware";
 import errorHandler from "./api/middlewares/error.middleware";
 import swaggerApp from "./api/middlewares/swagger.middleware";
+import adminRoutes from "./api/routes/admin.routes";
 import authRoutes from "./api/routes/auth.routes";
+import betRoutes from "./api/routes/bet.routes";
+import bonusRoutes from "./api/routes/bonus.routes";
+import depositRoutes from "./api/routes/deposit.routes";
+import fairnessRoutes from "./api/routes/fairness.routes";
 import gameRoutes from "./api/routes/game.routes";
 import meRoutes from "./api/routes/me.routes";
+import sessionRoutes from "./api/routes/session.routes";
 import userRoutes from "./api/routes/user.routes";
+import walletRoutes from "./api/routes/wallet.routes";
+import withdrawalRoutes from "./api/routes/withdrawal.routes";
 import type { AppBindings } from "./shared/types";
 
 // type AuthContext = {
@@ -41,6 +49,14 @@ const app = new Hono<{ Variables: AppBindings }>()
 	.route("/me", meRoutes)
 	.route("/users", userRoutes)
 	.route("/games", gameRoutes)
+	.route("/bets", betRoutes)
+	.route("/sessions", sessionRoutes)
+	.route("/fairness", fairnessRoutes)
+	.route("/bonuses", bonusRoutes)
+	.route("/deposits", depositRoutes)
+	.route("/withdrawals", withdrawalRoutes)
+	.route("/wallet", walletRoutes)
+	.route("/admin", adminRoutes)
 	.onError(errorHandler);
 
 // Export the app TYPE
@@ -1,7 +1,14 @@
 /* eslint-disable @stylistic/indent */
+import type { Server } from "bun";
 import { z } from "zod";
 import { WebSocketRouter, createMessageSchema, publish } from "bun-ws-router/zod";
 import { getSessionFromToken } from "@/api/middlewares/auth-ws.middleware";
+import { getActiveExclusion } from "@/modules/responsible-gambling/player-limits.service";
+import {
+	type SessionNotice,
+	GameSessionError,
+	acknowledgeRealityCheck,
+} from "@/modules/gameplay/core/game-session.service";
 
 // Create factory
 const { messageSchema, ErrorMessage } = createMessageSchema(z);
@@ -29,6 +36,38 @@ const AdminActionMessage = messageSchema("ADMIN_ACTION", {
 const KickedMessage = messageSchema("KICKED", { reason: z.string() });
 const MutedMessage = messageSchema("MUTED", { reason: z.string() });
 
+// Game session messages: the server pushes reality checks and forced session ends, the client acknowledges checks
+export const RealityCheckMessage = messageSchema("REALITY_CHECK", {
+	gameSessionId: z.string(),
+	elapsedMinutes: z.number(),
+	totalWagered: z.number(),
+	totalWon: z.number(),
+	netResult: z.number(),
+});
+export const SessionEndedMessage = messageSchema("SESSION_ENDED", {
+	gameSessionId: z.string(),
+	reason: z.string(),
+	duration: z.number(),
+});
+const RealityCheckAckMessage = messageSchema("REALITY_CHECK_ACK", { gameSessionId: z.uuid() });
+const RealityCheckAckedMessage = messageSchema("REALITY_CHECK_ACKED", { gameSessionId: z.string() });
+
+let wsServer: Server<unknown> | null = null;
+
+/**
+ * Give the router the running server so messages can be published outside a connection handler
+ */
+export function attachWsServer(server: Server<unknown>) {
+	wsServer = server;
+}
+
+/**
+ * Publish a game session notice to every connection subscribed to the user's channel
+ */
+export function publishSessionNotice(userId: string, notice: SessionNotice) {
+	wsServer?.publish(`user:${userId}`, JSON.stringify({ ...notice, meta: { timestamp: Date.now() } }));
+}
+
 // User data interface
 export interface UserData extends Record<string, unknown> {
 	userId: string;
@@ -38,6 +77,13 @@ export interface UserData extends Record<string, unknown> {
 	token?: string;
 }
 
+// What the REALITY_CHECK_ACK handler reads from the router's message context
+interface RealityCheckAckContext {
+	ws: { data: UserData };
+	payload: { gameSessionId: string };
+	send(schema: unknown, data: Record<string, unknown>): void;
+}
+
 // Create router
 export const wsRouter = new WebSocketRouter<UserData>()
 	.onOpen(async (ctx) => {
@@ -63,6 +109,13 @@ export const wsRouter = new WebSocketRouter<UserData>()
 		}
 
 		const { user } = session;
+
+		// Self-excluded and cooling-off players cannot open a gameplay connection
+		const exclusion = await getActiveExclusion(user.id);
+		if (exclusion) {
+			ctx.ws.close(1008, exclusion.type === "SELF_EXCLUSION" ? "Account is self-excluded" : "Account is cooling off");
+			return;
+		}
 		// NOTE: assuming roles are in user metadata
 		const roles = (user.app_metadata.roles as Role[]) || [Role.USER];
 
@@ -89,6 +142,28 @@ export const wsRouter = new WebSocketRouter<UserData>()
 		});
 	})
 
+	.onMessage(RealityCheckAckMessage, async (ctx: RealityCheckAckContext) => {
+		if (!ctx.ws.data.authenticated) {
+			ctx.send(ErrorMessage, {
+				code: "AUTHENTICATION_FAILED",
+				message: "Not authenticated",
+				context: undefined,
+			});
+			return;
+		}
+
+		try {
+			const session = await acknowledgeRealityCheck(ctx.ws.data.userId, ctx.payload.gameSessionId);
+			ctx.send(RealityCheckAckedMessage, { gameSessionId: session.id });
+		} catch (error) {
+			ctx.send(ErrorMessage, {
+				code: error instanceof GameSessionError ? error.code : "INTERNAL_ERROR",
+				message: error instanceof Error ? error.message : "Failed to acknowledge reality check",
+				context: undefined,
+			});
+		}
+	})
+
 	.onMessage(AdminActionMessage, (ctx) => {
 		// Check authentication
 		if (!ctx.ws.data.authenticated) {
@@ -30,3 +30,7 @@ export const getUserWithBalance = async (userId: string) => {
 
 // Inferring the type of the result
 export type UserWithBalance = NonNullable<Awaited<ReturnType<typeof getUserWithBalance>>>;
+
+// A transaction handed to callbacks of db.transaction(), and anything a query can run on
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+export type DbExecutor = typeof db | DbTransaction;
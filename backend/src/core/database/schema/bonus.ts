@@ -2,7 +2,7 @@ import { expiresAtTimestamp, timestampColumns } from "./custom-types";
 import { sql } from "drizzle-orm";
 import { createSelectSchema, createUpdateSchema, createInsertSchema } from "drizzle-zod";
 import type { z } from "zod";
-import { pgTable, text, boolean, timestamp, integer, real, uniqueIndex, index, uuid } from "drizzle-orm/pg-core";
+import { pgTable, text, boolean, integer, real, uniqueIndex, index, uuid } from "drizzle-orm/pg-core";
 import { bonusStatusEnum, bonusTypeEnum } from "./enums";
 import { userTable } from "./user";
 import { customTimestamp } from "./custom";
@@ -81,3 +81,31 @@ export const UserBonusSelectSchema = createSelectSchema(userBonusTable);
 export const UserBonusInsertSchema = createInsertSchema(userBonusTable);
 export const UserBonusUpdateSchema = createUpdateSchema(userBonusTable);
 export type UserBonus = z.infer<typeof UserBonusSelectSchema>;
+
+export const freeSpinGrantTable = pgTable(
+	"free_spin_grants",
+	{
+		id: uuid("id").defaultRandom().primaryKey().notNull(),
+		createdAt: timestampColumns.createdAt,
+		updatedAt: timestampColumns.updatedAt,
+		userId: uuid("user_id")
+			.notNull()
+			.references(() => userTable.id, { onDelete: "cascade" }),
+		source: text("source").notNull(), // e.g. deposit_bonus, vip_level_up
+		status: bonusStatusEnum("status").default("ACTIVE").notNull(),
+		spinsGranted: integer("spins_granted").notNull(),
+		spinsRemaining: integer("spins_remaining").notNull(),
+		spinValue: integer("spin_value"), // Stake per spin in cents; the game's minimum bet when null
+		gameIds: text("game_ids").array(), // Eligible games; any game when null
+		totalWon: integer("total_won").default(0).notNull(),
+		expiresAt: expiresAtTimestamp,
+		completedAt: customTimestamp("completed_at", {
+			precision: 3,
+		}),
+	},
+	(t) => [index("free_spin_grants_user_status_idx").on(t.userId, t.status)],
+);
+
+export const FreeSpinGrantSelectSchema = createSelectSchema(freeSpinGrantTable);
+export const FreeSpinGrantInsertSchema = createInsertSchema(freeSpinGrantTable);
+export type FreeSpinGrant = z.infer<typeof FreeSpinGrantSelectSchema>;
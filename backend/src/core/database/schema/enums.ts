@@ -52,7 +52,33 @@ export const transactionTypeEnum = pgEnum("transaction_type_enum", [
 	"JACKPOT_CONFIG_CHANGE",
 	"HEALTH_CHECK",
 ]);
+export const ledgerAccountTypeEnum = pgEnum("ledger_account_type_enum", [
+	"PLAYER_REAL",
+	"PLAYER_BONUS",
+	"OPERATOR_FLOAT",
+	"JACKPOT_POOL",
+	"GGR",
+]);
+export const jobRunStatusEnum = pgEnum("job_run_status_enum", ["RUNNING", "SUCCEEDED", "FAILED"]);
+export const outboxStatusEnum = pgEnum("outbox_status_enum", ["PENDING", "DELIVERED", "DEAD"]);
+export const betRoundStatusEnum = pgEnum("bet_round_status_enum", ["OPEN", "CLOSED", "ROLLED_BACK"]);
+export const betRoundActionTypeEnum = pgEnum("bet_round_action_type_enum", ["DEBIT", "CREDIT", "ROLLBACK"]);
 export const jackpotTypeEnum = pgEnum("type_of_jackpot_enum", ["MINOR", "MAJOR", "GRAND"]);
 export const userStatusEnum = pgEnum("user_status_enum", ["ONLINE", "OFFLINE", "BANNED", "PENDING"]);
+export const playerLimitTypeEnum = pgEnum("player_limit_type_enum", ["DEPOSIT", "LOSS", "WAGER", "SESSION_TIME"]);
+export const playerLimitPeriodEnum = pgEnum("player_limit_period_enum", ["DAILY", "WEEKLY", "MONTHLY"]);
+export const playerExclusionTypeEnum = pgEnum("player_exclusion_type_enum", ["COOL_OFF", "SELF_EXCLUSION"]);
+export const playerLimitChangeEnum = pgEnum("player_limit_change_enum", [
+	"SET",
+	"DECREASED",
+	"INCREASE_SCHEDULED",
+	"INCREASE_APPLIED",
+	"REMOVAL_SCHEDULED",
+	"REMOVED",
+	"PENDING_CANCELLED",
+	"COOL_OFF_STARTED",
+	"SELF_EXCLUSION_STARTED",
+]);
+export const restrictionScopeEnum = pgEnum("restriction_scope_enum", ["OPERATOR", "USER"]);
 
 export const equalityOperatorEnum = pgEnum("equality_op", ["eq", "neq", "lt", "lte", "gt", "gte", "in"]);
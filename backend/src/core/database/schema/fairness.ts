@@ -0,0 +1,37 @@
+import { sql } from "drizzle-orm";
+import { boolean, index, integer, pgTable, text, uniqueIndex, uuid } from "drizzle-orm/pg-core";
+import { createSelectSchema } from "drizzle-zod";
+import type { z } from "zod";
+import { timestampColumns } from "./custom-types";
+import { customTimestamp } from "./custom";
+import { userTable } from "./user";
+
+/**
+ * Provably-fair seed pairs. Each user has one active pair; serverSeed stays secret
+ * (only its hash is shown) until the pair is rotated and revealedAt is set.
+ * nonce counts the rounds played with the pair.
+ */
+export const fairnessSeedTable = pgTable(
+	"fairness_seeds",
+	{
+		id: uuid("id").defaultRandom().primaryKey().notNull(),
+		createdAt: timestampColumns.createdAt,
+		updatedAt: timestampColumns.updatedAt,
+		userId: uuid("user_id")
+			.notNull()
+			.references(() => userTable.id),
+		serverSeed: text("server_seed").notNull(),
+		serverSeedHash: text("server_seed_hash").notNull(),
+		clientSeed: text("client_seed").notNull(),
+		nonce: integer("nonce").default(0).notNull(),
+		isActive: boolean("is_active").default(true).notNull(),
+		revealedAt: customTimestamp("revealed_at", { precision: 3 }),
+	},
+	(t) => [
+		index("fairness_seeds_user_id_index").on(t.userId),
+		uniqueIndex("fairness_seeds_active_user_unique").on(t.userId).where(sql`${t.isActive}`),
+	],
+);
+
+export const FairnessSeedSelectSchema = createSelectSchema(fairnessSeedTable);
+export type FairnessSeed = z.infer<typeof FairnessSeedSelectSchema>;
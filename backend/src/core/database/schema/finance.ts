@@ -6,12 +6,12 @@ import {
 	text,
 	boolean,
 	uuid,
-	timestamp,
 	integer,
 	jsonb,
 	unique,
 	index,
 	uniqueIndex,
+	doublePrecision,
 } from "drizzle-orm/pg-core";
 import { transactionStatusEnum, transactionTypeEnum } from "./enums";
 import { userTable } from "./user";
@@ -32,6 +32,7 @@ export const transactionLogTable = pgTable(
 		type: transactionTypeEnum("type").notNull(),
 		typeDescription: text("type_description"),
 		status: transactionStatusEnum("status").default("COMPLETED").notNull(),
+		currency: text("currency").default("USD").notNull(), // The wallet's currency; amounts are in its minor units
 		wagerAmount: integer("wager_amount"),
 		realBalanceBefore: integer("real_balance_before").notNull(),
 		realBalanceAfter: integer("real_balance_after").notNull(),
@@ -58,6 +59,7 @@ export const transactionLogTable = pgTable(
 		index("transaction_log_type_index").on(t.type),
 		index("transaction_log_status_index").on(t.status),
 		index("transaction_log_game_id_index").on(t.gameId),
+		index("transaction_log_currency_index").on(t.currency, t.createdAt),
 	],
 );
 
@@ -80,6 +82,7 @@ export const depositTable = pgTable(
 			.references(() => userTable.id),
 		transactionId: uuid("transaction_id").references(() => transactionLogTable.id),
 		amount: integer("amount").notNull(),
+		currency: text("currency").default("USD").notNull(),
 		status: transactionStatusEnum("status").default("PENDING").notNull(),
 		paymentMethod: text("payment_method"),
 		referenceId: uuid("reference_id"),
@@ -115,6 +118,7 @@ export const withdrawalTable = pgTable(
 			.references(() => userTable.id),
 		transactionId: uuid("transaction_id").references(() => transactionLogTable.id),
 		amount: integer("amount").notNull(),
+		currency: text("currency").default("USD").notNull(),
 		status: transactionStatusEnum("status").default("PENDING").notNull(),
 		payoutMethod: text("payout_method"),
 		note: text("note"),
@@ -132,3 +136,46 @@ export const WithdrawalSelectSchema = createSelectSchema(withdrawalTable);
 export const WithdrawalInsertSchema = createInsertSchema(withdrawalTable);
 export const WithdrawalUpdateSchema = createUpdateSchema(withdrawalTable);
 export type Withdrawal = z.infer<typeof WithdrawalSelectSchema>;
+
+/**
+ * Currencies wallets can be held in. Amounts everywhere are integers in the currency's minor units,
+ * so minorUnits is what turns them into display values and lets FX conversion cross scales.
+ */
+export const currencyTable = pgTable("currencies", {
+	code: text("code").primaryKey().notNull(), // ISO 4217, e.g. "USD"
+	createdAt: timestampColumns.createdAt,
+	updatedAt: timestampColumns.updatedAt,
+	name: text("name").notNull(),
+	symbol: text("symbol"),
+	minorUnits: integer("minor_units").default(2).notNull(),
+	isActive: boolean("is_active").default(true).notNull(),
+	updatedBy: text("updated_by").default("system").notNull(),
+});
+
+export const CurrencySelectSchema = createSelectSchema(currencyTable);
+export type Currency = z.infer<typeof CurrencySelectSchema>;
+
+/**
+ * FX rates used to report across currencies: one unit of baseCurrency buys rate units of
+ * quoteCurrency. A pair listed one way is also used inverted.
+ */
+export const fxRateTable = pgTable(
+	"fx_rates",
+	{
+		id: uuid("id").defaultRandom().primaryKey().notNull(),
+		createdAt: timestampColumns.createdAt,
+		updatedAt: timestampColumns.updatedAt,
+		baseCurrency: text("base_currency")
+			.notNull()
+			.references(() => currencyTable.code),
+		quoteCurrency: text("quote_currency")
+			.notNull()
+			.references(() => currencyTable.code),
+		rate: doublePrecision("rate").notNull(),
+		updatedBy: text("updated_by").default("system").notNull(),
+	},
+	(t) => [unique("fx_rates_pair_unique").on(t.baseCurrency, t.quoteCurrency)],
+);
+
+export const FxRateSelectSchema = createSelectSchema(fxRateTable);
+export type FxRateRow = z.infer<typeof FxRateSelectSchema>;
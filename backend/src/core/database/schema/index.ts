@@ -2,8 +2,12 @@ export * from "./enums";
 export * from "./user";
 export * from "./game";
 export * from "./finance";
+export * from "./ledger";
+export * from "./limits";
 export * from "./bonus";
 export * from "./jackpot";
 export * from "./affiliate";
 export * from "./platform";
+export * from "./fairness";
+export * from "./system";
 export * from "./relations";
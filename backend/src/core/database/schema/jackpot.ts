@@ -1,4 +1,4 @@
-import { integer, pgTable, real, text, uuid, timestamp, index } from "drizzle-orm/pg-core";
+import { integer, pgTable, real, text, uuid, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema, createUpdateSchema } from "drizzle-zod";
 import type { z } from "zod";
 import { customTimestamp } from "./custom";
@@ -172,6 +172,11 @@ export const jackpotContributionHistoryTable = pgTable(
 			jackpotTypeIdx: index("idx_jackpot_contribution_history_jackpot_type").on(table.jackpotType),
 			gameIdIdx: index("idx_jackpot_contribution_history_game_id").on(table.gameId),
 			betTransactionIdIdx: index("idx_jackpot_contribution_history_bet_transaction_id").on(table.betTransactionId),
+			// A bet feeds each pool at most once, however often its event is delivered
+			betTransactionTypeUnique: uniqueIndex("uq_jackpot_contribution_history_bet_type").on(
+				table.betTransactionId,
+				table.jackpotType,
+			),
 			createdAtIdx: index("idx_jackpot_contribution_history_created_at").on(table.createdAt),
 
 			// Composite indexes for common queries
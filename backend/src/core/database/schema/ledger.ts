@@ -0,0 +1,69 @@
+import { bigserial, index, integer, jsonb, pgTable, text, uniqueIndex, uuid } from "drizzle-orm/pg-core";
+import { createSelectSchema } from "drizzle-zod";
+import type { z } from "zod";
+import { timestampColumns } from "./custom-types";
+import { ledgerAccountTypeEnum, transactionTypeEnum } from "./enums";
+
+/**
+ * Double-entry ledger
+ * Accounts are identified by type and owner: the user id for player accounts, the operator id (or
+ * "platform") for float and GGR, and the jackpot type for pools. Every journal's entries sum to zero;
+ * a positive amount credits the account. user_balances is a projection of the player accounts.
+ */
+export const ledgerAccountTable = pgTable(
+	"ledger_accounts",
+	{
+		id: uuid("id").defaultRandom().primaryKey().notNull(),
+		createdAt: timestampColumns.createdAt,
+		type: ledgerAccountTypeEnum("type").notNull(),
+		ownerId: text("owner_id").notNull(),
+	},
+	(t) => [uniqueIndex("ledger_accounts_type_owner_unique").on(t.type, t.ownerId)],
+);
+
+export const ledgerJournalTable = pgTable(
+	"ledger_journals",
+	{
+		id: uuid("id").defaultRandom().primaryKey().notNull(),
+		createdAt: timestampColumns.createdAt,
+		sequence: bigserial("sequence", { mode: "number" }).notNull(), // Posting order; createdAt is shared within a transaction
+		type: transactionTypeEnum("type").notNull(),
+		userId: uuid("user_id"),
+		relatedId: text("related_id"), // Round, deposit, withdrawal, bonus... the journal came from
+		description: text("description"),
+		metadata: jsonb("metadata"),
+		// user_balances as stored right after the journal was posted, for player journals
+		realBalanceAfter: integer("real_balance_after"),
+		bonusBalanceAfter: integer("bonus_balance_after"),
+	},
+	(t) => [
+		index("ledger_journals_user_id_index").on(t.userId, t.sequence),
+		index("ledger_journals_related_id_index").on(t.relatedId),
+	],
+);
+
+export const ledgerEntryTable = pgTable(
+	"ledger_entries",
+	{
+		id: uuid("id").defaultRandom().primaryKey().notNull(),
+		createdAt: timestampColumns.createdAt,
+		journalId: uuid("journal_id")
+			.notNull()
+			.references(() => ledgerJournalTable.id),
+		accountId: uuid("account_id")
+			.notNull()
+			.references(() => ledgerAccountTable.id),
+		amount: integer("amount").notNull(), // Signed cents, positive = credit, never zero
+	},
+	(t) => [
+		index("ledger_entries_journal_id_index").on(t.journalId),
+		index("ledger_entries_account_id_index").on(t.accountId),
+	],
+);
+
+export const LedgerAccountSelectSchema = createSelectSchema(ledgerAccountTable);
+export const LedgerJournalSelectSchema = createSelectSchema(ledgerJournalTable);
+export const LedgerEntrySelectSchema = createSelectSchema(ledgerEntryTable);
+export type LedgerAccount = z.infer<typeof LedgerAccountSelectSchema>;
+export type LedgerJournal = z.infer<typeof LedgerJournalSelectSchema>;
+export type LedgerEntry = z.infer<typeof LedgerEntrySelectSchema>;
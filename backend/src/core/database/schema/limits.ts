@@ -0,0 +1,113 @@
+import { index, integer, pgTable, text, unique, uuid } from "drizzle-orm/pg-core";
+import { createSelectSchema } from "drizzle-zod";
+import type { z } from "zod";
+import { customTimestamp } from "./custom";
+import { timestampColumns } from "./custom-types";
+import {
+	playerExclusionTypeEnum,
+	playerLimitChangeEnum,
+	playerLimitPeriodEnum,
+	playerLimitTypeEnum,
+	restrictionScopeEnum,
+} from "./enums";
+import { userTable } from "./user";
+
+/**
+ * Responsible gambling
+ * Limits the player sets on themselves. Amounts are cents, except SESSION_TIME which is minutes and has no period.
+ * A decrease replaces amount straight away; an increase or removal waits in pendingAmount until
+ * pendingEffectiveAt (a null pendingAmount with a date is a removal).
+ */
+export const playerLimitTable = pgTable(
+	"player_limits",
+	{
+		id: uuid("id").defaultRandom().primaryKey().notNull(),
+		createdAt: timestampColumns.createdAt,
+		updatedAt: timestampColumns.updatedAt,
+		userId: uuid("user_id")
+			.notNull()
+			.references(() => userTable.id),
+		type: playerLimitTypeEnum("type").notNull(),
+		period: playerLimitPeriodEnum("period"),
+		amount: integer("amount").notNull(),
+		pendingAmount: integer("pending_amount"),
+		pendingEffectiveAt: customTimestamp("pending_effective_at", { precision: 3 }),
+	},
+	(t) => [unique("player_limits_user_type_period_unique").on(t.userId, t.type, t.period).nullsNotDistinct()],
+);
+
+export const PlayerLimitSelectSchema = createSelectSchema(playerLimitTable);
+export type PlayerLimit = z.infer<typeof PlayerLimitSelectSchema>;
+
+/**
+ * Cool-off and self-exclusion periods. They cannot be shortened; endsAt is null for an indefinite self-exclusion.
+ */
+export const playerExclusionTable = pgTable(
+	"player_exclusions",
+	{
+		id: uuid("id").defaultRandom().primaryKey().notNull(),
+		createdAt: timestampColumns.createdAt,
+		userId: uuid("user_id")
+			.notNull()
+			.references(() => userTable.id),
+		type: playerExclusionTypeEnum("type").notNull(),
+		startsAt: customTimestamp("starts_at", { precision: 3 }).notNull(),
+		endsAt: customTimestamp("ends_at", { precision: 3 }),
+		reason: text("reason"),
+	},
+	(t) => [index("player_exclusions_user_id_index").on(t.userId)],
+);
+
+export const PlayerExclusionSelectSchema = createSelectSchema(playerExclusionTable);
+export type PlayerExclusion = z.infer<typeof PlayerExclusionSelectSchema>;
+
+/**
+ * Append-only audit trail of every limit and exclusion change
+ */
+export const playerLimitHistoryTable = pgTable(
+	"player_limit_history",
+	{
+		id: uuid("id").defaultRandom().primaryKey().notNull(),
+		createdAt: timestampColumns.createdAt,
+		userId: uuid("user_id")
+			.notNull()
+			.references(() => userTable.id),
+		action: playerLimitChangeEnum("action").notNull(),
+		type: playerLimitTypeEnum("type"),
+		period: playerLimitPeriodEnum("period"),
+		exclusionType: playerExclusionTypeEnum("exclusion_type"),
+		previousAmount: integer("previous_amount"),
+		newAmount: integer("new_amount"),
+		effectiveAt: customTimestamp("effective_at", { precision: 3 }),
+		changedBy: uuid("changed_by"),
+	},
+	(t) => [index("player_limit_history_user_created_index").on(t.userId, t.createdAt)],
+);
+
+export const PlayerLimitHistorySelectSchema = createSelectSchema(playerLimitHistoryTable);
+export type PlayerLimitHistory = z.infer<typeof PlayerLimitHistorySelectSchema>;
+
+/**
+ * Admin overrides of the platform bet restrictions for an operator or a single user (scopeId is the
+ * operator or user id). Amounts are cents; a null column keeps the value from the layer below.
+ */
+export const betRestrictionOverrideTable = pgTable(
+	"bet_restriction_overrides",
+	{
+		id: uuid("id").defaultRandom().primaryKey().notNull(),
+		createdAt: timestampColumns.createdAt,
+		updatedAt: timestampColumns.updatedAt,
+		scope: restrictionScopeEnum("scope").notNull(),
+		scopeId: uuid("scope_id").notNull(),
+		minBetAmount: integer("min_bet_amount"),
+		maxBetAmount: integer("max_bet_amount"),
+		maxDailyLoss: integer("max_daily_loss"),
+		maxSessionLoss: integer("max_session_loss"),
+		reason: text("reason"),
+		updatedBy: uuid("updated_by"),
+	},
+	(t) => [unique("bet_restriction_overrides_scope_unique").on(t.scope, t.scopeId)],
+);
+
+export const BetRestrictionOverrideSelectSchema = createSelectSchema(betRestrictionOverrideTable);
+export type BetRestrictionOverride = z.infer<typeof BetRestrictionOverrideSelectSchema>;
@@ -1,12 +1,14 @@
-import { boolean, integer, jsonb, pgTable, text, uuid } from "drizzle-orm/pg-core";
+import { boolean, integer, jsonb, pgTable, text, unique, uuid } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema, createUpdateSchema } from "drizzle-zod";
 import type { z } from "zod";
 import { timestampColumns } from "./custom-types";
+import { operatorTable } from "./game";
 
 export const platformSettingTable = pgTable("platform_settings", {
 	id: uuid("id").defaultRandom().primaryKey().notNull(),
 	name: text("name").default("Default Settings").notNull(),
 	default: boolean("default").default(true).notNull(),
+	version: integer("version").default(1).notNull(), // Bumped on every change; matches the latest platform_setting_versions row
 	referralCodeCount: integer("referral_code_count").default(5).notNull(),
 	depositWrMultiplier: integer("deposit_wr_multiplier").default(1).notNull(),
 	bonusWrMultiplier: integer("bonus_wr_multiplier").default(30).notNull(),
@@ -36,8 +38,39 @@ export const platformSettingTable = pgTable("platform_settings", {
 			defaultWageringMultiplier: 30,
 			maxBonusBetPercentage: 0.1,
 			bonusExpiryDays: 30,
+			gameContributions: { SLOTS: 100, FISH: 100, TABLE: 10, LIVE: 10, OTHER: 50 },
 		})
 		.notNull(), // wagering rules configuration
+	depositConfig: jsonb("deposit_config")
+		.default({
+			partialPayment: "CREDIT_RECEIVED",
+			overpayment: "CREDIT_ACTUAL",
+			pendingTtlMinutes: { CASHAPP: 60, INSTORE_CASH: 1440, INSTORE_CARD: 1440 },
+			defaultPendingTtlMinutes: 1440,
+			minDepositAmount: 10,
+			maxDepositAmount: 1000000,
+		})
+		.notNull(), // deposit amount bounds and how confirmations that differ from the requested amount are handled
+	sessionConfig: jsonb("session_config")
+		.default({
+			idleTimeoutMinutes: 30,
+			abandonAfterMinutes: 10,
+			realityCheckIntervalMinutes: 60,
+			maxSessionMinutes: 240,
+		})
+		.notNull(), // when idle game sessions are closed, reality checks and the longest a session may run
+	responsibleGamblingConfig: jsonb("responsible_gambling_config")
+		.default({
+			increaseDelayHours: 24,
+			minCoolOffHours: 24,
+			maxCoolOffDays: 42,
+			minSelfExclusionDays: 180,
+			sessionBreakMinutes: 15,
+		})
+		.notNull(), // delays and bounds for player-set limits and exclusions
+	currencyConfig: jsonb("currency_config")
+		.default({ defaultCurrency: "USD", allowedCurrencies: ["USD"], reportingCurrency: "USD" })
+		.notNull(), // currencies players may hold wallets in, and the one reports are converted into
 	systemLimits: jsonb("system_limits")
 		.default({
 			maxBetAmount: 100000,
@@ -57,3 +90,48 @@ export const PlatformSettingUpdateSchema = createUpdateSchema(platformSettingTab
 export type PlatformSetting = z.infer<typeof PlatformSettingSelectSchema>;
 export type PlatformSettingInsert = typeof platformSettingTable.$inferInsert;
 export type PlatformSettingSelect = typeof platformSettingTable.$inferSelect & PlatformSetting;
+
+/**
+ * Immutable history of platform settings: every change, including a rollback, appends the full
+ * settings as a new version. Rows are never updated or deleted.
+ */
+export const platformSettingVersionTable = pgTable(
+	"platform_setting_versions",
+	{
+		id: uuid("id").defaultRandom().primaryKey().notNull(),
+		createdAt: timestampColumns.createdAt,
+		settingId: uuid("setting_id")
+			.notNull()
+			.references(() => platformSettingTable.id),
+		version: integer("version").notNull(),
+		settings: jsonb("settings").notNull(), // Every setting column except id, version and timestamps
+		changedBy: uuid("changed_by"), // null for the version written when the settings were first created
+		reason: text("reason"),
+		restoredFromVersion: integer("restored_from_version"), // Set when the version is a rollback
+	},
+	(t) => [unique("platform_setting_versions_setting_version_unique").on(t.settingId, t.version)],
+);
+
+export const PlatformSettingVersionSelectSchema = createSelectSchema(platformSettingVersionTable);
+export type PlatformSettingVersion = z.infer<typeof PlatformSettingVersionSelectSchema>;
+
+/**
+ * Settings an operator overrides. overrides holds only the fields that differ from the default
+ * platform settings; jsonb settings are merged key by key, so an operator can change one jackpot
+ * rate without restating the rest.
+ */
+export const operatorSettingTable = pgTable("operator_settings", {
+	id: uuid("id").defaultRandom().primaryKey().notNull(),
+	createdAt: timestampColumns.createdAt,
+	updatedAt: timestampColumns.updatedAt,
+	operatorId: uuid("operator_id")
+		.notNull()
+		.unique()
+		.references(() => operatorTable.id),
+	overrides: jsonb("overrides").default({}).notNull(),
+	version: integer("version").default(1).notNull(),
+	updatedBy: uuid("updated_by"),
+});
+
+export const OperatorSettingSelectSchema = createSelectSchema(operatorSettingTable);
+export type OperatorSetting = z.infer<typeof OperatorSettingSelectSchema>;
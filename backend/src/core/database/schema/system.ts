@@ -0,0 +1,73 @@
+import { sql } from "drizzle-orm";
+import { index, integer, jsonb, pgTable, text, uniqueIndex, uuid } from "drizzle-orm/pg-core";
+import { timestampColumns } from "./custom-types";
+import { createSelectSchema } from "drizzle-zod";
+import type { z } from "zod";
+import { customTimestamp } from "./custom";
+import { jobRunStatusEnum, outboxStatusEnum } from "./enums";
+
+/**
+ * One row per execution of a background job, with how many records it touched and its summary or error
+ */
+export const jobRunTable = pgTable(
+	"job_runs",
+	{
+		id: uuid("id").defaultRandom().primaryKey().notNull(),
+		jobName: text("job_name").notNull(),
+		status: jobRunStatusEnum("status").default("RUNNING").notNull(),
+		startedAt: customTimestamp("started_at", { precision: 3 }).default(sql`now()`).notNull(),
+		finishedAt: customTimestamp("finished_at", { precision: 3 }),
+		processed: integer("processed").default(0).notNull(),
+		result: jsonb("result"),
+		error: text("error"),
+	},
+	(t) => [index("job_runs_job_name_started_at_index").on(t.jobName, t.startedAt)],
+);
+
+export const JobRunSelectSchema = createSelectSchema(jobRunTable);
+export type JobRun = z.infer<typeof JobRunSelectSchema>;
+
+/**
+ * Side-effects of a committed change, written in the same transaction and delivered by the outbox
+ * dispatcher. results records each handler that has already succeeded so a retry skips it.
+ */
+export const outboxEventTable = pgTable(
+	"outbox_events",
+	{
+		id: uuid("id").defaultRandom().primaryKey().notNull(),
+		createdAt: timestampColumns.createdAt,
+		updatedAt: timestampColumns.updatedAt,
+		eventType: text("event_type").notNull(),
+		aggregateId: text("aggregate_id"), // Round or deposit the event belongs to
+		userId: uuid("user_id"),
+		payload: jsonb("payload").notNull(),
+		results: jsonb("results").default({}).notNull(),
+		status: outboxStatusEnum("status").default("PENDING").notNull(),
+		attempts: integer("attempts").default(0).notNull(),
+		nextAttemptAt: customTimestamp("next_attempt_at", { precision: 3 }).default(sql`now()`).notNull(),
+		lastError: text("last_error"),
+		deliveredAt: customTimestamp("delivered_at", { precision: 3 }),
+	},
+	(t) => [
+		index("outbox_events_status_next_attempt_index").on(t.status, t.nextAttemptAt),
+		index("outbox_events_aggregate_id_index").on(t.aggregateId),
+	],
+);
+
+export const OutboxEventSelectSchema = createSelectSchema(outboxEventTable);
+export type OutboxEvent = z.infer<typeof OutboxEventSelectSchema>;
+
+/**
+ * Events a listener has applied, written in the listener's own transaction. An event delivered
+ * again after its result was lost (a crash before the outbox recorded it) is recognised and skipped.
+ */
+export const listenerReceiptTable = pgTable(
+	"listener_receipts",
+	{
+		id: uuid("id").defaultRandom().primaryKey().notNull(),
+		createdAt: timestampColumns.createdAt,
+		listener: text("listener").notNull(), // e.g. bet.vip
+		eventKey: text("event_key").notNull(), // Names the event for that listener, e.g. the round id
+	},
+	(t) => [uniqueIndex("listener_receipts_listener_event_key_unique").on(t.listener, t.eventKey)],
+);
@@ -1,9 +1,10 @@
 import { sql } from "drizzle-orm";
-import { boolean, index, integer, jsonb, pgTable, text, uuid } from "drizzle-orm/pg-core";
+import { boolean, date, index, integer, jsonb, pgTable, text, unique, uuid } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema, createUpdateSchema } from "drizzle-zod";
 import type { z } from "zod";
 import { expiresAtTimestamp, timestampColumns } from "./custom-types";
-import { sessionStatusEnum, userRoleEnum, userStatusEnum } from "./enums";
+import { customTimestamp } from "./custom";
+import { betRoundActionTypeEnum, betRoundStatusEnum, sessionStatusEnum, userRoleEnum, userStatusEnum } from "./enums";
 import { gameTable, operatorTable } from "./game";
 
 export const userTable = pgTable("user", {
@@ -62,6 +63,7 @@ export const userBalanceTable = pgTable("user_balances", {
 	userId: uuid("user_id")
 		.notNull()
 		.references(() => userTable.id),
+	currency: text("currency").default("USD").notNull(), // Set when the wallet is opened; every amount below is in its minor units
 	realBalance: integer("real_balance").default(0).notNull(),
 	bonusBalance: integer("bonus_balance").default(0).notNull(),
 	freeSpinsRemaining: integer("free_spins_remaining").default(0).notNull(),
@@ -95,7 +97,10 @@ export type BetResult = {
 	ggrContribution: number;
 	jackpotContribution: number;
 	processingTime: number;
-	currentGameSessionRtp: number | 0;
+	currentGameSessionRtp: number | 0; // Session RTP in percent, this bet included
+	sessionDuration?: number; // Seconds from the start of the session to this bet
+	roundId?: string;
+	gameData?: Record<string, unknown>; // Outcome details, including the provably-fair commitment
 };
 
 export const gameSessionTable = pgTable(
@@ -115,6 +120,9 @@ export const gameSessionTable = pgTable(
 		status: sessionStatusEnum("status").default("ACTIVE").notNull(),
 		totalWagered: integer("total_wagered").default(0),
 		totalWon: integer("total_won").default(0),
+		// Running stake and win totals kept in the transaction that moves the balance, for the session loss limit
+		playWagered: integer("play_wagered").default(0).notNull(),
+		playWon: integer("play_won").default(0).notNull(),
 		gameSessionRtp: integer("session_rtp").default(0),
 		startingBalance: integer("starting_balance"),
 		endingBalance: integer("ending_balance"),
@@ -122,6 +130,8 @@ export const gameSessionTable = pgTable(
 		betResults: jsonb("bets").$type<BetResult[]>().default([]).notNull(),
 		duration: integer("duration").default(0),
 		expiredAt: expiresAtTimestamp,
+		lastRealityCheckAt: customTimestamp("last_reality_check_at", { precision: 3 }),
+		realityCheckPendingSince: customTimestamp("reality_check_pending_since", { precision: 3 }), // Bets pause while set
 	},
 	(t) => [
 		index("game_sessions_user_id_index").on(t.userId),
@@ -134,3 +144,100 @@ export const GameSessionSelectSchema = createSelectSchema(gameSessionTable);
 export const GameSessionInsertSchema = createInsertSchema(gameSessionTable);
 export const GameSessionUpdateSchema = createUpdateSchema(gameSessionTable);
 export type GameSession = z.infer<typeof GameSessionSelectSchema>;
+
+/**
+ * One row per bet round. The (userId, roundId) pair is the idempotency key:
+ * a replayed request with the same roundId returns the stored outcome instead of
+ * moving money again. outcome is null while the round is still being processed.
+ * Seamless-wallet rounds stay OPEN across debit/credit calls until endRound or rollback.
+ */
+export const betRoundTable = pgTable(
+	"bet_rounds",
+	{
+		id: uuid("id").defaultRandom().primaryKey().notNull(),
+		createdAt: timestampColumns.createdAt,
+		updatedAt: timestampColumns.updatedAt,
+		userId: uuid("user_id")
+			.notNull()
+			.references(() => userTable.id),
+		roundId: uuid("round_id").notNull(),
+		gameId: uuid("game_id").references(() => gameTable.id),
+		gameSessionId: uuid("game_session_id").references(() => gameSessionTable.id),
+		status: betRoundStatusEnum("status").default("OPEN").notNull(),
+		wagerAmount: integer("wager_amount").notNull(),
+		winAmount: integer("win_amount").default(0).notNull(),
+		realBalanceBefore: integer("real_balance_before"),
+		bonusBalanceBefore: integer("bonus_balance_before"),
+		realBalanceAfter: integer("real_balance_after"), // Set when a bet settles the round
+		bonusBalanceAfter: integer("bonus_balance_after"),
+		outcome: jsonb("outcome").$type<Record<string, unknown>>(),
+		fairness: jsonb("fairness").$type<Record<string, unknown>>(), // Provably-fair commitment and game math of the round
+		closedAt: customTimestamp("closed_at", { precision: 3 }),
+	},
+	(t) => [
+		unique("bet_rounds_user_round_unique").on(t.userId, t.roundId),
+		index("bet_rounds_game_session_index").on(t.gameSessionId),
+	],
+);
+
+export const BetRoundSelectSchema = createSelectSchema(betRoundTable);
+export const BetRoundInsertSchema = createInsertSchema(betRoundTable);
+export type BetRound = z.infer<typeof BetRoundSelectSchema>;
+export type BetRoundInsert = typeof betRoundTable.$inferInsert;
+
+/**
+ * Wagering requirement a debit worked off, kept so a rollback can hand it back
+ */
+export interface BetRoundActionWagering {
+	depositWrReduction: number;
+	bonusWrReduction: number;
+	bonusProgress: Array<{ bonusId: string; amount: number }>; // Progress added to each user bonus
+}
+
+/**
+ * Individual wallet calls made against a round. transactionId is the caller's id for the call,
+ * so a retried debit/credit/rollback is recognised and not applied twice.
+ */
+export const betRoundActionTable = pgTable(
+	"bet_round_actions",
+	{
+		id: uuid("id").defaultRandom().primaryKey().notNull(),
+		createdAt: timestampColumns.createdAt,
+		betRoundId: uuid("bet_round_id")
+			.notNull()
+			.references(() => betRoundTable.id),
+		transactionId: text("transaction_id").notNull(),
+		type: betRoundActionTypeEnum("type").notNull(),
+		amount: integer("amount").notNull(),
+		realAmount: integer("real_amount").default(0).notNull(),
+		bonusAmount: integer("bonus_amount").default(0).notNull(),
+		wagering: jsonb("wagering").$type<BetRoundActionWagering>(), // DEBIT only
+	},
+	(t) => [unique("bet_round_actions_round_transaction_unique").on(t.betRoundId, t.transactionId)],
+);
+
+export const BetRoundActionSelectSchema = createSelectSchema(betRoundActionTable);
+export type BetRoundAction = z.infer<typeof BetRoundActionSelectSchema>;
+export type BetRoundActionInsert = typeof betRoundActionTable.$inferInsert;
+
+/**
+ * Running per-user, per-UTC-day totals of stakes and wins, kept in the same transaction as the balance
+ * change so loss limits can be checked without scanning transaction_logs. Rolled back rounds are subtracted.
+ */
+export const userDailyPlayTable = pgTable(
+	"user_daily_play",
+	{
+		id: uuid("id").defaultRandom().primaryKey().notNull(),
+		userId: uuid("user_id")
+			.notNull()
+			.references(() => userTable.id),
+		day: date("day", { mode: "string" }).notNull(),
+		wagered: integer("wagered").default(0).notNull(),
+		won: integer("won").default(0).notNull(),
+		updatedAt: timestampColumns.updatedAt,
+	},
+	(t) => [unique("user_daily_play_user_day_unique").on(t.userId, t.day)],
+);
+
+export const UserDailyPlaySelectSchema = createSelectSchema(userDailyPlayTable);
+export type UserDailyPlay = z.infer<typeof UserDailyPlaySelectSchema>;
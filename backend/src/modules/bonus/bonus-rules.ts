@@ -0,0 +1,202 @@
+import type { Bonus, Game, UserBonus } from "@/core/database/schema";
+
+/**
+ * Bonus rules
+ * Pure calculations behind the bonus lifecycle: award sizing, wagering requirements,
+ * status transitions, game restrictions and how a bet's stake is spread over active bonuses.
+ */
+
+export type BonusStatus = UserBonus["status"];
+
+export type BonusAwardSource = Pick<Bonus, "type" | "amount" | "percentage" | "maxAmount">;
+
+export type BonusRestrictionSource = Pick<
+	Bonus,
+	"maxBet" | "allowedGameTypes" | "excludedGameIds" | "slot" | "casino" | "contributionPercentage"
+>;
+
+export interface BonusGame {
+	id: string;
+	category: Game["category"];
+}
+
+export interface WageringConfig {
+	defaultWageringMultiplier: number;
+	maxBonusBetPercentage: number; // Max stake as a fraction of the awarded bonus, e.g. 0.1
+	bonusExpiryDays: number;
+	gameContributions: Partial<Record<Game["category"], number>>; // Percent of a stake that counts, per category
+}
+
+export interface WageringState {
+	id: string;
+	wageringRequired: number;
+	wageringProgress: number;
+	contributionRate?: number; // Fraction of the stake this bonus counts; 1 when omitted
+}
+
+export interface WageringAllocation {
+	bonusId: string;
+	progressBefore: number;
+	progressAfter: number;
+	completed: boolean;
+}
+
+const BONUS_TRANSITIONS: Record<BonusStatus, readonly BonusStatus[]> = {
+	PENDING: ["ACTIVE", "EXPIRED", "CANCELLED"],
+	ACTIVE: ["COMPLETED", "EXPIRED", "CANCELLED"],
+	COMPLETED: [],
+	EXPIRED: [],
+	CANCELLED: [],
+};
+
+export function canTransitionBonus(from: BonusStatus, to: BonusStatus): boolean {
+	return BONUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Bonus money to award in cents.
+ * DEPOSIT_MATCH and CASHBACK are a percentage of baseAmount (the deposit or the net loss),
+ * LEVEL_UP and MANUAL pay their fixed amount, and FREE_SPINS pay spins rather than money.
+ * maxAmount caps every money award.
+ */
+export function calculateBonusAward(bonus: BonusAwardSource, baseAmount = 0): number {
+	let award: number;
+	switch (bonus.type) {
+		case "DEPOSIT_MATCH":
+		case "CASHBACK":
+			award = Math.floor((Math.max(0, baseAmount) * (bonus.percentage ?? 0)) / 100);
+			break;
+		case "FREE_SPINS":
+			return 0;
+		default:
+			award = bonus.amount ?? 0;
+	}
+
+	if (bonus.maxAmount !== null && bonus.maxAmount !== undefined) {
+		award = Math.min(award, bonus.maxAmount);
+	}
+	return Math.max(0, award);
+}
+
+export function calculateWageringRequired(awardedAmount: number, wageringMultiplier: number): number {
+	return Math.ceil(awardedAmount * Math.max(0, wageringMultiplier));
+}
+
+const DEFAULT_WAGERING_CONFIG: WageringConfig = {
+	defaultWageringMultiplier: 30,
+	maxBonusBetPercentage: 0.1,
+	bonusExpiryDays: 30,
+	gameContributions: {},
+};
+
+/**
+ * Read platformSettings.wageringConfig, falling back to defaults for missing or invalid fields
+ */
+export function resolveWageringConfig(raw: unknown): WageringConfig {
+	const config = (raw ?? {}) as Record<string, unknown>;
+	const isAmount = (value: unknown): value is number =>
+		typeof value === "number" && Number.isFinite(value) && value >= 0;
+	const numberOr = (value: unknown, fallback: number) => (isAmount(value) ? value : fallback);
+
+	const gameContributions: WageringConfig["gameContributions"] = {};
+	if (config.gameContributions && typeof config.gameContributions === "object") {
+		for (const [category, percent] of Object.entries(config.gameContributions)) {
+			if (isAmount(percent)) gameContributions[category as Game["category"]] = percent;
+		}
+	}
+
+	return {
+		defaultWageringMultiplier: numberOr(
+			config.defaultWageringMultiplier,
+			DEFAULT_WAGERING_CONFIG.defaultWageringMultiplier,
+		),
+		maxBonusBetPercentage: numberOr(config.maxBonusBetPercentage, DEFAULT_WAGERING_CONFIG.maxBonusBetPercentage),
+		bonusExpiryDays: numberOr(config.bonusExpiryDays, DEFAULT_WAGERING_CONFIG.bonusExpiryDays),
+		gameContributions,
+	};
+}
+
+/**
+ * Whether money from this bonus may be played on a game.
+ * excludedGameIds and allowedGameTypes are checked first; the slot flag covers SLOTS
+ * and the casino flag covers every other category.
+ */
+export function isBonusEligibleForGame(bonus: BonusRestrictionSource, game: BonusGame): boolean {
+	if (bonus.excludedGameIds?.includes(game.id)) {
+		return false;
+	}
+	if (bonus.allowedGameTypes && bonus.allowedGameTypes.length > 0 && !bonus.allowedGameTypes.includes(game.category)) {
+		return false;
+	}
+	return game.category === "SLOTS" ? bonus.slot !== false : bonus.casino !== false;
+}
+
+/**
+ * Fraction of a stake that counts towards a bonus: the bonus's contributionPercentage
+ * scaled by the platform's contribution for the game category
+ */
+export function wageringContributionRate(
+	bonus: Pick<BonusRestrictionSource, "contributionPercentage"> | null,
+	game: BonusGame,
+	config: WageringConfig,
+): number {
+	const categoryPercent = config.gameContributions[game.category] ?? 100;
+	const bonusPercent = bonus?.contributionPercentage ?? 100;
+	return (Math.min(100, Math.max(0, categoryPercent)) / 100) * (Math.min(100, Math.max(0, bonusPercent)) / 100);
+}
+
+/**
+ * Largest stake allowed while bonus money is in play: each eligible bonus caps it at its own maxBet
+ * and at maxBonusBetPercentage of its awarded amount. null when nothing limits it.
+ */
+export function bonusMaxBet(
+	bonuses: Array<{ maxBet: number | null; awardedAmount: number }>,
+	config: WageringConfig,
+): number | null {
+	let limit: number | null = null;
+	for (const bonus of bonuses) {
+		const caps = [
+			bonus.maxBet,
+			config.maxBonusBetPercentage > 0 ? Math.floor(bonus.awardedAmount * config.maxBonusBetPercentage) : null,
+		];
+		for (const cap of caps) {
+			if (cap !== null && cap > 0) {
+				limit = limit === null ? cap : Math.min(limit, cap);
+			}
+		}
+	}
+	return limit;
+}
+
+/**
+ * Spread a stake over active bonuses, oldest first.
+ * Each bonus counts its contribution rate of the stake up to what it still needs; the stake it did not
+ * need moves on to the next one. leftoverStake is what no bonus used.
+ */
+export function allocateWagering(
+	bonuses: WageringState[],
+	stake: number,
+): { allocations: WageringAllocation[]; leftoverStake: number } {
+	const allocations: WageringAllocation[] = [];
+	let remaining = Math.max(0, stake);
+
+	for (const bonus of bonuses) {
+		if (remaining <= 0) break;
+
+		const rate = bonus.contributionRate ?? 1;
+		if (rate <= 0) continue;
+
+		const outstanding = Math.max(0, bonus.wageringRequired - bonus.wageringProgress);
+		const applied = Math.min(outstanding, Math.floor(remaining * rate));
+		remaining = applied < outstanding ? 0 : remaining - applied / rate;
+
+		allocations.push({
+			bonusId: bonus.id,
+			progressBefore: bonus.wageringProgress,
+			progressAfter: bonus.wageringProgress + applied,
+			completed: bonus.wageringProgress + applied >= bonus.wageringRequired,
+		});
+	}
+
+	return { allocations, leftoverStake: Math.floor(remaining) };
+}
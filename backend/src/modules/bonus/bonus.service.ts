@@ -0,0 +1,614 @@
+import { type DbTransaction, db } from "@/core/database/db";
+import {
+	bonusTable,
+	gameTable,
+	transactionLogTable,
+	type UserBonus,
+	userBalanceTable,
+	userBonusTable,
+	userTable,
+} from "@/core/database/schema";
+import { and, asc, desc, eq, inArray, lte, sql } from "drizzle-orm";
+import { z } from "zod";
+import { grantFreeSpins } from "@/modules/gameplay/core/free-spins.service";
+import { configurationManager } from "@/shared/config";
+import { postJournal } from "@/modules/ledger/ledger.service";
+import { bonusAwardLegs, bonusConvertLegs, bonusForfeitLegs } from "@/modules/ledger/ledger-rules";
+import { BONUS_CONVERTED_EVENT } from "@/modules/events/domain-events";
+import { enqueueOutboxEvent } from "@/modules/outbox/outbox.service";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+import {
+	type BonusGame,
+	type BonusStatus,
+	type WageringAllocation,
+	type WageringConfig,
+	allocateWagering,
+	bonusMaxBet,
+	calculateBonusAward,
+	calculateWageringRequired,
+	canTransitionBonus,
+	isBonusEligibleForGame,
+	resolveWageringConfig,
+	wageringContributionRate,
+} from "./bonus-rules";
+
+/**
+ * Bonus engine
+ * Drives user_bonuses through PENDING -> ACTIVE -> COMPLETED / EXPIRED / CANCELLED.
+ * Bonus money is pooled in userBalanceTable.bonusBalance; each user bonus tracks its own
+ * wagering, and completed bonuses are converted to real balance with a BONUS_CONVERT transaction.
+ */
+
+/** Reasons a bonus-funded wager is refused */
+export type BonusWagerErrorCode = "BONUS_MAX_BET_EXCEEDED" | "BONUS_GAME_RESTRICTED";
+
+export type BonusErrorCode =
+	| BonusWagerErrorCode
+	| "BONUS_NOT_FOUND"
+	| "BONUS_UNAVAILABLE"
+	| "INVALID_TRANSITION"
+	| "NOTHING_TO_AWARD";
+
+export class BonusError extends Error {
+	constructor(
+		public readonly code: BonusErrorCode,
+		message: string,
+	) {
+		super(message);
+		this.name = "BonusError";
+	}
+}
+
+export interface ClaimBonusOptions {
+	baseAmount?: number; // Deposit amount for DEPOSIT_MATCH, net loss for CASHBACK
+	activate?: boolean; // Activate straight away instead of leaving the bonus PENDING
+}
+
+export const claimBonusSchema = z.object({
+	bonusId: z.uuid(),
+	baseAmount: z.number().int().min(0).optional(),
+	activate: z.boolean().optional(),
+});
+
+/** How a user's active bonuses apply to a wager on one game */
+export interface BonusWagerContext {
+	game: BonusGame;
+	config: WageringConfig;
+	eligible: Array<{ userBonus: UserBonus; contributionRate: number }>; // Oldest first
+	restrictedAmount: number; // Bonus money that may not be played on this game
+	maxBet: number | null; // Stake limit while bonus money is in play
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function expiryFrom(start: Date, expiryDays: number | null): Date | null {
+	return expiryDays ? new Date(start.getTime() + expiryDays * DAY_MS) : null;
+}
+
+async function lockUserBonus(tx: DbTransaction, userId: string, userBonusId: string): Promise<UserBonus> {
+	const [userBonus] = await tx
+		.select()
+		.from(userBonusTable)
+		.where(and(eq(userBonusTable.id, userBonusId), eq(userBonusTable.userId, userId)))
+		.for("update");
+	if (!userBonus) {
+		throw new BonusError("BONUS_NOT_FOUND", `Bonus ${userBonusId} not found`);
+	}
+	return userBonus;
+}
+
+function assertTransition(userBonus: UserBonus, to: BonusStatus) {
+	if (!canTransitionBonus(userBonus.status, to)) {
+		throw new BonusError("INVALID_TRANSITION", `Cannot move bonus ${userBonus.id} from ${userBonus.status} to ${to}`);
+	}
+}
+
+/**
+ * Lock the player's balance; comes with their operator, which owns the float bonus money is drawn from
+ */
+async function lockBalance(tx: DbTransaction, userId: string) {
+	const [row] = await tx
+		.select({ balance: userBalanceTable, operatorId: userTable.operatorId })
+		.from(userBalanceTable)
+		.innerJoin(userTable, eq(userTable.id, userBalanceTable.userId))
+		.where(eq(userBalanceTable.userId, userId))
+		.for("update", { of: userBalanceTable });
+	if (!row) {
+		throw new Error(`User balance not found for user ${userId}`);
+	}
+	return { ...row.balance, operatorId: row.operatorId };
+}
+
+/**
+ * Move bonus money into real balance, record it as a BONUS_CONVERT transaction and queue a BonusConverted event
+ */
+async function convertBonusToReal(
+	tx: DbTransaction,
+	userId: string,
+	amount: number,
+	userBonusId?: string,
+): Promise<number> {
+	const balance = await lockBalance(tx, userId);
+	const converted = Math.min(amount, balance.bonusBalance);
+	if (converted <= 0) {
+		return 0;
+	}
+
+	await tx
+		.update(userBalanceTable)
+		.set({
+			realBalance: balance.realBalance + converted,
+			bonusBalance: balance.bonusBalance - converted,
+			updatedAt: new Date(),
+		})
+		.where(eq(userBalanceTable.userId, userId));
+
+	await tx.insert(transactionLogTable).values({
+		userId,
+		type: "BONUS_CONVERT",
+		relatedId: userBonusId,
+		operatorId: balance.operatorId,
+		wagerAmount: converted,
+		realBalanceBefore: balance.realBalance,
+		realBalanceAfter: balance.realBalance + converted,
+		bonusBalanceBefore: balance.bonusBalance,
+		bonusBalanceAfter: balance.bonusBalance - converted,
+	});
+	await postJournal(tx, {
+		type: "BONUS_CONVERT",
+		userId,
+		relatedId: userBonusId,
+		legs: bonusConvertLegs(userId, converted),
+	});
+	await enqueueOutboxEvent(tx, {
+		eventType: BONUS_CONVERTED_EVENT,
+		aggregateId: userBonusId,
+		userId,
+		payload: {
+			userId,
+			userBonusId,
+			amount: converted,
+			realBalanceAfter: balance.realBalance + converted,
+			bonusBalanceAfter: balance.bonusBalance - converted,
+		},
+	});
+
+	return converted;
+}
+
+/**
+ * Remove an active bonus's money and outstanding wagering from the balance
+ */
+async function forfeitBonus(tx: DbTransaction, userBonus: UserBonus): Promise<void> {
+	const outstanding = Math.max(0, userBonus.wageringRequired - userBonus.wageringProgress);
+	const balance = await lockBalance(tx, userBonus.userId);
+	const removed = Math.min(userBonus.awardedAmount, balance.bonusBalance);
+	await tx
+		.update(userBalanceTable)
+		.set({
+			bonusBalance: balance.bonusBalance - removed,
+			bonusWrRemaining: Math.max(0, balance.bonusWrRemaining - outstanding),
+			updatedAt: new Date(),
+		})
+		.where(eq(userBalanceTable.userId, userBonus.userId));
+	await postJournal(tx, {
+		type: "ADJUSTMENT",
+		userId: userBonus.userId,
+		relatedId: userBonus.id,
+		description: "Bonus forfeited",
+		legs: bonusForfeitLegs(userBonus.userId, removed, balance.operatorId),
+	});
+}
+
+/**
+ * Release bonus money once wagering is done.
+ * When nothing else still locks the bonus balance the whole balance is released, winnings included;
+ * otherwise each completed bonus releases up to its awarded amount.
+ */
+async function releaseCompletedBonuses(tx: DbTransaction, userId: string, completedIds: string[]): Promise<number> {
+	const now = new Date();
+	const completed: UserBonus[] =
+		completedIds.length > 0
+			? await tx
+					.update(userBonusTable)
+					.set({ status: "COMPLETED", completedAt: now, updatedAt: now })
+					.where(inArray(userBonusTable.id, completedIds))
+					.returning()
+			: [];
+
+	const [stillActive] = await tx
+		.select({ count: sql<number>`count(*)` })
+		.from(userBonusTable)
+		.where(and(eq(userBonusTable.userId, userId), eq(userBonusTable.status, "ACTIVE")));
+	const balance = await lockBalance(tx, userId);
+
+	if (Number(stillActive?.count ?? 0) === 0 && balance.bonusWrRemaining <= 0) {
+		return balance.bonusBalance > 0 ? convertBonusToReal(tx, userId, balance.bonusBalance, completed.at(-1)?.id) : 0;
+	}
+
+	let converted = 0;
+	for (const userBonus of completed) {
+		converted += await convertBonusToReal(tx, userId, userBonus.awardedAmount, userBonus.id);
+	}
+	return converted;
+}
+
+/**
+ * Award a bonus to a user as a PENDING user bonus (or ACTIVE when options.activate is set)
+ */
+export async function claimBonus(
+	userId: string,
+	bonusId: string,
+	options: ClaimBonusOptions = {},
+	tx?: DbTransaction,
+): Promise<UserBonus> {
+	const performClaim = async (transaction: DbTransaction) => {
+		const [bonus] = await transaction.select().from(bonusTable).where(eq(bonusTable.id, bonusId));
+		if (!bonus) {
+			throw new BonusError("BONUS_NOT_FOUND", `Bonus ${bonusId} not found`);
+		}
+		if (!bonus.isActive) {
+			throw new BonusError("BONUS_UNAVAILABLE", `Bonus ${bonus.name} is no longer offered`);
+		}
+
+		const awardedAmount = calculateBonusAward(bonus, options.baseAmount);
+		const spinsAwarded = bonus.type === "FREE_SPINS" ? (bonus.amount ?? 0) : 0;
+		if (awardedAmount <= 0 && spinsAwarded <= 0) {
+			throw new BonusError("NOTHING_TO_AWARD", `Bonus ${bonus.name} awards nothing for this claim`);
+		}
+
+		const [userBonus] = await transaction
+			.insert(userBonusTable)
+			.values({
+				userId,
+				bonusId,
+				status: "PENDING",
+				awardedAmount,
+				wageringRequired: calculateWageringRequired(awardedAmount, bonus.wageringMultiplier),
+				expiresAt: expiryFrom(new Date(), bonus.expiryDays),
+			})
+			.returning();
+
+		return options.activate ? activateBonusWithin(transaction, userId, userBonus.id) : (userBonus as UserBonus);
+	};
+
+	const userBonus = tx ? await performClaim(tx) : await db.transaction(performClaim);
+
+	const context = createOperationContext({ domain: "bonus", operation: "claimBonus", userId });
+	appLogger.info("Bonus claimed", context, { bonusId, userBonusId: userBonus.id, status: userBonus.status });
+	return userBonus;
+}
+
+/**
+ * The DEPOSIT_MATCH offer a player picked for a deposit; refused when it is not (or no longer) offered
+ */
+export async function getDepositMatchOffer(bonusId: string) {
+	const [bonus] = await db.select().from(bonusTable).where(eq(bonusTable.id, bonusId));
+	if (!bonus || bonus.type !== "DEPOSIT_MATCH") {
+		throw new BonusError("BONUS_NOT_FOUND", `Deposit bonus ${bonusId} not found`);
+	}
+	if (!bonus.isActive) {
+		throw new BonusError("BONUS_UNAVAILABLE", `Bonus ${bonus.name} is no longer offered`);
+	}
+	return bonus;
+}
+
+/**
+ * Match a completed deposit with the DEPOSIT_MATCH bonus picked for it, inside the deposit transaction.
+ * The claim runs in a savepoint: a bonus that has since been withdrawn is skipped without holding up the deposit.
+ */
+export async function awardDepositMatch(
+	tx: DbTransaction,
+	userId: string,
+	bonusId: string,
+	depositAmount: number,
+): Promise<UserBonus | null> {
+	const context = createOperationContext({ domain: "bonus", operation: "awardDepositMatch", userId });
+
+	try {
+		return await tx.transaction(async (savepoint: DbTransaction) => {
+			const [bonus] = await savepoint.select().from(bonusTable).where(eq(bonusTable.id, bonusId));
+			if (bonus?.type !== "DEPOSIT_MATCH") {
+				throw new BonusError("BONUS_NOT_FOUND", `Deposit bonus ${bonusId} not found`);
+			}
+			return claimBonus(userId, bonusId, { baseAmount: depositAmount, activate: true }, savepoint);
+		});
+	} catch (error) {
+		if (error instanceof BonusError) {
+			appLogger.warn("Deposit bonus not awarded", context, { bonusId, code: error.code });
+			return null;
+		}
+		throw error;
+	}
+}
+
+async function activateBonusWithin(tx: DbTransaction, userId: string, userBonusId: string): Promise<UserBonus> {
+	const userBonus = await lockUserBonus(tx, userId, userBonusId);
+	assertTransition(userBonus, "ACTIVE");
+
+	const [bonus] = await tx.select().from(bonusTable).where(eq(bonusTable.id, userBonus.bonusId));
+	const now = new Date();
+
+	// Free spin bonuses pay out as a spin grant; the spin wins carry their own wagering
+	if (bonus?.type === "FREE_SPINS") {
+		await grantFreeSpins(
+			{ userId, count: bonus.amount ?? 0, source: `bonus:${bonus.id}`, expiresInDays: bonus.expiryDays ?? undefined },
+			tx,
+		);
+		const [completed] = await tx
+			.update(userBonusTable)
+			.set({ status: "COMPLETED", activatedAt: now, completedAt: now, updatedAt: now })
+			.where(eq(userBonusTable.id, userBonusId))
+			.returning();
+		return completed;
+	}
+
+	const balance = await lockBalance(tx, userId);
+	await tx
+		.update(userBalanceTable)
+		.set({
+			bonusBalance: balance.bonusBalance + userBonus.awardedAmount,
+			bonusWrRemaining: balance.bonusWrRemaining + userBonus.wageringRequired,
+			totalBonusGranted: balance.totalBonusGranted + userBonus.awardedAmount,
+			updatedAt: now,
+		})
+		.where(eq(userBalanceTable.userId, userId));
+
+	await tx.insert(transactionLogTable).values({
+		userId,
+		type: "BONUS_AWARD",
+		relatedId: userBonus.id,
+		operatorId: balance.operatorId,
+		wagerAmount: userBonus.awardedAmount,
+		realBalanceBefore: balance.realBalance,
+		realBalanceAfter: balance.realBalance,
+		bonusBalanceBefore: balance.bonusBalance,
+		bonusBalanceAfter: balance.bonusBalance + userBonus.awardedAmount,
+	});
+	await postJournal(tx, {
+		type: "BONUS_AWARD",
+		userId,
+		relatedId: userBonus.id,
+		legs: bonusAwardLegs(userId, userBonus.awardedAmount, balance.operatorId),
+	});
+
+	const [activated] = await tx
+		.update(userBonusTable)
+		.set({
+			status: "ACTIVE",
+			activatedAt: now,
+			expiresAt: expiryFrom(now, bonus?.expiryDays ?? null),
+			updatedAt: now,
+		})
+		.where(eq(userBonusTable.id, userBonusId))
+		.returning();
+
+	if (activated.wageringRequired <= 0) {
+		await releaseCompletedBonuses(tx, userId, [activated.id]);
+		return { ...activated, status: "COMPLETED", completedAt: now };
+	}
+	return activated;
+}
+
+/**
+ * Activate a PENDING bonus: credit its money to the bonus balance and start its wagering
+ */
+export async function activateBonus(userId: string, userBonusId: string): Promise<UserBonus> {
+	const userBonus = await db.transaction((tx) => activateBonusWithin(tx, userId, userBonusId));
+
+	const context = createOperationContext({ domain: "bonus", operation: "activateBonus", userId });
+	appLogger.info("Bonus activated", context, { userBonusId, status: userBonus.status });
+	return userBonus;
+}
+
+/**
+ * Cancel a PENDING or ACTIVE bonus. An active bonus forfeits its money and outstanding wagering.
+ */
+export async function cancelBonus(userId: string, userBonusId: string): Promise<UserBonus> {
+	const cancelled = await db.transaction(async (tx) => {
+		const userBonus = await lockUserBonus(tx, userId, userBonusId);
+		assertTransition(userBonus, "CANCELLED");
+
+		if (userBonus.status === "ACTIVE") {
+			await forfeitBonus(tx, userBonus);
+		}
+
+		const [updated] = await tx
+			.update(userBonusTable)
+			.set({ status: "CANCELLED", isActive: false, updatedAt: new Date() })
+			.where(eq(userBonusTable.id, userBonusId))
+			.returning();
+		return updated as UserBonus;
+	});
+
+	const context = createOperationContext({ domain: "bonus", operation: "cancelBonus", userId });
+	appLogger.info("Bonus cancelled", context, { userBonusId });
+	return cancelled;
+}
+
+/**
+ * Expire PENDING and ACTIVE bonuses past their expiry date. Returns the number expired.
+ */
+export async function expireBonuses(now: Date = new Date()): Promise<number> {
+	const context = createOperationContext({ domain: "bonus", operation: "expireBonuses" });
+
+	const expired = await db.transaction(async (tx) => {
+		const due: UserBonus[] = await tx
+			.select()
+			.from(userBonusTable)
+			.where(and(inArray(userBonusTable.status, ["PENDING", "ACTIVE"]), lte(userBonusTable.expiresAt, now)))
+			.for("update", { skipLocked: true });
+
+		for (const userBonus of due) {
+			if (userBonus.status === "ACTIVE") {
+				await forfeitBonus(tx, userBonus);
+			}
+		}
+
+		if (due.length > 0) {
+			await tx
+				.update(userBonusTable)
+				.set({ status: "EXPIRED", isActive: false, updatedAt: now })
+				.where(
+					inArray(
+						userBonusTable.id,
+						due.map((userBonus) => userBonus.id),
+					),
+				);
+		}
+		return due.length;
+	});
+
+	if (expired > 0) {
+		appLogger.info(`Expired ${expired} bonuses`, context);
+	}
+	return expired;
+}
+
+/**
+ * Work out which active bonuses a wager on this game may use, locking them for the bet transaction.
+ * Bonuses that exclude the game keep their awarded money out of the stake and get no wagering progress.
+ * Game contributions follow the wageringConfig of the player's operator.
+ */
+export async function loadBonusWagerContext(
+	tx: DbTransaction,
+	userId: string,
+	gameId: string,
+	operatorId?: string | null,
+): Promise<BonusWagerContext> {
+	const [game] = await tx
+		.select({ id: gameTable.id, category: gameTable.category })
+		.from(gameTable)
+		.where(eq(gameTable.id, gameId));
+	if (!game) {
+		throw new Error(`Game ${gameId} not found`);
+	}
+
+	const config = resolveWageringConfig(configurationManager.getConfiguration({ operatorId }).wageringConfig);
+	const activeBonuses = await tx
+		.select({ userBonus: userBonusTable, bonus: bonusTable })
+		.from(userBonusTable)
+		.innerJoin(bonusTable, eq(userBonusTable.bonusId, bonusTable.id))
+		.where(and(eq(userBonusTable.userId, userId), eq(userBonusTable.status, "ACTIVE")))
+		.orderBy(asc(userBonusTable.activatedAt), asc(userBonusTable.createdAt))
+		.for("update", { of: userBonusTable });
+
+	const eligible: BonusWagerContext["eligible"] = [];
+	const eligibleLimits: Array<{ maxBet: number | null; awardedAmount: number }> = [];
+	let restrictedAmount = 0;
+
+	for (const { userBonus, bonus } of activeBonuses) {
+		if (isBonusEligibleForGame(bonus, game)) {
+			eligible.push({ userBonus, contributionRate: wageringContributionRate(bonus, game, config) });
+			eligibleLimits.push({ maxBet: bonus.maxBet, awardedAmount: userBonus.awardedAmount });
+		} else {
+			restrictedAmount += userBonus.awardedAmount;
+		}
+	}
+
+	return { game, config, eligible, restrictedAmount, maxBet: bonusMaxBet(eligibleLimits, config) };
+}
+
+/**
+ * Count a bet's stake towards the user's bonus wagering inside the bet transaction.
+ * Eligible bonuses are filled oldest first at their contribution rate; completed ones are converted
+ * before the transaction commits. Stake no bonus needed works off free spin wagering.
+ */
+export async function applyBonusWagering(
+	tx: DbTransaction,
+	userId: string,
+	stake: number,
+	context: BonusWagerContext,
+): Promise<{ allocations: WageringAllocation[]; converted: number; bonusWrReduction: number }> {
+	if (stake <= 0) {
+		return { allocations: [], converted: 0, bonusWrReduction: 0 };
+	}
+
+	const { allocations, leftoverStake } = allocateWagering(
+		context.eligible.map(({ userBonus, contributionRate }) => ({ ...userBonus, contributionRate })),
+		stake,
+	);
+	for (const allocation of allocations) {
+		await tx
+			.update(userBonusTable)
+			.set({ wageringProgress: allocation.progressAfter, updatedAt: new Date() })
+			.where(eq(userBonusTable.id, allocation.bonusId));
+	}
+
+	const counted =
+		allocations.reduce((sum, allocation) => sum + allocation.progressAfter - allocation.progressBefore, 0) +
+		Math.floor(leftoverStake * wageringContributionRate(null, context.game, context.config));
+
+	const [before] = await tx
+		.select({ bonusWrRemaining: userBalanceTable.bonusWrRemaining })
+		.from(userBalanceTable)
+		.where(eq(userBalanceTable.userId, userId));
+	const bonusWrReduction = Math.min(counted, Math.max(0, before?.bonusWrRemaining ?? 0));
+
+	const [balance] = await tx
+		.update(userBalanceTable)
+		.set({
+			bonusWrRemaining: sql`${userBalanceTable.bonusWrRemaining} - ${bonusWrReduction}`,
+			updatedAt: new Date(),
+		})
+		.where(eq(userBalanceTable.userId, userId))
+		.returning({ bonusBalance: userBalanceTable.bonusBalance, bonusWrRemaining: userBalanceTable.bonusWrRemaining });
+
+	const completedIds = allocations.filter((allocation) => allocation.completed).map((allocation) => allocation.bonusId);
+	// Free spin winnings have no user bonus; they unlock once bonusWrRemaining reaches zero
+	const converted =
+		completedIds.length > 0 || (balance && balance.bonusWrRemaining <= 0 && balance.bonusBalance > 0)
+			? await releaseCompletedBonuses(tx, userId, completedIds)
+			: 0;
+
+	return { allocations, converted, bonusWrReduction };
+}
+
+/**
+ * Hand back the wagering a rolled back stake counted towards. Bonuses that have already completed
+ * and been converted keep their progress; only still active ones are reduced.
+ */
+export async function reverseBonusWagering(
+	tx: DbTransaction,
+	userId: string,
+	bonusProgress: Array<{ bonusId: string; amount: number }>,
+	bonusWrReduction: number,
+): Promise<void> {
+	for (const { bonusId, amount } of bonusProgress) {
+		await tx
+			.update(userBonusTable)
+			.set({
+				wageringProgress: sql`greatest(${userBonusTable.wageringProgress} - ${amount}, 0)`,
+				updatedAt: new Date(),
+			})
+			.where(
+				and(eq(userBonusTable.id, bonusId), eq(userBonusTable.userId, userId), eq(userBonusTable.status, "ACTIVE")),
+			);
+	}
+
+	if (bonusWrReduction > 0) {
+		await tx
+			.update(userBalanceTable)
+			.set({
+				bonusWrRemaining: sql`${userBalanceTable.bonusWrRemaining} + ${bonusWrReduction}`,
+				updatedAt: new Date(),
+			})
+			.where(eq(userBalanceTable.userId, userId));
+	}
+}
+
+/**
+ * A user's bonuses, newest first, optionally excluding finished ones
+ */
+export async function getUserBonuses(userId: string, includeFinished = false): Promise<UserBonus[]> {
+	return db
+		.select()
+		.from(userBonusTable)
+		.where(
+			and(
+				eq(userBonusTable.userId, userId),
+				includeFinished ? undefined : inArray(userBonusTable.status, ["PENDING", "ACTIVE"]),
+			),
+		)
+		.orderBy(desc(userBonusTable.createdAt));
+}
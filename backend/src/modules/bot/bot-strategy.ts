@@ -1,13 +1,13 @@
 /**
  * Bot Strategy Service
- * Handles all decision-making logic for a bot, such as wager calculation,
- * game simulation, and game-changing decisions.
+ * Handles all decision-making logic for a bot, such as wager calculation
+ * and game-changing decisions. Outcomes come from the gameplay outcome engine.
  */
 import { db } from "../../core/database/db";
 import { gameTable, type Game } from "../../core/database/schema";
 import { configurationManager } from "../../shared/config";
 import { eq } from "drizzle-orm";
-import type { BalanceResult, BotConfig, GameOutcome } from "./bot.service";
+import type { BalanceResult, BotConfig } from "./bot.service";
 
 /**
  * Get game limits for the current game
@@ -26,10 +26,10 @@ export async function getGameLimits(gameId: string, botConfig: BotConfig): Promi
 			throw new Error(`Game not found: ${gameId}`);
 		}
 
-		const settings = configurationManager.getConfiguration();
+		const settings = configurationManager.getConfiguration({ operatorId: game.operatorId });
 		const systemLimits = settings.systemLimits as any;
 
-		// Use game limits with fallback to bot config, then system config
+		// Use game limits with fallback to bot config, then the game operator's system config
 		const minBet = game.minBet ?? botConfig.minWager ?? systemLimits?.minBetAmount ?? 100;
 		const maxBet = game.maxBet ?? botConfig.maxWager ?? systemLimits?.maxBetAmount ?? 100000;
 
@@ -122,48 +122,6 @@ function getCalculatedWager(
 	return Math.max(gameLimits.minBet, Math.floor(randomizedMaxWager));
 }
 
-/**
- * Simulates a game outcome based on a target RTP (~85%).
- */
-export function getGameOutcome(wagerAmount: number): GameOutcome {
-	const rand = Math.random();
-	let winAmount = 0;
-
-	// RTP Calculation: Weighted average should be ~0.85
-	// 65% chance to lose (0.85x)
-	// 20% chance to win 1.1x
-	// 10% chance to win 1.5x
-	// 4% chance to win 2x
-	// 1% chance to win 5x
-
-	if (rand < 0.65) {
-		// Loss - win back 85% of wager (adds randomness to loss amounts)
-		const lossFactor = 0.8 + Math.random() * 0.1; // Random between 0.8-0.9
-		winAmount = Math.floor(wagerAmount * lossFactor);
-	} else if (rand < 0.85) {
-		// Small win - 1.1x payout
-		const winFactor = 1.08 + Math.random() * 0.04; // Random between 1.08-1.12
-		winAmount = Math.floor(wagerAmount * winFactor);
-	} else if (rand < 0.95) {
-		// Medium win - 1.5x payout
-		const winFactor = 1.45 + Math.random() * 0.1; // Random between 1.45-1.55
-		winAmount = Math.floor(wagerAmount * winFactor);
-	} else if (rand < 0.99) {
-		// Large win - 2x payout
-		const winFactor = 1.95 + Math.random() * 0.1; // Random between 1.95-2.05
-		winAmount = Math.floor(wagerAmount * winFactor);
-	} else {
-		// Jackpot win - 5x payout
-		const winFactor = 4.8 + Math.random() * 0.4; // Random between 4.8-5.2
-		winAmount = Math.floor(wagerAmount * winFactor);
-	}
-
-	return {
-		winAmount,
-		gameData: {},
-	};
-}
-
 /**
  * Decides if the bot should change its current game.
  */
@@ -114,12 +114,6 @@ export interface BalanceResult {
 	totalFreeSpinWins?: number;
 }
 
-// Interface for game outcome
-export interface GameOutcome {
-	winAmount: number;
-	gameData: Record<string, any>;
-}
-
 // Interface for bot dependencies
 export interface BotServiceDependencies {
 	supabaseClient: typeof supabase;
@@ -128,7 +122,7 @@ export interface BotServiceDependencies {
 		getOrCreateBalance: (userId: string) => Promise<BalanceResult | null>;
 	};
 	betService: {
-		processBet: (betRequest: BetRequest, gameOutcome: any) => Promise<BetOutcome>;
+		processBet: (betRequest: BetRequest, gameOutcome?: any) => Promise<BetOutcome>;
 	};
 	depositService: {
 		initiateDeposit: (request: DepositRequest) => Promise<DepositResponse>;
@@ -438,10 +432,7 @@ export class BotService {
 			// 4. Decide on a bet (ACTOR calls STRATEGY)
 			const wagerAmount = botStrategy.getWager(this.config, game, finalBalance, gameLimits);
 
-			// 5. Simulate the outcome (ACTOR calls STRATEGY)
-			const gameOutcome = botStrategy.getGameOutcome(wagerAmount);
-
-			// 6. Prepare the bet request
+			// 5. Prepare the bet request
 			const betRequest: BetRequest = {
 				userId: this.userId,
 				gameId: this.gameId,
@@ -450,13 +441,13 @@ export class BotService {
 				operatorId: "bot",
 			};
 
-			// 7. Execute the bet (ACTOR calls ORCHESTRATOR)
-			const result = await this.dependencies.betService.processBet(betRequest, gameOutcome);
+			// 6. Execute the bet (ACTOR calls ORCHESTRATOR); the outcome engine decides the result
+			const result = await this.dependencies.betService.processBet(betRequest);
 
 			// --- Post-Bet Logic ---
 			this.lastActivity = new Date();
 
-			// 8. Accumulate metrics
+			// 7. Accumulate metrics
 			const currentTime = new Date();
 			if (this.lastBetTime) {
 				const timeSinceLastBet = (currentTime.getTime() - this.lastBetTime.getTime()) / 1000 / 60; // minutes
@@ -485,7 +476,7 @@ export class BotService {
 				currentGameSessionRtp: cumulativeRtpPercentage,
 			});
 
-			// 9. Decide to change game (ACTOR calls STRATEGY)
+			// 8. Decide to change game (ACTOR calls STRATEGY)
 			if (result.success && botStrategy.shouldChangeGame()) {
 				await this.changeGame(cumulativeRtpPercentage);
 			}
@@ -494,7 +485,7 @@ export class BotService {
 				success: result.success,
 				result: result.success
 					? {
-							winAmount: gameOutcome.winAmount,
+							winAmount: result.winAmount,
 							newBalance: result.newBalance,
 							transactionId: result.transactionId,
 						}
@@ -551,7 +542,6 @@ export class BotService {
 					.set({
 						status: "COMPLETED",
 						isActive: false,
-						betResults: this.results,
 						gameSessionRtp: cumulativeRtpPercentage,
 					})
 					.where(and(eq(gameSessionTable.id, this.gameSessionId), eq(gameSessionTable.userId, this.userId)));
@@ -0,0 +1,161 @@
+/**
+ * Currency rules
+ * Pure helpers behind multi-currency wallets: which currencies an operator accepts, converting
+ * between minor units (cents, yen, fils...) of currencies with different scales, and folding
+ * per-currency totals into one reporting currency with an FX rate table.
+ */
+
+export interface CurrencyConfig {
+	defaultCurrency: string; // New wallets are opened in this currency
+	allowedCurrencies: string[]; // Always includes defaultCurrency
+	reportingCurrency: string; // Report totals are converted into this currency
+}
+
+export interface CurrencyScale {
+	code: string;
+	minorUnits: number; // Digits after the decimal point: 2 for USD, 0 for JPY, 3 for KWD
+}
+
+export interface FxRate {
+	baseCurrency: string;
+	quoteCurrency: string;
+	rate: number; // Units of quoteCurrency for one unit of baseCurrency
+}
+
+export interface CurrencyTotals {
+	deposits: number;
+	withdrawals: number;
+	wagered: number;
+	won: number;
+	ggr: number; // wagered - won
+}
+
+export interface CurrencyActivityRow {
+	currency: string;
+	type: string; // Transaction type: DEPOSIT, WITHDRAWAL, BET, WIN...
+	amount: number; // Sum of the rows' amounts, in the currency's minor units
+}
+
+export interface CurrencyReport {
+	reportingCurrency: string;
+	byCurrency: Array<CurrencyTotals & { currency: string; converted: CurrencyTotals | null }>; // converted is null without a rate
+	total: CurrencyTotals; // Sum of every converted currency, in reportingCurrency
+	missingRates: string[]; // Currencies left out of total for lack of an FX rate
+}
+
+const DEFAULT_CURRENCY_CONFIG: CurrencyConfig = {
+	defaultCurrency: "USD",
+	allowedCurrencies: ["USD"],
+	reportingCurrency: "USD",
+};
+
+const TYPE_TOTALS: Record<string, keyof CurrencyTotals> = {
+	DEPOSIT: "deposits",
+	WITHDRAWAL: "withdrawals",
+	BET: "wagered",
+	WIN: "won",
+};
+
+const emptyTotals = (): CurrencyTotals => ({ deposits: 0, withdrawals: 0, wagered: 0, won: 0, ggr: 0 });
+
+/**
+ * ISO 4217 style code, upper-cased; null when the value cannot be a currency code
+ */
+export function normalizeCurrencyCode(code: unknown): string | null {
+	if (typeof code !== "string") return null;
+	const normalized = code.trim().toUpperCase();
+	return /^[A-Z]{3}$/.test(normalized) ? normalized : null;
+}
+
+/**
+ * Read platformSettings.currencyConfig, falling back to defaults for missing or invalid fields
+ */
+export function resolveCurrencyConfig(raw: unknown): CurrencyConfig {
+	const config = (raw ?? {}) as Record<string, unknown>;
+	const defaultCurrency = normalizeCurrencyCode(config.defaultCurrency) ?? DEFAULT_CURRENCY_CONFIG.defaultCurrency;
+	const listed = Array.isArray(config.allowedCurrencies)
+		? config.allowedCurrencies.map(normalizeCurrencyCode).filter((code): code is string => code !== null)
+		: [];
+
+	return {
+		defaultCurrency,
+		allowedCurrencies: [...new Set([defaultCurrency, ...listed])],
+		reportingCurrency: normalizeCurrencyCode(config.reportingCurrency) ?? DEFAULT_CURRENCY_CONFIG.reportingCurrency,
+	};
+}
+
+export function isCurrencyAllowed(config: CurrencyConfig, code: string): boolean {
+	return config.allowedCurrencies.includes(code);
+}
+
+/**
+ * Display an amount held in minor units, e.g. 1234 USD -> "12.34", 1234 JPY -> "1234"
+ */
+export function formatMinorUnits(amount: number, minorUnits: number): string {
+	return (amount / 10 ** minorUnits).toFixed(minorUnits);
+}
+
+/**
+ * Rate to turn one unit of `from` into `to`: 1 for the same currency, the listed rate, or the
+ * inverse of the opposite rate. null when the table has neither.
+ */
+export function findFxRate(rates: FxRate[], from: string, to: string): number | null {
+	if (from === to) return 1;
+	const direct = rates.find((rate) => rate.baseCurrency === from && rate.quoteCurrency === to);
+	if (direct && direct.rate > 0) return direct.rate;
+	const inverse = rates.find((rate) => rate.baseCurrency === to && rate.quoteCurrency === from);
+	if (inverse && inverse.rate > 0) return 1 / inverse.rate;
+	return null;
+}
+
+/**
+ * Convert minor units of one currency into minor units of another, rounding to the nearest unit
+ */
+export function convertMinorUnits(amount: number, from: CurrencyScale, to: CurrencyScale, rate: number): number {
+	return Math.round((amount / 10 ** from.minorUnits) * rate * 10 ** to.minorUnits);
+}
+
+/**
+ * Totals per currency from grouped transaction sums, each converted into the reporting currency.
+ * Currencies without a scale are assumed to use 2 minor units.
+ */
+export function buildCurrencyReport(
+	rows: CurrencyActivityRow[],
+	scales: CurrencyScale[],
+	rates: FxRate[],
+	reportingCurrency: string,
+): CurrencyReport {
+	const totals = new Map<string, CurrencyTotals>();
+	for (const row of rows) {
+		const field = TYPE_TOTALS[row.type];
+		if (!field) continue;
+		const currencyTotals = totals.get(row.currency) ?? emptyTotals();
+		currencyTotals[field] += row.amount;
+		totals.set(row.currency, currencyTotals);
+	}
+
+	const scaleOf = (code: string): CurrencyScale =>
+		scales.find((scale) => scale.code === code) ?? { code, minorUnits: 2 };
+	const target = scaleOf(reportingCurrency);
+	const report: CurrencyReport = { reportingCurrency, byCurrency: [], total: emptyTotals(), missingRates: [] };
+
+	for (const currency of [...totals.keys()].sort()) {
+		const currencyTotals = totals.get(currency) as CurrencyTotals;
+		currencyTotals.ggr = currencyTotals.wagered - currencyTotals.won;
+
+		const rate = findFxRate(rates, currency, reportingCurrency);
+		let converted: CurrencyTotals | null = null;
+		if (rate === null) {
+			report.missingRates.push(currency);
+		} else {
+			converted = emptyTotals();
+			for (const field of Object.keys(converted) as Array<keyof CurrencyTotals>) {
+				converted[field] = convertMinorUnits(currencyTotals[field], scaleOf(currency), target, rate);
+				report.total[field] += converted[field];
+			}
+		}
+		report.byCurrency.push({ currency, ...currencyTotals, converted });
+	}
+
+	return report;
+}
@@ -0,0 +1,225 @@
+/**
+ * Currency Service
+ * Currencies and their minor-unit scale, the FX rate table and per-operator allowed currencies
+ * (platformSettings.currencyConfig, overridable per operator). A player's wallet is opened in the
+ * operator's default currency and keeps it; deposits, withdrawals and transactions carry the
+ * wallet's currency, so reports can total each currency and convert them for comparison.
+ */
+
+import { db } from "@/core/database/db";
+import { type Currency, type FxRateRow, currencyTable, fxRateTable, transactionLogTable } from "@/core/database/schema";
+import { type OperatorContext, configurationManager } from "@/shared/config";
+import { and, asc, eq, gte, inArray, lt, sql } from "drizzle-orm";
+import { z } from "zod";
+import {
+	type CurrencyConfig,
+	type CurrencyReport,
+	buildCurrencyReport,
+	isCurrencyAllowed,
+	normalizeCurrencyCode,
+	resolveCurrencyConfig,
+} from "./currency-rules";
+
+export type CurrencyErrorCode =
+	| "INVALID_CURRENCY"
+	| "CURRENCY_NOT_FOUND"
+	| "CURRENCY_NOT_ALLOWED"
+	| "CURRENCY_MISMATCH"
+	| "INVALID_FX_RATE";
+
+export class CurrencyError extends Error {
+	constructor(
+		public readonly code: CurrencyErrorCode,
+		message: string,
+	) {
+		super(message);
+		this.name = "CurrencyError";
+	}
+}
+
+export const currencyCodeSchema = z
+	.string()
+	.trim()
+	.regex(/^[A-Za-z]{3}$/, "Currency must be a 3-letter ISO 4217 code")
+	.transform((code) => code.toUpperCase());
+
+export const currencySchema = z.object({
+	name: z.string().trim().min(1).max(100),
+	symbol: z.string().trim().max(10).nullable().optional(),
+	minorUnits: z.number().int().min(0).max(4),
+	isActive: z.boolean().optional(),
+});
+export type CurrencyRequest = z.infer<typeof currencySchema>;
+
+export const fxRateSchema = z.object({
+	rate: z.number().positive().finite(),
+});
+
+export const revenueReportQuerySchema = z
+	.object({
+		from: z.coerce.date(),
+		to: z.coerce.date(),
+		operatorId: z.uuid().optional(),
+		reportingCurrency: currencyCodeSchema.optional(),
+	})
+	.refine((query) => query.from < query.to, { message: "from must be before to", path: ["to"] });
+export type RevenueReportQuery = z.infer<typeof revenueReportQuerySchema>;
+
+/**
+ * Currencies the operator accepts, falling back to the platform default
+ */
+export function getCurrencyConfig(operator?: OperatorContext): CurrencyConfig {
+	return resolveCurrencyConfig(configurationManager.getConfiguration(operator).currencyConfig);
+}
+
+/**
+ * Currency a new wallet for a player of the operator is opened in
+ */
+export function defaultWalletCurrency(operator?: OperatorContext): string {
+	return getCurrencyConfig(operator).defaultCurrency;
+}
+
+/**
+ * Check that the operator accepts the currency and that it is enabled; returns the normalized code
+ */
+export async function assertCurrencyAllowed(code: string, operator?: OperatorContext): Promise<string> {
+	const currency = normalizeCurrencyCode(code);
+	if (!currency) {
+		throw new CurrencyError("INVALID_CURRENCY", `${code} is not a currency code`);
+	}
+	if (!isCurrencyAllowed(getCurrencyConfig(operator), currency)) {
+		throw new CurrencyError("CURRENCY_NOT_ALLOWED", `${currency} is not accepted by this operator`);
+	}
+
+	const [row] = await db
+		.select({ isActive: currencyTable.isActive })
+		.from(currencyTable)
+		.where(eq(currencyTable.code, currency));
+	if (!row?.isActive) {
+		throw new CurrencyError("CURRENCY_NOT_ALLOWED", `${currency} is not enabled`);
+	}
+	return currency;
+}
+
+export async function getCurrencies(): Promise<Currency[]> {
+	return db.select().from(currencyTable).orderBy(asc(currencyTable.code));
+}
+
+/**
+ * Create or update a currency. Changing minorUnits of a currency that wallets already hold would
+ * rescale their balances, so it is only allowed while nothing has been recorded in it.
+ */
+export async function upsertCurrency(code: string, request: CurrencyRequest, adminId: string): Promise<Currency> {
+	const [existing] = await db.select().from(currencyTable).where(eq(currencyTable.code, code));
+	if (existing && existing.minorUnits !== request.minorUnits) {
+		const [used] = await db
+			.select({ id: transactionLogTable.id })
+			.from(transactionLogTable)
+			.where(eq(transactionLogTable.currency, code))
+			.limit(1);
+		if (used) {
+			throw new CurrencyError("INVALID_CURRENCY", `${code} is already in use; its minor units cannot change`);
+		}
+	}
+
+	const values = {
+		name: request.name,
+		symbol: request.symbol ?? null,
+		minorUnits: request.minorUnits,
+		isActive: request.isActive ?? true,
+		updatedBy: adminId,
+	};
+
+	const [currency] = await db
+		.insert(currencyTable)
+		.values({ code, ...values })
+		.onConflictDoUpdate({ target: currencyTable.code, set: { ...values, updatedAt: new Date() } })
+		.returning();
+
+	return currency as Currency;
+}
+
+export async function getFxRates(): Promise<FxRateRow[]> {
+	return db.select().from(fxRateTable).orderBy(asc(fxRateTable.baseCurrency), asc(fxRateTable.quoteCurrency));
+}
+
+/**
+ * Set the rate for one unit of baseCurrency in quoteCurrency, replacing any previous rate for the pair
+ */
+export async function setFxRate(
+	baseCurrency: string,
+	quoteCurrency: string,
+	rate: number,
+	adminId: string,
+): Promise<FxRateRow> {
+	if (baseCurrency === quoteCurrency) {
+		throw new CurrencyError("INVALID_FX_RATE", "An FX rate needs two different currencies");
+	}
+
+	const known = await db
+		.select({ code: currencyTable.code })
+		.from(currencyTable)
+		.where(inArray(currencyTable.code, [baseCurrency, quoteCurrency]));
+	for (const code of [baseCurrency, quoteCurrency]) {
+		if (!known.some((row) => row.code === code)) {
+			throw new CurrencyError("CURRENCY_NOT_FOUND", `Currency ${code} not found`);
+		}
+	}
+
+	const [fxRate] = await db
+		.insert(fxRateTable)
+		.values({ baseCurrency, quoteCurrency, rate, updatedBy: adminId })
+		.onConflictDoUpdate({
+			target: [fxRateTable.baseCurrency, fxRateTable.quoteCurrency],
+			set: { rate, updatedBy: adminId, updatedAt: new Date() },
+		})
+		.returning();
+
+	return fxRate as FxRateRow;
+}
+
+/**
+ * Remove the rate for a pair. Returns false when there was none.
+ */
+export async function removeFxRate(baseCurrency: string, quoteCurrency: string): Promise<boolean> {
+	const deleted = await db
+		.delete(fxRateTable)
+		.where(and(eq(fxRateTable.baseCurrency, baseCurrency), eq(fxRateTable.quoteCurrency, quoteCurrency)))
+		.returning({ id: fxRateTable.id });
+
+	return deleted.length > 0;
+}
+
+/**
+ * Deposits, withdrawals, wagers, wins and GGR per currency over [from, to), with each currency
+ * converted into the reporting currency (the operator's, unless one is asked for) at current FX rates
+ */
+export async function getRevenueReport(query: RevenueReportQuery): Promise<CurrencyReport> {
+	const reportingCurrency =
+		query.reportingCurrency ?? getCurrencyConfig({ operatorId: query.operatorId }).reportingCurrency;
+
+	const conditions = [
+		eq(transactionLogTable.status, "COMPLETED"),
+		gte(transactionLogTable.createdAt, query.from),
+		lt(transactionLogTable.createdAt, query.to),
+	];
+	if (query.operatorId) {
+		conditions.push(eq(transactionLogTable.operatorId, query.operatorId));
+	}
+
+	const [rows, currencies, rates] = await Promise.all([
+		db
+			.select({
+				currency: transactionLogTable.currency,
+				type: transactionLogTable.type,
+				amount: sql<number>`coalesce(sum(${transactionLogTable.wagerAmount}), 0)`.mapWith(Number),
+			})
+			.from(transactionLogTable)
+			.where(and(...conditions))
+			.groupBy(transactionLogTable.currency, transactionLogTable.type),
+		getCurrencies(),
+		getFxRates(),
+	]);
+
+	return buildCurrencyReport(rows, currencies, rates, reportingCurrency);
+}
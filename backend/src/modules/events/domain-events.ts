@@ -0,0 +1,90 @@
+/**
+ * Domain events
+ * What listeners receive once a money movement has been committed. Events are queued in the
+ * outbox with the change that caused them and published on the event bus when delivered.
+ */
+
+import type { DepositPaymentOutcome } from "@/modules/gameplay/core/deposit-rules";
+
+export const BET_COMPLETED_EVENT = "bet.completed";
+export const DEPOSIT_COMPLETED_EVENT = "deposit.completed";
+export const WITHDRAWAL_COMPLETED_EVENT = "withdrawal.completed";
+export const BONUS_CONVERTED_EVENT = "bonus.converted";
+
+/** A settled round: a single-call bet, a free spin, or a seamless-wallet round that was ended */
+export interface BetCompleted {
+	betId: string; // Same as roundId
+	roundId: string;
+	userId: string;
+	gameId: string;
+	gameSessionId?: string;
+	wagerAmount: number;
+	winAmount: number;
+	realBalanceBefore: number;
+	bonusBalanceBefore: number;
+	realBalanceAfter: number;
+	bonusBalanceAfter: number;
+	balanceType: "real" | "bonus" | "mixed";
+	currency?: string; // The wallet's; absent on events queued before wallets had a currency
+	freeSpin?: boolean;
+	gameOutcome: {
+		winAmount: number;
+		gameData?: Record<string, unknown>;
+		jackpotWin?: { group: string; amount: number };
+	};
+	betRequest: {
+		userId: string;
+		gameId: string;
+		wagerAmount: number;
+		operatorId?: string;
+		sessionId?: string;
+		roundId?: string;
+	};
+	processingTime: number; // Milliseconds spent settling the round
+}
+
+/** A deposit confirmation that credited money, in full or in part */
+export interface DepositCompleted {
+	userId: string;
+	depositId: string;
+	paymentNumber?: number; // Which of the deposit's payments this was; absent on events queued before it was added
+	operatorId?: string | null; // The player's; absent on events queued before it was added
+	amount: number; // Credited by this confirmation
+	currency?: string; // The wallet's; absent on events queued before wallets had a currency
+	bonusAmount: number;
+	outcome: DepositPaymentOutcome;
+	remainingAmount: number;
+	reviewRequired: boolean;
+	realBalanceBefore: number;
+	bonusBalanceBefore: number;
+	realBalanceAfter: number;
+	bonusBalanceAfter: number;
+}
+
+/** A withdrawal approved for payout; the funds left the balance when it was requested */
+export interface WithdrawalCompleted {
+	withdrawalId: string;
+	userId: string;
+	amount: number;
+	payoutMethod: string | null;
+	transactionId?: string;
+	approvedBy: string;
+}
+
+/** Bonus money released to real balance once its wagering was done */
+export interface BonusConverted {
+	userId: string;
+	userBonusId?: string;
+	amount: number;
+	realBalanceAfter: number;
+	bonusBalanceAfter: number;
+}
+
+export interface DomainEventMap {
+	[BET_COMPLETED_EVENT]: BetCompleted;
+	[DEPOSIT_COMPLETED_EVENT]: DepositCompleted;
+	[WITHDRAWAL_COMPLETED_EVENT]: WithdrawalCompleted;
+	[BONUS_CONVERTED_EVENT]: BonusConverted;
+}
+
+export type DomainEventType = keyof DomainEventMap;
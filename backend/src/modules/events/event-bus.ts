@@ -0,0 +1,222 @@
+import type { DomainEventMap } from "./domain-events";
+
+/**
+ * Event bus
+ * Modules register listeners per event type instead of being imported by the code that raises the event.
+ * Listeners run in order groups: lower orders first, the same order in parallel. Each listener is
+ * isolated - a failure or timeout is recorded against it alone - but a failed group holds back the
+ * groups after it, since those may read its results. Publishing again with the results of the earlier
+ * attempt only runs what is left, which is how the outbox retries an event.
+ */
+
+export const DEFAULT_LISTENER_TIMEOUT_MS = 10_000;
+
+export interface EventListener<E> {
+	name: string; // Unique per event type; the listener's return value is stored under it
+	order?: number; // Lower runs first; defaults to 0
+	timeoutMs?: number;
+	/** Skip the listener for some events, e.g. for operators that have switched it off */
+	enabled?: (event: E) => boolean;
+	/** results holds the return values of listeners from lower order groups */
+	handle(event: E, results: Readonly<Record<string, unknown>>): Promise<unknown> | unknown;
+}
+
+export interface ListenerFailure {
+	listener: string;
+	error: string;
+	timedOut: boolean;
+}
+
+export interface PublishResult {
+	results: Record<string, unknown>;
+	failures: ListenerFailure[];
+}
+
+export interface ListenerMetrics {
+	eventType: string;
+	listener: string;
+	invocations: number;
+	succeeded: number;
+	failed: number;
+	timedOut: number;
+	skipped: number;
+	totalDurationMs: number;
+	maxDurationMs: number;
+	lastError: string | null;
+	lastRunAt: Date | null;
+}
+
+export class ListenerTimeoutError extends Error {
+	constructor(listener: string, timeoutMs: number) {
+		super(`Listener ${listener} timed out after ${timeoutMs}ms`);
+		this.name = "ListenerTimeoutError";
+	}
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, listener: string): Promise<T> {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => reject(new ListenerTimeoutError(listener, timeoutMs)), timeoutMs);
+	});
+	return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export class EventBus<Events extends object> {
+	private readonly listeners = new Map<keyof Events, EventListener<never>[]>();
+	private readonly metrics = new Map<string, ListenerMetrics>();
+
+	/**
+	 * Register a listener. Returns a function that removes it again.
+	 */
+	on<K extends keyof Events>(eventType: K, listener: EventListener<Events[K]>): () => void {
+		const registered = this.listenersFor(eventType);
+		if (registered.some((existing) => existing.name === listener.name)) {
+			throw new Error(`Listener ${listener.name} is already registered for ${String(eventType)}`);
+		}
+		this.listeners.set(eventType, [...registered, listener]);
+		return () => this.off(eventType, listener.name);
+	}
+
+	off<K extends keyof Events>(eventType: K, name: string): void {
+		const registered = this.listenersFor(eventType);
+		this.listeners.set(
+			eventType,
+			registered.filter((listener) => listener.name !== name),
+		);
+	}
+
+	/**
+	 * Listener groups still to run for an event, lowest order first.
+	 * Listeners with a result in completed are left out, and so are groups left empty.
+	 */
+	pendingGroups<K extends keyof Events>(
+		eventType: K,
+		completed: Record<string, unknown> = {},
+	): EventListener<Events[K]>[][] {
+		const groups = new Map<number, EventListener<Events[K]>[]>();
+		for (const listener of this.listenersFor(eventType)) {
+			if (Object.hasOwn(completed, listener.name)) continue;
+			const order = listener.order ?? 0;
+			groups.set(order, [...(groups.get(order) ?? []), listener]);
+		}
+		return [...groups.entries()].sort(([a], [b]) => a - b).map(([, group]) => group);
+	}
+
+	/**
+	 * Run the listeners for an event. Skipped listeners are recorded with a null result so a
+	 * retry does not ask them again.
+	 */
+	async publish<K extends keyof Events>(
+		eventType: K,
+		event: Events[K],
+		completed: Record<string, unknown> = {},
+	): Promise<PublishResult> {
+		const results: Record<string, unknown> = { ...completed };
+
+		for (const group of this.pendingGroups(eventType, completed)) {
+			const outcomes = await Promise.all(
+				group.map((listener) => this.runListener(eventType, listener, event, results)),
+			);
+
+			const failures: ListenerFailure[] = [];
+			outcomes.forEach((outcome, index) => {
+				const name = group[index]?.name ?? "";
+				if (outcome.ok) {
+					results[name] = outcome.value ?? null;
+				} else {
+					failures.push({ listener: name, error: outcome.error, timedOut: outcome.timedOut });
+				}
+			});
+
+			if (failures.length > 0) {
+				return { results, failures };
+			}
+		}
+		return { results, failures: [] };
+	}
+
+	private async runListener<K extends keyof Events>(
+		eventType: K,
+		listener: EventListener<Events[K]>,
+		event: Events[K],
+		results: Readonly<Record<string, unknown>>,
+	): Promise<{ ok: true; value: unknown } | { ok: false; error: string; timedOut: boolean }> {
+		const metrics = this.metricsFor(String(eventType), listener.name);
+
+		if (listener.enabled && !listener.enabled(event)) {
+			metrics.skipped++;
+			return { ok: true, value: null };
+		}
+
+		const startedAt = Date.now();
+		metrics.invocations++;
+		metrics.lastRunAt = new Date(startedAt);
+		try {
+			const value = await withTimeout(
+				Promise.resolve().then(() => listener.handle(event, results)),
+				listener.timeoutMs ?? DEFAULT_LISTENER_TIMEOUT_MS,
+				listener.name,
+			);
+			metrics.succeeded++;
+			return { ok: true, value };
+		} catch (error) {
+			const timedOut = error instanceof ListenerTimeoutError;
+			const message = error instanceof Error ? error.message : String(error);
+			metrics.failed++;
+			if (timedOut) metrics.timedOut++;
+			metrics.lastError = message;
+			return { ok: false, error: message, timedOut };
+		} finally {
+			const duration = Date.now() - startedAt;
+			metrics.totalDurationMs += duration;
+			metrics.maxDurationMs = Math.max(metrics.maxDurationMs, duration);
+		}
+	}
+
+	private metricsFor(eventType: string, listener: string): ListenerMetrics {
+		const key = `${eventType}:${listener}`;
+		let metrics = this.metrics.get(key);
+		if (!metrics) {
+			metrics = {
+				eventType,
+				listener,
+				invocations: 0,
+				succeeded: 0,
+				failed: 0,
+				timedOut: 0,
+				skipped: 0,
+				totalDurationMs: 0,
+				maxDurationMs: 0,
+				lastError: null,
+				lastRunAt: null,
+			};
+			this.metrics.set(key, metrics);
+		}
+		return metrics;
+	}
+
+	private listenersFor<K extends keyof Events>(eventType: K): EventListener<Events[K]>[] {
+		return (this.listeners.get(eventType) ?? []) as EventListener<Events[K]>[];
+	}
+
+	/**
+	 * Counters per listener since start-up (or the last reset), with the average duration of a run
+	 */
+	getMetrics(): Array<ListenerMetrics & { averageDurationMs: number }> {
+		return [...this.metrics.values()].map((metrics) => ({
+			...metrics,
+			averageDurationMs: metrics.invocations > 0 ? Math.round(metrics.totalDurationMs / metrics.invocations) : 0,
+		}));
+	}
+
+	resetMetrics(): void {
+		this.metrics.clear();
+	}
+
+	clear(): void {
+		this.listeners.clear();
+		this.metrics.clear();
+	}
+}
+
+export const domainEvents = new EventBus<DomainEventMap>();
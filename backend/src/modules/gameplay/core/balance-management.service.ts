@@ -1,11 +1,26 @@
-import { db } from "@/core/database/db";
-import { userBalanceTable, userBonusTable, type UserBalance, type UserBalanceSelect } from "@/core/database/schema";
+import { type DbExecutor, type DbTransaction, db } from "@/core/database/db";
+import {
+	userBalanceTable,
+	userBonusTable,
+	userTable,
+	type UserBalance,
+	type UserBalanceSelect,
+} from "@/core/database/schema";
 import { operatorTable } from "@/core/database/schema/game";
 import { configurationManager } from "@/shared/config";
 import { and, asc, eq, sql, sum } from "drizzle-orm";
 import { z } from "zod";
 import { appLogger, createOperationContext, type LogContext } from "@/core/logger/app-logger";
 import * as crypto from "crypto";
+import {
+	BonusError,
+	type BonusWagerErrorCode,
+	applyBonusWagering,
+	loadBonusWagerContext,
+} from "@/modules/bonus/bonus.service";
+import { postJournal } from "@/modules/ledger/ledger.service";
+import { defaultWalletCurrency } from "@/modules/currency/currency.service";
+import { betLegs, depositLegs, winLegs } from "@/modules/ledger/ledger-rules";
 
 const PositiveInt = z.number().int().positive("Amount must be a positive integer (cents).");
 const NonNegativeInt = z.number().int().min(0, "Amount must be a non-negative integer (cents).");
@@ -52,6 +67,8 @@ export interface BalanceDeductionRequest {
 	userId: string;
 	amount: number; // Amount in cents
 	gameId: string;
+	roundId?: string; // Links the BET journal to its round
+	operatorId?: string | null; // Owner of the GGR account the stake is booked to
 	preferredBalanceType?: "real" | "bonus" | "auto";
 }
 
@@ -60,11 +77,7 @@ export interface BalanceDeductionResult {
 	balanceType: "real" | "bonus" | "mixed";
 	deductedFrom: {
 		real: number;
-		bonuses: Array<{
-			bonusId: string;
-			amount: number;
-			remainingWagering: number;
-		}>;
+		bonus: number;
 	};
 	wageringProgress: Array<{
 		bonusId: string;
@@ -72,7 +85,11 @@ export interface BalanceDeductionResult {
 		progressAfter: number;
 		completed: boolean;
 	}>;
+	bonusConverted: number; // Bonus money moved to real balance because this bet completed wagering
+	depositWrReduction: number; // Deposit wagering requirement this bet worked off
+	bonusWrReduction: number; // Bonus wagering requirement this bet worked off
 	error?: string;
+	errorCode?: BonusWagerErrorCode;
 }
 
 export interface BalanceAdditionRequest {
@@ -81,6 +98,8 @@ export interface BalanceAdditionRequest {
 	balanceType: "real" | "bonus";
 	reason: string;
 	gameId?: string;
+	roundId?: string; // Links the WIN journal to its round
+	operatorId?: string | null; // Owner of the GGR account the win is paid from
 }
 
 export interface BalanceOperation {
@@ -103,95 +122,6 @@ export interface BalanceCheck {
 //   totalBalance: number;
 // }
 
-/**
- * Applies wagering to all active requirements and checks for bonus conversion.
- * This is a core private method.
- */
-
-async function deductFromBonusBalance(
-	userId: string,
-	amount: number,
-	gameId: string,
-	tx: any,
-): Promise<Array<{ bonusId: string; amount: number; remainingWagering: number }>> {
-	// Get active bonuses ordered by creation date
-	const activeBonuses = await tx.query.userBonusTable.findMany({
-		where: and(eq(userBonusTable.userId, userId), eq(userBonusTable.status, "ACTIVE")),
-		with: {
-			bonus: true,
-		},
-		orderBy: [asc(userBonusTable.createdAt)],
-	});
-
-	let remainingAmount = amount;
-	const bonusDeductions: Array<{
-		bonusId: string;
-		amount: number;
-		remainingWagering: number;
-	}> = [];
-	let iterationCount = 0;
-	const maxIterations = 100;
-
-	for (const playerBonus of activeBonuses) {
-		iterationCount++;
-		if (iterationCount > maxIterations) {
-			const context = createOperationContext({ domain: "gameplay", operation: "deductFromBonusBalance", userId });
-			appLogger.error("Infinite loop prevention: exceeded max iterations in deductFromBonusBalance", context);
-			throw new Error("Potential infinite loop detected in bonus deduction");
-		}
-
-		if (remainingAmount <= 0) break;
-
-		const bonusInfo = playerBonus.bonus;
-		const currentAmount = Number(playerBonus.amount);
-		const currentWagered = Number(playerBonus.processAmount);
-		const goalAmount = Number(playerBonus.goalAmount);
-
-		// Check if game is allowed for this bonus
-		if (bonusInfo.slot === false && gameId) {
-			// This is a simplified check - should be more sophisticated
-			continue; // Skip this bonus if game not allowed
-		}
-
-		const amountFromThisBonus = Math.min(remainingAmount, currentAmount);
-		const newAmount = currentAmount - amountFromThisBonus;
-		const newWagered = currentWagered + amountFromThisBonus;
-
-		// Update player bonus
-		await tx
-			.update(userBonusTable)
-			.set({
-				amount: newAmount,
-				processAmount: newWagered,
-				updatedAt: new Date(),
-			})
-			.where(eq(userBonusTable.id, playerBonus.id));
-
-		bonusDeductions.push({
-			bonusId: playerBonus.id,
-			amount: amountFromThisBonus,
-			remainingWagering: Math.max(0, goalAmount - newWagered),
-		});
-
-		// Convert bonus to real balance if wagering complete
-		if (newWagered >= goalAmount) {
-			// await convertBonusToReal(tx, userId, newAmount);
-		}
-
-		// Delete bonus task if balance depleted
-		if (newAmount <= 0) {
-			await tx.delete(userBonusTable).where(eq(userBonusTable.id, playerBonus.id));
-		}
-
-		remainingAmount -= amountFromThisBonus;
-	}
-
-	if (remainingAmount > 0) {
-		throw new Error("Insufficient bonus balance across all active bonuses");
-	}
-
-	return bonusDeductions;
-}
 async function getActiveBonusTotals(userIdToFind: string) {
 	// This query groups all matching records into one result row
 	// and calculates the sum for each specified column.
@@ -228,13 +158,18 @@ async function getActiveBonusTotals(userIdToFind: string) {
 	};
 }
 
-export async function deductBetAmount(request: BalanceDeductionRequest, tx?: any): Promise<BalanceDeductionResult> {
+export async function deductBetAmount(
+	request: BalanceDeductionRequest,
+	tx?: DbTransaction,
+): Promise<BalanceDeductionResult> {
 	try {
-		const performDeduction = async (transaction: any) => {
-			// Get current player balance
-			const playerBalance = await transaction.query.userBalanceTable.findFirst({
-				where: eq(userBalanceTable.userId, request.userId),
-			});
+		const performDeduction = async (transaction: DbTransaction) => {
+			// Lock the balance row so concurrent bets, debits and withdrawal reservations queue behind this one
+			const [playerBalance] = await transaction
+				.select()
+				.from(userBalanceTable)
+				.where(eq(userBalanceTable.userId, request.userId))
+				.for("update");
 
 			if (!playerBalance) {
 				throw new Error("Player balance not found");
@@ -243,6 +178,13 @@ export async function deductBetAmount(request: BalanceDeductionRequest, tx?: any
 			const realBalance = Number(playerBalance.realBalance);
 			const totalBonusBalance = Number(playerBalance.bonusBalance);
 
+			// Money from bonuses that exclude this game cannot fund the stake
+			const bonusContext = await loadBonusWagerContext(transaction, request.userId, request.gameId, request.operatorId);
+			const usableBonusBalance = Math.max(0, totalBonusBalance - bonusContext.restrictedAmount);
+			if (realBalance + usableBonusBalance < request.amount && realBalance + totalBonusBalance >= request.amount) {
+				throw new BonusError("BONUS_GAME_RESTRICTED", "Bonus balance cannot be played on this game");
+			}
+
 			// Determine balance type to use
 			let balanceType: "real" | "bonus" | "mixed" = "real";
 			let amountToDeductFromReal = 0;
@@ -252,7 +194,7 @@ export async function deductBetAmount(request: BalanceDeductionRequest, tx?: any
 				// Use real balance only
 				amountToDeductFromReal = request.amount;
 				balanceType = "real";
-			} else if (request.preferredBalanceType === "bonus" && totalBonusBalance >= request.amount) {
+			} else if (request.preferredBalanceType === "bonus" && usableBonusBalance >= request.amount) {
 				// Use bonus balance only
 				amountToDeductFromBonus = request.amount;
 				balanceType = "bonus";
@@ -262,13 +204,13 @@ export async function deductBetAmount(request: BalanceDeductionRequest, tx?: any
 					amountToDeductFromReal = Math.min(realBalance, request.amount);
 					const remainingAmount = request.amount - amountToDeductFromReal;
 
-					if (remainingAmount > 0 && totalBonusBalance >= remainingAmount) {
+					if (remainingAmount > 0 && usableBonusBalance >= remainingAmount) {
 						amountToDeductFromBonus = remainingAmount;
 						balanceType = "mixed";
 					} else if (remainingAmount > 0) {
 						throw new Error("Insufficient total balance");
 					}
-				} else if (totalBonusBalance >= request.amount) {
+				} else if (usableBonusBalance >= request.amount) {
 					amountToDeductFromBonus = request.amount;
 					balanceType = "bonus";
 				} else {
@@ -276,75 +218,65 @@ export async function deductBetAmount(request: BalanceDeductionRequest, tx?: any
 				}
 			}
 
-			const wageringProgress: BalanceDeductionResult["wageringProgress"] = [];
-
-			// Get current wagering requirements
-			const currentBalance = await transaction.query.userBalanceTable.findFirst({
-				where: eq(userBalanceTable.userId, request.userId),
-			});
-
-			if (!currentBalance) {
-				throw new Error("Player balance not found during wagering update");
+			if (amountToDeductFromBonus > 0 && bonusContext.maxBet !== null && request.amount > bonusContext.maxBet) {
+				throw new BonusError(
+					"BONUS_MAX_BET_EXCEEDED",
+					`Maximum bet while playing with bonus money is ${bonusContext.maxBet}`,
+				);
 			}
 
-			const currentDepositWrRemaining = Number(currentBalance.depositWrRemaining);
-			const currentBonusWrRemaining = Number(currentBalance.bonusWrRemaining);
+			const currentDepositWrRemaining = Number(playerBalance.depositWrRemaining);
 
-			// Calculate wagering reduction
+			// Real money wagered works off the deposit wagering requirement
 			let depositWrReduction = 0;
-			let bonusWrReduction = 0;
-
 			if (balanceType === "real") {
-				// When using real balance, reduce deposit wagering requirement
 				depositWrReduction = Math.min(amountToDeductFromReal, currentDepositWrRemaining);
-			} else if (balanceType === "bonus") {
-				// When using bonus balance, reduce bonus wagering requirement
-				bonusWrReduction = Math.min(amountToDeductFromBonus, currentBonusWrRemaining);
 			} else if (balanceType === "mixed") {
-				// When mixed, reduce both proportionally
 				const realRatio = amountToDeductFromReal / request.amount;
 				depositWrReduction = Math.floor(currentDepositWrRemaining * realRatio);
-				bonusWrReduction = Math.min(amountToDeductFromBonus, currentBonusWrRemaining);
 			}
 
-			// Deduct from real balance if needed
-			if (amountToDeductFromReal > 0) {
-				await transaction
-					.update(userBalanceTable)
-					.set({
-						realBalance: realBalance - amountToDeductFromReal,
-						totalWagered: sql`${userBalanceTable.totalWagered} + ${amountToDeductFromReal}`,
-						depositWrRemaining: sql`${userBalanceTable.depositWrRemaining} - ${depositWrReduction}`,
-					})
-					.where(eq(userBalanceTable.userId, request.userId));
-			}
+			await transaction
+				.update(userBalanceTable)
+				.set({
+					realBalance: sql`${userBalanceTable.realBalance} - ${amountToDeductFromReal}`,
+					bonusBalance: sql`${userBalanceTable.bonusBalance} - ${amountToDeductFromBonus}`,
+					totalWagered: sql`${userBalanceTable.totalWagered} + ${request.amount}`,
+					depositWrRemaining: sql`${userBalanceTable.depositWrRemaining} - ${depositWrReduction}`,
+				})
+				.where(eq(userBalanceTable.userId, request.userId));
+
+			await postJournal(transaction, {
+				type: "BET",
+				userId: request.userId,
+				relatedId: request.roundId,
+				metadata: { gameId: request.gameId },
+				legs: betLegs(
+					request.userId,
+					{ real: amountToDeductFromReal, bonus: amountToDeductFromBonus },
+					request.operatorId,
+				),
+			});
 
-			// Deduct from bonus balance(s) if needed
-			let bonuses: Array<{
-				bonusId: string;
-				amount: number;
-				remainingWagering: number;
-			}> = [];
-			if (amountToDeductFromBonus > 0) {
-				bonuses = await deductFromBonusBalance(request.userId, amountToDeductFromBonus, request.gameId, transaction);
-
-				// Reduce bonus wagering requirement
-				await transaction
-					.update(userBalanceTable)
-					.set({
-						bonusWrRemaining: sql`${userBalanceTable.bonusWrRemaining} - ${bonusWrReduction}`,
-					})
-					.where(eq(userBalanceTable.userId, request.userId));
-			}
+			// The whole stake counts towards bonus wagering, whichever balance paid for it
+			const { allocations, converted, bonusWrReduction } = await applyBonusWagering(
+				transaction,
+				request.userId,
+				request.amount,
+				bonusContext,
+			);
 
 			return {
 				success: true,
 				balanceType,
 				deductedFrom: {
 					real: amountToDeductFromReal,
-					bonuses,
+					bonus: amountToDeductFromBonus,
 				},
-				wageringProgress,
+				wageringProgress: allocations,
+				bonusConverted: converted,
+				depositWrReduction,
+				bonusWrReduction,
 			};
 		};
 
@@ -362,9 +294,13 @@ export async function deductBetAmount(request: BalanceDeductionRequest, tx?: any
 		return {
 			success: false,
 			balanceType: "real",
-			deductedFrom: { real: 0, bonuses: [] },
+			deductedFrom: { real: 0, bonus: 0 },
 			wageringProgress: [],
+			bonusConverted: 0,
+			depositWrReduction: 0,
+			bonusWrReduction: 0,
 			error: error instanceof Error ? error.message : "Unknown error",
+			errorCode: error instanceof BonusError ? (error.code as BonusWagerErrorCode) : undefined,
 		};
 	}
 }
@@ -374,10 +310,18 @@ export async function deductBetAmount(request: BalanceDeductionRequest, tx?: any
  */
 export async function addWinnings(
 	request: BalanceAdditionRequest,
-	tx?: any,
+	tx?: DbTransaction,
 ): Promise<{ success: boolean; newBalance: number; error?: string }> {
 	try {
-		const creditResult = await creditToBalance(request.userId, request.amount, request.balanceType, "win", tx);
+		const creditResult = await creditToBalance(
+			request.userId,
+			request.amount,
+			request.balanceType,
+			"win",
+			tx,
+			request.roundId,
+			request.operatorId,
+		);
 
 		return creditResult;
 	} catch (error) {
@@ -391,19 +335,36 @@ export async function addWinnings(
 	}
 }
 
-export async function handleDeposit(input: DepositInput, tx?: any): Promise<UserBalanceSelect> {
-	const settings = configurationManager.getConfiguration();
-
+/**
+ * Credit a deposit to real balance. depositId links the DEPOSIT journal to the deposit.
+ * The deposit wagering multiplier is the one of the player's operator.
+ */
+export async function handleDeposit(
+	input: DepositInput,
+	tx?: DbTransaction,
+	depositId?: string,
+): Promise<UserBalanceSelect> {
 	const { userId, amount } = DepositSchema.parse(input);
 
-	const performDeposit = async (transaction: any) => {
-		// First, get the default operator (The House)
-		const operator = await transaction.query.operatorTable.findFirst({
-			where: eq(operatorTable.name, "The House"),
+	const performDeposit = async (transaction: DbTransaction) => {
+		const user = await transaction.query.userTable.findFirst({
+			where: eq(userTable.id, userId),
+			columns: { operatorId: true },
 		});
+		const settings = configurationManager.getConfiguration({ operatorId: user?.operatorId });
+
+		// The deposit is paid out of the player's operator, the same float the DEPOSIT journal books against
+		if (!user?.operatorId) {
+			throw new Error(`User ${userId} has no operator`);
+		}
+		const [operator] = await transaction
+			.select()
+			.from(operatorTable)
+			.where(eq(operatorTable.id, user.operatorId))
+			.for("update");
 
 		if (!operator) {
-			throw new Error("Default operator 'The House' not found");
+			throw new Error(`Operator ${user.operatorId} not found`);
 		}
 
 		// Check if operator has sufficient balance
@@ -422,7 +383,7 @@ export async function handleDeposit(input: DepositInput, tx?: any): Promise<User
 			.where(eq(operatorTable.id, operator.id));
 
 		// Ensure user balance exists
-		const balance = await getOrCreateBalance(userId);
+		await getOrCreateBalance(userId, transaction);
 		const depositWROwed = amount * settings.depositWrMultiplier;
 
 		// Update user's balance
@@ -444,6 +405,13 @@ export async function handleDeposit(input: DepositInput, tx?: any): Promise<User
 		const updatedBalance = updatedBalances[0];
 		if (!updatedBalance) throw new Error(" no balance found");
 
+		await postJournal(transaction, {
+			type: "DEPOSIT",
+			userId,
+			relatedId: depositId,
+			legs: depositLegs(userId, amount, user.operatorId),
+		});
+
 		return updatedBalance;
 	};
 
@@ -461,6 +429,7 @@ export async function handleDeposit(input: DepositInput, tx?: any): Promise<User
  * Get detailed balance information including active bonuses
  */
 export async function getDetailedBalance(userId: string): Promise<{
+	currency: string;
 	realBalance: number;
 	bonusBalance: number;
 	activeBonuses: BonusInfo[];
@@ -495,6 +464,7 @@ export async function getDetailedBalance(userId: string): Promise<{
 	);
 
 	return {
+		currency: playerBalance.currency,
 		realBalance: Number(playerBalance.realBalance),
 		bonusBalance: Number(playerBalance.bonusBalance),
 		activeBonuses: bonusDetails,
@@ -502,8 +472,8 @@ export async function getDetailedBalance(userId: string): Promise<{
 	};
 }
 
-export async function getOrCreateBalance(userId: string): Promise<UserBalanceSelect> {
-	const balances = await db.select().from(userBalanceTable).where(eq(userBalanceTable.userId, userId)).limit(1);
+export async function getOrCreateBalance(userId: string, tx: any = db): Promise<UserBalanceSelect> {
+	const balances = await tx.select().from(userBalanceTable).where(eq(userBalanceTable.userId, userId)).limit(1);
 
 	if (balances.length > 0) {
 		return balances[0]!;
@@ -513,6 +483,7 @@ export async function getOrCreateBalance(userId: string): Promise<UserBalanceSel
 	const newBalance = {
 		id: crypto.randomUUID(), // Generate UUID for the balance record
 		userId,
+		currency: await newWalletCurrency(userId, tx),
 		realBalance: 0,
 		bonusBalance: 0,
 		freeSpinsRemaining: 0,
@@ -526,7 +497,7 @@ export async function getOrCreateBalance(userId: string): Promise<UserBalanceSel
 		totalFreeSpinWins: 0,
 	};
 
-	const insertedBalances = await db.insert(userBalanceTable).values(newBalance).returning();
+	const insertedBalances = await tx.insert(userBalanceTable).values(newBalance).returning();
 
 	if (!insertedBalances || insertedBalances.length === 0) {
 		throw new Error("Failed to create balance record for user");
@@ -552,7 +523,7 @@ export async function getWageringProgress(userId: string): Promise<{
 	}>;
 }> {
 	const activeBonuses = await db.query.userBonusTable.findMany({
-		where: and(eq(userBonusTable.userId, userId), eq(userBonusTable.status, "PENDING")),
+		where: and(eq(userBonusTable.userId, userId), eq(userBonusTable.status, "ACTIVE")),
 		with: {
 			bonus: true, // Add this to load the bonus relation
 		},
@@ -594,9 +565,25 @@ export async function createBalanceForNewUser(userId: string): Promise<void> {
 	await db.insert(userBalanceTable).values({
 		id: crypto.randomUUID(), // Generate UUID for the balance record
 		userId: userId,
+		currency: await newWalletCurrency(userId),
 	});
 }
 
+/**
+ * Wallets are opened in the default currency of the player's operator and keep it
+ */
+async function newWalletCurrency(userId: string, tx: any = db): Promise<string> {
+	return defaultWalletCurrency({ operatorId: await getUserOperatorId(userId, tx) });
+}
+
+/**
+ * Operator the player belongs to, which owns the float and GGR accounts their money moves through
+ */
+export async function getUserOperatorId(userId: string, tx: DbExecutor = db): Promise<string | null> {
+	const [user] = await tx.select({ operatorId: userTable.operatorId }).from(userTable).where(eq(userTable.id, userId));
+	return user?.operatorId ?? null;
+}
+
 /**
  * Check if player has sufficient balance for bet
  * Prioritizes real balance over bonus balance
@@ -701,12 +688,14 @@ async function creditToBalance(
 	amount: number,
 	balanceType: "real" | "bonus",
 	creditToBalanceType: "deposit" | "bet" | "win",
-	tx?: any,
+	tx?: DbTransaction,
+	relatedId?: string,
+	operatorId?: string | null,
 ): Promise<{ success: boolean; newBalance: number; error?: string }> {
 	try {
-		const settings = configurationManager.getConfiguration();
+		const settings = configurationManager.getConfiguration({ operatorId });
 
-		const performCredit = async (transaction: any) => {
+		const performCredit = async (transaction: DbTransaction) => {
 			// Get current balance within the transaction for atomicity
 			const currentBalance = await transaction.query.userBalanceTable.findFirst({
 				where: eq(userBalanceTable.userId, userId),
@@ -759,6 +748,15 @@ async function creditToBalance(
 				})
 				.where(eq(userBalanceTable.userId, userId));
 
+			const credited = newBalance - (balanceType === "real" ? realBalance : bonusBalance);
+			const credit = balanceType === "real" ? { real: credited, bonus: 0 } : { real: 0, bonus: credited };
+			await postJournal(
+				transaction,
+				creditToBalanceType === "deposit"
+					? { type: "DEPOSIT", userId, relatedId, legs: depositLegs(userId, credited, operatorId) }
+					: { type: "WIN", userId, relatedId, legs: winLegs(userId, credit, operatorId) },
+			);
+
 			return { success: true, newBalance };
 		};
 
@@ -0,0 +1,138 @@
+import { type DbExecutor, type DbTransaction, db } from "@/core/database/db";
+import {
+	type BetRound,
+	type BetRoundAction,
+	type BetRoundActionInsert,
+	betRoundActionTable,
+	betRoundTable,
+} from "@/core/database/schema";
+import { and, eq, sql } from "drizzle-orm";
+
+/**
+ * Bet round idempotency
+ * A round is claimed inside the bet transaction, so a rolled-back bet frees its roundId again.
+ * Seamless-wallet rounds also record each debit/credit/rollback call in bet_round_actions.
+ */
+
+export interface BetRoundClaim {
+	userId: string;
+	roundId: string;
+	gameId?: string;
+	gameSessionId?: string;
+	wagerAmount: number;
+	status?: BetRound["status"];
+	realBalanceBefore?: number;
+	bonusBalanceBefore?: number;
+	fairness?: Record<string, unknown>;
+}
+
+/**
+ * Claim a round id for a user within the caller's transaction.
+ * Returns false when the round already exists (or is being claimed by a concurrent request).
+ */
+export async function claimBetRound(tx: DbTransaction, claim: BetRoundClaim): Promise<boolean> {
+	const inserted = await tx
+		.insert(betRoundTable)
+		.values({
+			userId: claim.userId,
+			roundId: claim.roundId,
+			gameId: claim.gameId,
+			gameSessionId: claim.gameSessionId,
+			wagerAmount: claim.wagerAmount,
+			status: claim.status ?? "OPEN",
+			realBalanceBefore: claim.realBalanceBefore,
+			bonusBalanceBefore: claim.bonusBalanceBefore,
+			fairness: claim.fairness,
+			closedAt: claim.status && claim.status !== "OPEN" ? new Date() : undefined,
+		})
+		.onConflictDoNothing({ target: [betRoundTable.userId, betRoundTable.roundId] })
+		.returning({ id: betRoundTable.id });
+
+	return inserted.length > 0;
+}
+
+/**
+ * Load a round and lock its row until the caller's transaction ends,
+ * serialising concurrent wallet calls for the same round.
+ */
+export async function lockBetRound(tx: DbTransaction, userId: string, roundId: string): Promise<BetRound | undefined> {
+	const [round] = await tx
+		.select()
+		.from(betRoundTable)
+		.where(and(eq(betRoundTable.userId, userId), eq(betRoundTable.roundId, roundId)))
+		.for("update");
+	return round;
+}
+
+export async function findBetRoundAction(
+	tx: DbTransaction,
+	betRoundId: string,
+	transactionId: string,
+): Promise<BetRoundAction | undefined> {
+	const [action] = await tx
+		.select()
+		.from(betRoundActionTable)
+		.where(and(eq(betRoundActionTable.betRoundId, betRoundId), eq(betRoundActionTable.transactionId, transactionId)));
+	return action;
+}
+
+export async function getBetRoundActions(tx: DbTransaction, betRoundId: string): Promise<BetRoundAction[]> {
+	return await tx.select().from(betRoundActionTable).where(eq(betRoundActionTable.betRoundId, betRoundId));
+}
+
+export async function recordBetRoundAction(
+	tx: DbTransaction,
+	action: Omit<BetRoundActionInsert, "id" | "createdAt">,
+): Promise<void> {
+	await tx.insert(betRoundActionTable).values(action);
+}
+
+export async function findBetRound(userId: string, roundId: string): Promise<BetRound | undefined> {
+	return await db.query.betRoundTable.findFirst({
+		where: and(eq(betRoundTable.userId, userId), eq(betRoundTable.roundId, roundId)),
+	});
+}
+
+export interface BetRoundSettlement {
+	winAmount: number;
+	realBalanceAfter: number;
+	bonusBalanceAfter: number;
+	outcome: Record<string, unknown>;
+	fairness?: Record<string, unknown>; // Commitment of an outcome generated after the round was claimed
+}
+
+/**
+ * Store the final outcome of a round, inside the transaction that settles it,
+ * so replays can return it verbatim and a round is never left without one.
+ */
+export async function completeBetRound(
+	tx: DbTransaction,
+	userId: string,
+	roundId: string,
+	settlement: BetRoundSettlement,
+): Promise<void> {
+	const { fairness, ...settled } = settlement;
+	await tx
+		.update(betRoundTable)
+		.set({ ...settled, ...(fairness ? { fairness } : {}), updatedAt: new Date() })
+		.where(and(eq(betRoundTable.userId, userId), eq(betRoundTable.roundId, roundId)));
+}
+
+/**
+ * Merge fields into a settled round's stored outcome, e.g. the listener contributions
+ * that are only known once the BetCompleted event has been delivered
+ */
+export async function mergeBetRoundOutcome(
+	userId: string,
+	roundId: string,
+	fields: Record<string, unknown>,
+	tx: DbExecutor = db,
+): Promise<void> {
+	await tx
+		.update(betRoundTable)
+		.set({
+			outcome: sql`coalesce(${betRoundTable.outcome}, '{}'::jsonb) || ${JSON.stringify(fields)}::jsonb`,
+			updatedAt: new Date(),
+		})
+		.where(and(eq(betRoundTable.userId, userId), eq(betRoundTable.roundId, roundId)));
+}
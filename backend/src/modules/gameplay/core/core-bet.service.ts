@@ -1,10 +1,22 @@
-/** biome-ignore-all lint/suspicious/noExplicitAny: <> */
-import { db } from "@/core/database/db";
+import { type DbTransaction, db } from "@/core/database/db";
 import { transactionLogTable, userTable, userBalanceTable, gameTable, gameSessionTable } from "@/core/database/schema";
-import { validateBet } from "@/modules/gameplay/core/restrictions.service";
+import {
+	type BetRejectionCode,
+	resolveBetRestrictions,
+	validateBet,
+	validatePlayerCanPlay,
+} from "@/modules/gameplay/core/restrictions.service";
 import { sql, eq, and } from "drizzle-orm";
 import { z } from "zod";
-import { addWinnings, deductBetAmount } from "./balance-management.service";
+import { v4 as uuidv4 } from "uuid";
+import { type BalanceDeductionResult, addWinnings, deductBetAmount } from "./balance-management.service";
+import { claimBetRound, completeBetRound } from "./bet-round.service";
+import { generateFairOutcome, roundFairnessOf } from "./fairness.service";
+import { consumeFreeSpin, creditFreeSpinWin } from "./free-spins.service";
+import { recordDailyPlay, recordSessionPlay } from "./loss-limit.service";
+import type { BonusWagerErrorCode } from "@/modules/bonus/bonus.service";
+import { BET_COMPLETED_EVENT, type BetCompleted } from "@/modules/events/domain-events";
+import { enqueueOutboxEvent } from "@/modules/outbox/outbox.service";
 import { appLogger, createOperationContext, type LogContext } from "@/core/logger/app-logger";
 
 // Interfaces and Schemas
@@ -15,6 +27,8 @@ export interface BetRequest {
 	operatorId?: string;
 	sessionId?: string;
 	affiliateName?: string;
+	roundId?: string; // Client-supplied idempotency key; generated when omitted
+	freeSpin?: boolean; // Play a granted free spin; the stake then comes from the grant, not wagerAmount
 }
 
 export interface GameOutcome {
@@ -26,6 +40,31 @@ export interface GameOutcome {
 	};
 }
 
+export type BetErrorCode =
+	| BetRejectionCode
+	| "USER_NOT_FOUND"
+	| "GAME_NOT_FOUND"
+	| "DUPLICATE_ROUND"
+	| "ROUND_IN_PROGRESS"
+	| "ROUND_MISMATCH"
+	| "NO_FREE_SPINS"
+	| BonusWagerErrorCode
+	| "BET_PROCESSING_FAILED";
+
+/**
+ * Raised when a bet is refused before any balance is moved.
+ * Carries a typed code so callers (HTTP routes, bots) can react without parsing messages.
+ */
+export class BetRejectedError extends Error {
+	constructor(
+		public readonly code: BetErrorCode,
+		message: string,
+	) {
+		super(message);
+		this.name = "BetRejectedError";
+	}
+}
+
 // Sanitization function for strings to prevent log injection
 function sanitizeString(str: string): string {
 	return str.replace(/[\r\n\t\b\f\v\\"]/g, "").trim();
@@ -47,6 +86,8 @@ export const betRequestSchema = z.object({
 		.string()
 		.optional()
 		.transform((val) => (val ? sanitizeString(val) : val)),
+	roundId: z.uuid("roundId must be a UUID").optional(),
+	freeSpin: z.boolean().optional(),
 });
 
 export const gameOutcomeSchema = z.object({
@@ -60,15 +101,102 @@ export const gameOutcomeSchema = z.object({
 		.optional(),
 });
 
+/**
+ * Queue a BetCompleted event for a settled round, inside the transaction that settled it.
+ * The event carries the wallet's currency for the transaction log and GGR.
+ */
+export async function enqueueBetCompleted(
+	tx: DbTransaction,
+	result: Omit<BetCompleted, "betId" | "betRequest" | "processingTime" | "currency">,
+	betRequest: BetCompleted["betRequest"],
+	startTime: number,
+): Promise<string> {
+	const [wallet] = await tx
+		.select({ currency: userBalanceTable.currency })
+		.from(userBalanceTable)
+		.where(eq(userBalanceTable.userId, result.userId));
+
+	return enqueueOutboxEvent(tx, {
+		eventType: BET_COMPLETED_EVENT,
+		aggregateId: result.roundId,
+		userId: result.userId,
+		payload: {
+			...result,
+			currency: wallet?.currency,
+			betId: result.roundId,
+			betRequest,
+			processingTime: Date.now() - startTime,
+		},
+	});
+}
+
+/**
+ * Write the settled outcome onto the round within the settling transaction.
+ * Listener contributions are 0 here and merged in once the BetCompleted event has been delivered.
+ */
+export async function settleBetRound(
+	tx: DbTransaction,
+	result: Pick<
+		BetCompleted,
+		| "roundId"
+		| "userId"
+		| "gameId"
+		| "wagerAmount"
+		| "winAmount"
+		| "realBalanceAfter"
+		| "bonusBalanceAfter"
+		| "balanceType"
+	> & { gameOutcome?: GameOutcome },
+): Promise<void> {
+	const fairness = result.gameOutcome ? roundFairnessOf(result.gameOutcome) : undefined;
+	await completeBetRound(tx, result.userId, result.roundId, {
+		winAmount: result.winAmount,
+		realBalanceAfter: result.realBalanceAfter,
+		bonusBalanceAfter: result.bonusBalanceAfter,
+		outcome: {
+			userId: result.userId,
+			gameId: result.gameId,
+			wagerAmount: result.wagerAmount,
+			winAmount: result.winAmount,
+			balanceType: result.balanceType,
+			newBalance: result.realBalanceAfter + result.bonusBalanceAfter,
+			jackpotContribution: 0,
+			vipPointsEarned: 0,
+			ggrContribution: 0,
+			success: true,
+			transactionId: result.roundId, // BET/WIN rows are logged with relatedId = roundId
+			roundId: result.roundId,
+		},
+		fairness,
+	});
+}
+
+/**
+ * Read the player's balance within the bet transaction, locking the row until it ends
+ */
+async function readUserBalance(tx: DbTransaction, userId: string) {
+	const [balance] = await tx
+		.select({ realBalance: userBalanceTable.realBalance, bonusBalance: userBalanceTable.bonusBalance })
+		.from(userBalanceTable)
+		.where(eq(userBalanceTable.userId, userId))
+		.for("update");
+	if (!balance) {
+		throw new Error("User balance not found");
+	}
+	return balance;
+}
+
 /**
  * Helper function to add winnings within a transaction context
  */
-async function addWinningsWithinTransaction(
-	tx: any,
-	balanceDeduction: any,
+export async function addWinningsWithinTransaction(
+	tx: DbTransaction,
+	balanceDeduction: Pick<BalanceDeductionResult, "balanceType" | "deductedFrom">,
 	userId: string,
 	gameId: string,
 	winAmount: number,
+	roundId?: string,
+	operatorId?: string | null,
 ) {
 	let winningsAddition: {
 		success: boolean;
@@ -83,9 +211,7 @@ async function addWinningsWithinTransaction(
 
 	if (winAmount > 0) {
 		if (balanceDeduction.balanceType === "mixed") {
-			const totalDeducted =
-				balanceDeduction.deductedFrom.real +
-				balanceDeduction.deductedFrom.bonuses.reduce((sum: any, b: { amount: any }) => sum + b.amount, 0);
+			const totalDeducted = balanceDeduction.deductedFrom.real + balanceDeduction.deductedFrom.bonus;
 
 			if (totalDeducted === 0) {
 				realWinnings = winAmount;
@@ -97,6 +223,8 @@ async function addWinningsWithinTransaction(
 						balanceType: "real",
 						reason: `Game win - ${gameId}`,
 						gameId,
+						roundId,
+						operatorId,
 					},
 					tx,
 				);
@@ -113,6 +241,8 @@ async function addWinningsWithinTransaction(
 						balanceType: "real",
 						reason: `Game win - ${gameId} (real portion)`,
 						gameId,
+						roundId,
+						operatorId,
 					},
 					tx,
 				);
@@ -124,6 +254,8 @@ async function addWinningsWithinTransaction(
 						balanceType: "bonus",
 						reason: `Game win - ${gameId} (bonus portion)`,
 						gameId,
+						roundId,
+						operatorId,
 					},
 					tx,
 				);
@@ -143,6 +275,8 @@ async function addWinningsWithinTransaction(
 					balanceType,
 					reason: `Game win - ${gameId}`,
 					gameId,
+					roundId,
+					operatorId,
 				},
 				tx,
 			);
@@ -162,20 +296,24 @@ async function addWinningsWithinTransaction(
 	return { winningsAddition, realWinnings, bonusWinnings };
 }
 
-export async function executeCoreBet(betRequest: BetRequest, gameOutcome: GameOutcome) {
+/**
+ * Settle a complete bet round in one call.
+ * When no gameOutcome is passed (the normal case) the outcome engine generates it server-side
+ * from the user's provably-fair seeds; a supplied outcome is only for trusted internal callers.
+ * The bet listeners are queued in the same transaction; outboxEventId lets the caller deliver them straight away.
+ */
+export async function executeCoreBet(betRequest: BetRequest, gameOutcome?: GameOutcome) {
+	const startTime = Date.now();
 	const validatedBetRequest = betRequestSchema.parse(betRequest);
-	const validatedGameOutcome = gameOutcomeSchema.parse(gameOutcome);
+	const roundId = validatedBetRequest.roundId ?? uuidv4();
 
-	const [user, userBalance, game, gameSession] = await Promise.all([
+	const [user, game, gameSession] = await Promise.all([
 		db.query.userTable.findFirst({
 			where: (userTable, { eq }) => eq(userTable.id, validatedBetRequest.userId),
 			with: {
 				userBalances: true,
 			},
 		}),
-		db.query.userBalanceTable.findFirst({
-			where: (userBalanceTable, { eq }) => eq(userBalanceTable.userId, validatedBetRequest.userId),
-		}),
 		db.query.gameTable.findFirst({
 			where: (gameTable, { eq }) => eq(gameTable.id, validatedBetRequest.gameId),
 		}),
@@ -190,72 +328,192 @@ export async function executeCoreBet(betRequest: BetRequest, gameOutcome: GameOu
 	]);
 
 	if (!user) {
-		throw new Error("User not found");
+		throw new BetRejectedError("USER_NOT_FOUND", "User not found");
+	}
+
+	if (!game) {
+		throw new BetRejectedError("GAME_NOT_FOUND", `Game ${validatedBetRequest.gameId} not found`);
 	}
 
-	const validation = await validateBet(user, validatedBetRequest.wagerAmount, validatedBetRequest.gameId);
+	// The stake, win and listener bookings (jackpot, transaction log) all go to the player's operator
+	validatedBetRequest.operatorId ??= user.operatorId ?? undefined;
+
+	const isFreeSpin = validatedBetRequest.freeSpin === true;
+
+	// Free spins stake nothing from the balance, so only the player's own limits and reality check apply
+	const validation = isFreeSpin
+		? await validatePlayerCanPlay(user.id, validatedBetRequest.gameId)
+		: await validateBet(
+				user,
+				validatedBetRequest.wagerAmount,
+				validatedBetRequest.gameId,
+				(await resolveBetRestrictions(user, game)).limits,
+			);
 
 	if (!validation.valid) {
-		throw new Error(validation.reason || "Bet validation failed");
+		throw new BetRejectedError(
+			(validation.error as BetRejectionCode) || "BET_PROCESSING_FAILED",
+			validation.reason || "Bet validation failed",
+		);
 	}
 
-	if (!game) {
-		throw new Error(`Game ${validatedBetRequest.gameId} not found`);
-	}
-	if (!userBalance) {
-		throw new Error("User balance not found");
+	const resolveGameOutcome = async (tx: DbTransaction, wagerAmount: number) =>
+		gameOutcomeSchema.parse(
+			gameOutcome ?? (await generateFairOutcome(validatedBetRequest.userId, game, wagerAmount, tx)),
+		);
+
+	if (isFreeSpin) {
+		return executeFreeSpinBet(validatedBetRequest, roundId, game, gameSession?.id, resolveGameOutcome, startTime);
 	}
 
-	const balanceTransactionResult = await db.transaction(async (tx) => {
+	return await db.transaction(async (tx) => {
+		const balanceBefore = await readUserBalance(tx, validatedBetRequest.userId);
+
+		// Claim the round first so a replay never reaches the fairness nonce or the balance updates
+		const claimed = await claimBetRound(tx, {
+			userId: validatedBetRequest.userId,
+			roundId,
+			gameId: validatedBetRequest.gameId,
+			gameSessionId: gameSession?.id,
+			wagerAmount: validatedBetRequest.wagerAmount,
+			status: "CLOSED",
+			realBalanceBefore: balanceBefore.realBalance,
+			bonusBalanceBefore: balanceBefore.bonusBalance,
+		});
+		if (!claimed) {
+			throw new BetRejectedError("DUPLICATE_ROUND", `Round ${roundId} has already been played`);
+		}
+
+		const validatedGameOutcome = await resolveGameOutcome(tx, validatedBetRequest.wagerAmount);
+
 		const balanceDeduction = await deductBetAmount(
 			{
-				userId: userBalance.userId,
+				userId: validatedBetRequest.userId,
 				amount: validatedBetRequest.wagerAmount,
 				gameId: validatedBetRequest.gameId,
+				roundId,
+				operatorId: validatedBetRequest.operatorId,
 				preferredBalanceType: "auto",
 			},
 			tx,
 		);
 
 		if (!balanceDeduction.success) {
+			if (balanceDeduction.errorCode) {
+				throw new BetRejectedError(balanceDeduction.errorCode, balanceDeduction.error ?? "Bonus wager rejected");
+			}
+			// A concurrent bet may have drained the balance after validateBet ran
+			if (balanceDeduction.error?.startsWith("Insufficient")) {
+				throw new BetRejectedError("INSUFFICIENT_BALANCE", balanceDeduction.error);
+			}
 			throw new Error(balanceDeduction.error || "Balance deduction failed");
 		}
 
-		const winningsAddition = await addWinningsWithinTransaction(
+		await addWinningsWithinTransaction(
 			tx,
 			balanceDeduction,
-			userBalance.userId,
+			validatedBetRequest.userId,
 			validatedBetRequest.gameId,
 			validatedGameOutcome.winAmount,
+			roundId,
+			validatedBetRequest.operatorId,
 		);
 
-		const finalBalances = {
-			realBalance: userBalance.realBalance - balanceDeduction.deductedFrom.real + winningsAddition.realWinnings,
-			bonusBalance:
-				userBalance.bonusBalance -
-				balanceDeduction.deductedFrom.bonuses.reduce((sum, b) => sum + b.amount, 0) +
-				winningsAddition.bonusWinnings,
+		const played = { wagered: validatedBetRequest.wagerAmount, won: validatedGameOutcome.winAmount };
+		await recordDailyPlay(tx, validatedBetRequest.userId, played);
+		await recordSessionPlay(tx, gameSession?.id, played);
+
+		const balanceAfter = await readUserBalance(tx, validatedBetRequest.userId);
+		const result = {
+			roundId,
+			userId: validatedBetRequest.userId,
+			gameId: validatedBetRequest.gameId,
+			gameSessionId: gameSession?.id,
+			wagerAmount: validatedBetRequest.wagerAmount,
+			winAmount: validatedGameOutcome.winAmount,
+			realBalanceBefore: balanceBefore.realBalance,
+			bonusBalanceBefore: balanceBefore.bonusBalance,
+			realBalanceAfter: balanceAfter.realBalance,
+			bonusBalanceAfter: balanceAfter.bonusBalance,
+			balanceType: balanceDeduction.balanceType,
+			freeSpin: false,
+			gameOutcome: validatedGameOutcome,
 		};
+		await settleBetRound(tx, result);
+		const outboxEventId = await enqueueBetCompleted(tx, result, validatedBetRequest, startTime);
 
-		return {
-			balanceDeduction,
-			finalBalances,
-		};
+		return { ...result, outboxEventId };
 	});
+}
 
-	const { balanceDeduction, finalBalances } = balanceTransactionResult;
-
-	return {
-		userId: validatedBetRequest.userId,
-		gameId: validatedBetRequest.gameId,
-		wagerAmount: validatedBetRequest.wagerAmount,
-		winAmount: validatedGameOutcome.winAmount,
-		realBalanceBefore: userBalance.realBalance,
-		bonusBalanceBefore: userBalance.bonusBalance,
-		realBalanceAfter: finalBalances.realBalance,
-		bonusBalanceAfter: finalBalances.bonusBalance,
-		balanceType: balanceDeduction.balanceType,
-	};
+/**
+ * Settle a free spin round. The spin is taken from the user's oldest eligible grant, nothing is
+ * debited, and any win is credited to the bonus balance with free spin wagering attached.
+ */
+async function executeFreeSpinBet(
+	betRequest: z.infer<typeof betRequestSchema>,
+	roundId: string,
+	game: { minBet: number | null },
+	gameSessionId: string | undefined,
+	resolveGameOutcome: (tx: DbTransaction, wagerAmount: number) => Promise<z.infer<typeof gameOutcomeSchema>>,
+	startTime: number,
+) {
+	const { userId, gameId, operatorId } = betRequest;
+
+	return await db.transaction(async (tx) => {
+		const balanceBefore = await readUserBalance(tx, userId);
+
+		// The stake is only known once a grant is locked; a rejection below rolls the spin back
+		const spin = await consumeFreeSpin(tx, userId, gameId);
+		if (!spin) {
+			throw new BetRejectedError("NO_FREE_SPINS", `No free spins available for game ${gameId}`);
+		}
+		// The stake comes from the grant or the game, never from the request
+		const wagerAmount = spin.spinValue ?? game.minBet;
+		if (!wagerAmount || wagerAmount <= 0) {
+			throw new BetRejectedError("NO_FREE_SPINS", `Free spins have no stake for game ${gameId}`);
+		}
+
+		const claimed = await claimBetRound(tx, {
+			userId,
+			roundId,
+			gameId,
+			gameSessionId,
+			wagerAmount,
+			status: "CLOSED",
+			realBalanceBefore: balanceBefore.realBalance,
+			bonusBalanceBefore: balanceBefore.bonusBalance,
+		});
+		if (!claimed) {
+			throw new BetRejectedError("DUPLICATE_ROUND", `Round ${roundId} has already been played`);
+		}
+
+		const gameOutcome = await resolveGameOutcome(tx, wagerAmount);
+		if (gameOutcome.winAmount > 0) {
+			await creditFreeSpinWin(tx, userId, spin.grantId, gameOutcome.winAmount, operatorId);
+		}
+
+		const balanceAfter = await readUserBalance(tx, userId);
+		const result = {
+			roundId,
+			userId,
+			gameId,
+			gameSessionId,
+			wagerAmount,
+			winAmount: gameOutcome.winAmount,
+			realBalanceBefore: balanceBefore.realBalance,
+			bonusBalanceBefore: balanceBefore.bonusBalance,
+			realBalanceAfter: balanceAfter.realBalance,
+			bonusBalanceAfter: balanceAfter.bonusBalance,
+			balanceType: "bonus" as const,
+			freeSpin: true,
+			gameOutcome,
+		};
+		await settleBetRound(tx, result);
+		const outboxEventId = await enqueueBetCompleted(tx, result, betRequest, startTime);
+
+		return { ...result, outboxEventId };
+	});
 }
 
 /**
@@ -1,98 +1,160 @@
 // src/modules/gameplay/core-deposit.service.ts
 
 import { db } from "@/core/database/db";
-import { depositTable, type Deposit, type UserBalanceSelect } from "@/core/database/schema";
-import { eq } from "drizzle-orm";
-import { getDetailedBalance, handleDeposit } from "./balance-management.service";
+import { depositTable } from "@/core/database/schema";
+import { and, eq } from "drizzle-orm";
+import { configurationManager } from "@/shared/config";
+import { DEPOSIT_COMPLETED_EVENT, type DepositCompleted } from "@/modules/events/domain-events";
+import { enqueueOutboxEvent } from "@/modules/outbox/outbox.service";
+import { getDetailedBalance, getUserOperatorId, handleDeposit } from "./balance-management.service";
+import { awardDepositMatch } from "@/modules/bonus/bonus.service";
+import {
+	applyDepositPayment,
+	isDepositExpired,
+	isDuplicatePayment,
+	readDepositPaymentState,
+	resolveDepositConfig,
+} from "./deposit-rules";
 import type { WebhookConfirmation } from "../orchestrators/deposit.orchestrator";
 
 // Define the payload this core service will return
-export interface CoreDepositResult {
-	userId: string;
-	depositId: string;
-	amount: number;
-	bonusAmount: number;
-	realBalanceBefore: number;
-	bonusBalanceBefore: number;
-	realBalanceAfter: number;
-	bonusBalanceAfter: number;
+export interface CoreDepositResult extends DepositCompleted {
+	outboxEventId?: string; // Set when a DepositCompleted event was queued
+}
+
+export type DepositConfirmationErrorCode =
+	| "DEPOSIT_NOT_FOUND"
+	| "USER_MISMATCH"
+	| "ALREADY_PROCESSED"
+	| "DEPOSIT_CLOSED"
+	| "DUPLICATE_PAYMENT"
+	| "CONCURRENT_UPDATE";
+
+export class DepositConfirmationError extends Error {
+	constructor(
+		public readonly code: DepositConfirmationErrorCode,
+		message: string,
+	) {
+		super(message);
+		this.name = "DepositConfirmationError";
+	}
 }
 
 /**
  * Executes the core, atomic deposit transaction.
- * Credits the user's balance and marks the deposit as "COMPLETED".
+ * The deposit is locked and only moves on from PENDING, so a replayed webhook cannot credit twice;
+ * payments already recorded in metadata, by provider transaction id or signed body digest, are rejected as duplicates.
+ * Short and over payments follow the depositConfig of the player's operator.
+ * When money was credited a DepositCompleted event is queued in the same transaction.
  */
 export async function executeCoreDeposit(confirmation: WebhookConfirmation): Promise<CoreDepositResult> {
-	// Find pending deposit
-	const pendingDeposit = await db.query.depositTable.findFirst({
-		where: eq(depositTable.id, confirmation.transactionId),
-	});
+	return await db.transaction(async (tx) => {
+		const [deposit] = await tx
+			.select()
+			.from(depositTable)
+			.where(eq(depositTable.id, confirmation.transactionId))
+			.for("update");
 
-	if (!pendingDeposit) {
-		throw new Error("No pending deposit found for this transaction");
-	}
-
-	if (!pendingDeposit.userId) {
-		throw new Error("Deposit record is missing a userId");
-	}
-
-	if (confirmation.amount < pendingDeposit.amount) {
-		// Or handle partial payments if your system supports it
-		throw new Error("Confirmation amount is less than pending deposit amount");
-	}
+		if (!deposit) {
+			throw new DepositConfirmationError("DEPOSIT_NOT_FOUND", "No pending deposit found for this transaction");
+		}
+		if (confirmation.userId && deposit.userId !== confirmation.userId) {
+			throw new DepositConfirmationError("USER_MISMATCH", "Confirmation does not belong to the deposit's user");
+		}
+		if (deposit.status === "COMPLETED") {
+			throw new DepositConfirmationError("ALREADY_PROCESSED", `Deposit ${deposit.id} is already COMPLETED`);
+		}
+		const operatorId = await getUserOperatorId(deposit.userId, tx);
+		const depositConfig = resolveDepositConfig(configurationManager.getConfiguration({ operatorId }).depositConfig);
 
-	// Get balance *before* the transaction
-	const playerBalance = await getDetailedBalance(pendingDeposit.userId);
-	if (!playerBalance) {
-		throw new Error("User balance not found");
-	}
+		// Expired, failed or cancelled references no longer take payments; the money has to be handled by hand
+		if (deposit.status !== "PENDING" || isDepositExpired(deposit, depositConfig)) {
+			throw new DepositConfirmationError("DEPOSIT_CLOSED", `Deposit ${deposit.id} no longer accepts payments`);
+		}
 
-	const realBalanceBefore = playerBalance.realBalance;
-	const bonusBalanceBefore = playerBalance.bonusBalance;
+		const paymentState = readDepositPaymentState(deposit.metadata);
+		if (isDuplicatePayment(paymentState, confirmation.providerTransactionId, confirmation.payloadDigest)) {
+			throw new DepositConfirmationError(
+				"DUPLICATE_PAYMENT",
+				`Payment ${confirmation.providerTransactionId ?? confirmation.payloadDigest} was already applied`,
+			);
+		}
 
-	// Execute as an atomic transaction
-	const txResult = await db.transaction(async (tx) => {
-		// 1. Credit user wallet
-		const creditResult = await handleDeposit(
+		const payment = applyDepositPayment(
+			deposit.amount,
+			paymentState,
 			{
-				userId: pendingDeposit.userId,
-				amount: pendingDeposit.amount,
-				// Note: handleDeposit should be updated to work within a tx
-				// or we should move its logic in here. Assuming it works.
+				amount: confirmation.amount,
+				providerTransactionId: confirmation.providerTransactionId,
+				payloadDigest: confirmation.payloadDigest,
+				receivedAt: confirmation.timestamp,
 			},
-			tx,
+			depositConfig,
 		);
 
-		// 2. Update deposit status to completed
-		await tx
+		// 1. Credit user wallet
+		const balanceAfter =
+			payment.credit > 0
+				? await handleDeposit({ userId: deposit.userId, amount: payment.credit }, tx, deposit.id)
+				: await getDetailedBalance(deposit.userId);
+		if (!balanceAfter) {
+			throw new Error("User balance not found");
+		}
+
+		// 2. Move the deposit on, only if nobody else did first
+		const updated = await tx
 			.update(depositTable)
 			.set({
-				status: "COMPLETED",
+				status: payment.outcome === "COMPLETED" ? "COMPLETED" : "PENDING",
+				metadata: { ...((deposit.metadata as Record<string, unknown> | null) ?? {}), ...payment.state },
+				version: deposit.version + 1,
 				updatedAt: new Date(),
 			})
-			.where(eq(depositTable.id, pendingDeposit.id));
+			.where(
+				and(
+					eq(depositTable.id, deposit.id),
+					eq(depositTable.status, "PENDING"),
+					eq(depositTable.version, deposit.version),
+				),
+			)
+			.returning({ id: depositTable.id });
 
-		return {
-			success: true,
-			newRealBalance: creditResult.realBalance,
-			newBonusBalance: creditResult.bonusBalance,
-		};
-	});
+		if (updated.length === 0) {
+			throw new DepositConfirmationError("CONCURRENT_UPDATE", `Deposit ${deposit.id} changed while confirming`);
+		}
 
-	if (!txResult.success) {
-		// This should be caught by the transaction rollback, but as a safeguard:
-		throw new Error("Failed to credit wallet during transaction");
-	}
+		// 3. A deposit made for a DEPOSIT_MATCH offer is matched on everything credited, once it completes
+		const bonusId = (deposit.metadata as { bonusId?: unknown } | null)?.bonusId;
+		if (payment.outcome === "COMPLETED" && typeof bonusId === "string") {
+			await awardDepositMatch(tx, deposit.userId, bonusId, payment.state.amountCredited);
+		}
 
-	// Return the full state change payload
-	return {
-		userId: pendingDeposit.userId,
-		depositId: pendingDeposit.id,
-		amount: pendingDeposit.amount,
-		bonusAmount: pendingDeposit.bonusAmount, // Pass this along
-		realBalanceBefore: realBalanceBefore,
-		bonusBalanceBefore: bonusBalanceBefore,
-		realBalanceAfter: txResult.newRealBalance,
-		bonusBalanceAfter: txResult.newBonusBalance,
-	};
+		const result: CoreDepositResult = {
+			userId: deposit.userId,
+			depositId: deposit.id,
+			paymentNumber: payment.state.payments.length,
+			operatorId,
+			amount: payment.credit,
+			currency: deposit.currency,
+			bonusAmount: deposit.bonusAmount, // Pass this along
+			outcome: payment.outcome,
+			remainingAmount: payment.remainingAmount,
+			reviewRequired: payment.state.reviewRequired,
+			realBalanceBefore: balanceAfter.realBalance - payment.credit,
+			bonusBalanceBefore: balanceAfter.bonusBalance,
+			realBalanceAfter: balanceAfter.realBalance,
+			bonusBalanceAfter: balanceAfter.bonusBalance,
+		};
+
+		// 4. Queue the listeners with the balance change, so they survive a crash after the commit
+		if (payment.credit > 0) {
+			result.outboxEventId = await enqueueOutboxEvent(tx, {
+				eventType: DEPOSIT_COMPLETED_EVENT,
+				aggregateId: deposit.id,
+				userId: deposit.userId,
+				payload: { ...result },
+			});
+		}
+		return result;
+	});
 }
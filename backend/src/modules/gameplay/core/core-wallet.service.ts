@@ -0,0 +1,579 @@
+import { type DbTransaction, db } from "@/core/database/db";
+import {
+	type BetRound,
+	type BetRoundAction,
+	type BetRoundActionWagering,
+	betRoundTable,
+	transactionLogTable,
+	userBalanceTable,
+	userTable,
+} from "@/core/database/schema";
+import {
+	type BetRejectionCode,
+	resolveBetRestrictions,
+	validateBet,
+} from "@/modules/gameplay/core/restrictions.service";
+import { eq, sql } from "drizzle-orm";
+import { z } from "zod";
+import { type BalanceDeductionResult, deductBetAmount, getUserOperatorId } from "./balance-management.service";
+import { recordDailyPlay, recordSessionPlay } from "./loss-limit.service";
+import { postJournal } from "@/modules/ledger/ledger.service";
+import { winLegs } from "@/modules/ledger/ledger-rules";
+import { reverseBonusWagering } from "@/modules/bonus/bonus.service";
+import {
+	claimBetRound,
+	findBetRoundAction,
+	getBetRoundActions,
+	lockBetRound,
+	mergeBetRoundOutcome,
+	recordBetRoundAction,
+} from "./bet-round.service";
+import {
+	type BetErrorCode,
+	BetRejectedError,
+	addWinningsWithinTransaction,
+	enqueueBetCompleted,
+	settleBetRound,
+} from "./core-bet.service";
+
+/**
+ * Seamless-wallet core
+ * Game providers settle a round through separate calls instead of a single (BetRequest, GameOutcome):
+ * one or more debits, zero or more credits, then endRound - or a rollback that cancels the round.
+ * Every call carries the provider's own transactionId so retries are applied only once.
+ */
+
+export type WalletErrorCode = BetErrorCode | "ROUND_NOT_FOUND" | "ROUND_CLOSED" | "ROUND_ROLLED_BACK";
+
+export class WalletRoundError extends Error {
+	constructor(
+		public readonly code: WalletErrorCode,
+		message: string,
+	) {
+		super(message);
+		this.name = "WalletRoundError";
+	}
+}
+
+export const walletDebitSchema = z.object({
+	userId: z.string().min(1),
+	gameId: z.string().min(1),
+	roundId: z.uuid(),
+	transactionId: z.string().min(1),
+	amount: z.number().int().positive("Debit amount must be a positive integer (cents)."),
+});
+export type WalletDebitRequest = z.infer<typeof walletDebitSchema>;
+
+export const walletCreditSchema = z.object({
+	userId: z.string().min(1),
+	roundId: z.uuid(),
+	transactionId: z.string().min(1),
+	amount: z.number().int().min(0, "Credit amount must be a non-negative integer (cents)."),
+});
+export type WalletCreditRequest = z.infer<typeof walletCreditSchema>;
+
+export const walletRollbackSchema = z.object({
+	userId: z.string().min(1),
+	roundId: z.uuid(),
+	transactionId: z.string().min(1),
+});
+export type WalletRollbackRequest = z.infer<typeof walletRollbackSchema>;
+
+export interface WalletActionResult {
+	roundId: string;
+	transactionId: string;
+	status: BetRound["status"];
+	realBalance: number;
+	bonusBalance: number;
+	duplicate: boolean; // True when this transactionId was already applied to the round
+}
+
+export interface RoundTotals {
+	debitReal: number;
+	debitBonus: number;
+	creditReal: number;
+	creditBonus: number;
+}
+
+export function sumRoundActions(actions: BetRoundAction[]): RoundTotals {
+	const totals: RoundTotals = { debitReal: 0, debitBonus: 0, creditReal: 0, creditBonus: 0 };
+	for (const action of actions) {
+		if (action.type === "DEBIT") {
+			totals.debitReal += action.realAmount;
+			totals.debitBonus += action.bonusAmount;
+		} else if (action.type === "CREDIT") {
+			totals.creditReal += action.realAmount;
+			totals.creditBonus += action.bonusAmount;
+		}
+	}
+	return totals;
+}
+
+/**
+ * Wagering requirement worked off by a round's debits, merged per bonus
+ */
+export function sumRoundWagering(actions: BetRoundAction[]): BetRoundActionWagering {
+	const totals: BetRoundActionWagering = { depositWrReduction: 0, bonusWrReduction: 0, bonusProgress: [] };
+	const progress = new Map<string, number>();
+	for (const action of actions) {
+		if (action.type !== "DEBIT" || !action.wagering) continue;
+		const wagering = action.wagering as BetRoundActionWagering;
+		totals.depositWrReduction += wagering.depositWrReduction;
+		totals.bonusWrReduction += wagering.bonusWrReduction;
+		for (const { bonusId, amount } of wagering.bonusProgress) {
+			progress.set(bonusId, (progress.get(bonusId) ?? 0) + amount);
+		}
+	}
+	totals.bonusProgress = [...progress].map(([bonusId, amount]) => ({ bonusId, amount }));
+	return totals;
+}
+
+async function readBalances(tx: DbTransaction, userId: string) {
+	const balance = await tx.query.userBalanceTable.findFirst({
+		where: eq(userBalanceTable.userId, userId),
+	});
+	if (!balance) {
+		throw new Error("User balance not found");
+	}
+	return { realBalance: Number(balance.realBalance), bonusBalance: Number(balance.bonusBalance) };
+}
+
+function assertRoundOpen(round: BetRound) {
+	if (round.status === "ROLLED_BACK") {
+		throw new WalletRoundError("ROUND_ROLLED_BACK", `Round ${round.roundId} has been rolled back`);
+	}
+	if (round.status === "CLOSED") {
+		throw new WalletRoundError("ROUND_CLOSED", `Round ${round.roundId} is already closed`);
+	}
+}
+
+/**
+ * Debit a wager against a round, opening the round on its first debit in the player's ACTIVE session for the game
+ */
+export async function executeWalletDebit(request: WalletDebitRequest): Promise<WalletActionResult> {
+	const debit = walletDebitSchema.parse(request);
+
+	const [user, game, gameSession] = await Promise.all([
+		db.query.userTable.findFirst({
+			where: (userTable, { eq }) => eq(userTable.id, debit.userId),
+			with: {
+				userBalances: true,
+			},
+		}),
+		db.query.gameTable.findFirst({
+			where: (gameTable, { eq }) => eq(gameTable.id, debit.gameId),
+		}),
+		db.query.gameSessionTable.findFirst({
+			where: (gameSessionTable, { and, eq }) =>
+				and(
+					eq(gameSessionTable.userId, debit.userId),
+					eq(gameSessionTable.gameId, debit.gameId),
+					eq(gameSessionTable.status, "ACTIVE"),
+				),
+		}),
+	]);
+
+	if (!user) {
+		throw new BetRejectedError("USER_NOT_FOUND", "User not found");
+	}
+	if (!game) {
+		throw new BetRejectedError("GAME_NOT_FOUND", `Game ${debit.gameId} not found`);
+	}
+
+	const restrictions = await resolveBetRestrictions(user, game);
+	const validation = await validateBet(user, debit.amount, debit.gameId, restrictions.limits);
+	if (!validation.valid) {
+		throw new BetRejectedError(
+			(validation.error as BetRejectionCode) || "BET_PROCESSING_FAILED",
+			validation.reason || "Bet validation failed",
+		);
+	}
+
+	return await db.transaction(async (tx) => {
+		const before = await readBalances(tx, debit.userId);
+
+		await claimBetRound(tx, {
+			userId: debit.userId,
+			roundId: debit.roundId,
+			gameId: debit.gameId,
+			gameSessionId: gameSession?.id,
+			wagerAmount: 0,
+			realBalanceBefore: before.realBalance,
+			bonusBalanceBefore: before.bonusBalance,
+		});
+
+		const round = await lockBetRound(tx, debit.userId, debit.roundId);
+		if (!round) {
+			throw new Error(`Round ${debit.roundId} could not be opened`);
+		}
+
+		if (await findBetRoundAction(tx, round.id, debit.transactionId)) {
+			return {
+				roundId: debit.roundId,
+				transactionId: debit.transactionId,
+				status: round.status,
+				...before,
+				duplicate: true,
+			};
+		}
+		assertRoundOpen(round);
+		// A round stays with the game and session its first debit opened it in
+		if (round.gameId !== debit.gameId || round.gameSessionId !== (gameSession?.id ?? null)) {
+			throw new WalletRoundError(
+				"ROUND_MISMATCH",
+				`Round ${round.roundId} was opened for a different game or game session`,
+			);
+		}
+
+		const balanceDeduction = await deductBetAmount(
+			{
+				userId: debit.userId,
+				amount: debit.amount,
+				gameId: debit.gameId,
+				roundId: debit.roundId,
+				operatorId: user.operatorId,
+				preferredBalanceType: "auto",
+			},
+			tx,
+		);
+
+		if (!balanceDeduction.success) {
+			if (balanceDeduction.errorCode) {
+				throw new BetRejectedError(balanceDeduction.errorCode, balanceDeduction.error ?? "Bonus wager rejected");
+			}
+			if (balanceDeduction.error?.startsWith("Insufficient")) {
+				throw new BetRejectedError("INSUFFICIENT_BALANCE", balanceDeduction.error);
+			}
+			throw new Error(balanceDeduction.error || "Balance deduction failed");
+		}
+
+		await recordBetRoundAction(tx, {
+			betRoundId: round.id,
+			transactionId: debit.transactionId,
+			type: "DEBIT",
+			amount: debit.amount,
+			realAmount: balanceDeduction.deductedFrom.real,
+			bonusAmount: balanceDeduction.deductedFrom.bonus,
+			wagering: {
+				depositWrReduction: balanceDeduction.depositWrReduction,
+				bonusWrReduction: balanceDeduction.bonusWrReduction,
+				bonusProgress: balanceDeduction.wageringProgress.map((allocation) => ({
+					bonusId: allocation.bonusId,
+					amount: allocation.progressAfter - allocation.progressBefore,
+				})),
+			},
+		});
+
+		await tx
+			.update(betRoundTable)
+			.set({ wagerAmount: sql`${betRoundTable.wagerAmount} + ${debit.amount}`, updatedAt: new Date() })
+			.where(eq(betRoundTable.id, round.id));
+		await recordDailyPlay(tx, debit.userId, { wagered: debit.amount });
+		await recordSessionPlay(tx, round.gameSessionId, { wagered: debit.amount });
+
+		const after = await readBalances(tx, debit.userId);
+		return { roundId: debit.roundId, transactionId: debit.transactionId, status: "OPEN", ...after, duplicate: false };
+	});
+}
+
+/**
+ * Credit a win to a round. Winnings are split between real and bonus
+ * in the same proportion the round's debits were taken.
+ * A credit that arrives after endRound is still paid, as a late win: the bet listeners have
+ * already run for the round, so the win is logged as a WIN row of its own.
+ */
+export async function executeWalletCredit(request: WalletCreditRequest): Promise<WalletActionResult> {
+	const credit = walletCreditSchema.parse(request);
+
+	return await db.transaction(async (tx) => {
+		const round = await lockBetRound(tx, credit.userId, credit.roundId);
+		if (!round) {
+			throw new WalletRoundError("ROUND_NOT_FOUND", `Round ${credit.roundId} not found`);
+		}
+
+		if (await findBetRoundAction(tx, round.id, credit.transactionId)) {
+			const current = await readBalances(tx, credit.userId);
+			return {
+				roundId: credit.roundId,
+				transactionId: credit.transactionId,
+				status: round.status,
+				...current,
+				duplicate: true,
+			};
+		}
+		if (round.status === "ROLLED_BACK") {
+			throw new WalletRoundError("ROUND_ROLLED_BACK", `Round ${round.roundId} has been rolled back`);
+		}
+		const lateWin = round.status === "CLOSED";
+
+		const before = await readBalances(tx, credit.userId);
+		const totals = sumRoundActions(await getBetRoundActions(tx, round.id));
+		const debitDeduction: Pick<BalanceDeductionResult, "balanceType" | "deductedFrom"> = {
+			balanceType: totals.debitBonus === 0 ? "real" : totals.debitReal === 0 ? "bonus" : "mixed",
+			deductedFrom: { real: totals.debitReal, bonus: totals.debitBonus },
+		};
+
+		const { realWinnings, bonusWinnings } = await addWinningsWithinTransaction(
+			tx,
+			debitDeduction,
+			credit.userId,
+			round.gameId ?? "",
+			credit.amount,
+			credit.roundId,
+			await getUserOperatorId(credit.userId, tx),
+		);
+
+		await recordBetRoundAction(tx, {
+			betRoundId: round.id,
+			transactionId: credit.transactionId,
+			type: "CREDIT",
+			amount: credit.amount,
+			realAmount: realWinnings,
+			bonusAmount: bonusWinnings,
+		});
+
+		await tx
+			.update(betRoundTable)
+			.set({ winAmount: sql`${betRoundTable.winAmount} + ${credit.amount}`, updatedAt: new Date() })
+			.where(eq(betRoundTable.id, round.id));
+		await recordDailyPlay(tx, credit.userId, { won: credit.amount });
+		await recordSessionPlay(tx, round.gameSessionId, { won: credit.amount });
+
+		const after = await readBalances(tx, credit.userId);
+		if (lateWin && credit.amount > 0) {
+			await logLateWin(tx, round, credit, before, after);
+		}
+
+		return {
+			roundId: credit.roundId,
+			transactionId: credit.transactionId,
+			status: round.status,
+			...after,
+			duplicate: false,
+		};
+	});
+}
+
+/**
+ * Record a win credited to an already closed round: a WIN row in the transaction log,
+ * and the round's stored outcome brought up to date for replays of endRound
+ */
+async function logLateWin(
+	tx: DbTransaction,
+	round: BetRound,
+	credit: WalletCreditRequest,
+	before: { realBalance: number; bonusBalance: number },
+	after: { realBalance: number; bonusBalance: number },
+) {
+	const [wallet] = await tx
+		.select({ currency: userBalanceTable.currency, operatorId: userTable.operatorId })
+		.from(userBalanceTable)
+		.innerJoin(userTable, eq(userTable.id, userBalanceTable.userId))
+		.where(eq(userBalanceTable.userId, credit.userId));
+
+	await tx.insert(transactionLogTable).values({
+		userId: credit.userId,
+		type: "WIN",
+		status: "COMPLETED",
+		relatedId: round.roundId,
+		gameId: round.gameId,
+		operatorId: wallet?.operatorId,
+		currency: wallet?.currency,
+		wagerAmount: credit.amount, // WIN rows store the win in wagerAmount
+		realBalanceBefore: before.realBalance,
+		realBalanceAfter: after.realBalance,
+		bonusBalanceBefore: before.bonusBalance,
+		bonusBalanceAfter: after.bonusBalance,
+		metadata: { lateWin: true, transactionId: credit.transactionId },
+	});
+
+	await mergeBetRoundOutcome(
+		credit.userId,
+		round.roundId,
+		{ winAmount: round.winAmount + credit.amount, newBalance: after.realBalance + after.bonusBalance },
+		tx,
+	);
+}
+
+/**
+ * Cancel a round: refund its debits and take back its credits.
+ * A rollback for a round we have never seen is recorded as a ROLLED_BACK tombstone,
+ * so a debit that arrives late for that round is refused instead of charged.
+ */
+export async function executeWalletRollback(request: WalletRollbackRequest): Promise<WalletActionResult> {
+	const rollback = walletRollbackSchema.parse(request);
+
+	return await db.transaction(async (tx) => {
+		const isTombstone = await claimBetRound(tx, {
+			userId: rollback.userId,
+			roundId: rollback.roundId,
+			wagerAmount: 0,
+			status: "ROLLED_BACK",
+		});
+
+		const round = await lockBetRound(tx, rollback.userId, rollback.roundId);
+		if (!round) {
+			throw new Error(`Round ${rollback.roundId} could not be loaded`);
+		}
+
+		if (isTombstone) {
+			await recordBetRoundAction(tx, {
+				betRoundId: round.id,
+				transactionId: rollback.transactionId,
+				type: "ROLLBACK",
+				amount: 0,
+				realAmount: 0,
+				bonusAmount: 0,
+			});
+		}
+		if (round.status === "ROLLED_BACK") {
+			const current = await readBalances(tx, rollback.userId);
+			return {
+				roundId: rollback.roundId,
+				transactionId: rollback.transactionId,
+				status: round.status,
+				...current,
+				duplicate: !isTombstone,
+			};
+		}
+		if (round.status === "CLOSED") {
+			throw new WalletRoundError("ROUND_CLOSED", `Round ${round.roundId} is already closed`);
+		}
+
+		const actions = await getBetRoundActions(tx, round.id);
+		const totals = sumRoundActions(actions);
+		const realRefund = totals.debitReal - totals.creditReal;
+		const bonusRefund = totals.debitBonus - totals.creditBonus;
+
+		const current = await readBalances(tx, rollback.userId);
+		if (current.realBalance + realRefund < 0 || current.bonusBalance + bonusRefund < 0) {
+			throw new BetRejectedError("INSUFFICIENT_BALANCE", "Insufficient balance to reverse round winnings");
+		}
+
+		// Hand back the whole stake, and the wagering requirement it worked off
+		const wagering = sumRoundWagering(actions);
+		await tx
+			.update(userBalanceTable)
+			.set({
+				realBalance: sql`${userBalanceTable.realBalance} + ${realRefund}`,
+				bonusBalance: sql`${userBalanceTable.bonusBalance} + ${bonusRefund}`,
+				totalWagered: sql`${userBalanceTable.totalWagered} - ${totals.debitReal + totals.debitBonus}`,
+				totalWon: sql`${userBalanceTable.totalWon} - ${totals.creditReal + totals.creditBonus}`,
+				depositWrRemaining: sql`${userBalanceTable.depositWrRemaining} + ${wagering.depositWrReduction}`,
+				updatedAt: new Date(),
+			})
+			.where(eq(userBalanceTable.userId, rollback.userId));
+		await reverseBonusWagering(tx, rollback.userId, wagering.bonusProgress, wagering.bonusWrReduction);
+
+		// Hand the round's net stake back out of GGR
+		await postJournal(tx, {
+			type: "ADJUSTMENT",
+			userId: rollback.userId,
+			relatedId: round.roundId,
+			description: "Round rolled back",
+			metadata: {
+				reversedWagered: totals.debitReal + totals.debitBonus,
+				reversedWon: totals.creditReal + totals.creditBonus,
+			},
+			legs: winLegs(
+				rollback.userId,
+				{ real: realRefund, bonus: bonusRefund },
+				await getUserOperatorId(rollback.userId, tx),
+			),
+		});
+		const reversed = {
+			wagered: -(totals.debitReal + totals.debitBonus),
+			won: -(totals.creditReal + totals.creditBonus),
+		};
+		await recordDailyPlay(tx, rollback.userId, reversed, round.createdAt); // Reverse the day the round was played
+		await recordSessionPlay(tx, round.gameSessionId, reversed);
+
+		await recordBetRoundAction(tx, {
+			betRoundId: round.id,
+			transactionId: rollback.transactionId,
+			type: "ROLLBACK",
+			amount: realRefund + bonusRefund,
+			realAmount: realRefund,
+			bonusAmount: bonusRefund,
+		});
+
+		await tx
+			.update(betRoundTable)
+			.set({ status: "ROLLED_BACK", closedAt: new Date(), updatedAt: new Date() })
+			.where(eq(betRoundTable.id, round.id));
+
+		const after = await readBalances(tx, rollback.userId);
+		return {
+			roundId: rollback.roundId,
+			transactionId: rollback.transactionId,
+			status: "ROLLED_BACK",
+			...after,
+			duplicate: false,
+		};
+	});
+}
+
+/**
+ * Close an open round and return the same shape executeCoreBet produces,
+ * queueing the bet listeners exactly as they are for single-call bets.
+ * alreadyClosed is set when the round was closed by an earlier endRound call; nothing is queued then.
+ */
+export async function executeEndRound(userId: string, roundId: string) {
+	const startTime = Date.now();
+
+	return await db.transaction(async (tx) => {
+		const round = await lockBetRound(tx, userId, roundId);
+		if (!round) {
+			throw new WalletRoundError("ROUND_NOT_FOUND", `Round ${roundId} not found`);
+		}
+		if (round.status === "ROLLED_BACK") {
+			throw new WalletRoundError("ROUND_ROLLED_BACK", `Round ${roundId} has been rolled back`);
+		}
+
+		const totals = sumRoundActions(await getBetRoundActions(tx, round.id));
+		const after = await readBalances(tx, userId);
+		const alreadyClosed = round.status === "CLOSED";
+
+		const balanceType: "real" | "bonus" | "mixed" =
+			totals.debitBonus === 0 ? "real" : totals.debitReal === 0 ? "bonus" : "mixed";
+
+		const result = {
+			roundId,
+			userId,
+			gameId: round.gameId ?? "",
+			gameSessionId: round.gameSessionId ?? undefined,
+			wagerAmount: round.wagerAmount,
+			winAmount: round.winAmount,
+			realBalanceBefore: round.realBalanceBefore ?? after.realBalance,
+			bonusBalanceBefore: round.bonusBalanceBefore ?? after.bonusBalance,
+			realBalanceAfter: after.realBalance,
+			bonusBalanceAfter: after.bonusBalance,
+			balanceType,
+		};
+
+		let outboxEventId: string | undefined;
+		if (!alreadyClosed) {
+			await tx
+				.update(betRoundTable)
+				.set({ status: "CLOSED", closedAt: new Date(), updatedAt: new Date() })
+				.where(eq(betRoundTable.id, round.id));
+			await settleBetRound(tx, result);
+
+			outboxEventId = await enqueueBetCompleted(
+				tx,
+				{ ...result, gameOutcome: { winAmount: result.winAmount } },
+				{
+					userId,
+					gameId: result.gameId,
+					wagerAmount: result.wagerAmount,
+					sessionId: result.gameSessionId,
+					roundId,
+					operatorId: (await getUserOperatorId(userId, tx)) ?? undefined,
+				},
+				startTime,
+			);
+		}
+
+		return { ...result, alreadyClosed, storedOutcome: round.outcome, outboxEventId };
+	});
+}
@@ -0,0 +1,309 @@
+import { type DbTransaction, db } from "@/core/database/db";
+import { transactionLogTable, userBalanceTable, type Withdrawal, withdrawalTable } from "@/core/database/schema";
+import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import { z } from "zod";
+import { WithdrawSchema, getUserOperatorId } from "./balance-management.service";
+import { shouldBlockTransaction } from "../gameplay.security";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+import { postJournal } from "@/modules/ledger/ledger.service";
+import { reverseLegs, withdrawalLegs } from "@/modules/ledger/ledger-rules";
+import { WITHDRAWAL_COMPLETED_EVENT } from "@/modules/events/domain-events";
+import { deliverOutboxEvent, enqueueOutboxEvent } from "@/modules/outbox/outbox.service";
+
+/**
+ * Withdrawals
+ * A request reserves the amount from real balance straight away and waits in an approval queue.
+ * PENDING -> PROCESSING -> COMPLETED, or REJECTED (funds returned) from either open state.
+ * The reservation posts the WITHDRAWAL journal back to the operator float and a rejection reverses it;
+ * approval writes the WITHDRAWAL transaction log entry, adds the amount to totalWithdrawn and raises WithdrawalCompleted.
+ */
+
+export type WithdrawalErrorCode =
+	| "TRANSACTION_BLOCKED"
+	| "WAGERING_OUTSTANDING"
+	| "INSUFFICIENT_BALANCE"
+	| "WITHDRAWAL_NOT_FOUND"
+	| "INVALID_STATUS";
+
+export class WithdrawalError extends Error {
+	constructor(
+		public readonly code: WithdrawalErrorCode,
+		message: string,
+	) {
+		super(message);
+		this.name = "WithdrawalError";
+	}
+}
+
+export const withdrawalRequestSchema = WithdrawSchema.extend({
+	payoutMethod: z.string().trim().min(1).max(64),
+	note: z.string().trim().max(500).optional(),
+});
+export type WithdrawalRequest = z.infer<typeof withdrawalRequestSchema>;
+
+/** Balances captured when the funds were reserved */
+interface WithdrawalReservation {
+	realBalanceBefore: number;
+	realBalanceAfter: number;
+	bonusBalance: number;
+}
+
+const OPEN_STATUSES: Withdrawal["status"][] = ["PENDING", "PROCESSING"];
+
+async function lockWithdrawal(tx: DbTransaction, withdrawalId: string): Promise<Withdrawal> {
+	const [withdrawal] = await tx
+		.select()
+		.from(withdrawalTable)
+		.where(eq(withdrawalTable.id, withdrawalId))
+		.for("update");
+	if (!withdrawal) {
+		throw new WithdrawalError("WITHDRAWAL_NOT_FOUND", `Withdrawal ${withdrawalId} not found`);
+	}
+	return withdrawal as Withdrawal;
+}
+
+function assertStatus(withdrawal: Withdrawal, allowed: Withdrawal["status"][]) {
+	if (!allowed.includes(withdrawal.status)) {
+		throw new WithdrawalError("INVALID_STATUS", `Withdrawal ${withdrawal.id} is ${withdrawal.status}`);
+	}
+}
+
+/**
+ * Request a withdrawal and reserve the funds
+ */
+export async function requestWithdrawal(request: WithdrawalRequest): Promise<Withdrawal> {
+	const { userId, amount, payoutMethod, note } = withdrawalRequestSchema.parse(request);
+	const context = createOperationContext({ domain: "gameplay", operation: "requestWithdrawal", userId });
+
+	const securityCheck = await shouldBlockTransaction(userId, amount, "withdrawal");
+	if (securityCheck.blocked) {
+		appLogger.warn("Withdrawal blocked by security rules", context, { reason: securityCheck.reason, amount });
+		throw new WithdrawalError("TRANSACTION_BLOCKED", securityCheck.reason ?? "Withdrawal blocked");
+	}
+
+	const withdrawal = await db.transaction(async (tx) => {
+		const [balance] = await tx.select().from(userBalanceTable).where(eq(userBalanceTable.userId, userId)).for("update");
+		if (!balance) {
+			throw new Error(`User balance not found for user ${userId}`);
+		}
+
+		if (balance.depositWrRemaining > 0 || balance.bonusWrRemaining > 0) {
+			throw new WithdrawalError(
+				"WAGERING_OUTSTANDING",
+				`Wagering still outstanding: deposit ${balance.depositWrRemaining}, bonus ${balance.bonusWrRemaining}`,
+			);
+		}
+		if (balance.realBalance < amount) {
+			throw new WithdrawalError("INSUFFICIENT_BALANCE", "Insufficient real balance for withdrawal");
+		}
+
+		const reservation: WithdrawalReservation = {
+			realBalanceBefore: balance.realBalance,
+			realBalanceAfter: balance.realBalance - amount,
+			bonusBalance: balance.bonusBalance,
+		};
+
+		await tx
+			.update(userBalanceTable)
+			.set({ realBalance: reservation.realBalanceAfter, updatedAt: new Date() })
+			.where(eq(userBalanceTable.userId, userId));
+
+		const [created] = await tx
+			.insert(withdrawalTable)
+			.values({
+				userId,
+				amount,
+				currency: balance.currency,
+				status: "PENDING",
+				payoutMethod,
+				note,
+				metadata: { reservation },
+			})
+			.returning();
+
+		await postJournal(tx, {
+			type: "WITHDRAWAL",
+			userId,
+			relatedId: created.id,
+			legs: withdrawalLegs(userId, amount, await getUserOperatorId(userId, tx)),
+		});
+		return created as Withdrawal;
+	});
+
+	appLogger.info("Withdrawal requested", context, { withdrawalId: withdrawal.id, amount });
+	return withdrawal;
+}
+
+/**
+ * Mark a pending withdrawal as being paid out
+ */
+export async function startWithdrawalProcessing(withdrawalId: string, adminId: string): Promise<Withdrawal> {
+	return await db.transaction(async (tx) => {
+		const withdrawal = await lockWithdrawal(tx, withdrawalId);
+		assertStatus(withdrawal, ["PENDING"]);
+
+		const [updated] = await tx
+			.update(withdrawalTable)
+			.set({ status: "PROCESSING", updatedBy: adminId, version: withdrawal.version + 1, updatedAt: new Date() })
+			.where(eq(withdrawalTable.id, withdrawalId))
+			.returning();
+		return updated as Withdrawal;
+	});
+}
+
+/**
+ * Complete a withdrawal: write the WITHDRAWAL transaction log entry, count it in totalWithdrawn
+ * and queue a WithdrawalCompleted event
+ */
+export async function approveWithdrawal(withdrawalId: string, adminId: string): Promise<Withdrawal> {
+	const { approved, outboxEventId } = await db.transaction(async (tx) => {
+		const withdrawal = await lockWithdrawal(tx, withdrawalId);
+		assertStatus(withdrawal, OPEN_STATUSES);
+
+		const reservation = (withdrawal.metadata as { reservation?: WithdrawalReservation } | null)?.reservation;
+		const [ledgerEntry] = await tx
+			.insert(transactionLogTable)
+			.values({
+				userId: withdrawal.userId,
+				type: "WITHDRAWAL",
+				status: "COMPLETED",
+				relatedId: withdrawal.id,
+				operatorId: await getUserOperatorId(withdrawal.userId, tx),
+				currency: withdrawal.currency,
+				wagerAmount: withdrawal.amount,
+				realBalanceBefore: reservation?.realBalanceBefore ?? 0,
+				realBalanceAfter: reservation?.realBalanceAfter ?? 0,
+				bonusBalanceBefore: reservation?.bonusBalance ?? 0,
+				bonusBalanceAfter: reservation?.bonusBalance ?? 0,
+				updatedBy: adminId,
+			})
+			.returning({ id: transactionLogTable.id });
+
+		await tx
+			.update(userBalanceTable)
+			.set({
+				totalWithdrawn: sql`${userBalanceTable.totalWithdrawn} + ${withdrawal.amount}`,
+				updatedAt: new Date(),
+			})
+			.where(eq(userBalanceTable.userId, withdrawal.userId));
+
+		const [updated] = await tx
+			.update(withdrawalTable)
+			.set({
+				status: "COMPLETED",
+				transactionId: ledgerEntry?.id,
+				updatedBy: adminId,
+				version: withdrawal.version + 1,
+				updatedAt: new Date(),
+			})
+			.where(eq(withdrawalTable.id, withdrawalId))
+			.returning();
+
+		const outboxEventId = await enqueueOutboxEvent(tx, {
+			eventType: WITHDRAWAL_COMPLETED_EVENT,
+			aggregateId: withdrawal.id,
+			userId: withdrawal.userId,
+			payload: {
+				withdrawalId: withdrawal.id,
+				userId: withdrawal.userId,
+				amount: withdrawal.amount,
+				payoutMethod: withdrawal.payoutMethod,
+				transactionId: ledgerEntry?.id,
+				approvedBy: adminId,
+			},
+		});
+		return { approved: updated as Withdrawal, outboxEventId };
+	});
+
+	const context = createOperationContext({
+		domain: "gameplay",
+		operation: "approveWithdrawal",
+		userId: approved.userId,
+	});
+	appLogger.info("Withdrawal approved", context, { withdrawalId, adminId, amount: approved.amount });
+
+	deliverOutboxEvent(outboxEventId).catch((error) =>
+		appLogger.error("Withdrawal listener delivery failed, left to the outbox dispatcher", context, error as Error),
+	);
+	return approved;
+}
+
+/**
+ * Reject an open withdrawal and return the reserved funds to real balance
+ */
+export async function rejectWithdrawal(withdrawalId: string, adminId: string, reason: string): Promise<Withdrawal> {
+	const rejected = await db.transaction(async (tx) => {
+		const withdrawal = await lockWithdrawal(tx, withdrawalId);
+		assertStatus(withdrawal, OPEN_STATUSES);
+
+		await tx
+			.update(userBalanceTable)
+			.set({
+				realBalance: sql`${userBalanceTable.realBalance} + ${withdrawal.amount}`,
+				updatedAt: new Date(),
+			})
+			.where(eq(userBalanceTable.userId, withdrawal.userId));
+
+		await postJournal(tx, {
+			type: "ADJUSTMENT",
+			userId: withdrawal.userId,
+			relatedId: withdrawal.id,
+			description: "Withdrawal rejected",
+			legs: reverseLegs(
+				withdrawalLegs(withdrawal.userId, withdrawal.amount, await getUserOperatorId(withdrawal.userId, tx)),
+			),
+		});
+
+		const [updated] = await tx
+			.update(withdrawalTable)
+			.set({
+				status: "REJECTED",
+				metadata: { ...((withdrawal.metadata as Record<string, unknown> | null) ?? {}), rejectionReason: reason },
+				updatedBy: adminId,
+				version: withdrawal.version + 1,
+				updatedAt: new Date(),
+			})
+			.where(eq(withdrawalTable.id, withdrawalId))
+			.returning();
+		return updated as Withdrawal;
+	});
+
+	const context = createOperationContext({
+		domain: "gameplay",
+		operation: "rejectWithdrawal",
+		userId: rejected.userId,
+	});
+	appLogger.info("Withdrawal rejected", context, { withdrawalId, adminId, reason });
+	return rejected;
+}
+
+export async function getWithdrawal(withdrawalId: string, userId?: string): Promise<Withdrawal | undefined> {
+	const [withdrawal] = await db
+		.select()
+		.from(withdrawalTable)
+		.where(and(eq(withdrawalTable.id, withdrawalId), userId ? eq(withdrawalTable.userId, userId) : undefined));
+	return withdrawal as Withdrawal | undefined;
+}
+
+export async function getUserWithdrawals(userId: string, limit = 50, offset = 0): Promise<Withdrawal[]> {
+	return db
+		.select()
+		.from(withdrawalTable)
+		.where(eq(withdrawalTable.userId, userId))
+		.orderBy(desc(withdrawalTable.createdAt))
+		.limit(limit)
+		.offset(offset) as Promise<Withdrawal[]>;
+}
+
+/**
+ * Approval queue: open withdrawals oldest first, or every withdrawal in one status
+ */
+export async function getWithdrawalQueue(status?: Withdrawal["status"], limit = 50, offset = 0): Promise<Withdrawal[]> {
+	return db
+		.select()
+		.from(withdrawalTable)
+		.where(status ? eq(withdrawalTable.status, status) : inArray(withdrawalTable.status, OPEN_STATUSES))
+		.orderBy(withdrawalTable.createdAt)
+		.limit(limit)
+		.offset(offset) as Promise<Withdrawal[]>;
+}
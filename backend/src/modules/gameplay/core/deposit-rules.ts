@@ -0,0 +1,198 @@
+/**
+ * Deposit payment rules
+ * Pure calculations for applying a provider confirmation to a deposit: how much to credit when the
+ * payment is short or over the requested amount, the payment history kept in deposit metadata,
+ * and how long a deposit may wait for payment.
+ */
+
+export interface DepositConfig {
+	partialPayment: "CREDIT_RECEIVED" | "REJECT"; // REJECT credits nothing and holds the payment for review
+	overpayment: "CREDIT_ACTUAL" | "CREDIT_EXPECTED"; // Either way the deposit is flagged for review
+	pendingTtlMinutes: Record<string, number>; // How long a deposit may stay PENDING, per PaymentMethod
+	defaultPendingTtlMinutes: number; // For methods missing from pendingTtlMinutes
+	minDepositAmount: number; // Smallest deposit a player may request
+	maxDepositAmount: number; // Largest deposit a player may request
+}
+
+export interface DepositPaymentRecord {
+	providerTransactionId: string | null;
+	payloadDigest?: string | null; // SHA-256 of the signed webhook body that reported the payment
+	amount: number; // Received from the provider
+	credited: number; // Added to the player's balance
+	receivedAt: string;
+}
+
+/** Payment state persisted in depositTable.metadata */
+export interface DepositPaymentState {
+	payments: DepositPaymentRecord[];
+	amountReceived: number;
+	amountCredited: number;
+	reviewRequired: boolean;
+	reviewReasons: string[];
+}
+
+export type DepositPaymentOutcome = "COMPLETED" | "PARTIAL" | "UNDERPAID";
+
+export interface DepositPaymentResult {
+	outcome: DepositPaymentOutcome;
+	credit: number;
+	remainingAmount: number; // Still expected before the deposit completes
+	state: DepositPaymentState;
+}
+
+const DEFAULT_DEPOSIT_CONFIG: DepositConfig = {
+	partialPayment: "CREDIT_RECEIVED",
+	overpayment: "CREDIT_ACTUAL",
+	pendingTtlMinutes: {},
+	defaultPendingTtlMinutes: 24 * 60,
+	minDepositAmount: 10,
+	maxDepositAmount: 1000000,
+};
+
+/**
+ * Read platformSettings.depositConfig, falling back to defaults for missing or invalid fields
+ */
+export function resolveDepositConfig(raw: unknown): DepositConfig {
+	const config = (raw ?? {}) as Record<string, unknown>;
+	const isTtl = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value) && value > 0;
+	const isAmount = (value: unknown): value is number =>
+		typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+	const pendingTtlMinutes: Record<string, number> = {};
+	if (config.pendingTtlMinutes && typeof config.pendingTtlMinutes === "object") {
+		for (const [method, minutes] of Object.entries(config.pendingTtlMinutes)) {
+			if (isTtl(minutes)) pendingTtlMinutes[method] = minutes;
+		}
+	}
+
+	return {
+		partialPayment: config.partialPayment === "REJECT" ? "REJECT" : DEFAULT_DEPOSIT_CONFIG.partialPayment,
+		overpayment: config.overpayment === "CREDIT_EXPECTED" ? "CREDIT_EXPECTED" : DEFAULT_DEPOSIT_CONFIG.overpayment,
+		pendingTtlMinutes,
+		defaultPendingTtlMinutes: isTtl(config.defaultPendingTtlMinutes)
+			? config.defaultPendingTtlMinutes
+			: DEFAULT_DEPOSIT_CONFIG.defaultPendingTtlMinutes,
+		minDepositAmount: isAmount(config.minDepositAmount)
+			? config.minDepositAmount
+			: DEFAULT_DEPOSIT_CONFIG.minDepositAmount,
+		maxDepositAmount: isAmount(config.maxDepositAmount)
+			? config.maxDepositAmount
+			: DEFAULT_DEPOSIT_CONFIG.maxDepositAmount,
+	};
+}
+
+export function pendingTtlMinutes(paymentMethod: string | null, config: DepositConfig): number {
+	return (paymentMethod ? config.pendingTtlMinutes[paymentMethod] : undefined) ?? config.defaultPendingTtlMinutes;
+}
+
+/**
+ * A pending deposit past its method's TTL no longer accepts payments
+ */
+export function isDepositExpired(
+	deposit: { paymentMethod: string | null; createdAt: Date },
+	config: DepositConfig,
+	now: Date = new Date(),
+): boolean {
+	return deposit.createdAt.getTime() + pendingTtlMinutes(deposit.paymentMethod, config) * 60_000 <= now.getTime();
+}
+
+function isPaymentRecord(value: unknown): value is DepositPaymentRecord {
+	const record = value as Partial<Record<keyof DepositPaymentRecord, unknown>> | null;
+	return (
+		typeof record === "object" &&
+		record !== null &&
+		(record.providerTransactionId === null || typeof record.providerTransactionId === "string") &&
+		(record.payloadDigest == null || typeof record.payloadDigest === "string") &&
+		typeof record.amount === "number" &&
+		typeof record.credited === "number" &&
+		typeof record.receivedAt === "string"
+	);
+}
+
+export function readDepositPaymentState(metadata: unknown): DepositPaymentState {
+	const source = (metadata ?? {}) as Record<string, unknown>;
+	return {
+		payments: Array.isArray(source.payments) ? source.payments.filter(isPaymentRecord) : [],
+		amountReceived: Number(source.amountReceived) || 0,
+		amountCredited: Number(source.amountCredited) || 0,
+		reviewRequired: source.reviewRequired === true,
+		reviewReasons: Array.isArray(source.reviewReasons)
+			? source.reviewReasons.filter((reason): reason is string => typeof reason === "string")
+			: [],
+	};
+}
+
+/**
+ * A payment already recorded under the same provider transaction id or, for providers that send
+ * none, the same signed webhook body
+ */
+export function isDuplicatePayment(
+	state: DepositPaymentState,
+	providerTransactionId?: string | null,
+	payloadDigest?: string | null,
+): boolean {
+	return state.payments.some(
+		(p) =>
+			(!!providerTransactionId && p.providerTransactionId === providerTransactionId) ||
+			(!!payloadDigest && p.payloadDigest === payloadDigest),
+	);
+}
+
+/**
+ * Apply one received payment to a deposit of expectedAmount.
+ * Exact or over payment completes the deposit; overpayment always flags it for review.
+ * A short payment is credited and leaves the remainder pending, or with the REJECT policy
+ * is recorded uncredited and flagged.
+ */
+export function applyDepositPayment(
+	expectedAmount: number,
+	state: DepositPaymentState,
+	payment: { amount: number; providerTransactionId?: string | null; payloadDigest?: string | null; receivedAt?: Date },
+	config: DepositConfig,
+): DepositPaymentResult {
+	const outstanding = Math.max(0, expectedAmount - state.amountReceived);
+	const reviewReasons = [...state.reviewReasons];
+	let outcome: DepositPaymentOutcome;
+	let credit: number;
+
+	if (payment.amount < outstanding) {
+		if (config.partialPayment === "REJECT") {
+			outcome = "UNDERPAID";
+			credit = 0;
+			reviewReasons.push(`Underpaid by ${outstanding - payment.amount}`);
+		} else {
+			outcome = "PARTIAL";
+			credit = payment.amount;
+		}
+	} else {
+		outcome = "COMPLETED";
+		const excess = payment.amount - outstanding;
+		credit = excess > 0 && config.overpayment === "CREDIT_EXPECTED" ? outstanding : payment.amount;
+		if (excess > 0) {
+			reviewReasons.push(`Overpaid by ${excess}`);
+		}
+	}
+
+	const amountReceived = state.amountReceived + (outcome === "UNDERPAID" ? 0 : payment.amount);
+	return {
+		outcome,
+		credit,
+		remainingAmount: Math.max(0, expectedAmount - amountReceived),
+		state: {
+			payments: [
+				...state.payments,
+				{
+					providerTransactionId: payment.providerTransactionId ?? null,
+					payloadDigest: payment.payloadDigest ?? null,
+					amount: payment.amount,
+					credited: credit,
+					receivedAt: (payment.receivedAt ?? new Date()).toISOString(),
+				},
+			],
+			amountReceived,
+			amountCredited: state.amountCredited + credit,
+			reviewRequired: reviewReasons.length > 0,
+			reviewReasons,
+		},
+	};
+}
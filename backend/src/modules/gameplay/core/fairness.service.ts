@@ -0,0 +1,242 @@
+import { type DbExecutor, db } from "@/core/database/db";
+import { type Game, fairnessSeedTable } from "@/core/database/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { type OutcomeGame, generateGameOutcome } from "../outcome/outcome-engine";
+import {
+	type FairnessCommitment,
+	createHmacRandomSource,
+	generateClientSeed,
+	generateServerSeed,
+	hashServerSeed,
+} from "../outcome/provably-fair";
+import { findBetRound } from "./bet-round.service";
+import type { GameOutcome } from "./core-bet.service";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+
+/**
+ * Provably-fair seed management and round verification
+ */
+
+export interface FairnessState {
+	serverSeedHash: string;
+	clientSeed: string;
+	nonce: number; // Nonce the next round will use
+}
+
+/**
+ * Game math a round was generated with. Stored with the round's commitment so that later
+ * changes to the game's RTP, volatility or paytable do not affect its verification.
+ */
+export interface RoundMath {
+	category: Game["category"];
+	volatility: number | null;
+	targetRtp: number | null;
+	paytable: unknown; // goldsvetData.paytable, if the game has one
+}
+
+export interface RoundFairness extends FairnessCommitment {
+	math: RoundMath;
+}
+
+export interface SeedRotationResult {
+	previous: (FairnessState & { serverSeed: string }) | null;
+	current: FairnessState;
+}
+
+export interface RoundVerification {
+	roundId: string;
+	verified: boolean | null; // null while the server seed has not been revealed yet
+	reason?: "SEED_NOT_REVEALED" | "SEED_HASH_MISMATCH" | "OUTCOME_MISMATCH" | "NO_FAIRNESS_DATA";
+	serverSeed?: string;
+	serverSeedHash?: string;
+	clientSeed?: string;
+	nonce?: number;
+	recordedWinAmount: number;
+	computedWinAmount?: number;
+}
+
+async function createSeedPair(userId: string, clientSeed?: string, tx: DbExecutor = db) {
+	const serverSeed = generateServerSeed();
+	await tx
+		.insert(fairnessSeedTable)
+		.values({
+			userId,
+			serverSeed,
+			serverSeedHash: hashServerSeed(serverSeed),
+			clientSeed: clientSeed ?? generateClientSeed(),
+		})
+		.onConflictDoNothing();
+}
+
+async function getActiveSeed(userId: string, tx: DbExecutor = db) {
+	const [seed] = await tx
+		.select()
+		.from(fairnessSeedTable)
+		.where(and(eq(fairnessSeedTable.userId, userId), eq(fairnessSeedTable.isActive, true)));
+	return seed;
+}
+
+/**
+ * Take the next nonce of the user's active seed pair, creating the pair on first use.
+ * Inside a bet transaction the nonce is only used up when the bet commits.
+ */
+async function reserveFairnessRound(
+	userId: string,
+	tx: DbExecutor = db,
+): Promise<FairnessCommitment & { serverSeed: string }> {
+	for (let attempt = 0; attempt < 2; attempt++) {
+		const [seed] = await tx
+			.update(fairnessSeedTable)
+			.set({ nonce: sql`${fairnessSeedTable.nonce} + 1`, updatedAt: new Date() })
+			.where(and(eq(fairnessSeedTable.userId, userId), eq(fairnessSeedTable.isActive, true)))
+			.returning();
+
+		if (seed) {
+			return {
+				seedId: seed.id,
+				serverSeed: seed.serverSeed,
+				serverSeedHash: seed.serverSeedHash,
+				clientSeed: seed.clientSeed,
+				nonce: seed.nonce - 1,
+			};
+		}
+		await createSeedPair(userId, undefined, tx);
+	}
+	throw new Error(`Could not create a fairness seed pair for user ${userId}`);
+}
+
+/**
+ * Generate a round outcome from the user's committed seeds.
+ * The public commitment and the game math are added to gameData so the round can be verified later.
+ */
+export async function generateFairOutcome(
+	userId: string,
+	game: OutcomeGame,
+	wagerAmount: number,
+	tx: DbExecutor = db,
+): Promise<GameOutcome> {
+	const { serverSeed, ...commitment } = await reserveFairnessRound(userId, tx);
+	const outcome = generateGameOutcome(game, wagerAmount, createHmacRandomSource({ serverSeed, ...commitment }));
+	const fairness: RoundFairness = {
+		...commitment,
+		math: {
+			category: game.category,
+			volatility: game.volatility,
+			targetRtp: game.targetRtp,
+			paytable: (game.goldsvetData as { paytable?: unknown } | null)?.paytable ?? null,
+		},
+	};
+
+	return {
+		...outcome,
+		gameData: { ...outcome.gameData, fairness },
+	};
+}
+
+/**
+ * The fairness record of a generated outcome, for storing on its bet round; undefined for
+ * outcomes that were not generated from the user's seeds
+ */
+export function roundFairnessOf(outcome: GameOutcome): Record<string, unknown> | undefined {
+	const fairness = outcome.gameData?.fairness;
+	return fairness && typeof fairness === "object" ? (fairness as Record<string, unknown>) : undefined;
+}
+
+export async function getFairnessState(userId: string): Promise<FairnessState> {
+	let seed = await getActiveSeed(userId);
+	if (!seed) {
+		await createSeedPair(userId);
+		seed = await getActiveSeed(userId);
+	}
+	if (!seed) {
+		throw new Error(`Could not create a fairness seed pair for user ${userId}`);
+	}
+	return { serverSeedHash: seed.serverSeedHash, clientSeed: seed.clientSeed, nonce: seed.nonce };
+}
+
+/**
+ * Retire the active seed pair, revealing its server seed, and start a new one.
+ * The new pair keeps the previous client seed unless a new one is given.
+ */
+export async function rotateSeed(userId: string, clientSeed?: string): Promise<SeedRotationResult> {
+	const context = createOperationContext({ domain: "fairness", operation: "rotateSeed", userId });
+
+	const result = await db.transaction(async (tx) => {
+		const [previous] = await tx
+			.update(fairnessSeedTable)
+			.set({ isActive: false, revealedAt: new Date(), updatedAt: new Date() })
+			.where(and(eq(fairnessSeedTable.userId, userId), eq(fairnessSeedTable.isActive, true)))
+			.returning();
+
+		await createSeedPair(userId, clientSeed ?? previous?.clientSeed, tx);
+		const current = await getActiveSeed(userId, tx);
+		if (!current) {
+			throw new Error("Failed to create new seed pair");
+		}
+
+		return {
+			previous: previous
+				? {
+						serverSeed: previous.serverSeed,
+						serverSeedHash: previous.serverSeedHash,
+						clientSeed: previous.clientSeed,
+						nonce: previous.nonce,
+					}
+				: null,
+			current: { serverSeedHash: current.serverSeedHash, clientSeed: current.clientSeed, nonce: current.nonce },
+		};
+	});
+
+	appLogger.info("Fairness seed rotated", context, { serverSeedHash: result.current.serverSeedHash });
+	return result;
+}
+
+/**
+ * Recompute a round from the commitment and game math stored on its bet round.
+ * Returns null when the user has no such round.
+ */
+export async function verifyRound(userId: string, roundId: string): Promise<RoundVerification | null> {
+	const round = await findBetRound(userId, roundId);
+	if (!round) {
+		return null;
+	}
+
+	const fairness = round.fairness as RoundFairness | null;
+	if (!fairness?.math) {
+		return { roundId, verified: false, reason: "NO_FAIRNESS_DATA", recordedWinAmount: round.winAmount };
+	}
+
+	const seed = await db.query.fairnessSeedTable.findFirst({
+		where: and(eq(fairnessSeedTable.id, fairness.seedId), eq(fairnessSeedTable.userId, userId)),
+	});
+	const base = {
+		roundId,
+		serverSeedHash: fairness.serverSeedHash,
+		clientSeed: fairness.clientSeed,
+		nonce: fairness.nonce,
+		recordedWinAmount: round.winAmount,
+	};
+
+	if (!seed?.revealedAt) {
+		return { ...base, verified: null, reason: "SEED_NOT_REVEALED" };
+	}
+	if (hashServerSeed(seed.serverSeed) !== fairness.serverSeedHash) {
+		return { ...base, serverSeed: seed.serverSeed, verified: false, reason: "SEED_HASH_MISMATCH" };
+	}
+
+	const { paytable, ...math } = fairness.math;
+	const recomputed = generateGameOutcome(
+		{ id: round.gameId ?? "", ...math, goldsvetData: paytable === null ? null : { paytable } },
+		round.wagerAmount,
+		createHmacRandomSource({ serverSeed: seed.serverSeed, clientSeed: fairness.clientSeed, nonce: fairness.nonce }),
+	);
+	const verified = recomputed.winAmount === round.winAmount;
+
+	return {
+		...base,
+		serverSeed: seed.serverSeed,
+		verified,
+		reason: verified ? undefined : "OUTCOME_MISMATCH",
+		computedWinAmount: recomputed.winAmount,
+	};
+}
@@ -0,0 +1,219 @@
+import { type DbExecutor, type DbTransaction, db } from "@/core/database/db";
+import { type FreeSpinGrant, freeSpinGrantTable, userBalanceTable } from "@/core/database/schema";
+import { configurationManager } from "@/shared/config";
+import { postJournal } from "@/modules/ledger/ledger.service";
+import { winLegs } from "@/modules/ledger/ledger-rules";
+import { and, asc, eq, gt, isNull, lte, or, sql } from "drizzle-orm";
+import { z } from "zod";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+
+/**
+ * Free spins
+ * Grants are stored per source in free_spin_grants; userBalanceTable.freeSpinsRemaining is kept
+ * as the running total of spins left on active grants. Spins are consumed by the bet pipeline
+ * without touching real balance, and their wins land in the bonus balance with wagering attached.
+ */
+
+const DEFAULT_FREE_SPIN_EXPIRY_DAYS = 7;
+
+export const grantFreeSpinsSchema = z.object({
+	userId: z.string().min(1),
+	count: z.number().int().positive("count must be a positive integer"),
+	source: z.string().min(1),
+	spinValue: z.number().int().positive().optional(), // Defaults to the game's minimum bet
+	gameIds: z.array(z.string().min(1)).nonempty().optional(), // Any game when omitted
+	expiresInDays: z.number().positive().optional(),
+});
+export type GrantFreeSpinsInput = z.input<typeof grantFreeSpinsSchema>;
+
+export interface ConsumedFreeSpin {
+	grantId: string;
+	spinValue: number | null; // null: use the game's minimum bet
+	spinsRemaining: number;
+}
+
+function eligibleGrantFilter(userId: string, gameId: string, now: Date) {
+	return and(
+		eq(freeSpinGrantTable.userId, userId),
+		eq(freeSpinGrantTable.status, "ACTIVE"),
+		gt(freeSpinGrantTable.spinsRemaining, 0),
+		or(isNull(freeSpinGrantTable.expiresAt), gt(freeSpinGrantTable.expiresAt, now)),
+		or(isNull(freeSpinGrantTable.gameIds), sql`${gameId} = any(${freeSpinGrantTable.gameIds})`),
+	);
+}
+
+/**
+ * Grant free spins to a user. Runs inside the caller's transaction when one is given.
+ */
+export async function grantFreeSpins(input: GrantFreeSpinsInput, tx?: DbExecutor): Promise<FreeSpinGrant> {
+	const { userId, count, source, spinValue, gameIds, expiresInDays } = grantFreeSpinsSchema.parse(input);
+	const expiresAt = new Date(Date.now() + (expiresInDays ?? DEFAULT_FREE_SPIN_EXPIRY_DAYS) * 24 * 60 * 60 * 1000);
+
+	const performGrant = async (transaction: DbExecutor) => {
+		const [grant] = await transaction
+			.insert(freeSpinGrantTable)
+			.values({
+				userId,
+				source,
+				spinsGranted: count,
+				spinsRemaining: count,
+				spinValue,
+				gameIds,
+				expiresAt,
+			})
+			.returning();
+
+		await transaction
+			.update(userBalanceTable)
+			.set({
+				freeSpinsRemaining: sql`${userBalanceTable.freeSpinsRemaining} + ${count}`,
+				updatedAt: new Date(),
+			})
+			.where(eq(userBalanceTable.userId, userId));
+
+		return grant as FreeSpinGrant;
+	};
+
+	const grant = tx ? await performGrant(tx) : await db.transaction(performGrant);
+
+	const context = createOperationContext({ domain: "bonus", operation: "grantFreeSpins", userId });
+	appLogger.info(`Granted ${count} free spins`, context, { grantId: grant.id, source, expiresAt });
+	return grant;
+}
+
+/**
+ * Take one spin from the oldest eligible grant for this game.
+ * Must run inside the bet transaction; returns null when the user has no spin for the game.
+ */
+export async function consumeFreeSpin(
+	tx: DbTransaction,
+	userId: string,
+	gameId: string,
+): Promise<ConsumedFreeSpin | null> {
+	const [grant] = await tx
+		.select()
+		.from(freeSpinGrantTable)
+		.where(eligibleGrantFilter(userId, gameId, new Date()))
+		.orderBy(asc(freeSpinGrantTable.expiresAt), asc(freeSpinGrantTable.createdAt))
+		.limit(1)
+		.for("update");
+
+	if (!grant) {
+		return null;
+	}
+
+	const spinsRemaining = grant.spinsRemaining - 1;
+	await tx
+		.update(freeSpinGrantTable)
+		.set({
+			spinsRemaining,
+			status: spinsRemaining === 0 ? "COMPLETED" : "ACTIVE",
+			completedAt: spinsRemaining === 0 ? new Date() : null,
+			updatedAt: new Date(),
+		})
+		.where(eq(freeSpinGrantTable.id, grant.id));
+
+	await tx
+		.update(userBalanceTable)
+		.set({
+			freeSpinsRemaining: sql`greatest(${userBalanceTable.freeSpinsRemaining} - 1, 0)`,
+			updatedAt: new Date(),
+		})
+		.where(eq(userBalanceTable.userId, userId));
+
+	return { grantId: grant.id, spinValue: grant.spinValue, spinsRemaining };
+}
+
+/**
+ * Credit a free spin win to the bonus balance and attach the operator's freeSpinWrMultiplier wagering to it
+ */
+export async function creditFreeSpinWin(
+	tx: DbTransaction,
+	userId: string,
+	grantId: string,
+	winAmount: number,
+	operatorId?: string | null,
+): Promise<{ bonusBalance: number }> {
+	const { freeSpinWrMultiplier } = configurationManager.getConfiguration({ operatorId });
+	const wageringAdded = Math.round(winAmount * freeSpinWrMultiplier);
+
+	const [balance] = await tx
+		.update(userBalanceTable)
+		.set({
+			bonusBalance: sql`${userBalanceTable.bonusBalance} + ${winAmount}`,
+			bonusWrRemaining: sql`${userBalanceTable.bonusWrRemaining} + ${wageringAdded}`,
+			totalFreeSpinWins: sql`${userBalanceTable.totalFreeSpinWins} + ${winAmount}`,
+			totalWon: sql`${userBalanceTable.totalWon} + ${winAmount}`,
+			updatedAt: new Date(),
+		})
+		.where(eq(userBalanceTable.userId, userId))
+		.returning({ bonusBalance: userBalanceTable.bonusBalance });
+
+	if (!balance) {
+		throw new Error(`User balance not found for user ${userId}`);
+	}
+
+	await tx
+		.update(freeSpinGrantTable)
+		.set({ totalWon: sql`${freeSpinGrantTable.totalWon} + ${winAmount}`, updatedAt: new Date() })
+		.where(eq(freeSpinGrantTable.id, grantId));
+
+	await postJournal(tx, {
+		type: "WIN",
+		userId,
+		relatedId: grantId,
+		description: "Free spin win",
+		legs: winLegs(userId, { real: 0, bonus: winAmount }, operatorId),
+	});
+
+	return balance;
+}
+
+/**
+ * Active grants for a user, soonest expiry first
+ */
+export async function getFreeSpins(userId: string): Promise<FreeSpinGrant[]> {
+	return db
+		.select()
+		.from(freeSpinGrantTable)
+		.where(and(eq(freeSpinGrantTable.userId, userId), eq(freeSpinGrantTable.status, "ACTIVE")))
+		.orderBy(asc(freeSpinGrantTable.expiresAt));
+}
+
+/**
+ * Expire active grants past their expiry date and remove their unused spins from the balance.
+ * Returns the number of grants expired.
+ */
+export async function expireFreeSpins(now: Date = new Date()): Promise<number> {
+	const context = createOperationContext({ domain: "bonus", operation: "expireFreeSpins" });
+
+	const expired = await db.transaction(async (tx) => {
+		const grants = await tx
+			.update(freeSpinGrantTable)
+			.set({ status: "EXPIRED", updatedAt: now })
+			.where(and(eq(freeSpinGrantTable.status, "ACTIVE"), lte(freeSpinGrantTable.expiresAt, now)))
+			.returning({ userId: freeSpinGrantTable.userId, spinsRemaining: freeSpinGrantTable.spinsRemaining });
+
+		const unusedByUser = new Map<string, number>();
+		for (const grant of grants) {
+			unusedByUser.set(grant.userId, (unusedByUser.get(grant.userId) ?? 0) + grant.spinsRemaining);
+		}
+
+		for (const [userId, unused] of unusedByUser) {
+			await tx
+				.update(userBalanceTable)
+				.set({
+					freeSpinsRemaining: sql`greatest(${userBalanceTable.freeSpinsRemaining} - ${unused}, 0)`,
+					updatedAt: now,
+				})
+				.where(eq(userBalanceTable.userId, userId));
+		}
+
+		return grants.length;
+	});
+
+	if (expired > 0) {
+		appLogger.info(`Expired ${expired} free spin grants`, context);
+	}
+	return expired;
+}
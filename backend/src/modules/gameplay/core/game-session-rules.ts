@@ -0,0 +1,158 @@
+/**
+ * Game session rules
+ * Pure calculations behind the game session lifecycle: running RTP, duration, when an idle
+ * ACTIVE session is closed as TIMEOUT or ABANDONED, and when a reality check is due or the
+ * session has run for too long.
+ */
+
+export interface SessionConfig {
+	idleTimeoutMinutes: number; // A session with bets and no activity for this long is TIMEOUT
+	abandonAfterMinutes: number; // A session without a single bet is ABANDONED after this long
+	realityCheckIntervalMinutes: number; // Minutes between reality checks; 0 disables them
+	maxSessionMinutes: number; // A session is force-ended after this long; 0 means no limit
+}
+
+export interface SessionActivity {
+	betCount: number;
+	lastActivityAt: Date; // Time of the last bet, or the start of the session when there is none
+}
+
+export type IdleSessionOutcome = "TIMEOUT" | "ABANDONED";
+
+export interface SessionCheckState {
+	createdAt: Date;
+	lastRealityCheckAt: Date | null;
+	realityCheckPendingSince: Date | null;
+}
+
+export type SessionCheckAction = "END_SESSION" | "REALITY_CHECK";
+
+export type SessionPlayBlock = "GAME_SESSION_REQUIRED" | "REALITY_CHECK_PENDING" | "GAME_SESSION_EXPIRED";
+
+export interface RealityCheckSummary {
+	elapsedMinutes: number;
+	totalWagered: number;
+	totalWon: number;
+	netResult: number; // Won minus wagered: positive when the player is ahead
+}
+
+const DEFAULT_SESSION_CONFIG: SessionConfig = {
+	idleTimeoutMinutes: 30,
+	abandonAfterMinutes: 10,
+	realityCheckIntervalMinutes: 60,
+	maxSessionMinutes: 240,
+};
+
+/**
+ * Read platformSettings.sessionConfig, falling back to defaults for missing or invalid fields
+ */
+export function resolveSessionConfig(raw: unknown): SessionConfig {
+	const config = (raw ?? {}) as Record<string, unknown>;
+	const minutesOr = (value: unknown, fallback: number, allowZero = false) =>
+		typeof value === "number" && Number.isFinite(value) && (value > 0 || (allowZero && value === 0)) ? value : fallback;
+
+	return {
+		idleTimeoutMinutes: minutesOr(config.idleTimeoutMinutes, DEFAULT_SESSION_CONFIG.idleTimeoutMinutes),
+		abandonAfterMinutes: minutesOr(config.abandonAfterMinutes, DEFAULT_SESSION_CONFIG.abandonAfterMinutes),
+		realityCheckIntervalMinutes: minutesOr(
+			config.realityCheckIntervalMinutes,
+			DEFAULT_SESSION_CONFIG.realityCheckIntervalMinutes,
+			true,
+		),
+		maxSessionMinutes: minutesOr(config.maxSessionMinutes, DEFAULT_SESSION_CONFIG.maxSessionMinutes, true),
+	};
+}
+
+/**
+ * Return to player over the session in percent, rounded to two decimals. 0 before anything was wagered.
+ */
+export function sessionRtp(totalWagered: number, totalWon: number): number {
+	if (totalWagered <= 0) {
+		return 0;
+	}
+	return Math.round((totalWon / totalWagered) * 10000) / 100;
+}
+
+/**
+ * Whole seconds between the start of a session and a later moment
+ */
+export function sessionDurationSeconds(startedAt: Date, at: Date): number {
+	return Math.max(0, Math.floor((at.getTime() - startedAt.getTime()) / 1000));
+}
+
+/**
+ * How an ACTIVE session should be closed at `now`, or null while it is still live
+ */
+export function idleSessionOutcome(
+	activity: SessionActivity,
+	now: Date,
+	config: SessionConfig,
+): IdleSessionOutcome | null {
+	const idleMinutes = (now.getTime() - activity.lastActivityAt.getTime()) / 60000;
+	if (activity.betCount === 0) {
+		return idleMinutes >= config.abandonAfterMinutes ? "ABANDONED" : null;
+	}
+	return idleMinutes >= config.idleTimeoutMinutes ? "TIMEOUT" : null;
+}
+
+/**
+ * What the session worker should do with an ACTIVE session at `now`: end it once it has run for
+ * maxSessionMinutes, send a reality check every realityCheckIntervalMinutes (never while one is
+ * still waiting to be acknowledged), or nothing
+ */
+export function sessionCheckAction(
+	session: SessionCheckState,
+	now: Date,
+	config: SessionConfig,
+): SessionCheckAction | null {
+	const minutesSince = (at: Date) => (now.getTime() - at.getTime()) / 60000;
+
+	if (config.maxSessionMinutes > 0 && minutesSince(session.createdAt) >= config.maxSessionMinutes) {
+		return "END_SESSION";
+	}
+	if (config.realityCheckIntervalMinutes > 0 && !session.realityCheckPendingSince) {
+		const since = session.lastRealityCheckAt ?? session.createdAt;
+		if (minutesSince(since) >= config.realityCheckIntervalMinutes) {
+			return "REALITY_CHECK";
+		}
+	}
+	return null;
+}
+
+/**
+ * Why a bet cannot be placed in the player's ACTIVE session for the game, or null. Bets need such a
+ * session, so its reality checks and maximum duration apply even before the worker gets to it.
+ */
+export function sessionPlayBlock(
+	session: Pick<SessionCheckState, "createdAt" | "realityCheckPendingSince"> | undefined,
+	now: Date,
+	config: SessionConfig,
+): SessionPlayBlock | null {
+	if (!session) {
+		return "GAME_SESSION_REQUIRED";
+	}
+	if (session.realityCheckPendingSince) {
+		return "REALITY_CHECK_PENDING";
+	}
+	if (config.maxSessionMinutes > 0 && now.getTime() - session.createdAt.getTime() >= config.maxSessionMinutes * 60000) {
+		return "GAME_SESSION_EXPIRED";
+	}
+	return null;
+}
+
+/**
+ * What a reality check shows the player: whole minutes played and the session's net result
+ */
+export function realityCheckSummary(
+	session: { createdAt: Date; totalWagered: number | null; totalWon: number | null },
+	now: Date,
+): RealityCheckSummary {
+	const totalWagered = session.totalWagered ?? 0;
+	const totalWon = session.totalWon ?? 0;
+	return {
+		elapsedMinutes: Math.floor(sessionDurationSeconds(session.createdAt, now) / 60),
+		totalWagered,
+		totalWon,
+		netResult: totalWon - totalWagered,
+	};
+}
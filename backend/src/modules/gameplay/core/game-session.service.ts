@@ -0,0 +1,400 @@
+import { type DbExecutor, db } from "@/core/database/db";
+import {
+	type BetResult,
+	type GameSession,
+	gameSessionTable,
+	gameTable,
+	userBalanceTable,
+	userTable,
+} from "@/core/database/schema";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+import { configurationManager } from "@/shared/config";
+import type { JobResult } from "@/shared/job-runs.service";
+import { and, desc, eq, sql } from "drizzle-orm";
+import {
+	type RealityCheckSummary,
+	type SessionConfig,
+	type SessionPlayBlock,
+	idleSessionOutcome,
+	realityCheckSummary,
+	resolveSessionConfig,
+	sessionCheckAction,
+	sessionDurationSeconds,
+	sessionPlayBlock,
+	sessionRtp,
+} from "./game-session-rules";
+
+/**
+ * Game session bookkeeping
+ * A player has at most one ACTIVE session; starting one for another game completes the previous one.
+ * Every settled bet is appended to the session with the running RTP and duration. Sessions end as
+ * COMPLETED when the player closes them, or as TIMEOUT/ABANDONED when the idle worker finds them stale.
+ * Bets are only taken in the ACTIVE session for their game. While a session runs it gets periodic reality
+ * checks that pause bets, and switching game, until acknowledged, and it is ended as EXPIRED once it
+ * reaches the maximum session duration.
+ */
+
+export type GameSessionErrorCode =
+	| "SESSION_NOT_FOUND"
+	| "SESSION_NOT_ACTIVE"
+	| "GAME_NOT_FOUND"
+	| "REALITY_CHECK_PENDING";
+
+export class GameSessionError extends Error {
+	constructor(
+		public readonly code: GameSessionErrorCode,
+		message: string,
+	) {
+		super(message);
+		this.name = "GameSessionError";
+	}
+}
+
+export type SessionNotice =
+	| { type: "REALITY_CHECK"; payload: RealityCheckSummary & { gameSessionId: string } }
+	| { type: "SESSION_ENDED"; payload: { gameSessionId: string; reason: "MAX_DURATION"; duration: number } };
+
+/** Delivers a session notice to the player's connected clients */
+export type SessionNotifier = (userId: string, notice: SessionNotice) => void;
+
+async function currentBalance(tx: DbExecutor, userId: string): Promise<number | null> {
+	const [balance] = await tx
+		.select({ realBalance: userBalanceTable.realBalance, bonusBalance: userBalanceTable.bonusBalance })
+		.from(userBalanceTable)
+		.where(eq(userBalanceTable.userId, userId));
+	return balance ? balance.realBalance + balance.bonusBalance : null;
+}
+
+function closeSessionValues(session: GameSession, status: GameSession["status"], endedAt: Date) {
+	return {
+		status,
+		isActive: false,
+		duration: sessionDurationSeconds(session.createdAt, endedAt),
+		version: session.version + 1,
+		updatedAt: new Date(),
+	};
+}
+
+/**
+ * Start a game session, or return the player's ACTIVE session when it is for the same game.
+ * A session waiting for its reality check to be acknowledged cannot be left for another game.
+ */
+export async function startGameSession(userId: string, gameId: string): Promise<GameSession> {
+	const context = createOperationContext({ domain: "gameplay", operation: "startGameSession", userId, gameId });
+
+	const { session, created } = await db.transaction(async (tx) => {
+		const [game] = await tx.select({ name: gameTable.name }).from(gameTable).where(eq(gameTable.id, gameId));
+		if (!game) {
+			throw new GameSessionError("GAME_NOT_FOUND", `Game ${gameId} not found`);
+		}
+
+		const activeSessions: GameSession[] = await tx
+			.select()
+			.from(gameSessionTable)
+			.where(and(eq(gameSessionTable.userId, userId), eq(gameSessionTable.status, "ACTIVE")))
+			.for("update");
+
+		const balance = await currentBalance(tx, userId);
+		const existing = activeSessions.find((active) => active.gameId === gameId);
+		if (activeSessions.some((active) => active !== existing && active.realityCheckPendingSince)) {
+			throw new GameSessionError("REALITY_CHECK_PENDING", "Acknowledge the reality check before switching game");
+		}
+		const now = new Date();
+		for (const active of activeSessions) {
+			if (active === existing) continue;
+			await tx
+				.update(gameSessionTable)
+				.set({ ...closeSessionValues(active, "COMPLETED", now), endingBalance: balance })
+				.where(eq(gameSessionTable.id, active.id));
+		}
+		if (existing) {
+			return { session: existing, created: false };
+		}
+
+		const [inserted] = await tx
+			.insert(gameSessionTable)
+			.values({ userId, gameId, gameName: game.name, status: "ACTIVE", startingBalance: balance })
+			.returning();
+		return { session: inserted as GameSession, created: true };
+	});
+
+	if (created) {
+		appLogger.info("Game session started", context, { gameSessionId: session.id });
+	}
+	return session;
+}
+
+/**
+ * End a player's ACTIVE session as COMPLETED with its final duration and balance
+ */
+export async function endGameSession(userId: string, gameSessionId: string): Promise<GameSession> {
+	const ended = await db.transaction(async (tx) => {
+		const [session] = await tx
+			.select()
+			.from(gameSessionTable)
+			.where(and(eq(gameSessionTable.id, gameSessionId), eq(gameSessionTable.userId, userId)))
+			.for("update");
+		if (!session) {
+			throw new GameSessionError("SESSION_NOT_FOUND", `Game session ${gameSessionId} not found`);
+		}
+		if (session.status !== "ACTIVE") {
+			throw new GameSessionError("SESSION_NOT_ACTIVE", `Game session ${gameSessionId} is ${session.status}`);
+		}
+
+		const [updated] = await tx
+			.update(gameSessionTable)
+			.set({
+				...closeSessionValues(session, "COMPLETED", new Date()),
+				endingBalance: await currentBalance(tx, userId),
+			})
+			.where(eq(gameSessionTable.id, gameSessionId))
+			.returning();
+		return updated as GameSession;
+	});
+
+	const context = createOperationContext({ domain: "gameplay", operation: "endGameSession", userId });
+	appLogger.info("Game session ended", context, {
+		gameSessionId,
+		duration: ended.duration,
+		rtp: ended.gameSessionRtp,
+	});
+	return ended;
+}
+
+export async function getGameSession(gameSessionId: string, userId?: string): Promise<GameSession | undefined> {
+	const [session] = await db
+		.select()
+		.from(gameSessionTable)
+		.where(and(eq(gameSessionTable.id, gameSessionId), userId ? eq(gameSessionTable.userId, userId) : undefined));
+	return session as GameSession | undefined;
+}
+
+export async function getActiveGameSession(userId: string): Promise<GameSession | undefined> {
+	const [session] = await db
+		.select()
+		.from(gameSessionTable)
+		.where(and(eq(gameSessionTable.userId, userId), eq(gameSessionTable.status, "ACTIVE")))
+		.orderBy(desc(gameSessionTable.createdAt))
+		.limit(1);
+	return session as GameSession | undefined;
+}
+
+/**
+ * Append a settled bet to its game session and update the session totals, RTP and duration.
+ * Bets for a session that is no longer ACTIVE, or a round that is already recorded, are ignored
+ * so a redelivered event does not count twice.
+ */
+export async function appendBetResult(
+	gameSessionId: string,
+	betResult: Omit<BetResult, "currentGameSessionRtp" | "sessionDuration">,
+): Promise<boolean> {
+	return await db.transaction(async (tx) => {
+		const [session] = await tx
+			.select()
+			.from(gameSessionTable)
+			.where(eq(gameSessionTable.id, gameSessionId))
+			.for("update");
+		if (!session || session.status !== "ACTIVE") {
+			return false;
+		}
+		if (betResult.roundId && session.betResults.some((recorded: BetResult) => recorded.roundId === betResult.roundId)) {
+			return false;
+		}
+
+		const totalWagered = (session.totalWagered ?? 0) + betResult.wagerAmount;
+		const totalWon = (session.totalWon ?? 0) + betResult.winAmount;
+		const rtp = sessionRtp(totalWagered, totalWon);
+		const duration = sessionDurationSeconds(session.createdAt, new Date());
+		const recorded: BetResult = { ...betResult, currentGameSessionRtp: rtp, sessionDuration: duration };
+
+		await tx
+			.update(gameSessionTable)
+			.set({
+				totalWagered,
+				totalWon,
+				gameSessionRtp: Math.round(rtp),
+				duration,
+				endingBalance: betResult.realBalanceAfter + betResult.bonusBalanceAfter,
+				betResults: sql`${gameSessionTable.betResults} || ${JSON.stringify([recorded])}::jsonb`,
+				version: session.version + 1,
+				updatedAt: new Date(),
+			})
+			.where(eq(gameSessionTable.id, gameSessionId));
+		return true;
+	});
+}
+
+/**
+ * Session settings of the player's operator
+ */
+function sessionConfigFor(operatorId: string | null | undefined): SessionConfig {
+	return resolveSessionConfig(configurationManager.getConfiguration({ operatorId }).sessionConfig);
+}
+
+/**
+ * ACTIVE sessions with the operator of their player, whose session settings apply to them
+ */
+async function getActiveSessionsWithOperator(): Promise<Array<{ session: GameSession; operatorId: string | null }>> {
+	return await db
+		.select({ session: gameSessionTable, operatorId: userTable.operatorId })
+		.from(gameSessionTable)
+		.innerJoin(userTable, eq(gameSessionTable.userId, userTable.id))
+		.where(eq(gameSessionTable.status, "ACTIVE"));
+}
+
+/**
+ * Close ACTIVE sessions that have been idle too long: TIMEOUT when they have bets, ABANDONED when they never had one.
+ * The session's duration ends at its last activity rather than when the worker noticed it.
+ */
+export async function expireIdleSessions(now = new Date()): Promise<JobResult> {
+	const context = createOperationContext({ domain: "gameplay", operation: "expireIdleSessions" });
+
+	const counts = { TIMEOUT: 0, ABANDONED: 0 };
+	for (const { session, operatorId } of await getActiveSessionsWithOperator()) {
+		const lastActivityAt = session.updatedAt ?? session.createdAt;
+		const outcome = idleSessionOutcome(
+			{ betCount: session.betResults.length, lastActivityAt },
+			now,
+			sessionConfigFor(operatorId),
+		);
+		if (!outcome) continue;
+
+		const [closed] = await db
+			.update(gameSessionTable)
+			.set({ ...closeSessionValues(session, outcome, lastActivityAt), expiredAt: now })
+			.where(
+				and(
+					eq(gameSessionTable.id, session.id),
+					eq(gameSessionTable.status, "ACTIVE"),
+					eq(gameSessionTable.version, session.version), // a bet since the read keeps it open
+				),
+			)
+			.returning({ id: gameSessionTable.id });
+		if (closed) {
+			counts[outcome]++;
+		}
+	}
+
+	const processed = counts.TIMEOUT + counts.ABANDONED;
+	if (processed > 0) {
+		appLogger.info("Closed idle game sessions", context, counts);
+	}
+	return { processed, timedOut: counts.TIMEOUT, abandoned: counts.ABANDONED };
+}
+
+/**
+ * Why the user cannot bet on a game right now: no ACTIVE session for it, an unacknowledged reality
+ * check, or a session past its maximum duration. null when bets can go ahead.
+ */
+export async function getSessionPlayBlock(
+	userId: string,
+	gameId: string,
+	now = new Date(),
+): Promise<SessionPlayBlock | null> {
+	const [session] = await db
+		.select({
+			createdAt: gameSessionTable.createdAt,
+			realityCheckPendingSince: gameSessionTable.realityCheckPendingSince,
+			operatorId: userTable.operatorId,
+		})
+		.from(gameSessionTable)
+		.innerJoin(userTable, eq(gameSessionTable.userId, userTable.id))
+		.where(
+			and(
+				eq(gameSessionTable.userId, userId),
+				eq(gameSessionTable.gameId, gameId),
+				eq(gameSessionTable.status, "ACTIVE"),
+			),
+		)
+		.limit(1);
+	return sessionPlayBlock(session, now, sessionConfigFor(session?.operatorId));
+}
+
+/**
+ * Acknowledge the reality check on a player's ACTIVE session so bets can continue
+ */
+export async function acknowledgeRealityCheck(userId: string, gameSessionId: string): Promise<GameSession> {
+	return await db.transaction(async (tx) => {
+		const [session] = await tx
+			.select()
+			.from(gameSessionTable)
+			.where(and(eq(gameSessionTable.id, gameSessionId), eq(gameSessionTable.userId, userId)))
+			.for("update");
+		if (!session) {
+			throw new GameSessionError("SESSION_NOT_FOUND", `Game session ${gameSessionId} not found`);
+		}
+		if (session.status !== "ACTIVE") {
+			throw new GameSessionError("SESSION_NOT_ACTIVE", `Game session ${gameSessionId} is ${session.status}`);
+		}
+		if (!session.realityCheckPendingSince) {
+			return session as GameSession;
+		}
+
+		const [updated] = await tx
+			.update(gameSessionTable)
+			.set({ realityCheckPendingSince: null, version: session.version + 1, updatedAt: new Date() })
+			.where(eq(gameSessionTable.id, gameSessionId))
+			.returning();
+		return updated as GameSession;
+	});
+}
+
+/**
+ * Send due reality checks and end sessions that reached the maximum duration, notifying the player of each.
+ * Updates are conditioned on the version read so a session that changed meanwhile is left for the next run.
+ */
+export async function runSessionChecks(notify: SessionNotifier, now = new Date()): Promise<JobResult> {
+	const context = createOperationContext({ domain: "gameplay", operation: "runSessionChecks" });
+	const counts = { realityChecks: 0, ended: 0 };
+
+	for (const { session, operatorId } of await getActiveSessionsWithOperator()) {
+		const action = sessionCheckAction(session, now, sessionConfigFor(operatorId));
+		if (!action) continue;
+
+		const unchanged = and(
+			eq(gameSessionTable.id, session.id),
+			eq(gameSessionTable.status, "ACTIVE"),
+			eq(gameSessionTable.version, session.version),
+		);
+
+		if (action === "END_SESSION") {
+			const [ended] = await db
+				.update(gameSessionTable)
+				.set({
+					...closeSessionValues(session, "EXPIRED", now),
+					expiredAt: now,
+					realityCheckPendingSince: null,
+					endingBalance: await currentBalance(db, session.userId),
+				})
+				.where(unchanged)
+				.returning({ duration: gameSessionTable.duration });
+			if (!ended) continue;
+
+			counts.ended++;
+			notify(session.userId, {
+				type: "SESSION_ENDED",
+				payload: { gameSessionId: session.id, reason: "MAX_DURATION", duration: ended.duration ?? 0 },
+			});
+			continue;
+		}
+
+		const [checked] = await db
+			.update(gameSessionTable)
+			.set({ lastRealityCheckAt: now, realityCheckPendingSince: now, version: session.version + 1 })
+			.where(unchanged)
+			.returning({ id: gameSessionTable.id });
+		if (!checked) continue;
+
+		counts.realityChecks++;
+		notify(session.userId, {
+			type: "REALITY_CHECK",
+			payload: { gameSessionId: session.id, ...realityCheckSummary(session, now) },
+		});
+	}
+
+	const processed = counts.realityChecks + counts.ended;
+	if (processed > 0) {
+		appLogger.info("Ran game session checks", context, counts);
+	}
+	return { processed, ...counts };
+}
@@ -0,0 +1,72 @@
+/**
+ * Loss limit rules
+ * Pure checks behind the daily and session loss limits. Net loss is stakes minus wins, so a player
+ * who is ahead has more room; a bet is refused when losing it would take the net loss past the limit.
+ */
+
+export interface BetRestrictions {
+	maxBetAmount: number;
+	minBetAmount: number;
+	maxDailyLoss: number;
+	maxSessionLoss: number;
+}
+
+export interface LossTotals {
+	dailyNetLoss: number; // Today's (UTC) stakes minus wins
+	sessionNetLoss: number; // The active game session's totalWagered - totalWon
+}
+
+export type LossLimitCode = "DAILY_LOSS_LIMIT_EXCEEDED" | "SESSION_LOSS_LIMIT_EXCEEDED";
+
+export interface LossLimitViolation {
+	code: LossLimitCode;
+	limit: number;
+	netLoss: number;
+}
+
+const DEFAULT_SYSTEM_LIMITS: BetRestrictions = {
+	maxBetAmount: 100000,
+	minBetAmount: 10,
+	maxDailyLoss: 1000000,
+	maxSessionLoss: 500000,
+};
+
+/**
+ * Read platformSettings.systemLimits, falling back to defaults for missing or invalid fields
+ */
+export function resolveSystemLimits(raw: unknown): BetRestrictions {
+	const limits = (raw ?? {}) as Record<string, unknown>;
+	const amountOr = (value: unknown, fallback: number) =>
+		typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : fallback;
+
+	return {
+		maxBetAmount: amountOr(limits.maxBetAmount, DEFAULT_SYSTEM_LIMITS.maxBetAmount),
+		minBetAmount: amountOr(limits.minBetAmount, DEFAULT_SYSTEM_LIMITS.minBetAmount),
+		maxDailyLoss: amountOr(limits.maxDailyLoss, DEFAULT_SYSTEM_LIMITS.maxDailyLoss),
+		maxSessionLoss: amountOr(limits.maxSessionLoss, DEFAULT_SYSTEM_LIMITS.maxSessionLoss),
+	};
+}
+
+/**
+ * The UTC calendar day a moment falls on, as YYYY-MM-DD
+ */
+export function lossDay(at: Date): string {
+	return at.toISOString().slice(0, 10);
+}
+
+/**
+ * The first limit a bet of betAmount would break if it were lost, daily before session, or null
+ */
+export function checkLossLimits(
+	totals: LossTotals,
+	betAmount: number,
+	limits: Pick<BetRestrictions, "maxDailyLoss" | "maxSessionLoss">,
+): LossLimitViolation | null {
+	if (totals.dailyNetLoss + betAmount > limits.maxDailyLoss) {
+		return { code: "DAILY_LOSS_LIMIT_EXCEEDED", limit: limits.maxDailyLoss, netLoss: totals.dailyNetLoss };
+	}
+	if (totals.sessionNetLoss + betAmount > limits.maxSessionLoss) {
+		return { code: "SESSION_LOSS_LIMIT_EXCEEDED", limit: limits.maxSessionLoss, netLoss: totals.sessionNetLoss };
+	}
+	return null;
+}
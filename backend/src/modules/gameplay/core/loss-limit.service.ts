@@ -0,0 +1,91 @@
+import { type DbTransaction, db } from "@/core/database/db";
+import { gameSessionTable, userDailyPlayTable } from "@/core/database/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { type LossTotals, lossDay } from "./loss-limit-rules";
+
+/**
+ * Loss tracking
+ * Keeps the user_daily_play and game session running totals that the daily and session loss limits are checked against.
+ * Callers record stakes and wins inside the transaction that moves the balance, so the totals
+ * can never drift from what was actually played.
+ */
+
+/**
+ * Add stakes and wins to the user's totals for the day. Negative amounts take a rolled back round out again.
+ */
+export async function recordDailyPlay(
+	tx: DbTransaction,
+	userId: string,
+	amounts: { wagered?: number; won?: number },
+	at = new Date(),
+): Promise<void> {
+	const wagered = amounts.wagered ?? 0;
+	const won = amounts.won ?? 0;
+	if (wagered === 0 && won === 0) {
+		return;
+	}
+
+	await tx
+		.insert(userDailyPlayTable)
+		.values({ userId, day: lossDay(at), wagered, won })
+		.onConflictDoUpdate({
+			target: [userDailyPlayTable.userId, userDailyPlayTable.day],
+			set: {
+				wagered: sql`${userDailyPlayTable.wagered} + ${wagered}`,
+				won: sql`${userDailyPlayTable.won} + ${won}`,
+				updatedAt: new Date(),
+			},
+		});
+}
+
+/**
+ * Add stakes and wins to the running totals of the round's game session, if it has one.
+ * Negative amounts take a rolled back round out again.
+ */
+export async function recordSessionPlay(
+	tx: DbTransaction,
+	gameSessionId: string | null | undefined,
+	amounts: { wagered?: number; won?: number },
+): Promise<void> {
+	const wagered = amounts.wagered ?? 0;
+	const won = amounts.won ?? 0;
+	if (!gameSessionId || (wagered === 0 && won === 0)) {
+		return;
+	}
+
+	await tx
+		.update(gameSessionTable)
+		.set({
+			playWagered: sql`${gameSessionTable.playWagered} + ${wagered}`,
+			playWon: sql`${gameSessionTable.playWon} + ${won}`,
+		})
+		.where(eq(gameSessionTable.id, gameSessionId));
+}
+
+/**
+ * Today's net loss and the net loss of the user's ACTIVE session for the game
+ */
+export async function getLossTotals(userId: string, gameId: string, at = new Date()): Promise<LossTotals> {
+	const [[daily], [session]] = await Promise.all([
+		db
+			.select({ wagered: userDailyPlayTable.wagered, won: userDailyPlayTable.won })
+			.from(userDailyPlayTable)
+			.where(and(eq(userDailyPlayTable.userId, userId), eq(userDailyPlayTable.day, lossDay(at)))),
+		db
+			.select({ wagered: gameSessionTable.playWagered, won: gameSessionTable.playWon })
+			.from(gameSessionTable)
+			.where(
+				and(
+					eq(gameSessionTable.userId, userId),
+					eq(gameSessionTable.gameId, gameId),
+					eq(gameSessionTable.status, "ACTIVE"),
+				),
+			)
+			.limit(1),
+	]);
+
+	return {
+		dailyNetLoss: daily ? daily.wagered - daily.won : 0,
+		sessionNetLoss: session ? session.wagered - session.won : 0,
+	};
+}
@@ -0,0 +1,83 @@
+import type { BetRestrictions } from "./loss-limit-rules";
+
+/**
+ * Bet restriction rules
+ * Pure layering behind the effective stake and loss limits of a player on a game. Each layer starts
+ * from the one before it: platform systemLimits, then the operator's overrides, then the game's own
+ * min/max bet, then the player's VIP tier multiplier, then admin overrides for the player.
+ */
+
+export type RestrictionLayer = "SYSTEM" | "OPERATOR" | "GAME" | "VIP" | "USER";
+
+export type RestrictionField = keyof BetRestrictions;
+
+/**
+ * Admin override values; a null or missing field keeps whatever the previous layer resolved
+ */
+export type RestrictionOverrideValues = { [K in RestrictionField]?: number | null };
+
+export interface RestrictionLayers {
+	system: BetRestrictions;
+	operator?: RestrictionOverrideValues | null;
+	game?: { minBet: number | null; maxBet: number | null } | null;
+	vipMultiplier?: number; // Applied to the maximum bet and loss limits; 1 leaves them alone
+	user?: RestrictionOverrideValues | null;
+}
+
+export interface EffectiveBetRestrictions {
+	limits: BetRestrictions;
+	sources: Record<RestrictionField, RestrictionLayer>; // The layer that last set each field
+}
+
+const RESTRICTION_FIELDS: RestrictionField[] = ["minBetAmount", "maxBetAmount", "maxDailyLoss", "maxSessionLoss"];
+
+// The VIP tier raises ceilings only; it never changes the minimum stake
+const VIP_SCALED_FIELDS: RestrictionField[] = ["maxBetAmount", "maxDailyLoss", "maxSessionLoss"];
+
+const isAmount = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+/**
+ * Resolve the limits in force from every layer, recording which layer each field came from
+ */
+export function layerBetRestrictions(layers: RestrictionLayers): EffectiveBetRestrictions {
+	const limits: BetRestrictions = { ...layers.system };
+	const sources = Object.fromEntries(RESTRICTION_FIELDS.map((field) => [field, "SYSTEM"])) as Record<
+		RestrictionField,
+		RestrictionLayer
+	>;
+
+	const apply = (field: RestrictionField, value: unknown, layer: RestrictionLayer) => {
+		if (isAmount(value)) {
+			limits[field] = value;
+			sources[field] = layer;
+		}
+	};
+
+	for (const field of RESTRICTION_FIELDS) {
+		apply(field, layers.operator?.[field], "OPERATOR");
+	}
+
+	apply("minBetAmount", layers.game?.minBet, "GAME");
+	apply("maxBetAmount", layers.game?.maxBet, "GAME");
+
+	const multiplier = layers.vipMultiplier ?? 1;
+	if (isAmount(multiplier) && multiplier !== 1) {
+		for (const field of VIP_SCALED_FIELDS) {
+			apply(field, Math.floor(limits[field] * multiplier), "VIP");
+		}
+	}
+
+	for (const field of RESTRICTION_FIELDS) {
+		apply(field, layers.user?.[field], "USER");
+	}
+
+	return { limits, sources };
+}
+
+/**
+ * An override whose own minimum is above its own maximum can never be satisfied
+ */
+export function isValidRestrictionOverride(values: RestrictionOverrideValues): boolean {
+	const { minBetAmount, maxBetAmount } = values;
+	return !(isAmount(minBetAmount) && isAmount(maxBetAmount) && minBetAmount > maxBetAmount);
+}
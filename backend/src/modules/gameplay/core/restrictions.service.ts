@@ -1,9 +1,52 @@
 /**
  * Restrictions Service
- * Validates bets and checks various restrictions before processing
+ * Validates bets and checks various restrictions before processing.
+ * Stake limits and loss limits are layered from systemLimits (as set for the player's operator),
+ * operator restriction overrides, the game's min/max bet, the player's VIP tier and per-user
+ * overrides (see restriction-rules);
+ * loss limits are checked against today's running totals and the active game session.
+ * Limits and exclusions the player set on themselves are checked before any of these.
  */
 
-import type { UserWithBalance } from "@/core/database/db";
+import { db, type UserWithBalance } from "@/core/database/db";
+import {
+	type BetRestrictionOverride,
+	type Game,
+	betRestrictionOverrideTable,
+	gameTable,
+	operatorTable,
+	userTable,
+} from "@/core/database/schema";
+import { configurationManager } from "@/shared/config";
+import { getVIPInfo } from "@/modules/vip/vip.service";
+import { and, eq, or } from "drizzle-orm";
+import { z } from "zod";
+import { resolveDepositConfig } from "./deposit-rules";
+import { type BetRestrictions, checkLossLimits, resolveSystemLimits } from "./loss-limit-rules";
+import { getLossTotals } from "./loss-limit.service";
+import { getSessionPlayBlock } from "./game-session.service";
+import type { SessionPlayBlock } from "./game-session-rules";
+import { type EffectiveBetRestrictions, isValidRestrictionOverride, layerBetRestrictions } from "./restriction-rules";
+import {
+	type LimitRejectionCode,
+	checkPlayerBetLimits,
+	checkPlayerDepositLimits,
+} from "@/modules/responsible-gambling/player-limits.service";
+
+export type { BetRestrictions } from "./loss-limit-rules";
+export type { EffectiveBetRestrictions } from "./restriction-rules";
+
+/**
+ * Machine-readable reasons a bet can be rejected by validateBet
+ */
+export type BetRejectionCode =
+	| "BET_TOO_LOW"
+	| "BET_TOO_HIGH"
+	| "INSUFFICIENT_BALANCE"
+	| "DAILY_LOSS_LIMIT_EXCEEDED"
+	| "SESSION_LOSS_LIMIT_EXCEEDED"
+	| SessionPlayBlock
+	| LimitRejectionCode;
 
 export interface BetValidationResult {
 	valid: boolean;
@@ -11,13 +54,6 @@ export interface BetValidationResult {
 	reason?: string;
 }
 
-export interface BetRestrictions {
-	maxBetAmount: number;
-	minBetAmount: number;
-	maxDailyLoss: number;
-	maxSessionLoss: number;
-}
-
 /**
  * Validates a bet against various restrictions
  */
@@ -27,12 +63,12 @@ export async function validateBet(
 	gameId: string,
 	restrictions?: BetRestrictions,
 ): Promise<BetValidationResult> {
-	const betRestrictions: BetRestrictions = restrictions || {
-		maxBetAmount: 100000,
-		minBetAmount: 10,
-		maxDailyLoss: 1000000,
-		maxSessionLoss: 500000,
-	};
+	const betRestrictions: BetRestrictions = restrictions || (await getEffectiveBetRestrictions(user.id, gameId)).limits;
+
+	const playerCheck = await validatePlayerCanPlay(user.id, gameId, betAmount);
+	if (!playerCheck.valid) {
+		return playerCheck;
+	}
 
 	// Check minimum bet amount
 	if (betAmount < betRestrictions.minBetAmount) {
@@ -63,22 +99,44 @@ export async function validateBet(
 		};
 	}
 
-	// Check daily loss limit
-	if (userBalance - betAmount < -betRestrictions.maxDailyLoss) {
+	// Check daily and session loss limits, assuming the bet is lost
+	const lossLimit = checkLossLimits(await getLossTotals(user.id, gameId), betAmount, betRestrictions);
+	if (lossLimit) {
+		const scope = lossLimit.code === "DAILY_LOSS_LIMIT_EXCEEDED" ? "daily" : "session";
 		return {
 			valid: false,
-			error: "DAILY_LOSS_LIMIT_EXCEEDED",
-			reason: "This bet would exceed your daily loss limit",
+			error: lossLimit.code,
+			reason: `This bet would exceed your ${scope} loss limit of ${lossLimit.limit} (current net loss ${lossLimit.netLoss})`,
 		};
 	}
 
-	// Check session loss limit
-	if (userBalance - betAmount < -betRestrictions.maxSessionLoss) {
-		return {
-			valid: false,
-			error: "SESSION_LOSS_LIMIT_EXCEEDED",
-			reason: "This bet would exceed your session loss limit",
-		};
+	return { valid: true };
+}
+
+const SESSION_BLOCK_REASONS: Record<SessionPlayBlock, string> = {
+	GAME_SESSION_REQUIRED: "Start a game session to play this game",
+	REALITY_CHECK_PENDING: "Acknowledge the reality check to continue playing",
+	GAME_SESSION_EXPIRED: "The game session reached its maximum duration; start a new one to continue",
+};
+
+/**
+ * The player's own exclusions and limits, and their ACTIVE session for the game: bets pause for its
+ * reality check and stop at its maximum duration. Free spins stake nothing from the balance but are
+ * still play, so they go through these checks with a zero stake.
+ */
+export async function validatePlayerCanPlay(
+	userId: string,
+	gameId: string,
+	betAmount = 0,
+): Promise<BetValidationResult> {
+	const playerLimit = await checkPlayerBetLimits(userId, betAmount);
+	if (playerLimit) {
+		return { valid: false, error: playerLimit.code, reason: playerLimit.reason };
+	}
+
+	const sessionBlock = await getSessionPlayBlock(userId, gameId);
+	if (sessionBlock) {
+		return { valid: false, error: sessionBlock, reason: SESSION_BLOCK_REASONS[sessionBlock] };
 	}
 
 	return { valid: true };
@@ -86,14 +144,16 @@ export async function validateBet(
 
 /**
  * Validates deposit against various restrictions
+ * The amount bounds come from the depositConfig of the player's operator.
  */
 export async function validateDeposit(
 	user: UserWithBalance,
 	amount: number,
 	method: string,
 ): Promise<BetValidationResult> {
-	const maxDeposit = 1000000; // 1M limit
-	const minDeposit = 10; // 10 minimum
+	const { minDepositAmount: minDeposit, maxDepositAmount: maxDeposit } = resolveDepositConfig(
+		configurationManager.getConfiguration({ operatorId: user.operatorId }).depositConfig,
+	);
 
 	if (amount < minDeposit) {
 		return {
@@ -111,21 +171,172 @@ export async function validateDeposit(
 		};
 	}
 
+	const playerLimit = await checkPlayerDepositLimits(user.id, amount);
+	if (playerLimit) {
+		return { valid: false, error: playerLimit.code, reason: playerLimit.reason };
+	}
+
 	return { valid: true };
 }
 
+export type RestrictionErrorCode = "USER_NOT_FOUND" | "GAME_NOT_FOUND" | "OPERATOR_NOT_FOUND" | "INVALID_OVERRIDE";
+
+export class RestrictionError extends Error {
+	constructor(
+		public readonly code: RestrictionErrorCode,
+		message: string,
+	) {
+		super(message);
+		this.name = "RestrictionError";
+	}
+}
+
+export type RestrictionScope = BetRestrictionOverride["scope"];
+
+const overrideAmount = z.number().int().min(0).nullable().optional();
+
+export const restrictionOverrideSchema = z
+	.object({
+		minBetAmount: overrideAmount,
+		maxBetAmount: overrideAmount,
+		maxDailyLoss: overrideAmount,
+		maxSessionLoss: overrideAmount,
+		reason: z.string().trim().max(500).optional(),
+	})
+	.refine(isValidRestrictionOverride, {
+		message: "minBetAmount cannot be above maxBetAmount",
+		path: ["minBetAmount"],
+	});
+export type RestrictionOverrideRequest = z.infer<typeof restrictionOverrideSchema>;
+
+/**
+ * The limits in force for a user on a game, from every layer. Callers that already loaded the
+ * user and game pass them in; the operator and user overrides are read in one query.
+ */
+export async function resolveBetRestrictions(
+	user: { id: string; operatorId: string | null },
+	game: Pick<Game, "minBet" | "maxBet">,
+): Promise<EffectiveBetRestrictions> {
+	const scopes = [and(eq(betRestrictionOverrideTable.scope, "USER"), eq(betRestrictionOverrideTable.scopeId, user.id))];
+	if (user.operatorId) {
+		scopes.push(
+			and(eq(betRestrictionOverrideTable.scope, "OPERATOR"), eq(betRestrictionOverrideTable.scopeId, user.operatorId)),
+		);
+	}
+
+	const [overrides, vip] = await Promise.all([
+		db
+			.select()
+			.from(betRestrictionOverrideTable)
+			.where(or(...scopes)),
+		getVIPInfo(user.id),
+	]);
+
+	return layerBetRestrictions({
+		system: resolveSystemLimits(configurationManager.getConfiguration({ operatorId: user.operatorId }).systemLimits),
+		operator: overrides.find((override) => override.scope === "OPERATOR"),
+		game: { minBet: game.minBet ?? null, maxBet: game.maxBet ?? null },
+		vipMultiplier: vip?.levelBenefits.higherLimits ? vip.levelBenefits.betLimitMultiplier : undefined,
+		user: overrides.find((override) => override.scope === "USER"),
+	});
+}
+
+/**
+ * The limits in force for a user on a game, e.g. for rendering a bet slider
+ */
+export async function getEffectiveBetRestrictions(userId: string, gameId: string): Promise<EffectiveBetRestrictions> {
+	const [user, game] = await Promise.all([
+		db.query.userTable.findFirst({
+			where: eq(userTable.id, userId),
+			columns: { id: true, operatorId: true },
+		}),
+		db.query.gameTable.findFirst({
+			where: eq(gameTable.id, gameId),
+			columns: { minBet: true, maxBet: true },
+		}),
+	]);
+
+	if (!user) {
+		throw new RestrictionError("USER_NOT_FOUND", "User not found");
+	}
+	if (!game) {
+		throw new RestrictionError("GAME_NOT_FOUND", `Game ${gameId} not found`);
+	}
+
+	return resolveBetRestrictions(user, game);
+}
+
 /**
- * Gets default bet restrictions based on user level/role
+ * Overrides, optionally narrowed to a scope or a single operator or user
  */
-export function getDefaultBetRestrictions(user: UserWithBalance): BetRestrictions {
-	// VIP users might have higher limits
-	// Note: vipLevel property might not exist on all user types
-	const isVip = (user as any).vipLevel > 0;
-
-	return {
-		maxBetAmount: isVip ? 500000 : 100000,
-		minBetAmount: 10,
-		maxDailyLoss: isVip ? 5000000 : 1000000,
-		maxSessionLoss: isVip ? 1000000 : 500000,
+export async function getRestrictionOverrides(filter: {
+	scope?: RestrictionScope;
+	scopeId?: string;
+}): Promise<BetRestrictionOverride[]> {
+	const where = [];
+	if (filter.scope) where.push(eq(betRestrictionOverrideTable.scope, filter.scope));
+	if (filter.scopeId) where.push(eq(betRestrictionOverrideTable.scopeId, filter.scopeId));
+
+	return db
+		.select()
+		.from(betRestrictionOverrideTable)
+		.where(where.length > 0 ? and(...where) : undefined)
+		.orderBy(betRestrictionOverrideTable.scope, betRestrictionOverrideTable.createdAt);
+}
+
+/**
+ * Replace the override for an operator or user. Fields left out are cleared and fall back to the layer below.
+ */
+export async function setRestrictionOverride(
+	scope: RestrictionScope,
+	scopeId: string,
+	request: RestrictionOverrideRequest,
+	adminId: string,
+): Promise<BetRestrictionOverride> {
+	if (!isValidRestrictionOverride(request)) {
+		throw new RestrictionError("INVALID_OVERRIDE", "minBetAmount cannot be above maxBetAmount");
+	}
+
+	const [target] =
+		scope === "OPERATOR"
+			? await db.select({ id: operatorTable.id }).from(operatorTable).where(eq(operatorTable.id, scopeId))
+			: await db.select({ id: userTable.id }).from(userTable).where(eq(userTable.id, scopeId));
+	if (!target) {
+		throw new RestrictionError(
+			scope === "OPERATOR" ? "OPERATOR_NOT_FOUND" : "USER_NOT_FOUND",
+			`${scope === "OPERATOR" ? "Operator" : "User"} ${scopeId} not found`,
+		);
+	}
+
+	const values = {
+		minBetAmount: request.minBetAmount ?? null,
+		maxBetAmount: request.maxBetAmount ?? null,
+		maxDailyLoss: request.maxDailyLoss ?? null,
+		maxSessionLoss: request.maxSessionLoss ?? null,
+		reason: request.reason ?? null,
+		updatedBy: adminId,
 	};
+
+	const [override] = await db
+		.insert(betRestrictionOverrideTable)
+		.values({ scope, scopeId, ...values })
+		.onConflictDoUpdate({
+			target: [betRestrictionOverrideTable.scope, betRestrictionOverrideTable.scopeId],
+			set: { ...values, updatedAt: new Date() },
+		})
+		.returning();
+
+	return override as BetRestrictionOverride;
+}
+
+/**
+ * Remove the override for an operator or user. Returns false when there was none.
+ */
+export async function removeRestrictionOverride(scope: RestrictionScope, scopeId: string): Promise<boolean> {
+	const deleted = await db
+		.delete(betRestrictionOverrideTable)
+		.where(and(eq(betRestrictionOverrideTable.scope, scope), eq(betRestrictionOverrideTable.scopeId, scopeId)))
+		.returning({ id: betRestrictionOverrideTable.id });
+
+	return deleted.length > 0;
 }
@@ -661,27 +661,79 @@ export async function isUserBlacklisted(_userId: string): Promise<{
 	return { blacklisted: false };
 }
 
+function normalizeIP(ip: string): string {
+	const trimmed = ip.trim().toLowerCase();
+	// IPv4 addresses reported through a dual-stack socket
+	return trimmed.startsWith("::ffff:") && trimmed.includes(".") ? trimmed.slice(7) : trimmed;
+}
+
+function ipv4ToInt(ip: string): number | null {
+	const parts = ip.split(".");
+	if (parts.length !== 4) return null;
+
+	let value = 0;
+	for (const part of parts) {
+		if (!/^\d{1,3}$/.test(part)) return null;
+		const octet = Number(part);
+		if (octet > 255) return null;
+		value = value * 256 + octet;
+	}
+	return value;
+}
+
 /**
- * Validate webhook source IP against allowed list
+ * Validate webhook source IP against allowed list.
+ * Entries are exact addresses or IPv4 CIDR ranges (e.g. "10.0.0.0/24"). An empty list allows nothing.
  */
-export function validateWebhookSource(_sourceIP: string, _allowedIPs: string[]): boolean {
-	// In production, implement proper IP validation
-	// For now, allowing all IPs
+export function validateWebhookSource(sourceIP: string, allowedIPs: string[]): boolean {
+	if (!sourceIP) {
+		return false;
+	}
+
+	const source = normalizeIP(sourceIP);
+	const sourceInt = ipv4ToInt(source);
 
-	return true;
+	return allowedIPs.some((entry) => {
+		const [range, bits] = normalizeIP(entry).split("/");
+		if (!range) return false;
+		if (bits === undefined) return range === source;
+
+		const rangeInt = ipv4ToInt(range);
+		const prefix = Number(bits);
+		if (sourceInt === null || rangeInt === null || !Number.isInteger(prefix) || prefix < 0 || prefix > 32) {
+			return false;
+		}
+
+		const blockSize = 2 ** (32 - prefix);
+		return Math.floor(sourceInt / blockSize) === Math.floor(rangeInt / blockSize);
+	});
 }
 
+const webhookRateWindows = new Map<string, { count: number; resetTime: number }>();
+
 /**
  * Rate limiting for webhook endpoints
+ * Fixed window per source IP and endpoint, kept in process memory.
  */
 export function checkWebhookRateLimit(
-	_sourceIP: string,
-	_endpoint: string,
-	_windowMs: number = 60000,
-	_maxRequests: number = 100,
+	sourceIP: string,
+	endpoint: string,
+	windowMs: number = 60000,
+	maxRequests: number = 100,
 ): { allowed: boolean; resetTime?: number } {
-	// In production, implement proper rate limiting with Redis/store
-	// For now, allowing all requests
+	const now = Date.now();
+	const key = `${endpoint}:${normalizeIP(sourceIP)}`;
+
+	let window = webhookRateWindows.get(key);
+	if (!window || window.resetTime <= now) {
+		// Drop finished windows so the map only holds active sources
+		for (const [windowKey, entry] of webhookRateWindows) {
+			if (entry.resetTime <= now) webhookRateWindows.delete(windowKey);
+		}
+		window = { count: 0, resetTime: now + windowMs };
+		webhookRateWindows.set(key, window);
+	}
 
-	return { allowed: true };
+	window.count++;
+	return { allowed: window.count <= maxRequests, resetTime: window.resetTime };
 }
@@ -1,24 +1,20 @@
 import { logGGRContribution } from "@/shared/ggr.service";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+import type { BetCompleted } from "@/modules/events/domain-events";
 
-export async function onBetCompleted(payload: any): Promise<number> {
-	const { betRequest, gameOutcome } = payload;
-	const { userId, affiliateName, operatorId, gameId, wagerAmount } = betRequest;
+export async function onBetCompleted(payload: BetCompleted): Promise<number> {
+	const { betRequest, gameOutcome, betId, freeSpin, currency } = payload;
+	const { userId, gameId } = betRequest;
 	const { winAmount } = gameOutcome;
+	// A free spin's stake is the operator's money, so only its win counts against GGR
+	const wagerAmount = freeSpin ? 0 : betRequest.wagerAmount;
 
 	try {
-		const result = await logGGRContribution({
-			betId: `bet_${Date.now()}`,
-			userId,
-			affiliateName: affiliateName || "adminuser",
-			operatorId: operatorId || "house",
-			gameId,
-			wagerAmount,
-			winAmount,
-			currency: "USD",
-		});
-		return result.ggrAmount;
+		await logGGRContribution(gameId, wagerAmount, winAmount, userId, betId, currency);
+		return wagerAmount - winAmount;
 	} catch (error) {
-		gameplayLogger.error("GGR contribution logging failed, continuing:", error as LogContext);
-		return 0;
+		const context = createOperationContext({ domain: "ggr", operation: "onBetCompleted", gameId, userId });
+		appLogger.error("GGR contribution logging failed:", context, error as Error);
+		throw error;
 	}
 }
@@ -1,14 +1,19 @@
 import { processJackpotContribution } from "../../jackpots/jackpot.service";
 import { appLogger, createOperationContext, type LogContext } from "@/core/logger/app-logger";
+import type { BetCompleted } from "@/modules/events/domain-events";
 
-export async function onBetCompleted(payload: any): Promise<number> {
-	const { gameId, wagerAmount, userId } = payload.betRequest;
-	const context = createOperationContext({ domain: "jackpot", operation: "onBetCompleted", gameId, userId });
-	try {
-		const result = await processJackpotContribution(gameId, wagerAmount);
-		return result.totalContribution;
-	} catch (error) {
-		appLogger.error("Jackpot contribution failed, continuing with zero contribution:", context, error as Error);
+export async function onBetCompleted(payload: BetCompleted): Promise<number> {
+	const { betId, freeSpin } = payload;
+	const { gameId, wagerAmount, userId, operatorId } = payload.betRequest;
+	// Free spins are not paid for by the player, so they do not feed the pools
+	if (freeSpin) {
 		return 0;
 	}
+	const context = createOperationContext({ domain: "jackpot", operation: "onBetCompleted", gameId, userId });
+	const result = await processJackpotContribution(gameId, wagerAmount, betId, operatorId);
+	if (!result.success) {
+		appLogger.warn("Jackpot contribution failed", context, { betId, error: result.error });
+		throw new Error(result.error ?? "Jackpot contribution failed");
+	}
+	return result.totalContribution;
 }
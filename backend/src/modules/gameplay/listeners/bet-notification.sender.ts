@@ -1,19 +1,15 @@
 import { notifyBalanceChange } from "@/shared/notifications.service";
 import { appLogger, createOperationContext, type LogContext } from "@/core/logger/app-logger";
+import type { BetCompleted } from "@/modules/events/domain-events";
 
 /**
  * Sends real-time balance change notifications to users after bet completion
  */
-export async function onBetCompleted(payload: any) {
-	const { userId, realBalanceAfter, bonusBalanceAfter, wagerAmount, winAmount, gameId, betRequest, success } = payload;
+export async function onBetCompleted(payload: BetCompleted) {
+	const { userId, realBalanceAfter, bonusBalanceAfter, wagerAmount, winAmount } = payload;
 	const context = createOperationContext({ domain: "gameplay", operation: "onBetCompletedSendNotification", userId });
 
 	try {
-		// Only send notifications for successful bets
-		if (!success) {
-			return;
-		}
-
 		// Determine the change type based on the outcome
 		let changeType: "bet" | "win" | "bonus" = "bet";
 		if (winAmount > wagerAmount) {
@@ -0,0 +1,37 @@
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+import type { BetCompleted } from "@/modules/events/domain-events";
+import { appendBetResult } from "../core/game-session.service";
+import type { BetContributions } from "./index";
+
+export async function onBetCompleted(payload: BetCompleted & BetContributions) {
+	if (!payload.gameSessionId) {
+		return;
+	}
+
+	const { userId, gameId, roundId } = payload;
+	const context = createOperationContext({
+		domain: "gameplay",
+		operation: "onBetCompletedRecordSession",
+		gameId,
+		userId,
+	});
+	try {
+		await appendBetResult(payload.gameSessionId, {
+			roundId,
+			wagerAmount: payload.wagerAmount,
+			winAmount: payload.winAmount,
+			realBalanceBefore: payload.realBalanceBefore,
+			realBalanceAfter: payload.realBalanceAfter,
+			bonusBalanceBefore: payload.bonusBalanceBefore,
+			bonusBalanceAfter: payload.bonusBalanceAfter,
+			vipPointsAdded: payload.vipPointsAdded,
+			ggrContribution: payload.ggrContribution,
+			jackpotContribution: payload.jackpotContribution,
+			processingTime: payload.processingTime,
+			gameData: payload.gameOutcome.gameData,
+		});
+	} catch (error) {
+		appLogger.error("Failed to append bet result to game session", context, error as Error, { roundId });
+		throw error;
+	}
+}
@@ -1,8 +1,9 @@
 import { db, gameTable } from "@/core/database/db";
 import { eq } from "drizzle-orm";
 import { appLogger, createOperationContext, type LogContext } from "@/core/logger/app-logger";
+import type { BetCompleted } from "@/modules/events/domain-events";
 
-export async function onBetCompleted(payload: any) {
+export async function onBetCompleted(payload: BetCompleted) {
 	const { gameId, userId, wagerAmount, winAmount } = payload;
 	const context = createOperationContext({ domain: "gameplay", operation: "onBetCompletedUpdateStats", gameId, userId });
 	try {
@@ -72,5 +73,6 @@ export async function onBetCompleted(payload: any) {
 			.where(eq(gameTable.id, gameId));
 	} catch (error) {
 		appLogger.error(`Failed to update game ${gameId} statistics:`, context, error as Error);
+		throw error;
 	}
 }
@@ -1,17 +1,23 @@
 // src/modules/gameplay/listeners/bet-transaction.logger.ts
 
+import { db } from "@/core/database/db";
+import { claimListenerReceipt } from "@/modules/outbox/outbox.service";
 import { logTransaction } from "@/shared/transaction.service";
+import type { BetCompleted } from "@/modules/events/domain-events";
+import type { BetContributions } from "./index";
 
 /**
  * Logs the completed bet to the main transaction ledger.
- * The transaction.service.ts will split this into BET and WIN records.
+ * The transaction.service.ts will split this into BET and WIN records; a redelivered bet is logged once.
  */
-export async function onBetCompleted(payload: any) {
+export async function onBetCompleted(payload: BetCompleted & BetContributions) {
 	const {
 		userId,
 		betId,
+		gameId,
 		wagerAmount,
 		winAmount,
+		currency,
 		realBalanceBefore,
 		realBalanceAfter,
 		bonusBalanceBefore,
@@ -20,27 +26,39 @@ export async function onBetCompleted(payload: any) {
 		ggrContribution,
 		jackpotContribution,
 		processingTime,
+		betRequest,
 	} = payload;
 
 	try {
-		await logTransaction({
-			userId: userId,
-			operatorId: "79032f3f-7c4e-4575-abf9-4298ad3e9d1a", // Or pass operatorId in payload
-			relatedId: betId,
-			wagerAmount: wagerAmount,
-			winAmount: winAmount,
-			realBalanceBefore: realBalanceBefore,
-			realBalanceAfter: realBalanceAfter,
-			bonusBalanceBefore: bonusBalanceBefore,
-			bonusBalanceAfter: bonusBalanceAfter,
-			status: "COMPLETED",
-			type: "BET",
-			vipPointsAdded: vipPointsAdded || 0,
-			ggrContribution: ggrContribution || 0,
-			jackpotContribution: jackpotContribution || 0,
-			processingTime: processingTime,
+		await db.transaction(async (tx) => {
+			if (!(await claimListenerReceipt(tx, "bet.transaction", betId))) {
+				return;
+			}
+			await logTransaction(
+				{
+					userId: userId,
+					operatorId: betRequest.operatorId, // The player's, filled in when the bet was settled
+					relatedId: betId,
+					gameId: gameId,
+					wagerAmount: wagerAmount,
+					winAmount: winAmount,
+					currency: currency,
+					realBalanceBefore: realBalanceBefore,
+					realBalanceAfter: realBalanceAfter,
+					bonusBalanceBefore: bonusBalanceBefore,
+					bonusBalanceAfter: bonusBalanceAfter,
+					status: "COMPLETED",
+					type: "BET",
+					vipPointsAdded: vipPointsAdded || 0,
+					ggrContribution: ggrContribution || 0,
+					jackpotContribution: jackpotContribution || 0,
+					processingTime: processingTime,
+				},
+				tx,
+			);
 		});
 	} catch (error) {
 		console.error(`Failed to log bet transaction for user ${userId}:`, error);
+		throw error;
 	}
 }
@@ -1,15 +1,30 @@
 import { addXpToUser, calculateXpForWagerAndWins } from "../../../modules/vip/vip.service";
+import { db } from "@/core/database/db";
 import { appLogger, createOperationContext, type LogContext } from "@/core/logger/app-logger";
+import type { BetCompleted } from "@/modules/events/domain-events";
+import { claimListenerReceipt } from "@/modules/outbox/outbox.service";
 
-export async function onBetCompleted(payload: any): Promise<number> {
-	const { userId, wagerAmount } = payload;
-	const vipCalculation = calculateXpForWagerAndWins(wagerAmount);
+export async function onBetCompleted(payload: BetCompleted): Promise<number> {
+	const { userId, betId, wagerAmount, freeSpin } = payload;
+	if (freeSpin) {
+		return 0;
+	}
+	const vipCalculation = calculateXpForWagerAndWins(wagerAmount, { operatorId: payload.betRequest.operatorId });
 	try {
-		await addXpToUser(userId, vipCalculation.totalPoints);
+		await db.transaction(async (tx) => {
+			// A redelivered bet already earned its XP
+			if (!(await claimListenerReceipt(tx, "bet.vip", betId))) {
+				return;
+			}
+			const vipResult = await addXpToUser(userId, vipCalculation.totalPoints, tx);
+			if (!vipResult.success) {
+				throw new Error(vipResult.error ?? "Failed to add XP");
+			}
+		});
 		return vipCalculation.totalPoints;
 	} catch (error) {
 		const context = createOperationContext({ domain: "vip", operation: "onBetCompleted", userId });
-		appLogger.error("VIP update failed, continuing:", context, error as Error);
-		return 0;
+		appLogger.error("VIP update failed:", context, error as Error);
+		throw error;
 	}
 }
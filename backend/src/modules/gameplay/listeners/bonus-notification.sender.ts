@@ -0,0 +1,17 @@
+import type { BonusConverted } from "@/modules/events/domain-events";
+import { notifyBalanceChange } from "@/shared/notifications.service";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+
+/**
+ * Sends a balance change notification when bonus money is released to real balance.
+ */
+export async function onBonusConverted(event: BonusConverted) {
+	const { userId, amount, realBalanceAfter } = event;
+	const context = createOperationContext({ domain: "bonus", operation: "onBonusConverted", userId });
+
+	try {
+		await notifyBalanceChange(userId, realBalanceAfter - amount, realBalanceAfter, amount);
+	} catch (error) {
+		appLogger.error(`Failed to send bonus conversion notification to user ${userId}:`, context, error as Error);
+	}
+}
@@ -1,10 +1,11 @@
 import { notifyBalanceChange } from "@/shared/notifications.service";
 import { appLogger, createOperationContext, type LogContext } from "@/core/logger/app-logger";
+import type { DepositCompleted } from "@/modules/events/domain-events";
 
 /**
  * Sends a real-time notification to the user about their completed deposit.
  */
-export async function onDepositCompleted(payload: any) {
+export async function onDepositCompleted(payload: DepositCompleted) {
 	const { userId, amount, realBalanceAfter, bonusBalanceAfter } = payload;
 	const context = createOperationContext({ domain: "gameplay", operation: "onDepositCompleted", userId });
 
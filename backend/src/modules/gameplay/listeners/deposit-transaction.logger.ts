@@ -1,15 +1,21 @@
 // src/modules/gameplay/listeners/deposit-transaction.logger.ts
 
+import { db } from "@/core/database/db";
+import { claimListenerReceipt } from "@/modules/outbox/outbox.service";
 import { logTransaction } from "@/shared/transaction.service";
+import { getUserOperatorId } from "../core/balance-management.service";
+import type { DepositCompleted } from "@/modules/events/domain-events";
+import { depositEventKey } from "./index";
 
 /**
- * Logs the completed deposit to the main transaction ledger.
+ * Logs the completed deposit payment to the main transaction ledger, once however often its event is delivered.
  */
-export async function onDepositCompleted(payload: any) {
+export async function onDepositCompleted(payload: DepositCompleted) {
 	const {
 		userId,
 		depositId,
 		amount,
+		currency,
 		realBalanceBefore,
 		realBalanceAfter,
 		bonusBalanceBefore,
@@ -18,21 +24,31 @@ export async function onDepositCompleted(payload: any) {
 	} = payload;
 
 	try {
-		await logTransaction({
-			userId: userId,
-			operatorId: "79032f3f-7c4e-4575-abf9-4298ad3e9d1a", // Or pass operatorId in payload
-			relatedId: depositId,
-			wagerAmount: 0,
-			winAmount: amount, // A deposit is a credit
-			realBalanceBefore: realBalanceBefore,
-			realBalanceAfter: realBalanceAfter,
-			bonusBalanceBefore: bonusBalanceBefore,
-			bonusBalanceAfter: bonusBalanceAfter,
-			status: "COMPLETED",
-			type: "DEPOSIT",
-			vipPointsAdded: 0, // <-- Set to 0 initially. onVip will update this.
+		await db.transaction(async (tx) => {
+			if (!(await claimListenerReceipt(tx, "deposit.transaction", depositEventKey(payload)))) {
+				return;
+			}
+			await logTransaction(
+				{
+					userId: userId,
+					operatorId: payload.operatorId ?? (await getUserOperatorId(userId, tx)),
+					relatedId: depositId,
+					wagerAmount: 0,
+					winAmount: amount, // A deposit is a credit
+					currency: currency,
+					realBalanceBefore: realBalanceBefore,
+					realBalanceAfter: realBalanceAfter,
+					bonusBalanceBefore: bonusBalanceBefore,
+					bonusBalanceAfter: bonusBalanceAfter,
+					status: "COMPLETED",
+					type: "DEPOSIT",
+					vipPointsAdded: 0, // <-- Set to 0 initially. onVip will update this.
+				},
+				tx,
+			);
 		});
 	} catch (error) {
 		console.error(`Failed to log deposit transaction for user ${userId}:`, error);
+		throw error;
 	}
 }
@@ -0,0 +1,83 @@
+import {
+	BET_COMPLETED_EVENT,
+	BONUS_CONVERTED_EVENT,
+	DEPOSIT_COMPLETED_EVENT,
+	type DepositCompleted,
+	type DomainEventMap,
+	WITHDRAWAL_COMPLETED_EVENT,
+} from "@/modules/events/domain-events";
+import { type EventBus, domainEvents } from "@/modules/events/event-bus";
+import { onBetCompleted as onGGR } from "./bet-ggr.logger";
+import { onBetCompleted as onJackpot } from "./bet-jackpot.processor";
+import { onBetCompleted as onNotification } from "./bet-notification.sender";
+import { onBetCompleted as onSession } from "./bet-session.recorder";
+import { onBetCompleted as onStats } from "./bet-stats.updater";
+import { onBetCompleted as onTransaction } from "./bet-transaction.logger";
+import { onBetCompleted as onVIP } from "./bet-vip.processor";
+import { onBonusConverted as onBonusConvertedNotification } from "./bonus-notification.sender";
+import { onDepositCompleted as onDepositNotification } from "./deposit-notification.sender";
+import { onDepositCompleted as onDepositTransaction } from "./deposit-transaction.logger";
+import { onDepositCompleted as onDepositVip } from "./deposit-vip.processor";
+import { onWithdrawalCompleted as onWithdrawalNotification } from "./withdrawal-notification.sender";
+
+export interface BetContributions {
+	ggrContribution: number;
+	jackpotContribution: number;
+	vipPointsAdded: number;
+}
+
+/**
+ * Contributions of the GGR, jackpot and VIP listeners, read from a bet event's results (0 when missing)
+ */
+export function betContributions(results: Readonly<Record<string, unknown>>): BetContributions {
+	return {
+		ggrContribution: Number(results.ggr ?? 0),
+		jackpotContribution: Number(results.jackpot ?? 0),
+		vipPointsAdded: Number(results.vip ?? 0),
+	};
+}
+
+/**
+ * Key a deposit listener records its receipt under; a deposit paid in parts has one event per payment
+ */
+export function depositEventKey(event: DepositCompleted): string {
+	return event.paymentNumber === undefined ? event.depositId : `${event.depositId}:${event.paymentNumber}`;
+}
+
+/**
+ * Register the gameplay listeners on the event bus.
+ * Bets run GGR, jackpot and VIP first because notification, stats, transaction logging and the game session
+ * record receive their contributions; deposits write the transaction log row before VIP enriches it with the XP awarded.
+ */
+export function registerGameplayListeners(bus: EventBus<DomainEventMap> = domainEvents): void {
+	bus.on(BET_COMPLETED_EVENT, { name: "ggr", handle: onGGR });
+	bus.on(BET_COMPLETED_EVENT, { name: "jackpot", handle: onJackpot });
+	bus.on(BET_COMPLETED_EVENT, { name: "vip", handle: onVIP });
+	bus.on(BET_COMPLETED_EVENT, {
+		name: "notification",
+		order: 1,
+		handle: (event, results) => onNotification({ ...event, ...betContributions(results) }),
+	});
+	bus.on(BET_COMPLETED_EVENT, {
+		name: "stats",
+		order: 1,
+		handle: (event, results) => onStats({ ...event, ...betContributions(results) }),
+	});
+	bus.on(BET_COMPLETED_EVENT, {
+		name: "transaction",
+		order: 1,
+		handle: (event, results) => onTransaction({ ...event, ...betContributions(results) }),
+	});
+	bus.on(BET_COMPLETED_EVENT, {
+		name: "session",
+		order: 1,
+		handle: (event, results) => onSession({ ...event, ...betContributions(results) }),
+	});
+
+	bus.on(DEPOSIT_COMPLETED_EVENT, { name: "transaction", handle: onDepositTransaction });
+	bus.on(DEPOSIT_COMPLETED_EVENT, { name: "vip", order: 1, handle: onDepositVip });
+	bus.on(DEPOSIT_COMPLETED_EVENT, { name: "notification", order: 1, handle: onDepositNotification });
+
+	bus.on(WITHDRAWAL_COMPLETED_EVENT, { name: "notification", handle: onWithdrawalNotification });
+	bus.on(BONUS_CONVERTED_EVENT, { name: "notification", handle: onBonusConvertedNotification });
+}
@@ -0,0 +1,23 @@
+import type { WithdrawalCompleted } from "@/modules/events/domain-events";
+import { sendNotification } from "@/shared/notifications.service";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+
+/**
+ * Tells the user their withdrawal has been approved for payout.
+ */
+export async function onWithdrawalCompleted(event: WithdrawalCompleted) {
+	const { userId, withdrawalId, amount, payoutMethod } = event;
+	const context = createOperationContext({ domain: "gameplay", operation: "onWithdrawalCompleted", userId });
+
+	try {
+		await sendNotification({
+			userId,
+			type: "withdrawal",
+			title: "Withdrawal approved",
+			message: "Your withdrawal has been approved and is on its way",
+			data: { withdrawalId, amount, payoutMethod },
+		});
+	} catch (error) {
+		appLogger.error(`Failed to send withdrawal notification to user ${userId}:`, context, error as Error);
+	}
+}
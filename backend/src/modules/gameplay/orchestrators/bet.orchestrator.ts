@@ -1,12 +1,18 @@
 /** biome-ignore-all lint/suspicious/noExplicitAny: <> */
-import { type BetRequest, type GameOutcome, executeCoreBet } from "../core/core-bet.service";
-import { onBetCompleted as onGGR } from "../listeners/bet-ggr.logger";
-import { onBetCompleted as onJackpot } from "../listeners/bet-jackpot.processor";
-import { notifyError, onBetCompleted as onNotification } from "../listeners/bet-notification.sender";
-import { onBetCompleted as onStats } from "../listeners/bet-stats.updater";
-import { onBetCompleted as onTransaction } from "../listeners/bet-transaction.logger";
-import { onBetCompleted as onVIP } from "../listeners/bet-vip.processor";
+import type { BetRound } from "@/core/database/schema";
+import { v4 as uuidv4 } from "uuid";
+import {
+	type BetErrorCode,
+	type BetRequest,
+	type GameOutcome,
+	BetRejectedError,
+	executeCoreBet,
+} from "../core/core-bet.service";
+import { findBetRound, mergeBetRoundOutcome } from "../core/bet-round.service";
+import { betContributions } from "../listeners";
+import { notifyError } from "../listeners/bet-notification.sender";
 import { appLogger, createOperationContext, type LogContext } from "@/core/logger/app-logger";
+import { deliverOutboxEvent } from "@/modules/outbox/outbox.service";
 
 /**
  * Bet processing orchestration service
@@ -29,48 +35,129 @@ export interface BetOutcome {
 	// Status
 	success: boolean;
 	error?: string;
+	errorCode?: BetErrorCode;
 
 	// Metadata
 	transactionId?: string;
+	roundId?: string;
+	replayed?: boolean; // True when the outcome was returned from an earlier request with the same roundId
 	time: number;
 }
 
+function failedBetOutcome(betRequest: BetRequest, error: string, errorCode: BetErrorCode, time: number): BetOutcome {
+	return {
+		userId: betRequest.userId,
+		gameId: betRequest.gameId,
+		wagerAmount: betRequest.wagerAmount,
+		winAmount: 0,
+		balanceType: "real",
+		newBalance: 0,
+		jackpotContribution: 0,
+		vipPointsEarned: 0,
+		ggrContribution: 0,
+		success: false,
+		error,
+		errorCode,
+		roundId: betRequest.roundId,
+		time,
+	};
+}
+
 /**
- * Process complete bet flow from wager to outcome
+ * Return the stored outcome of an already played round, or null if the round is unknown.
+ * A round that is claimed but not yet settled reports ROUND_IN_PROGRESS; a request that reuses
+ * a roundId for a different game or stake is refused with ROUND_MISMATCH instead of replayed.
  */
-export async function processBet(betRequest: BetRequest, gameOutcome: GameOutcome): Promise<BetOutcome> {
-	const startTime = Date.now();
+async function replayBetRound(betRequest: BetRequest, roundId: string, startTime: number): Promise<BetOutcome | null> {
+	const round = await findBetRound(betRequest.userId, roundId);
+	if (!round) {
+		return null;
+	}
+	// A free spin's stake comes from the grant, so only the game has to match
+	if (round.gameId !== betRequest.gameId || (!betRequest.freeSpin && round.wagerAmount !== betRequest.wagerAmount)) {
+		return failedBetOutcome(
+			{ ...betRequest, roundId },
+			`Round ${roundId} was played with a different game or stake`,
+			"ROUND_MISMATCH",
+			Date.now() - startTime,
+		);
+	}
+	if (!round.outcome) {
+		return failedBetOutcome(
+			{ ...betRequest, roundId },
+			`Round ${roundId} is still being processed`,
+			"ROUND_IN_PROGRESS",
+			Date.now() - startTime,
+		);
+	}
+	return { ...(round.outcome as unknown as BetOutcome), replayed: true, time: Date.now() - startTime };
+}
 
+/**
+ * Add the listener contributions to a round's stored outcome. The round is already settled,
+ * so a failure here is only logged; replays then report the contributions as 0.
+ */
+export async function recordBetContributions(
+	userId: string,
+	roundId: string,
+	contributions: Pick<BetOutcome, "jackpotContribution" | "vipPointsEarned" | "ggrContribution">,
+): Promise<void> {
 	try {
-		const coreBetResult = await executeCoreBet(betRequest, gameOutcome);
+		await mergeBetRoundOutcome(userId, roundId, contributions);
+	} catch (error) {
+		const context = createOperationContext({ domain: "gameplay", operation: "recordBetContributions", userId });
+		appLogger.error("Failed to store bet contributions", context, error as Error, { roundId });
+	}
+}
 
-		const payload = {
-			...coreBetResult,
-			betRequest,
-			gameOutcome,
-		};
+/**
+ * Deliver the BetCompleted event queued for a settled round and return the listeners' contributions.
+ * A listener that fails counts as 0 here; the outbox dispatcher retries it later.
+ */
+export async function dispatchBetCompleted(
+	outboxEventId: string | undefined,
+	userId: string,
+): Promise<{ ggrContribution: number; jackpotContribution: number; vipPointsAdded: number }> {
+	if (!outboxEventId) {
+		return betContributions({});
+	}
 
-		const sideEffectPromises = [onGGR(payload), onJackpot(payload), onVIP(payload)];
+	try {
+		const event = await deliverOutboxEvent(outboxEventId);
+		return betContributions((event?.results as Record<string, unknown> | undefined) ?? {});
+	} catch (error) {
+		const context = createOperationContext({ domain: "gameplay", operation: "dispatchBetCompleted", userId });
+		appLogger.error("Bet listener delivery failed, left to the outbox dispatcher", context, error as Error, {
+			outboxEventId,
+		});
+		return betContributions({});
+	}
+}
 
-		const [ggrResult, jackpotResult, vipResult] = await Promise.allSettled(sideEffectPromises);
+/**
+ * Process complete bet flow from wager to outcome.
+ * The outcome is generated server-side unless a trusted caller supplies one.
+ */
+export async function processBet(betRequest: BetRequest, gameOutcome?: GameOutcome): Promise<BetOutcome> {
+	const startTime = Date.now();
+	const roundId = betRequest.roundId ?? uuidv4();
 
-		const ggrContribution = ggrResult.status === "fulfilled" ? ggrResult.value : 0;
-		const jackpotContribution = jackpotResult.status === "fulfilled" ? jackpotResult.value : 0;
-		const vipPointsAdded = vipResult.status === "fulfilled" ? vipResult.value : 0;
+	try {
+		if (betRequest.roundId) {
+			const replay = await replayBetRound(betRequest, roundId, startTime);
+			if (replay) {
+				return replay;
+			}
+		}
 
-		const transactionPayload = {
-			...payload,
-			ggrContribution,
-			jackpotContribution,
-			vipPointsAdded,
-			processingTime: Date.now() - startTime,
-		};
+		const coreBetResult = await executeCoreBet({ ...betRequest, roundId }, gameOutcome);
 
-		const listeners = [onNotification, onStats, onTransaction];
-		Promise.allSettled(listeners.map((listener) => listener(transactionPayload)));
+		const { ggrContribution, jackpotContribution, vipPointsAdded } = await dispatchBetCompleted(
+			coreBetResult.outboxEventId,
+			betRequest.userId,
+		);
 
-		// Return success response immediately
-		return {
+		const outcome: BetOutcome = {
 			userId: coreBetResult.userId,
 			gameId: coreBetResult.gameId,
 			wagerAmount: coreBetResult.wagerAmount,
@@ -81,10 +168,27 @@ export async function processBet(betRequest: BetRequest, gameOutcome: GameOutcom
 			vipPointsEarned: vipPointsAdded,
 			ggrContribution,
 			success: true,
-			transactionId: undefined, // This is now handled by the transaction logger
+			transactionId: roundId, // BET/WIN rows are logged with relatedId = roundId
+			roundId,
 			time: Date.now() - startTime,
 		};
+
+		await recordBetContributions(betRequest.userId, roundId, {
+			jackpotContribution,
+			vipPointsEarned: vipPointsAdded,
+			ggrContribution,
+		});
+
+		return outcome;
 	} catch (error) {
+		// Lost the race against a concurrent request with the same roundId
+		if (error instanceof BetRejectedError && error.code === "DUPLICATE_ROUND") {
+			const replay = await replayBetRound(betRequest, roundId, startTime);
+			if (replay) {
+				return replay;
+			}
+		}
+
 		const processingTime = Date.now() - startTime;
 		const context = createOperationContext({ domain: "gameplay", operation: "processBet", userId: betRequest.userId, gameId: betRequest.gameId });
 		appLogger.error("Bet processing failed", context, error as Error);
@@ -92,26 +196,59 @@ export async function processBet(betRequest: BetRequest, gameOutcome: GameOutcom
 		// Send error notification to user
 		await notifyError(betRequest.userId, error instanceof Error ? error.message : "Bet processing failed");
 
-		return {
-			userId: betRequest.userId,
-			gameId: betRequest.gameId,
-			wagerAmount: betRequest.wagerAmount,
-			winAmount: 0,
-			balanceType: "real",
-			newBalance: 0,
-			jackpotContribution: 0,
-			vipPointsEarned: 0,
-			ggrContribution: 0,
-			success: false,
-			error: error instanceof Error ? error.message : "Unknown error",
-			time: processingTime,
-		};
+		return failedBetOutcome(
+			{ ...betRequest, roundId },
+			error instanceof Error ? error.message : "Unknown error",
+			error instanceof BetRejectedError ? error.code : "BET_PROCESSING_FAILED",
+			processingTime,
+		);
 	}
 }
 
 /**
  * Process bet outcome (called after game provider returns result)
  */
-export async function processBetOutcome(betRequest: BetRequest, gameOutcome: GameOutcome): Promise<BetOutcome> {
+export async function processBetOutcome(betRequest: BetRequest, gameOutcome?: GameOutcome): Promise<BetOutcome> {
 	return processBet(betRequest, gameOutcome);
 }
+
+export interface BetDetails {
+	betId: string;
+	userId: string;
+	gameId: string | null;
+	wagerAmount: number;
+	winAmount: number;
+	realBalanceBefore: number | null;
+	bonusBalanceBefore: number | null;
+	realBalanceAfter: number | null; // null until the round is settled
+	bonusBalanceAfter: number | null;
+	status: BetRound["status"];
+	createdAt: Date;
+}
+
+/**
+ * Look up a bet by the id returned from processBet.
+ * Read from its bet round, which is written in the bet transaction; the transaction log rows
+ * only follow once the outbox has delivered the BetCompleted event.
+ * Returns null when the bet does not exist or belongs to another user.
+ */
+export async function getBetDetails(betId: string, userId: string): Promise<BetDetails | null> {
+	const round = await findBetRound(userId, betId);
+	if (!round) {
+		return null;
+	}
+
+	return {
+		betId,
+		userId: round.userId,
+		gameId: round.gameId,
+		wagerAmount: round.wagerAmount,
+		winAmount: round.winAmount,
+		realBalanceBefore: round.realBalanceBefore,
+		bonusBalanceBefore: round.bonusBalanceBefore,
+		realBalanceAfter: round.realBalanceAfter,
+		bonusBalanceAfter: round.bonusBalanceAfter,
+		status: round.status,
+		createdAt: round.createdAt,
+	};
+}
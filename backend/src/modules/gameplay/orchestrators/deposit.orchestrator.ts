@@ -4,17 +4,23 @@
 /** biome-ignore-all lint/suspicious/noExplicitAny: <> */
 
 import { db } from "@/core/database/db";
-import { depositTable, type Deposit } from "@/core/database/schema";
-import { and, eq, sql } from "drizzle-orm";
+import { depositTable, type Deposit, userTable } from "@/core/database/schema";
+import { and, eq, inArray, isNull, lt, notInArray, or, sql } from "drizzle-orm";
 import { v4 as uuidv4 } from "uuid";
 import { getDetailedBalance } from "../core/balance-management.service";
+import { pendingTtlMinutes, readDepositPaymentState, resolveDepositConfig } from "../core/deposit-rules";
+import { configurationManager } from "@/shared/config";
+import { sendNotification } from "@/shared/notifications.service";
 
 // --- NEW IMPORTS ---
-import { executeCoreDeposit } from "../core/core-deposit.service";
-import { onDepositCompleted as onNotification } from "../listeners/deposit-notification.sender";
-import { onDepositCompleted as onTransaction } from "../listeners/deposit-transaction.logger";
-import { onDepositCompleted as onVip } from "../listeners/deposit-vip.processor";
+import { DepositConfirmationError, executeCoreDeposit } from "../core/core-deposit.service";
 import { appLogger, createOperationContext, type LogContext } from "@/core/logger/app-logger";
+import { PaymentMethod, type PaymentProvider, PaymentProviderError } from "@/modules/payments/payment-provider";
+import { deliverOutboxEvent } from "@/modules/outbox/outbox.service";
+import { paymentProviders } from "@/modules/payments/payment-registry";
+import { CurrencyError, assertCurrencyAllowed, getCurrencies } from "@/modules/currency/currency.service";
+import { formatMinorUnits } from "@/modules/currency/currency-rules";
+import { getDepositMatchOffer } from "@/modules/bonus/bonus.service";
 // --- END NEW IMPORTS ---
 
 export enum depositTableStatus {
@@ -26,18 +32,16 @@ export enum depositTableStatus {
 	EXPIRED = "EXPIRED",
 }
 
-export enum PaymentMethod {
-	CASHAPP = "CASHAPP",
-	INSTORE_CASH = "INSTORE_CASH",
-	INSTORE_CARD = "INSTORE_CARD",
-}
+export { PaymentMethod };
 
 export interface DepositRequest {
 	userId: string;
 	amount: number; // Amount in cents
 	bonusAmount: number; // Amount in cents
 	paymentMethod: PaymentMethod;
-	currency?: string;
+	operatorId?: string | null; // Selects the operator's payment provider, if it registered one
+	currency?: string; // Must be the wallet's currency; defaults to it
+	bonusId?: string; // DEPOSIT_MATCH offer to award once the deposit completes
 	note?: string;
 	metadata?: Record<string, unknown>;
 }
@@ -52,7 +56,9 @@ export interface DepositResponse {
 }
 
 export interface WebhookConfirmation {
-	transactionId: string;
+	transactionId: string; // Deposit id
+	providerTransactionId?: string; // Provider's id for this payment, used to drop replays
+	payloadDigest?: string; // SHA-256 of the signed webhook body, drops replays that carry no providerTransactionId
 	amount: number;
 	senderInfo?: string;
 	timestamp: Date;
@@ -64,6 +70,9 @@ export interface DepositCompletionResult {
 	success: boolean;
 	depositId: string;
 	amount: number;
+	status?: "COMPLETED" | "PARTIAL";
+	remainingAmount?: number;
+	duplicate?: boolean; // Already applied; nothing was credited this time
 	bonusApplied?: {
 		xpGained: number;
 	};
@@ -86,32 +95,60 @@ export async function initiateDeposit(request: DepositRequest): Promise<DepositR
 			};
 		}
 
-		const referenceId = `DEP_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+		// Deposits go into the wallet as they are, so they have to be in the wallet's currency
+		const currency = await assertCurrencyAllowed(request.currency ?? playerBalance.currency, {
+			operatorId: request.operatorId,
+		});
+		if (currency !== playerBalance.currency) {
+			throw new CurrencyError(
+				"CURRENCY_MISMATCH",
+				`Deposits must be made in the wallet currency (${playerBalance.currency})`,
+			);
+		}
+
+		if (request.bonusId) {
+			await getDepositMatchOffer(request.bonusId);
+		}
+
+		const provider = paymentProviders.get(request.paymentMethod, request.operatorId);
+		const depositId = uuidv4();
+		const intent = await provider.createIntent({
+			depositId,
+			userId: request.userId,
+			amount: request.amount,
+			currency,
+		});
 
-		const depositId = await db.transaction(async (tx) => {
+		await db.transaction(async (tx) => {
 			const deposit = await tx
 				.insert(depositTable)
 				.values({
-					id: uuidv4(),
+					id: depositId,
 					userId: request.userId,
 					amount: request.amount,
+					currency,
 					bonusAmount: request.bonusAmount,
 					status: depositTableStatus.PENDING,
-					note: request.note || referenceId,
+					paymentMethod: request.paymentMethod,
+					note: request.note || intent.referenceId,
+					metadata: {
+						...request.metadata,
+						bonusId: request.bonusId,
+						provider: provider.name,
+						providerReference: intent.providerReference,
+						referenceId: intent.referenceId,
+					},
 				})
 				.returning({ id: depositTable.id });
 			if (!deposit[0]) throw new Error("no depositTable");
-			return deposit[0].id;
 		});
 
-		const instructions = await getPaymentInstructions(request.paymentMethod, referenceId, request.amount);
-
 		return {
 			success: true,
 			depositId,
 			status: depositTableStatus.PENDING,
-			instructions,
-			referenceId,
+			instructions: intent.instructions,
+			referenceId: intent.referenceId,
 		};
 	} catch (error) {
 		appLogger.error("Deposit initiation failed:", context, error as Error);
@@ -122,6 +159,24 @@ export async function initiateDeposit(request: DepositRequest): Promise<DepositR
 		};
 	}
 }
+/**
+ * The payment provider serving a deposit: the adapter for its payment method registered for its
+ * player's operator, or the default one. null when the deposit does not exist.
+ */
+export async function getDepositPaymentProvider(depositId: string): Promise<PaymentProvider | null> {
+	const [deposit] = await db
+		.select({ paymentMethod: depositTable.paymentMethod, operatorId: userTable.operatorId })
+		.from(depositTable)
+		.innerJoin(userTable, eq(userTable.id, depositTable.userId))
+		.where(eq(depositTable.id, depositId));
+	if (!deposit) {
+		return null;
+	}
+	if (!deposit.paymentMethod) {
+		throw new PaymentProviderError("PROVIDER_NOT_FOUND", `Deposit ${depositId} has no payment method`);
+	}
+	return paymentProviders.get(deposit.paymentMethod as PaymentMethod, deposit.operatorId);
+}
 /**
  * REFACTORED: Process webhook confirmation for completed deposit
  * This is now a clean orchestrator.
@@ -133,37 +188,55 @@ export async function processDepositConfirmation(confirmation: WebhookConfirmati
 		// 1. EXECUTE CORE TRANSACTION
 		coreResult = await executeCoreDeposit(confirmation);
 
-		// 2. CREATE PAYLOAD for listeners
-		const payload: any = {
-			...coreResult,
-		};
+		if (coreResult.outcome === "UNDERPAID") {
+			appLogger.warn("Underpaid deposit held for review", context, {
+				depositId: coreResult.depositId,
+				received: confirmation.amount,
+				remainingAmount: coreResult.remainingAmount,
+			});
+			return {
+				success: false,
+				depositId: coreResult.depositId,
+				amount: 0,
+				remainingAmount: coreResult.remainingAmount,
+				error: "Confirmation amount is less than pending deposit amount",
+			};
+		}
 
-		// 3. RUN ALL SIDE EFFECTS IN PARALLEL (Fire-and-forget)
-		// All listeners are now independent and non-blocking.
-		const listeners = [
-			onVip(payload), // onVip will now handle updating the tx log with XP
-			onTransaction(payload), // onTransaction just logs the core deposit
-			onNotification(payload),
-		];
-
-		Promise.allSettled(listeners).catch((err) => {
-			// Log if any non-critical side-effect failed
-			appLogger.error("Post-deposit hook failure:", context, err);
-		});
+		// 2. DELIVER THE DepositCompleted EVENT queued with the deposit, without waiting for its listeners.
+		// Whatever fails here stays in the outbox and is retried by the dispatcher.
+		if (coreResult.outboxEventId) {
+			deliverOutboxEvent(coreResult.outboxEventId).catch((err) => {
+				appLogger.error("Post-deposit hook failure:", context, err);
+			});
+		}
 
-		// 4. RETURN SUCCESS FAST
-		// We can no longer return xpGained because we are not awaiting onVip.
+		// 3. RETURN SUCCESS FAST
+		// We can no longer return xpGained because we are not awaiting the VIP listener.
 		// This makes the API response faster and more reliable.
 		// The UI should update via a separate event (e.g., WebSocket) if needed.
 		return {
 			success: true,
 			depositId: coreResult.depositId,
 			amount: coreResult.amount,
+			status: coreResult.outcome,
+			remainingAmount: coreResult.remainingAmount,
 			bonusApplied: {
 				xpGained: 0, // Cannot be determined at this time
 			},
 		};
 	} catch (error) {
+		// Replayed webhooks are acknowledged so the provider stops retrying
+		if (
+			error instanceof DepositConfirmationError &&
+			(error.code === "ALREADY_PROCESSED" || error.code === "DUPLICATE_PAYMENT")
+		) {
+			appLogger.info("Ignoring repeated deposit confirmation", context, {
+				depositId: confirmation.transactionId,
+				reason: error.code,
+			});
+			return { success: true, duplicate: true, depositId: confirmation.transactionId, amount: 0 };
+		}
 		appLogger.error("Deposit confirmation processing failed:", context, error as Error);
 		return {
 			success: false,
@@ -174,20 +247,34 @@ export async function processDepositConfirmation(confirmation: WebhookConfirmati
 	}
 }
 /**
- * Get payment instructions for different payment methods
- * (This function remains unchanged)
+ * Mark a pending deposit as failed after the provider reported the payment failed
  */
-async function getPaymentInstructions(method: PaymentMethod, referenceId: string, amount: number): Promise<string> {
-	const amountInDollars = (amount / 100).toFixed(2);
-	switch (method) {
-		case PaymentMethod.CASHAPP:
-			return `Send $${amountInDollars} via CashApp to $CASHAPP_TAG. Include reference: ${referenceId}`;
-		case PaymentMethod.INSTORE_CASH:
-			return `Visit any participating store location and provide reference: ${referenceId}. Pay $${amountInDollars} in cash.`;
-		case PaymentMethod.INSTORE_CARD:
-			return `Visit any participating store location and provide reference: ${referenceId}. Pay $${amountInDollars} by card.`;
-		default:
-			return `Complete payment of $${amountInDollars} using reference: ${referenceId}`;
+export async function processDepositFailure(
+	depositId: string,
+	reason: string,
+): Promise<{ success: boolean; error?: string }> {
+	const context = createOperationContext({ domain: "gameplay", operation: "processDepositFailure", depositId });
+	try {
+		const failed = await db
+			.update(depositTable)
+			.set({
+				status: depositTableStatus.FAILED,
+				metadata: sql`coalesce(${depositTable.metadata}, '{}'::jsonb) || ${JSON.stringify({ failureReason: reason })}::jsonb`,
+				updatedAt: new Date(),
+			})
+			.where(and(eq(depositTable.id, depositId), eq(depositTable.status, "PENDING")))
+			.returning({ id: depositTable.id });
+
+		if (failed.length === 0) {
+			return { success: false, error: "No pending deposit found for this transaction" };
+		}
+		return { success: true };
+	} catch (error) {
+		appLogger.error("Deposit failure processing failed:", context, error as Error);
+		return {
+			success: false,
+			error: error instanceof Error ? error.message : "Unknown error",
+		};
 	}
 }
 
@@ -270,33 +357,124 @@ export async function getUserDepositHistory(
 }
 
 /**
- * Cancel expired pending depositTable
- * (Keep this function)
+ * Expire pending deposits older than their payment method's TTL (depositConfig of the player's operator)
+ * and tell each player their reference is no longer valid.
  */
-export async function cleanupExpireddepositTable(): Promise<{
+export async function cleanupExpireddepositTable(now: Date = new Date()): Promise<{
 	cancelled: number;
+	processed: number;
+	byMethod: Record<string, number>;
 	error?: string;
 }> {
 	const context = createOperationContext({ domain: "gameplay", operation: "cleanupExpireddepositTable" });
 	try {
-		const expiryHours = 24; // depositTable expire after 24 hours
-		const expiryDate = new Date(Date.now() - expiryHours * 60 * 60 * 1000);
+		const knownMethods = Object.values(PaymentMethod) as string[];
+		const byMethod: Record<string, number> = Object.fromEntries([...knownMethods, "OTHER"].map((label) => [label, 0]));
+		const expired: Array<{
+			id: string;
+			userId: string;
+			amount: number;
+			currency: string;
+			paymentMethod: string | null;
+			metadata: unknown;
+		}> = [];
 
-		const result: Deposit[] = await db
-			.update(depositTable)
-			.set({
-				status: depositTableStatus.EXPIRED,
-				updatedAt: new Date(),
-			})
-			.where(and(eq(depositTable.status, "PENDING"), sql`${depositTable.createdAt} < ${expiryDate.toISOString()}`));
+		// TTLs are the player's operator's, so each operator's pending deposits are expired with its config
+		const operators = await db
+			.selectDistinct({ operatorId: userTable.operatorId })
+			.from(depositTable)
+			.innerJoin(userTable, eq(depositTable.userId, userTable.id))
+			.where(eq(depositTable.status, "PENDING"));
+
+		for (const { operatorId } of operators) {
+			const depositConfig = resolveDepositConfig(configurationManager.getConfiguration({ operatorId }).depositConfig);
+			const cutoff = (method: string | null) =>
+				new Date(now.getTime() - pendingTtlMinutes(method, depositConfig) * 60_000);
+			const ofOperator = inArray(
+				depositTable.userId,
+				db
+					.select({ id: userTable.id })
+					.from(userTable)
+					.where(operatorId ? eq(userTable.operatorId, operatorId) : isNull(userTable.operatorId)),
+			);
+
+			// One pass per method, plus one for deposits without a recognised method
+			const scopes = [
+				...knownMethods.map((method) => ({
+					label: method,
+					filter: and(eq(depositTable.paymentMethod, method), lt(depositTable.createdAt, cutoff(method))),
+				})),
+				{
+					label: "OTHER",
+					filter: and(
+						or(isNull(depositTable.paymentMethod), notInArray(depositTable.paymentMethod, knownMethods)),
+						lt(depositTable.createdAt, cutoff(null)),
+					),
+				},
+			];
+
+			for (const scope of scopes) {
+				const rows = await db
+					.update(depositTable)
+					.set({
+						status: depositTableStatus.EXPIRED,
+						updatedAt: now,
+					})
+					.where(and(eq(depositTable.status, "PENDING"), ofOperator, scope.filter))
+					.returning({
+						id: depositTable.id,
+						userId: depositTable.userId,
+						amount: depositTable.amount,
+						currency: depositTable.currency,
+						paymentMethod: depositTable.paymentMethod,
+						metadata: depositTable.metadata,
+					});
+				byMethod[scope.label] = (byMethod[scope.label] ?? 0) + rows.length;
+				expired.push(...rows);
+			}
+		}
+
+		const minorUnits = new Map(expired.length > 0 ? (await getCurrencies()).map((c) => [c.code, c.minorUnits]) : []);
+		await Promise.allSettled(
+			expired.map((deposit) => {
+				const format = (amount: number) =>
+					`${formatMinorUnits(amount, minorUnits.get(deposit.currency) ?? 2)} ${deposit.currency}`;
+				const { amountReceived, amountCredited } = readDepositPaymentState(deposit.metadata);
+
+				// A partly paid deposit keeps what was credited; the player should not read it as lost
+				let message = `Your deposit of ${format(deposit.amount)} expired before payment was received. Please start a new deposit.`;
+				if (amountReceived > 0) {
+					message = `Your deposit of ${format(deposit.amount)} expired after ${format(amountReceived)} was received. ${
+						amountCredited >= amountReceived
+							? "The amount received has been credited to your balance."
+							: "Our team will review the payment received."
+					} Please start a new deposit for the rest.`;
+				}
 
-		if (!result) throw new Error("no result");
+				return sendNotification({
+					userId: deposit.userId,
+					type: "deposit",
+					title: amountReceived > 0 ? "Deposit partly paid" : "Deposit expired",
+					message,
+					data: {
+						depositId: deposit.id,
+						amount: deposit.amount,
+						amountReceived,
+						amountCredited,
+						currency: deposit.currency,
+						paymentMethod: deposit.paymentMethod,
+					},
+				});
+			}),
+		);
 
-		return { cancelled: result.length || 0 };
+		return { cancelled: expired.length, processed: expired.length, byMethod };
 	} catch (error) {
 		appLogger.error("Failed to cleanup expired depositTable:", context, error as Error);
 		return {
 			cancelled: 0,
+			processed: 0,
+			byMethod: {},
 			error: error instanceof Error ? error.message : "Unknown error",
 		};
 	}
@@ -0,0 +1,127 @@
+import { BetRejectedError } from "../core/core-bet.service";
+import {
+	type WalletActionResult,
+	type WalletCreditRequest,
+	type WalletDebitRequest,
+	type WalletErrorCode,
+	type WalletRollbackRequest,
+	WalletRoundError,
+	executeEndRound,
+	executeWalletCredit,
+	executeWalletDebit,
+	executeWalletRollback,
+} from "../core/core-wallet.service";
+import { type BetOutcome, dispatchBetCompleted, recordBetContributions } from "./bet.orchestrator";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+
+/**
+ * Seamless-wallet orchestration
+ * Entry points for game providers that debit and credit a round in separate calls.
+ * Balance moves happen per call; the bet listeners (GGR, jackpot, VIP, stats, logging)
+ * run once, when the round is ended.
+ */
+
+export type WalletResult<T> =
+	| ({ success: true } & T)
+	| {
+			success: false;
+			error: string;
+			errorCode: WalletErrorCode;
+	  };
+
+function walletFailure(operation: string, userId: string, roundId: string, error: unknown): WalletResult<never> {
+	const context = createOperationContext({ domain: "gameplay", operation, userId });
+	const errorCode: WalletErrorCode =
+		error instanceof WalletRoundError || error instanceof BetRejectedError ? error.code : "BET_PROCESSING_FAILED";
+
+	if (errorCode === "BET_PROCESSING_FAILED") {
+		appLogger.error(`Wallet ${operation} failed`, context, error as Error, { roundId });
+	} else {
+		appLogger.warn(`Wallet ${operation} rejected`, context, { roundId, errorCode });
+	}
+
+	return {
+		success: false,
+		error: error instanceof Error ? error.message : "Unknown error",
+		errorCode,
+	};
+}
+
+export async function debit(request: WalletDebitRequest): Promise<WalletResult<WalletActionResult>> {
+	try {
+		return { success: true, ...(await executeWalletDebit(request)) };
+	} catch (error) {
+		return walletFailure("debit", request.userId, request.roundId, error);
+	}
+}
+
+export async function credit(request: WalletCreditRequest): Promise<WalletResult<WalletActionResult>> {
+	try {
+		return { success: true, ...(await executeWalletCredit(request)) };
+	} catch (error) {
+		return walletFailure("credit", request.userId, request.roundId, error);
+	}
+}
+
+export async function rollback(request: WalletRollbackRequest): Promise<WalletResult<WalletActionResult>> {
+	try {
+		return { success: true, ...(await executeWalletRollback(request)) };
+	} catch (error) {
+		return walletFailure("rollback", request.userId, request.roundId, error);
+	}
+}
+
+/**
+ * Close a round and fire the bet listeners with the round totals.
+ * Calling endRound again returns the stored outcome without re-running listeners.
+ */
+export async function endRound(userId: string, roundId: string): Promise<WalletResult<BetOutcome>> {
+	const startTime = Date.now();
+
+	try {
+		const { alreadyClosed, storedOutcome, ...roundResult } = await executeEndRound(userId, roundId);
+
+		if (alreadyClosed) {
+			if (!storedOutcome) {
+				throw new WalletRoundError("ROUND_IN_PROGRESS", `Round ${roundId} is still being closed`);
+			}
+			return {
+				...(storedOutcome as unknown as BetOutcome),
+				success: true,
+				replayed: true,
+				time: Date.now() - startTime,
+			};
+		}
+
+		const { ggrContribution, jackpotContribution, vipPointsAdded } = await dispatchBetCompleted(
+			roundResult.outboxEventId,
+			userId,
+		);
+
+		const outcome: BetOutcome = {
+			userId,
+			gameId: roundResult.gameId,
+			wagerAmount: roundResult.wagerAmount,
+			winAmount: roundResult.winAmount,
+			balanceType: roundResult.balanceType,
+			newBalance: roundResult.realBalanceAfter + roundResult.bonusBalanceAfter,
+			jackpotContribution,
+			vipPointsEarned: vipPointsAdded,
+			ggrContribution,
+			success: true,
+			transactionId: roundId,
+			roundId,
+			time: Date.now() - startTime,
+		};
+
+		await recordBetContributions(userId, roundId, {
+			jackpotContribution,
+			vipPointsEarned: vipPointsAdded,
+			ggrContribution,
+		});
+
+		return { ...outcome, success: true };
+	} catch (error) {
+		return walletFailure("endRound", userId, roundId, error);
+	}
+}
@@ -0,0 +1,126 @@
+/**
+ * Game math model
+ * Turns a game's stored configuration into a paytable the outcome engine can draw from.
+ */
+
+export interface PaytableEntry {
+	multiplier: number; // Win as a multiple of the wager
+	probability: number; // Chance of this entry per spin
+}
+
+export interface GameMathModel {
+	targetRtp: number; // Fraction, e.g. 0.95
+	volatility: number; // 1 (low) .. 5 (high)
+	hitRate: number; // Chance that a spin pays anything
+	paytable: PaytableEntry[];
+}
+
+/** The game columns the math model is built from */
+export interface GameMathSource {
+	goldsvetData: unknown;
+	volatility: number | null;
+	targetRtp: number | null;
+}
+
+export const DEFAULT_TARGET_RTP = 0.95;
+export const MIN_VOLATILITY = 1;
+export const MAX_VOLATILITY = 5;
+
+/** Multipliers used when a game has no paytable in goldsvetData */
+const DEFAULT_MULTIPLIERS = [1, 2, 3, 5, 10, 20, 50, 100, 500];
+
+/**
+ * targetRtp is stored as a percentage by the importer (85-98) but may also be a fraction
+ */
+export function normalizeRtp(targetRtp: number | null | undefined): number {
+	if (targetRtp === null || targetRtp === undefined || !Number.isFinite(targetRtp) || targetRtp <= 0) {
+		return DEFAULT_TARGET_RTP;
+	}
+	const rtp = targetRtp > 1 ? targetRtp / 100 : targetRtp;
+	return Math.min(rtp, 0.99);
+}
+
+export function normalizeVolatility(volatility: number | null | undefined): number {
+	if (volatility === null || volatility === undefined || !Number.isFinite(volatility)) {
+		return MIN_VOLATILITY;
+	}
+	return Math.min(MAX_VOLATILITY, Math.max(MIN_VOLATILITY, Math.round(volatility)));
+}
+
+interface ConfiguredEntry {
+	multiplier: number;
+	weight?: number;
+}
+
+/**
+ * Read a custom paytable from goldsvetData.paytable.
+ * Accepts either a list of multipliers or { multiplier, weight } objects;
+ * weights are relative and get rescaled to the target RTP.
+ */
+function readConfiguredPaytable(goldsvetData: unknown): ConfiguredEntry[] | null {
+	const paytable = (goldsvetData as { paytable?: unknown } | null)?.paytable;
+	if (!Array.isArray(paytable)) {
+		return null;
+	}
+
+	const entries: ConfiguredEntry[] = paytable
+		.map((entry: unknown): ConfiguredEntry => {
+			if (typeof entry === "number") {
+				return { multiplier: entry };
+			}
+			const configured = (entry ?? {}) as { multiplier?: unknown; weight?: unknown };
+			return {
+				multiplier: Number(configured.multiplier),
+				weight: configured.weight === undefined ? undefined : Number(configured.weight),
+			};
+		})
+		.filter(
+			(entry) =>
+				Number.isFinite(entry.multiplier) &&
+				entry.multiplier > 0 &&
+				(entry.weight === undefined || (Number.isFinite(entry.weight) && entry.weight > 0)),
+		);
+
+	return entries.length > 0 ? entries : null;
+}
+
+/**
+ * Build the paytable for a game.
+ * Entry weights fall off as multiplier^-alpha; higher volatility lowers alpha, moving
+ * probability towards big wins and lowering the hit rate. Probabilities are then scaled
+ * so the expected return equals the target RTP.
+ */
+export function buildGameMathModel(game: GameMathSource): GameMathModel {
+	const targetRtp = normalizeRtp(game.targetRtp);
+	const volatility = normalizeVolatility(game.volatility);
+	const alpha = 2.2 - 0.3 * (volatility - MIN_VOLATILITY);
+
+	const configured: ConfiguredEntry[] =
+		readConfiguredPaytable(game.goldsvetData) ?? DEFAULT_MULTIPLIERS.map((multiplier) => ({ multiplier }));
+	const entries = configured.map((entry) => ({
+		multiplier: entry.multiplier,
+		weight: entry.weight ?? entry.multiplier ** -alpha,
+	}));
+
+	const totalWeight = entries.reduce((sum, entry) => sum + entry.weight, 0);
+	const weightedReturn = entries.reduce((sum, entry) => sum + entry.weight * entry.multiplier, 0);
+
+	// Scale so that sum(p * multiplier) = targetRtp, never exceeding a certain hit
+	const hitRate = Math.min(1, (targetRtp * totalWeight) / weightedReturn);
+
+	const paytable = entries
+		.map((entry) => ({
+			multiplier: entry.multiplier,
+			probability: (entry.weight / totalWeight) * hitRate,
+		}))
+		.sort((a, b) => a.multiplier - b.multiplier);
+
+	return { targetRtp, volatility, hitRate, paytable };
+}
+
+/**
+ * Theoretical return of a model; equals targetRtp unless the paytable cannot reach it
+ */
+export function expectedReturn(model: GameMathModel): number {
+	return model.paytable.reduce((sum, entry) => sum + entry.probability * entry.multiplier, 0);
+}
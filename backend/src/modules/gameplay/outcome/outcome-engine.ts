@@ -0,0 +1,72 @@
+import type { Game } from "@/core/database/schema";
+import type { GameOutcome } from "../core/core-bet.service";
+import { buildGameMathModel, type GameMathSource } from "./game-math";
+import { cryptoRandomSource, type RandomSource } from "./random-source";
+
+/**
+ * Server-side outcome engine
+ * Win amounts are always produced here from the game's math model - never taken from the player.
+ * Engines are registered per game category so other game types can plug in their own maths.
+ */
+
+export interface OutcomeGame extends GameMathSource {
+	id: string;
+	category: Game["category"];
+}
+
+export interface OutcomeEngine {
+	readonly name: string;
+	generate(game: OutcomeGame, wagerAmount: number, random: RandomSource): GameOutcome;
+}
+
+/**
+ * Draws a single paytable entry per spin
+ */
+export const paytableOutcomeEngine: OutcomeEngine = {
+	name: "paytable",
+	generate(game, wagerAmount, random) {
+		const model = buildGameMathModel(game);
+		const roll = random.next();
+
+		let cumulative = 0;
+		let multiplier = 0;
+		for (const entry of model.paytable) {
+			cumulative += entry.probability;
+			if (roll < cumulative) {
+				multiplier = entry.multiplier;
+				break;
+			}
+		}
+
+		return {
+			winAmount: Math.floor(wagerAmount * multiplier),
+			gameData: {
+				engine: this.name,
+				multiplier,
+				targetRtp: model.targetRtp,
+				volatility: model.volatility,
+			},
+		};
+	},
+};
+
+const engines = new Map<Game["category"], OutcomeEngine>();
+
+export function registerOutcomeEngine(category: Game["category"], engine: OutcomeEngine): void {
+	engines.set(category, engine);
+}
+
+export function getOutcomeEngine(category: Game["category"]): OutcomeEngine {
+	return engines.get(category) ?? paytableOutcomeEngine;
+}
+
+/**
+ * Generate the outcome of one spin for a game
+ */
+export function generateGameOutcome(
+	game: OutcomeGame,
+	wagerAmount: number,
+	random: RandomSource = cryptoRandomSource,
+): GameOutcome {
+	return getOutcomeEngine(game.category).generate(game, wagerAmount, random);
+}
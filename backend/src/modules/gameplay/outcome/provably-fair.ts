@@ -0,0 +1,61 @@
+import * as crypto from "node:crypto";
+import type { RandomSource } from "./random-source";
+
+/**
+ * Provably-fair randomness
+ * Every round is derived from HMAC-SHA256(serverSeed, `${clientSeed}:${nonce}:${cursor}`).
+ * The server commits to sha256(serverSeed) before play and reveals the seed on rotation,
+ * so anyone can recompute a round and check it was not altered.
+ */
+
+export interface FairnessInput {
+	serverSeed: string;
+	clientSeed: string;
+	nonce: number;
+}
+
+/** Public part of a round's fairness data, stored with the outcome */
+export interface FairnessCommitment {
+	seedId: string;
+	serverSeedHash: string;
+	clientSeed: string;
+	nonce: number;
+}
+
+const BYTES_PER_DRAW = 6;
+const DRAW_RESOLUTION = 2 ** (BYTES_PER_DRAW * 8);
+
+export function generateServerSeed(): string {
+	return crypto.randomBytes(32).toString("hex");
+}
+
+export function generateClientSeed(): string {
+	return crypto.randomBytes(16).toString("hex");
+}
+
+export function hashServerSeed(serverSeed: string): string {
+	return crypto.createHash("sha256").update(serverSeed).digest("hex");
+}
+
+/**
+ * Deterministic RandomSource for one round. Each draw consumes 6 bytes of the HMAC digest;
+ * when a digest is used up the cursor advances and a fresh digest is computed.
+ */
+export function createHmacRandomSource({ serverSeed, clientSeed, nonce }: FairnessInput): RandomSource {
+	let cursor = 0;
+	let digest = Buffer.alloc(0);
+	let offset = 0;
+
+	return {
+		next(): number {
+			if (offset + BYTES_PER_DRAW > digest.length) {
+				digest = crypto.createHmac("sha256", serverSeed).update(`${clientSeed}:${nonce}:${cursor}`).digest();
+				cursor++;
+				offset = 0;
+			}
+			const value = digest.readUIntBE(offset, BYTES_PER_DRAW);
+			offset += BYTES_PER_DRAW;
+			return value / DRAW_RESOLUTION;
+		},
+	};
+}
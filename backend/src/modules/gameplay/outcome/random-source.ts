@@ -0,0 +1,20 @@
+import * as crypto from "node:crypto";
+
+/**
+ * Source of uniformly distributed numbers in [0, 1) used by the outcome engine.
+ * Kept as an interface so outcomes can be driven by other sources (seeded, provably fair).
+ */
+export interface RandomSource {
+	next(): number;
+}
+
+const RANDOM_RESOLUTION = 2 ** 48;
+
+/**
+ * CSPRNG-backed source. Draws 48 random bits per call, well within double precision.
+ */
+export const cryptoRandomSource: RandomSource = {
+	next(): number {
+		return crypto.randomBytes(6).readUIntBE(0, 6) / RANDOM_RESOLUTION;
+	},
+};
@@ -14,7 +14,10 @@ import {
 	type JackpotContributionHistory,
 	type Jackpot as JackpotModel,
 } from "@/core/database/schema/jackpot";
+import { userBalanceTable } from "@/core/database/schema";
 import { configurationManager } from "@/shared/config";
+import { postJournal } from "@/modules/ledger/ledger.service";
+import { jackpotContributionLegs, jackpotReseedLegs, jackpotWinLegs } from "@/modules/ledger/ledger-rules";
 import { eq, sql } from "drizzle-orm";
 import { z } from "zod";
 
@@ -453,6 +456,11 @@ class JackpotManager {
 	constructor() {
 		const settings = configurationManager.getConfiguration();
 		this.config = settings.jackpotConfig as any;
+
+		// Pick up settings edits without a restart
+		configurationManager.onChange((next) => {
+			this.config = next.jackpotConfig as any;
+		});
 	}
 
 	/**
@@ -509,6 +517,12 @@ class JackpotManager {
 						createdAt: new Date(),
 						updatedAt: new Date(),
 					});
+					await postJournal(tx, {
+						type: "ADJUSTMENT",
+						relatedId: dbEnumTypeValue,
+						description: "Jackpot seeded",
+						legs: jackpotReseedLegs(dbEnumTypeValue, seedAmount),
+					});
 				}
 			});
 
@@ -526,6 +540,19 @@ class JackpotManager {
 		return { ...this.config };
 	}
 
+	/**
+	 * Contribution rates and caps for bets placed with an operator: its jackpotConfig override, or the platform's
+	 */
+	private getConfigForOperator(operatorId?: string): JackpotConfig {
+		if (!operatorId) {
+			return this.config;
+		}
+		const operatorSettings = configurationManager.getConfiguration({ operatorId });
+		return operatorSettings === configurationManager.getConfiguration()
+			? this.config
+			: (operatorSettings.jackpotConfig as any);
+	}
+
 	/**
 	 * Update jackpot configuration (admin function)
 	 * @throws {ValidationError}
@@ -641,6 +668,8 @@ class JackpotManager {
 	async contribute(
 		gameId: string,
 		wagerAmount: number,
+		betTransactionId?: string,
+		operatorId?: string,
 	): Promise<{
 		contributions: Record<JackpotType, number>;
 		totalContribution: number;
@@ -651,6 +680,8 @@ class JackpotManager {
 			context,
 		);
 
+		const config = this.getConfigForOperator(operatorId);
+
 		const gameJackpotTypes = this.getGameJackpotTypes(validatedGameId);
 		if (gameJackpotTypes.length === 0) {
 			return {
@@ -671,15 +702,33 @@ class JackpotManager {
 				};
 				let totalContribution = 0;
 
+				// A redelivered bet finds its contributions already booked and reports them again
+				if (betTransactionId) {
+					const booked = await tx
+						.select({
+							jackpotType: jackpotContributionHistoryTable.jackpotType,
+							contributionAmount: jackpotContributionHistoryTable.contributionAmount,
+						})
+						.from(jackpotContributionHistoryTable)
+						.where(eq(jackpotContributionHistoryTable.betTransactionId, betTransactionId));
+					if (booked.length > 0) {
+						for (const row of booked) {
+							contributions[row.jackpotType as JackpotType] = row.contributionAmount;
+							totalContribution += row.contributionAmount;
+						}
+						return { contributions, totalContribution };
+					}
+				}
+
 				for (const pool of pools) {
 					const type = pool.jackpotType as JackpotType;
 					// --- REFACTORED: Map uppercase DB type to lowercase config key ---
 					const configKey = type === "GRAND" ? "mega" : (type.toLowerCase() as "minor" | "major");
-					const rate = this.config[configKey].rate || 0;
+					const rate = config[configKey].rate || 0;
 					const contribution = Math.floor(validatedWagerAmount * rate);
 
 					if (contribution > 0) {
-						const maxAmount = this.config[configKey].maxAmount;
+						const maxAmount = config[configKey].maxAmount;
 						let actualContribution = contribution;
 
 						if (maxAmount && pool.currentAmount + contribution > maxAmount) {
@@ -706,15 +755,22 @@ class JackpotManager {
 								wagerAmount: validatedWagerAmount,
 								contributionAmount: actualContribution,
 								winAmount: 0,
-								betTransactionId: `bet_${context.operationId}`,
+								betTransactionId: betTransactionId ?? `bet_${context.operationId}`,
 								gameId: validatedGameId,
-								operatorId: "system",
+								operatorId: operatorId ?? "system",
 								createdAt: new Date(),
 							};
 							await tx.insert(jackpotContributionHistoryTable).values(contributionRecord);
 						}
 					}
 				}
+
+				await postJournal(tx, {
+					type: "JACKPOT_CONTRIBUTION",
+					relatedId: betTransactionId,
+					metadata: { gameId: validatedGameId },
+					legs: jackpotContributionLegs(contributions, operatorId),
+				});
 				return { contributions, totalContribution };
 			},
 			context,
@@ -800,6 +856,33 @@ class JackpotManager {
 				};
 				await tx.insert(jackpotWinHistoryTable).values(winRecord);
 
+				// The winner is paid in the same transaction that empties the pool
+				const [balance] = await tx
+					.update(userBalanceTable)
+					.set({
+						realBalance: sql`${userBalanceTable.realBalance} + ${actualWinAmount}`,
+						totalWon: sql`${userBalanceTable.totalWon} + ${actualWinAmount}`,
+						updatedAt: new Date(),
+					})
+					.where(eq(userBalanceTable.userId, validatedUserId))
+					.returning({ id: userBalanceTable.id });
+				if (!balance) {
+					throw createValidationError("User balance not found", "VALIDATION_INVALID_USER", context);
+				}
+
+				await postJournal(tx, {
+					type: "JACKPOT_WIN",
+					userId: validatedUserId,
+					relatedId: winRecord.winningSpinTransactionId,
+					legs: jackpotWinLegs(validatedUserId, validatedType, actualWinAmount),
+				});
+				await postJournal(tx, {
+					type: "ADJUSTMENT",
+					relatedId: validatedType,
+					description: "Jackpot reseeded",
+					legs: jackpotReseedLegs(validatedType, resetAmount - newAmount),
+				});
+
 				appLogger.info(`Jackpot win processed: ${validatedType} - ${actualWinAmount} cents`, context);
 
 				return {
@@ -857,6 +940,8 @@ export const jackpotManager = new JackpotManager();
 export async function processJackpotContribution(
 	gameId: string,
 	wagerAmount: number,
+	betTransactionId?: string,
+	operatorId?: string,
 ): Promise<JackpotContributionResult> {
 	const context = createOperationContext({
 		operation: "processJackpotContribution",
@@ -864,7 +949,7 @@ export async function processJackpotContribution(
 		gameId,
 	});
 	try {
-		const result = await jackpotManager.contribute(gameId, wagerAmount);
+		const result = await jackpotManager.contribute(gameId, wagerAmount, betTransactionId, operatorId);
 		return {
 			success: true,
 			...result,
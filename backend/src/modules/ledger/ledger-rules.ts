@@ -0,0 +1,184 @@
+import type { LedgerAccount } from "@/core/database/schema";
+
+/**
+ * Ledger rules
+ * Pure journal building for the double-entry ledger. Each balance change is described as legs
+ * against accounts; a journal is valid when its legs sum to zero. Positive amounts credit an account,
+ * so player accounts hold the player's balance and GGR holds what the house has won.
+ */
+
+export type LedgerAccountType = LedgerAccount["type"];
+
+export interface LedgerAccountRef {
+	type: LedgerAccountType;
+	ownerId: string;
+}
+
+export interface LedgerLeg {
+	account: LedgerAccountRef;
+	amount: number; // Signed cents, positive = credit
+}
+
+/** Owner of the float and GGR accounts when no operator is known */
+export const PLATFORM_OWNER = "platform";
+
+export const ledgerAccounts = {
+	playerReal: (userId: string): LedgerAccountRef => ({ type: "PLAYER_REAL", ownerId: userId }),
+	playerBonus: (userId: string): LedgerAccountRef => ({ type: "PLAYER_BONUS", ownerId: userId }),
+	operatorFloat: (operatorId?: string | null): LedgerAccountRef => ({
+		type: "OPERATOR_FLOAT",
+		ownerId: operatorId ?? PLATFORM_OWNER,
+	}),
+	ggr: (operatorId?: string | null): LedgerAccountRef => ({ type: "GGR", ownerId: operatorId ?? PLATFORM_OWNER }),
+	jackpotPool: (jackpotType: string): LedgerAccountRef => ({ type: "JACKPOT_POOL", ownerId: jackpotType }),
+};
+
+export class UnbalancedJournalError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "UnbalancedJournalError";
+	}
+}
+
+function accountKey(account: LedgerAccountRef): string {
+	return `${account.type}:${account.ownerId}`;
+}
+
+/**
+ * Merge legs on the same account, drop zero legs and check the journal balances.
+ * An empty result means the event moved no money and needs no journal.
+ */
+export function normalizeLegs(legs: LedgerLeg[]): LedgerLeg[] {
+	const merged = new Map<string, LedgerLeg>();
+	for (const leg of legs) {
+		if (!Number.isInteger(leg.amount)) {
+			throw new UnbalancedJournalError(`Ledger amounts must be whole cents, got ${leg.amount}`);
+		}
+		const key = accountKey(leg.account);
+		const existing = merged.get(key);
+		merged.set(key, { account: leg.account, amount: (existing?.amount ?? 0) + leg.amount });
+	}
+
+	const normalized = [...merged.values()].filter((leg) => leg.amount !== 0);
+	const total = normalized.reduce((sum, leg) => sum + leg.amount, 0);
+	if (total !== 0) {
+		throw new UnbalancedJournalError(`Journal is out of balance by ${total}`);
+	}
+	return normalized;
+}
+
+export function reverseLegs(legs: LedgerLeg[]): LedgerLeg[] {
+	return legs.map((leg) => ({ account: leg.account, amount: -leg.amount }));
+}
+
+/** Player pays the stake from real and/or bonus balance; the house books it as GGR */
+export function betLegs(
+	userId: string,
+	stake: { real: number; bonus: number },
+	operatorId?: string | null,
+): LedgerLeg[] {
+	return [
+		{ account: ledgerAccounts.playerReal(userId), amount: -stake.real },
+		{ account: ledgerAccounts.playerBonus(userId), amount: -stake.bonus },
+		{ account: ledgerAccounts.ggr(operatorId), amount: stake.real + stake.bonus },
+	];
+}
+
+/** Game winnings are paid out of GGR */
+export function winLegs(userId: string, win: { real: number; bonus: number }, operatorId?: string | null): LedgerLeg[] {
+	return reverseLegs(betLegs(userId, win, operatorId));
+}
+
+/** Deposits are funded from the operator's float */
+export function depositLegs(userId: string, amount: number, operatorId?: string | null): LedgerLeg[] {
+	return [
+		{ account: ledgerAccounts.operatorFloat(operatorId), amount: -amount },
+		{ account: ledgerAccounts.playerReal(userId), amount },
+	];
+}
+
+/** Withdrawn money goes back to the operator's float */
+export function withdrawalLegs(userId: string, amount: number, operatorId?: string | null): LedgerLeg[] {
+	return reverseLegs(depositLegs(userId, amount, operatorId));
+}
+
+export function bonusAwardLegs(userId: string, amount: number, operatorId?: string | null): LedgerLeg[] {
+	return [
+		{ account: ledgerAccounts.operatorFloat(operatorId), amount: -amount },
+		{ account: ledgerAccounts.playerBonus(userId), amount },
+	];
+}
+
+export function bonusForfeitLegs(userId: string, amount: number, operatorId?: string | null): LedgerLeg[] {
+	return reverseLegs(bonusAwardLegs(userId, amount, operatorId));
+}
+
+export function bonusConvertLegs(userId: string, amount: number): LedgerLeg[] {
+	return [
+		{ account: ledgerAccounts.playerBonus(userId), amount: -amount },
+		{ account: ledgerAccounts.playerReal(userId), amount },
+	];
+}
+
+/** Jackpot contributions are a share of the stake already booked as GGR */
+export function jackpotContributionLegs(
+	contributions: Record<string, number>,
+	operatorId?: string | null,
+): LedgerLeg[] {
+	const legs: LedgerLeg[] = [];
+	let total = 0;
+	for (const [jackpotType, amount] of Object.entries(contributions)) {
+		legs.push({ account: ledgerAccounts.jackpotPool(jackpotType), amount });
+		total += amount;
+	}
+	legs.push({ account: ledgerAccounts.ggr(operatorId), amount: -total });
+	return legs;
+}
+
+export function jackpotWinLegs(userId: string, jackpotType: string, amount: number): LedgerLeg[] {
+	return [
+		{ account: ledgerAccounts.jackpotPool(jackpotType), amount: -amount },
+		{ account: ledgerAccounts.playerReal(userId), amount },
+	];
+}
+
+/** The operator tops a pool back up to its seed amount after a win */
+export function jackpotReseedLegs(jackpotType: string, amount: number, operatorId?: string | null): LedgerLeg[] {
+	return [
+		{ account: ledgerAccounts.operatorFloat(operatorId), amount: -amount },
+		{ account: ledgerAccounts.jackpotPool(jackpotType), amount },
+	];
+}
+
+export interface BalanceProjectionDrift {
+	userId: string;
+	realBalance: number;
+	bonusBalance: number;
+	ledgerRealBalance: number;
+	ledgerBonusBalance: number;
+	realDrift: number; // Stored minus ledger
+	bonusDrift: number;
+}
+
+/**
+ * Compare a stored balance with the ledger's player accounts; null when they agree
+ */
+export function compareBalanceProjection(
+	stored: { userId: string; realBalance: number; bonusBalance: number },
+	ledger: { realBalance: number; bonusBalance: number },
+): BalanceProjectionDrift | null {
+	const realDrift = stored.realBalance - ledger.realBalance;
+	const bonusDrift = stored.bonusBalance - ledger.bonusBalance;
+	if (realDrift === 0 && bonusDrift === 0) {
+		return null;
+	}
+	return {
+		userId: stored.userId,
+		realBalance: stored.realBalance,
+		bonusBalance: stored.bonusBalance,
+		ledgerRealBalance: ledger.realBalance,
+		ledgerBonusBalance: ledger.bonusBalance,
+		realDrift,
+		bonusDrift,
+	};
+}
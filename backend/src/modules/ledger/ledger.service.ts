@@ -0,0 +1,230 @@
+import { type DbExecutor, type DbTransaction, db } from "@/core/database/db";
+import {
+	ledgerAccountTable,
+	ledgerEntryTable,
+	ledgerJournalTable,
+	type LedgerJournal,
+	userBalanceTable,
+} from "@/core/database/schema";
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+import {
+	type BalanceProjectionDrift,
+	compareBalanceProjection,
+	type LedgerAccountRef,
+	type LedgerLeg,
+	ledgerAccounts,
+	normalizeLegs,
+	PLATFORM_OWNER,
+} from "./ledger-rules";
+
+/**
+ * Ledger
+ * Journals are posted with the caller's transaction so they commit or roll back with the balance
+ * change they describe. Accounts are created on first use.
+ */
+
+export interface JournalPosting {
+	type: LedgerJournal["type"];
+	userId?: string | null;
+	relatedId?: string | null;
+	description?: string;
+	metadata?: Record<string, unknown>;
+	legs: LedgerLeg[];
+}
+
+async function resolveAccountId(tx: DbTransaction, account: LedgerAccountRef): Promise<string> {
+	// DO NOTHING rather than DO UPDATE so shared accounts (GGR, float) are never row-locked by a post
+	await tx
+		.insert(ledgerAccountTable)
+		.values({ type: account.type, ownerId: account.ownerId })
+		.onConflictDoNothing({ target: [ledgerAccountTable.type, ledgerAccountTable.ownerId] });
+
+	const [row] = await tx
+		.select({ id: ledgerAccountTable.id })
+		.from(ledgerAccountTable)
+		.where(and(eq(ledgerAccountTable.type, account.type), eq(ledgerAccountTable.ownerId, account.ownerId)));
+	if (!row) {
+		throw new Error(`Ledger account ${account.type}:${account.ownerId} could not be created`);
+	}
+	return row.id;
+}
+
+/**
+ * Post a balanced journal. Returns the journal id, or null when every leg was zero.
+ * Throws UnbalancedJournalError before writing anything if the legs do not sum to zero.
+ */
+export async function postJournal(tx: DbTransaction, posting: JournalPosting): Promise<string | null> {
+	const legs = normalizeLegs(posting.legs);
+	if (legs.length === 0) {
+		return null;
+	}
+
+	// Snapshot the stored balance so reconciliation can find the journal where drift started
+	const touchesPlayer = legs.some(
+		(leg) =>
+			(leg.account.type === "PLAYER_REAL" || leg.account.type === "PLAYER_BONUS") &&
+			leg.account.ownerId === posting.userId,
+	);
+	const [snapshot] =
+		posting.userId && touchesPlayer
+			? await tx
+					.select({ realBalance: userBalanceTable.realBalance, bonusBalance: userBalanceTable.bonusBalance })
+					.from(userBalanceTable)
+					.where(eq(userBalanceTable.userId, posting.userId))
+			: [];
+
+	const [journal] = await tx
+		.insert(ledgerJournalTable)
+		.values({
+			type: posting.type,
+			userId: posting.userId ?? null,
+			relatedId: posting.relatedId ?? null,
+			description: posting.description,
+			metadata: posting.metadata,
+			realBalanceAfter: snapshot?.realBalance ?? null,
+			bonusBalanceAfter: snapshot?.bonusBalance ?? null,
+		})
+		.returning({ id: ledgerJournalTable.id });
+
+	const entries = [];
+	for (const leg of legs) {
+		entries.push({ journalId: journal.id, accountId: await resolveAccountId(tx, leg.account), amount: leg.amount });
+	}
+	await tx.insert(ledgerEntryTable).values(entries);
+
+	return journal.id as string;
+}
+
+/**
+ * Sum of all entries on an account, in cents
+ */
+export async function getAccountBalance(account: LedgerAccountRef, tx: DbExecutor = db): Promise<number> {
+	const [row] = await tx
+		.select({ balance: sql<string>`coalesce(sum(${ledgerEntryTable.amount}), 0)` })
+		.from(ledgerEntryTable)
+		.innerJoin(ledgerAccountTable, eq(ledgerEntryTable.accountId, ledgerAccountTable.id))
+		.where(and(eq(ledgerAccountTable.type, account.type), eq(ledgerAccountTable.ownerId, account.ownerId)));
+	return Number(row?.balance ?? 0);
+}
+
+/**
+ * Ledger balances of the player accounts, keyed by user id
+ */
+export async function getPlayerLedgerBalances(
+	userIds?: string[],
+): Promise<Map<string, { realBalance: number; bonusBalance: number }>> {
+	const rows = await db
+		.select({
+			ownerId: ledgerAccountTable.ownerId,
+			type: ledgerAccountTable.type,
+			balance: sql<string>`coalesce(sum(${ledgerEntryTable.amount}), 0)`,
+		})
+		.from(ledgerAccountTable)
+		.leftJoin(ledgerEntryTable, eq(ledgerEntryTable.accountId, ledgerAccountTable.id))
+		.where(
+			and(
+				inArray(ledgerAccountTable.type, ["PLAYER_REAL", "PLAYER_BONUS"]),
+				userIds ? inArray(ledgerAccountTable.ownerId, userIds) : undefined,
+			),
+		)
+		.groupBy(ledgerAccountTable.ownerId, ledgerAccountTable.type);
+
+	const balances = new Map<string, { realBalance: number; bonusBalance: number }>();
+	for (const row of rows) {
+		const balance = balances.get(row.ownerId) ?? { realBalance: 0, bonusBalance: 0 };
+		if (row.type === "PLAYER_REAL") {
+			balance.realBalance = Number(row.balance);
+		} else {
+			balance.bonusBalance = Number(row.balance);
+		}
+		balances.set(row.ownerId, balance);
+	}
+	return balances;
+}
+
+/**
+ * Check user_balances against the ledger's player accounts.
+ * Returns one entry per user whose stored real or bonus balance differs from the journal.
+ */
+export async function verifyBalanceProjection(userId?: string): Promise<BalanceProjectionDrift[]> {
+	const stored = await db
+		.select({
+			userId: userBalanceTable.userId,
+			realBalance: userBalanceTable.realBalance,
+			bonusBalance: userBalanceTable.bonusBalance,
+		})
+		.from(userBalanceTable)
+		.where(userId ? eq(userBalanceTable.userId, userId) : undefined);
+
+	const ledger = await getPlayerLedgerBalances(userId ? [userId] : undefined);
+	const drift: BalanceProjectionDrift[] = [];
+	for (const balance of stored) {
+		const mismatch = compareBalanceProjection(
+			balance,
+			ledger.get(balance.userId) ?? { realBalance: 0, bonusBalance: 0 },
+		);
+		if (mismatch) {
+			drift.push(mismatch);
+		}
+	}
+	return drift;
+}
+
+/**
+ * Bring balances that predate the ledger onto it: users with no player entries yet get an opening
+ * ADJUSTMENT from the platform float for their stored balances. Safe to run more than once.
+ */
+export async function postOpeningBalances(): Promise<{ opened: number }> {
+	const context = createOperationContext({ domain: "ledger", operation: "postOpeningBalances" });
+	const ledger = await getPlayerLedgerBalances();
+	const balances = await db.select().from(userBalanceTable);
+
+	let opened = 0;
+	for (const balance of balances) {
+		if (ledger.has(balance.userId) || (balance.realBalance === 0 && balance.bonusBalance === 0)) {
+			continue;
+		}
+
+		const posted = await db.transaction(async (tx) => {
+			const [locked] = await tx
+				.select()
+				.from(userBalanceTable)
+				.where(eq(userBalanceTable.userId, balance.userId))
+				.for("update");
+			if (!locked) return false;
+
+			// The player may have played since the ledger was read
+			const [existing] = await tx
+				.select({ id: ledgerAccountTable.id })
+				.from(ledgerAccountTable)
+				.where(
+					and(
+						inArray(ledgerAccountTable.type, ["PLAYER_REAL", "PLAYER_BONUS"]),
+						eq(ledgerAccountTable.ownerId, locked.userId),
+					),
+				)
+				.limit(1);
+			if (existing) return false;
+
+			await postJournal(tx, {
+				type: "ADJUSTMENT",
+				userId: locked.userId,
+				description: "Opening balance",
+				legs: [
+					{
+						account: ledgerAccounts.operatorFloat(PLATFORM_OWNER),
+						amount: -(locked.realBalance + locked.bonusBalance),
+					},
+					{ account: ledgerAccounts.playerReal(locked.userId), amount: locked.realBalance },
+					{ account: ledgerAccounts.playerBonus(locked.userId), amount: locked.bonusBalance },
+				],
+			});
+			return true;
+		});
+		if (posted) opened++;
+	}
+
+	appLogger.info("Opening ledger balances posted", context, { opened });
+	return { opened };
+}
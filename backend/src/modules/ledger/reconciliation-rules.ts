@@ -0,0 +1,127 @@
+/**
+ * Reconciliation rules
+ * Pure checks behind the reconciliation job: where a user's stored balance drifted from the ledger,
+ * whether the balance counters agree with the journals, and what a jackpot pool should hold
+ * according to its contribution and win history.
+ */
+
+export interface JournalReplayRow {
+	id: string;
+	type: string;
+	relatedId: string | null;
+	realDelta: number; // Net movement on the user's PLAYER_REAL account
+	bonusDelta: number;
+	realBalanceAfter: number | null; // Stored balance snapshot taken when the journal was posted
+	bonusBalanceAfter: number | null;
+}
+
+export interface DriftPoint {
+	journalId: string;
+	type: string;
+	relatedId: string | null;
+	realDrift: number; // Stored minus ledger right after this journal
+	bonusDrift: number;
+}
+
+/**
+ * Replay a user's journals in posting order and return the journals after which the drift between
+ * the stored balance and the ledger changed. The first point is where the balances first disagreed.
+ * Journals without a snapshot carry the previous drift forward.
+ */
+export function locateDriftPoints(journals: JournalReplayRow[]): DriftPoint[] {
+	const points: DriftPoint[] = [];
+	let real = 0;
+	let bonus = 0;
+	let realDrift = 0;
+	let bonusDrift = 0;
+
+	for (const journal of journals) {
+		real += journal.realDelta;
+		bonus += journal.bonusDelta;
+		if (journal.realBalanceAfter === null || journal.bonusBalanceAfter === null) {
+			continue;
+		}
+
+		const nextRealDrift = journal.realBalanceAfter - real;
+		const nextBonusDrift = journal.bonusBalanceAfter - bonus;
+		if (nextRealDrift !== realDrift || nextBonusDrift !== bonusDrift) {
+			points.push({
+				journalId: journal.id,
+				type: journal.type,
+				relatedId: journal.relatedId,
+				realDrift: nextRealDrift,
+				bonusDrift: nextBonusDrift,
+			});
+			realDrift = nextRealDrift;
+			bonusDrift = nextBonusDrift;
+		}
+	}
+	return points;
+}
+
+export interface BalanceCounters {
+	totalDeposited: number;
+	totalWithdrawn: number;
+	totalWagered: number;
+	totalWon: number;
+}
+
+/** Per-user sums the expected counters are built from */
+export interface CounterSources {
+	deposits: number; // Player movement on DEPOSIT journals
+	bets: number; // Player movement on BET journals (negative)
+	wins: number; // Player movement on WIN and JACKPOT_WIN journals
+	reversedWagered: number; // Recorded on rollback journals
+	reversedWon: number;
+	withdrawals: number; // Completed WITHDRAWAL transaction log entries
+}
+
+export function expectedCounters(sources: CounterSources): BalanceCounters {
+	return {
+		totalDeposited: sources.deposits,
+		totalWithdrawn: sources.withdrawals,
+		totalWagered: -sources.bets - sources.reversedWagered,
+		totalWon: sources.wins - sources.reversedWon,
+	};
+}
+
+export interface CounterDrift {
+	counter: keyof BalanceCounters;
+	stored: number;
+	expected: number;
+	drift: number; // Stored minus expected
+}
+
+export function compareCounters(stored: BalanceCounters, expected: BalanceCounters): CounterDrift[] {
+	const counters: Array<keyof BalanceCounters> = ["totalDeposited", "totalWithdrawn", "totalWagered", "totalWon"];
+	return counters
+		.filter((counter) => stored[counter] !== expected[counter])
+		.map((counter) => ({
+			counter,
+			stored: stored[counter],
+			expected: expected[counter],
+			drift: stored[counter] - expected[counter],
+		}));
+}
+
+export interface JackpotHistoryEvent {
+	kind: "CONTRIBUTION" | "WIN";
+	amount: number;
+	at: Date;
+}
+
+/**
+ * What a pool should hold after its history: it starts at the seed, grows with each contribution,
+ * and each win takes the amount won and reseeds the pool if that leaves it below the seed.
+ */
+export function replayJackpotPool(seedAmount: number, events: JackpotHistoryEvent[]): number {
+	let amount = seedAmount;
+	for (const event of [...events].sort((a, b) => a.at.getTime() - b.at.getTime())) {
+		if (event.kind === "CONTRIBUTION") {
+			amount += event.amount;
+		} else {
+			amount = Math.max(amount - event.amount, seedAmount);
+		}
+	}
+	return amount;
+}
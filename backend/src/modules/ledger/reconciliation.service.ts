@@ -0,0 +1,338 @@
+import { db } from "@/core/database/db";
+import {
+	jackpotContributionHistoryTable,
+	jackpotTable,
+	jackpotWinHistoryTable,
+	ledgerAccountTable,
+	ledgerEntryTable,
+	ledgerJournalTable,
+	transactionLogTable,
+	userBalanceTable,
+} from "@/core/database/schema";
+import { and, asc, eq, gt, gte, inArray, lt, sql } from "drizzle-orm";
+import { z } from "zod";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+import type { JobResult } from "@/shared/job-runs.service";
+import { getAccountBalance, getPlayerLedgerBalances } from "./ledger.service";
+import { type BalanceProjectionDrift, compareBalanceProjection, ledgerAccounts } from "./ledger-rules";
+import {
+	type CounterDrift,
+	type CounterSources,
+	compareCounters,
+	type DriftPoint,
+	expectedCounters,
+	type JackpotHistoryEvent,
+	type JournalReplayRow,
+	locateDriftPoints,
+	replayJackpotPool,
+} from "./reconciliation-rules";
+
+/**
+ * Reconciliation
+ * Recomputes each user's balances and counters from the ledger and the transaction log and reports
+ * where they drifted, naming the journals and transactions at which the drift appeared.
+ * Jackpot pools can be checked against their contribution and win history as well.
+ */
+
+export const RECONCILIATION_JOB = "balance-reconciliation";
+
+const BATCH_SIZE = 500;
+const MAX_REPORTED_USERS = 100;
+
+export interface UserReconciliation {
+	userId: string;
+	balance: BalanceProjectionDrift | null;
+	counters: CounterDrift[];
+	driftPoints: DriftPoint[]; // Journals after which the balance drift changed
+	transactionIds: string[]; // Transaction log entries for the same rounds, deposits, withdrawals...
+}
+
+export interface JackpotReconciliation {
+	jackpotType: string;
+	currentAmount: number;
+	historyAmount: number; // Replayed from contribution and win history
+	historyDrift: number; // Current minus history
+	ledgerAmount: number;
+	ledgerDrift: number; // Current minus ledger
+}
+
+export interface ReconciliationOptions {
+	userId?: string;
+	includeJackpots?: boolean;
+}
+
+export interface ReconciliationReport extends JobResult {
+	processed: number; // Users checked
+	usersWithDrift: number;
+	users: UserReconciliation[]; // At most MAX_REPORTED_USERS
+	truncated: boolean;
+	jackpots?: JackpotReconciliation[];
+	jackpotsWithDrift?: number;
+}
+
+const PLAYER_ACCOUNT_TYPES = ["PLAYER_REAL", "PLAYER_BONUS"] as const;
+
+/** Entries on the journal's own user's player accounts */
+const ownPlayerEntry = and(
+	inArray(ledgerAccountTable.type, [...PLAYER_ACCOUNT_TYPES]),
+	eq(ledgerAccountTable.ownerId, sql`${ledgerJournalTable.userId}::text`),
+);
+
+async function loadCounterSources(userIds: string[]): Promise<Map<string, CounterSources>> {
+	const sources = new Map<string, CounterSources>();
+	const sourceFor = (userId: string) => {
+		let source = sources.get(userId);
+		if (!source) {
+			source = { deposits: 0, bets: 0, wins: 0, reversedWagered: 0, reversedWon: 0, withdrawals: 0 };
+			sources.set(userId, source);
+		}
+		return source;
+	};
+
+	const movements = await db
+		.select({
+			userId: ledgerJournalTable.userId,
+			type: ledgerJournalTable.type,
+			amount: sql<string>`coalesce(sum(${ledgerEntryTable.amount}), 0)`,
+		})
+		.from(ledgerJournalTable)
+		.innerJoin(ledgerEntryTable, eq(ledgerEntryTable.journalId, ledgerJournalTable.id))
+		.innerJoin(ledgerAccountTable, eq(ledgerEntryTable.accountId, ledgerAccountTable.id))
+		.where(
+			and(
+				inArray(ledgerJournalTable.userId, userIds),
+				inArray(ledgerJournalTable.type, ["DEPOSIT", "BET", "WIN", "JACKPOT_WIN"]),
+				ownPlayerEntry,
+			),
+		)
+		.groupBy(ledgerJournalTable.userId, ledgerJournalTable.type);
+	for (const row of movements) {
+		if (!row.userId) continue;
+		const source = sourceFor(row.userId);
+		const amount = Number(row.amount);
+		if (row.type === "DEPOSIT") source.deposits += amount;
+		else if (row.type === "BET") source.bets += amount;
+		else source.wins += amount;
+	}
+
+	const reversals = await db
+		.select({
+			userId: ledgerJournalTable.userId,
+			wagered: sql<string>`coalesce(sum((${ledgerJournalTable.metadata}->>'reversedWagered')::int), 0)`,
+			won: sql<string>`coalesce(sum((${ledgerJournalTable.metadata}->>'reversedWon')::int), 0)`,
+		})
+		.from(ledgerJournalTable)
+		.where(
+			and(
+				inArray(ledgerJournalTable.userId, userIds),
+				sql`${ledgerJournalTable.metadata}->>'reversedWagered' is not null`,
+			),
+		)
+		.groupBy(ledgerJournalTable.userId);
+	for (const row of reversals) {
+		if (!row.userId) continue;
+		const source = sourceFor(row.userId);
+		source.reversedWagered += Number(row.wagered);
+		source.reversedWon += Number(row.won);
+	}
+
+	const withdrawals = await db
+		.select({
+			userId: transactionLogTable.userId,
+			amount: sql<string>`coalesce(sum(${transactionLogTable.wagerAmount}), 0)`,
+		})
+		.from(transactionLogTable)
+		.where(
+			and(
+				inArray(transactionLogTable.userId, userIds),
+				eq(transactionLogTable.type, "WITHDRAWAL"),
+				eq(transactionLogTable.status, "COMPLETED"),
+			),
+		)
+		.groupBy(transactionLogTable.userId);
+	for (const row of withdrawals) {
+		sourceFor(row.userId).withdrawals += Number(row.amount);
+	}
+
+	return sources;
+}
+
+/**
+ * Replay a drifting user's journals to find where the drift appeared, and collect the transaction
+ * log entries that belong to the same rounds, deposits and withdrawals
+ */
+async function traceDrift(userId: string): Promise<{ driftPoints: DriftPoint[]; transactionIds: string[] }> {
+	const rows = await db
+		.select({
+			id: ledgerJournalTable.id,
+			type: ledgerJournalTable.type,
+			relatedId: ledgerJournalTable.relatedId,
+			realBalanceAfter: ledgerJournalTable.realBalanceAfter,
+			bonusBalanceAfter: ledgerJournalTable.bonusBalanceAfter,
+			realDelta: sql<string>`coalesce(sum(${ledgerEntryTable.amount}) filter (where ${ledgerAccountTable.type} = 'PLAYER_REAL'), 0)`,
+			bonusDelta: sql<string>`coalesce(sum(${ledgerEntryTable.amount}) filter (where ${ledgerAccountTable.type} = 'PLAYER_BONUS'), 0)`,
+		})
+		.from(ledgerJournalTable)
+		.innerJoin(ledgerEntryTable, eq(ledgerEntryTable.journalId, ledgerJournalTable.id))
+		.innerJoin(
+			ledgerAccountTable,
+			and(eq(ledgerEntryTable.accountId, ledgerAccountTable.id), eq(ledgerAccountTable.ownerId, userId)),
+		)
+		.where(eq(ledgerJournalTable.userId, userId))
+		.groupBy(ledgerJournalTable.id)
+		.orderBy(asc(ledgerJournalTable.sequence));
+
+	const journals: JournalReplayRow[] = rows.map((row) => ({
+		...row,
+		realDelta: Number(row.realDelta),
+		bonusDelta: Number(row.bonusDelta),
+	}));
+	const driftPoints = locateDriftPoints(journals);
+
+	// transactions.related_id is a uuid column; jackpot and other text references cannot match it
+	const relatedIds = driftPoints
+		.map((point) => point.relatedId)
+		.filter((id): id is string => id !== null && z.uuid().safeParse(id).success);
+	const transactions =
+		relatedIds.length > 0
+			? await db
+					.select({ id: transactionLogTable.id })
+					.from(transactionLogTable)
+					.where(and(eq(transactionLogTable.userId, userId), inArray(transactionLogTable.relatedId, relatedIds)))
+			: [];
+
+	return { driftPoints, transactionIds: transactions.map((transaction) => transaction.id) };
+}
+
+async function reconcileUserBatch(balances: (typeof userBalanceTable.$inferSelect)[]): Promise<UserReconciliation[]> {
+	const userIds = balances.map((balance) => balance.userId);
+	const ledger = await getPlayerLedgerBalances(userIds);
+	const sources = await loadCounterSources(userIds);
+
+	const results: UserReconciliation[] = [];
+	for (const balance of balances) {
+		const drift = compareBalanceProjection(balance, ledger.get(balance.userId) ?? { realBalance: 0, bonusBalance: 0 });
+		const counters = compareCounters(
+			balance,
+			expectedCounters(
+				sources.get(balance.userId) ?? {
+					deposits: 0,
+					bets: 0,
+					wins: 0,
+					reversedWagered: 0,
+					reversedWon: 0,
+					withdrawals: 0,
+				},
+			),
+		);
+		if (!drift && counters.length === 0) {
+			continue;
+		}
+
+		const trace = drift ? await traceDrift(balance.userId) : { driftPoints: [], transactionIds: [] };
+		results.push({ userId: balance.userId, balance: drift, counters, ...trace });
+	}
+	return results;
+}
+
+/**
+ * Compare each pool's current amount with a replay of its history and with its ledger account
+ */
+export async function reconcileJackpots(): Promise<JackpotReconciliation[]> {
+	const pools = await db.select().from(jackpotTable).orderBy(asc(jackpotTable.jackpotType));
+	const results: JackpotReconciliation[] = [];
+
+	for (const pool of pools) {
+		const wins = await db
+			.select({ amount: jackpotWinHistoryTable.amountWon, at: jackpotWinHistoryTable.createdAt })
+			.from(jackpotWinHistoryTable)
+			.where(eq(jackpotWinHistoryTable.jackpotType, pool.jackpotType))
+			.orderBy(asc(jackpotWinHistoryTable.createdAt));
+
+		// Contributions only need summing between wins, where the pool may have been reseeded
+		const events: JackpotHistoryEvent[] = [];
+		let from: Date | null = null;
+		for (const win of [...wins, null]) {
+			const [contributed] = await db
+				.select({ amount: sql<string>`coalesce(sum(${jackpotContributionHistoryTable.contributionAmount}), 0)` })
+				.from(jackpotContributionHistoryTable)
+				.where(
+					and(
+						eq(jackpotContributionHistoryTable.jackpotType, pool.jackpotType),
+						from ? gte(jackpotContributionHistoryTable.createdAt, from) : undefined,
+						win ? lt(jackpotContributionHistoryTable.createdAt, win.at) : undefined,
+					),
+				);
+			events.push({ kind: "CONTRIBUTION", amount: Number(contributed?.amount ?? 0), at: from ?? new Date(0) });
+			if (win) {
+				events.push({ kind: "WIN", amount: win.amount, at: win.at });
+				from = win.at;
+			}
+		}
+
+		const historyAmount = replayJackpotPool(pool.seedAmount, events);
+		const ledgerAmount = await getAccountBalance(ledgerAccounts.jackpotPool(pool.jackpotType));
+		results.push({
+			jackpotType: pool.jackpotType,
+			currentAmount: pool.currentAmount,
+			historyAmount,
+			historyDrift: pool.currentAmount - historyAmount,
+			ledgerAmount,
+			ledgerDrift: pool.currentAmount - ledgerAmount,
+		});
+	}
+	return results;
+}
+
+/**
+ * Reconcile every user's balance (or one user's) and optionally the jackpot pools
+ */
+export async function reconcileBalances(options: ReconciliationOptions = {}): Promise<ReconciliationReport> {
+	const context = createOperationContext({ domain: "ledger", operation: "reconcileBalances", userId: options.userId });
+
+	const drifting: UserReconciliation[] = [];
+	let processed = 0;
+	let lastUserId: string | null = null;
+	while (true) {
+		const balances = await db
+			.select()
+			.from(userBalanceTable)
+			.where(
+				and(
+					options.userId ? eq(userBalanceTable.userId, options.userId) : undefined,
+					lastUserId ? gt(userBalanceTable.userId, lastUserId) : undefined,
+				),
+			)
+			.orderBy(asc(userBalanceTable.userId))
+			.limit(BATCH_SIZE);
+		if (balances.length === 0) break;
+
+		processed += balances.length;
+		drifting.push(...(await reconcileUserBatch(balances)));
+		lastUserId = balances.at(-1)?.userId ?? null;
+		if (balances.length < BATCH_SIZE) break;
+	}
+
+	const report: ReconciliationReport = {
+		processed,
+		usersWithDrift: drifting.length,
+		users: drifting.slice(0, MAX_REPORTED_USERS),
+		truncated: drifting.length > MAX_REPORTED_USERS,
+	};
+
+	if (options.includeJackpots) {
+		report.jackpots = await reconcileJackpots();
+		report.jackpotsWithDrift = report.jackpots.filter(
+			(pool) => pool.historyDrift !== 0 || pool.ledgerDrift !== 0,
+		).length;
+	}
+
+	if (report.usersWithDrift > 0 || (report.jackpotsWithDrift ?? 0) > 0) {
+		appLogger.warn("Reconciliation found drift", context, {
+			processed,
+			usersWithDrift: report.usersWithDrift,
+			jackpotsWithDrift: report.jackpotsWithDrift,
+		});
+	}
+	return report;
+}
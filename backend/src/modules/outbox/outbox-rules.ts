@@ -0,0 +1,33 @@
+/**
+ * Outbox rules
+ * Retry scheduling for outbox delivery, kept free of the database.
+ */
+
+export interface OutboxRetryPolicy {
+	maxAttempts: number; // Attempts before an event is dead-lettered
+	baseDelayMs: number; // Delay after the first failure, doubled on each further failure
+	maxDelayMs: number;
+}
+
+export const DEFAULT_OUTBOX_RETRY_POLICY: OutboxRetryPolicy = {
+	maxAttempts: 8,
+	baseDelayMs: 5_000,
+	maxDelayMs: 60 * 60 * 1000,
+};
+
+export type OutboxAttemptPlan = { status: "PENDING"; retryInMs: number } | { status: "DEAD" };
+
+/**
+ * What to do after a failed attempt: retry with exponential backoff, or dead-letter the event
+ * once it has used up its attempts
+ */
+export function planNextAttempt(
+	attempts: number,
+	policy: OutboxRetryPolicy = DEFAULT_OUTBOX_RETRY_POLICY,
+): OutboxAttemptPlan {
+	if (attempts >= policy.maxAttempts) {
+		return { status: "DEAD" };
+	}
+	const retryInMs = Math.min(policy.baseDelayMs * 2 ** Math.max(0, attempts - 1), policy.maxDelayMs);
+	return { status: "PENDING", retryInMs };
+}
@@ -0,0 +1,211 @@
+import { type DbTransaction, db } from "@/core/database/db";
+import { type OutboxEvent, listenerReceiptTable, outboxEventTable } from "@/core/database/schema";
+import { and, asc, desc, eq, inArray, lte, sql } from "drizzle-orm";
+import type { PgUpdateSetSource } from "drizzle-orm/pg-core";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+import type { DomainEventMap, DomainEventType } from "@/modules/events/domain-events";
+import { domainEvents } from "@/modules/events/event-bus";
+import { DEFAULT_OUTBOX_RETRY_POLICY, planNextAttempt } from "./outbox-rules";
+
+/**
+ * Transactional outbox
+ * Domain events are written in the same transaction as the change that caused them, then published
+ * on the event bus. The results of listeners that succeeded are stored with the event, so a retry
+ * only reruns the ones that failed or were held back (at-least-once per listener).
+ */
+
+export interface OutboxEventInput<K extends DomainEventType> {
+	eventType: K;
+	aggregateId?: string;
+	userId?: string;
+	payload: DomainEventMap[K];
+}
+
+export type OutboxErrorCode = "EVENT_NOT_FOUND" | "INVALID_STATUS";
+
+export class OutboxError extends Error {
+	constructor(
+		public readonly code: OutboxErrorCode,
+		message: string,
+	) {
+		super(message);
+		this.name = "OutboxError";
+	}
+}
+
+/** How long a claimed event is hidden from other dispatchers while it is delivered */
+const CLAIM_LEASE_MS = 60_000;
+const DISPATCH_BATCH_SIZE = 50;
+
+/**
+ * Write an event inside the caller's transaction. Returns the event id.
+ */
+export async function enqueueOutboxEvent<K extends DomainEventType>(
+	tx: DbTransaction,
+	input: OutboxEventInput<K>,
+): Promise<string> {
+	const [event] = await tx
+		.insert(outboxEventTable)
+		.values({
+			eventType: input.eventType,
+			aggregateId: input.aggregateId,
+			userId: input.userId,
+			payload: input.payload,
+		})
+		.returning({ id: outboxEventTable.id });
+	return event.id as string;
+}
+
+/**
+ * Record inside a listener's transaction that it applied the event named by eventKey.
+ * Returns false when it already had; the listener should then change nothing.
+ */
+export async function claimListenerReceipt(tx: DbTransaction, listener: string, eventKey: string): Promise<boolean> {
+	const claimed = await tx
+		.insert(listenerReceiptTable)
+		.values({ listener, eventKey })
+		.onConflictDoNothing()
+		.returning({ id: listenerReceiptTable.id });
+	return claimed.length > 0;
+}
+
+/**
+ * Take a due event for delivery. Only one caller can win the claim; the lease hides the event
+ * until it expires, so an event abandoned by a crashed process is picked up again.
+ */
+async function claimOutboxEvent(eventId: string): Promise<OutboxEvent | null> {
+	const [event] = await db
+		.update(outboxEventTable)
+		.set({
+			attempts: sql`${outboxEventTable.attempts} + 1`,
+			nextAttemptAt: sql`now() + ${CLAIM_LEASE_MS} * interval '1 millisecond'`,
+			updatedAt: new Date(),
+		})
+		.where(
+			and(
+				eq(outboxEventTable.id, eventId),
+				eq(outboxEventTable.status, "PENDING"),
+				lte(outboxEventTable.nextAttemptAt, sql`now()`),
+			),
+		)
+		.returning();
+	return (event as OutboxEvent | undefined) ?? null;
+}
+
+/**
+ * Deliver one event now if it is due. Returns the event as it was left, or null when it was not
+ * due or another dispatcher holds it.
+ */
+export async function deliverOutboxEvent(eventId: string): Promise<OutboxEvent | null> {
+	const event = await claimOutboxEvent(eventId);
+	if (!event) {
+		return null;
+	}
+
+	const { results, failures } = await domainEvents.publish(
+		event.eventType as DomainEventType,
+		event.payload as DomainEventMap[DomainEventType],
+		(event.results as Record<string, unknown> | null) ?? {},
+	);
+	const errors = failures.map((failure) => `${failure.listener}: ${failure.error}`);
+
+	let update: PgUpdateSetSource<typeof outboxEventTable>;
+	if (errors.length === 0) {
+		update = { status: "DELIVERED", results, lastError: null, deliveredAt: new Date() };
+	} else {
+		const plan = planNextAttempt(event.attempts, DEFAULT_OUTBOX_RETRY_POLICY);
+		update =
+			plan.status === "DEAD"
+				? { status: "DEAD", results, lastError: errors.join("; ") }
+				: {
+						results,
+						lastError: errors.join("; "),
+						nextAttemptAt: sql`now() + ${plan.retryInMs} * interval '1 millisecond'`,
+					};
+
+		const context = createOperationContext({
+			domain: "outbox",
+			operation: "deliverOutboxEvent",
+			userId: event.userId ?? undefined,
+		});
+		appLogger.warn(
+			plan.status === "DEAD" ? "Outbox event dead-lettered" : "Outbox delivery failed, will retry",
+			context,
+			{ eventId, eventType: event.eventType, attempts: event.attempts, errors },
+		);
+	}
+
+	const [updated] = await db
+		.update(outboxEventTable)
+		.set({ ...update, updatedAt: new Date() })
+		.where(eq(outboxEventTable.id, eventId))
+		.returning();
+	return updated as OutboxEvent;
+}
+
+/**
+ * Deliver due events, oldest first
+ */
+export async function dispatchOutbox(
+	limit = DISPATCH_BATCH_SIZE,
+): Promise<{ processed: number; delivered: number; failed: number; dead: number }> {
+	const due = await db
+		.select({ id: outboxEventTable.id })
+		.from(outboxEventTable)
+		.where(and(eq(outboxEventTable.status, "PENDING"), lte(outboxEventTable.nextAttemptAt, sql`now()`)))
+		.orderBy(asc(outboxEventTable.nextAttemptAt))
+		.limit(limit);
+
+	const summary = { processed: 0, delivered: 0, failed: 0, dead: 0 };
+	for (const { id } of due) {
+		const event = await deliverOutboxEvent(id);
+		if (!event) continue;
+
+		summary.processed++;
+		if (event.status === "DELIVERED") summary.delivered++;
+		else if (event.status === "DEAD") summary.dead++;
+		else summary.failed++;
+	}
+	return summary;
+}
+
+/**
+ * Put a dead-lettered (or waiting) event back in the queue with fresh attempts and deliver it.
+ * Listeners that already succeeded are not run again.
+ */
+export async function replayOutboxEvent(eventId: string): Promise<OutboxEvent> {
+	const [reset] = await db
+		.update(outboxEventTable)
+		.set({ status: "PENDING", attempts: 0, nextAttemptAt: sql`now()`, updatedAt: new Date() })
+		.where(and(eq(outboxEventTable.id, eventId), inArray(outboxEventTable.status, ["PENDING", "DEAD"])))
+		.returning({ id: outboxEventTable.id });
+
+	if (!reset) {
+		const [existing] = await db
+			.select({ status: outboxEventTable.status })
+			.from(outboxEventTable)
+			.where(eq(outboxEventTable.id, eventId));
+		if (!existing) {
+			throw new OutboxError("EVENT_NOT_FOUND", `Outbox event ${eventId} not found`);
+		}
+		throw new OutboxError("INVALID_STATUS", `Outbox event ${eventId} is ${existing.status}`);
+	}
+
+	const delivered = await deliverOutboxEvent(eventId);
+	if (delivered) {
+		return delivered;
+	}
+	// Another dispatcher claimed it between the reset and the delivery
+	const [current] = await db.select().from(outboxEventTable).where(eq(outboxEventTable.id, eventId));
+	return current as OutboxEvent;
+}
+
+export async function getOutboxEvents(status?: OutboxEvent["status"], limit = 50, offset = 0): Promise<OutboxEvent[]> {
+	return db
+		.select()
+		.from(outboxEventTable)
+		.where(status ? eq(outboxEventTable.status, status) : undefined)
+		.orderBy(desc(outboxEventTable.createdAt))
+		.limit(limit)
+		.offset(offset) as Promise<OutboxEvent[]>;
+}
@@ -0,0 +1,85 @@
+import type { WebhookConfirmation } from "../gameplay/orchestrators/deposit.orchestrator";
+
+/**
+ * Payment providers
+ * Each PaymentMethod is served by an adapter implementing PaymentProvider. Adapters are registered
+ * per operator (see payment-registry.ts) and own everything method specific: the instructions shown
+ * to the player, webhook signatures and payload format, status lookups and refunds.
+ */
+
+export enum PaymentMethod {
+	CASHAPP = "CASHAPP",
+	INSTORE_CASH = "INSTORE_CASH",
+	INSTORE_CARD = "INSTORE_CARD",
+}
+
+export interface PaymentIntentRequest {
+	depositId: string;
+	userId: string;
+	amount: number; // Amount in cents
+	currency?: string;
+}
+
+export interface PaymentIntent {
+	providerReference: string; // Provider's id for the payment
+	referenceId: string; // Reference the player quotes when paying
+	instructions: string;
+	expiresAt?: Date;
+}
+
+export interface PaymentWebhookRequest {
+	rawBody: string;
+	headers: Record<string, string | undefined>;
+}
+
+export type PaymentWebhookEvent =
+	| { type: "confirmed"; confirmation: WebhookConfirmation }
+	| { type: "failed"; depositId: string; userId: string; reason: string };
+
+export type PaymentStatus = "PENDING" | "COMPLETED" | "FAILED" | "REFUNDED" | "UNKNOWN";
+
+export interface PaymentStatusResult {
+	providerReference: string;
+	status: PaymentStatus;
+	amount?: number;
+}
+
+export interface RefundResult {
+	status: "COMPLETED" | "PENDING_MANUAL" | "FAILED";
+	refundReference?: string;
+	error?: string;
+}
+
+export interface PaymentProvider {
+	readonly name: string;
+	readonly method: PaymentMethod;
+	createIntent(request: PaymentIntentRequest): Promise<PaymentIntent>;
+	/** Verify a webhook's authenticity and translate it into a deposit event */
+	parseWebhook(request: PaymentWebhookRequest): Promise<PaymentWebhookEvent>;
+	getStatus(providerReference: string): Promise<PaymentStatusResult>;
+	refund(providerReference: string, amount: number): Promise<RefundResult>;
+}
+
+export type PaymentProviderErrorCode =
+	| "PROVIDER_NOT_FOUND"
+	| "INVALID_SIGNATURE"
+	| "INVALID_PAYLOAD"
+	| "PROVIDER_ERROR";
+
+export class PaymentProviderError extends Error {
+	constructor(
+		public readonly code: PaymentProviderErrorCode,
+		message: string,
+	) {
+		super(message);
+		this.name = "PaymentProviderError";
+	}
+}
+
+export function formatAmount(amount: number): string {
+	return (amount / 100).toFixed(2);
+}
+
+export function generateReferenceId(prefix: string): string {
+	return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
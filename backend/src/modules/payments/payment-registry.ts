@@ -0,0 +1,68 @@
+import { type PaymentProvider, PaymentMethod, PaymentProviderError } from "./payment-provider";
+import { CashAppProvider } from "./providers/cashapp.provider";
+import { InStoreProvider } from "./providers/instore.provider";
+
+/** Providers registered under this key serve operators without their own adapter for a method */
+export const DEFAULT_OPERATOR = "default";
+
+export class PaymentProviderRegistry {
+	private readonly providers = new Map<string, Map<PaymentMethod, PaymentProvider>>();
+
+	register(provider: PaymentProvider, operatorId: string = DEFAULT_OPERATOR): void {
+		let operatorProviders = this.providers.get(operatorId);
+		if (!operatorProviders) {
+			operatorProviders = new Map();
+			this.providers.set(operatorId, operatorProviders);
+		}
+		operatorProviders.set(provider.method, provider);
+	}
+
+	unregister(method: PaymentMethod, operatorId: string = DEFAULT_OPERATOR): void {
+		this.providers.get(operatorId)?.delete(method);
+	}
+
+	/**
+	 * Provider for a method, preferring the operator's own adapter over the default one
+	 */
+	get(method: PaymentMethod, operatorId?: string | null): PaymentProvider {
+		const provider =
+			(operatorId ? this.providers.get(operatorId)?.get(method) : undefined) ??
+			this.providers.get(DEFAULT_OPERATOR)?.get(method);
+		if (!provider) {
+			throw new PaymentProviderError("PROVIDER_NOT_FOUND", `No payment provider registered for ${method}`);
+		}
+		return provider;
+	}
+
+	methods(operatorId?: string | null): PaymentMethod[] {
+		const available = new Set<PaymentMethod>(this.providers.get(DEFAULT_OPERATOR)?.keys() ?? []);
+		if (operatorId) {
+			for (const method of this.providers.get(operatorId)?.keys() ?? []) {
+				available.add(method);
+			}
+		}
+		return [...available];
+	}
+
+	clear(): void {
+		this.providers.clear();
+	}
+}
+
+export const paymentProviders = new PaymentProviderRegistry();
+
+/**
+ * Register the platform's adapters as the default for every method, configured from the environment
+ */
+export function registerDefaultPaymentProviders(registry: PaymentProviderRegistry = paymentProviders): void {
+	const webhookSecret = process.env.PAYMENT_WEBHOOK_SECRET ?? "";
+
+	registry.register(
+		new CashAppProvider({
+			cashtag: process.env.CASHAPP_TAG ?? "",
+			webhookSecret: process.env.CASHAPP_WEBHOOK_SECRET ?? webhookSecret,
+		}),
+	);
+	registry.register(new InStoreProvider({ method: PaymentMethod.INSTORE_CASH, webhookSecret }));
+	registry.register(new InStoreProvider({ method: PaymentMethod.INSTORE_CARD, webhookSecret }));
+}
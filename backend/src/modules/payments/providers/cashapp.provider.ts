@@ -0,0 +1,51 @@
+import {
+	type PaymentIntent,
+	type PaymentIntentRequest,
+	type PaymentProvider,
+	type PaymentStatusResult,
+	type PaymentWebhookEvent,
+	type PaymentWebhookRequest,
+	type RefundResult,
+	PaymentMethod,
+	formatAmount,
+	generateReferenceId,
+} from "../payment-provider";
+import { parseSignedWebhook } from "../webhook-signature";
+
+export interface CashAppProviderConfig {
+	cashtag: string; // e.g. "$casino"
+	webhookSecret: string;
+}
+
+/**
+ * CashApp: the player sends money to the operator's $cashtag quoting a reference.
+ * The payment monitor posts a signed webhook once the transfer lands; refunds are sent back by hand.
+ */
+export class CashAppProvider implements PaymentProvider {
+	readonly name = "cashapp";
+	readonly method = PaymentMethod.CASHAPP;
+
+	constructor(private readonly config: CashAppProviderConfig) {}
+
+	async createIntent(request: PaymentIntentRequest): Promise<PaymentIntent> {
+		const referenceId = generateReferenceId("DEP");
+		return {
+			providerReference: referenceId,
+			referenceId,
+			instructions: `Send $${formatAmount(request.amount)} via CashApp to ${this.config.cashtag}. Include reference: ${referenceId}`,
+		};
+	}
+
+	async parseWebhook(request: PaymentWebhookRequest): Promise<PaymentWebhookEvent> {
+		return parseSignedWebhook(request, this.config.webhookSecret);
+	}
+
+	async getStatus(providerReference: string): Promise<PaymentStatusResult> {
+		// CashApp offers no lookup for personal transfers; status arrives through webhooks only
+		return { providerReference, status: "UNKNOWN" };
+	}
+
+	async refund(_providerReference: string, _amount: number): Promise<RefundResult> {
+		return { status: "PENDING_MANUAL" };
+	}
+}
@@ -0,0 +1,121 @@
+import {
+	type PaymentIntent,
+	type PaymentIntentRequest,
+	type PaymentProvider,
+	type PaymentStatus,
+	type PaymentStatusResult,
+	type PaymentWebhookEvent,
+	type PaymentWebhookRequest,
+	type RefundResult,
+	PaymentMethod,
+	PaymentProviderError,
+	generateReferenceId,
+} from "../payment-provider";
+import {
+	type SignedWebhookPayload,
+	WEBHOOK_SIGNATURE_HEADER,
+	parseSignedWebhook,
+	signWebhookPayload,
+} from "../webhook-signature";
+
+interface FakePayment {
+	request: PaymentIntentRequest;
+	status: PaymentStatus;
+	refunded: number;
+}
+
+/**
+ * In-memory provider for local runs and tests.
+ * simulateConfirmation/simulateFailure produce signed webhooks exactly as a real provider would,
+ * so they can be fed to parseWebhook or posted to the webhook route.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+	readonly name = "fake";
+	private readonly payments = new Map<string, FakePayment>();
+
+	constructor(
+		readonly method: PaymentMethod = PaymentMethod.CASHAPP,
+		private readonly webhookSecret = "fake-webhook-secret",
+	) {}
+
+	async createIntent(request: PaymentIntentRequest): Promise<PaymentIntent> {
+		const providerReference = generateReferenceId("FAKE");
+		this.payments.set(providerReference, { request, status: "PENDING", refunded: 0 });
+		return {
+			providerReference,
+			referenceId: providerReference,
+			instructions: `Fake payment of ${request.amount} cents. Reference: ${providerReference}`,
+		};
+	}
+
+	async parseWebhook(request: PaymentWebhookRequest): Promise<PaymentWebhookEvent> {
+		return parseSignedWebhook(request, this.webhookSecret);
+	}
+
+	async getStatus(providerReference: string): Promise<PaymentStatusResult> {
+		const payment = this.payments.get(providerReference);
+		return {
+			providerReference,
+			status: payment?.status ?? "UNKNOWN",
+			amount: payment?.request.amount,
+		};
+	}
+
+	async refund(providerReference: string, amount: number): Promise<RefundResult> {
+		const payment = this.requirePayment(providerReference);
+		if (payment.status !== "COMPLETED" || payment.refunded + amount > payment.request.amount) {
+			return { status: "FAILED", error: "Nothing refundable for this payment" };
+		}
+
+		payment.refunded += amount;
+		if (payment.refunded === payment.request.amount) {
+			payment.status = "REFUNDED";
+		}
+		return { status: "COMPLETED", refundReference: generateReferenceId("FAKE_REFUND") };
+	}
+
+	/**
+	 * Mark a payment as paid and return the webhook the provider would send. amount defaults to the intent amount;
+	 * each call is a new provider transaction, so send the same request twice to simulate a replay.
+	 */
+	simulateConfirmation(providerReference: string, amount?: number): PaymentWebhookRequest {
+		const payment = this.requirePayment(providerReference);
+		payment.status = "COMPLETED";
+		return this.buildWebhook({
+			event: "payment.completed",
+			transactionId: payment.request.depositId,
+			providerTransactionId: generateReferenceId("FAKE_TX"),
+			userId: payment.request.userId,
+			amount: amount ?? payment.request.amount,
+			timestamp: new Date().toISOString(),
+			providerData: { providerReference },
+		});
+	}
+
+	simulateFailure(providerReference: string, reason = "Payment declined"): PaymentWebhookRequest {
+		const payment = this.requirePayment(providerReference);
+		payment.status = "FAILED";
+		return this.buildWebhook({
+			event: "payment.failed",
+			transactionId: payment.request.depositId,
+			userId: payment.request.userId,
+			amount: payment.request.amount,
+			reason,
+			timestamp: new Date().toISOString(),
+			providerData: { providerReference },
+		});
+	}
+
+	private buildWebhook(payload: SignedWebhookPayload): PaymentWebhookRequest {
+		const rawBody = JSON.stringify(payload);
+		return { rawBody, headers: { [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(rawBody, this.webhookSecret) } };
+	}
+
+	private requirePayment(providerReference: string): FakePayment {
+		const payment = this.payments.get(providerReference);
+		if (!payment) {
+			throw new PaymentProviderError("PROVIDER_ERROR", `Unknown fake payment ${providerReference}`);
+		}
+		return payment;
+	}
+}
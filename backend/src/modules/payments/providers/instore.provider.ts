@@ -0,0 +1,54 @@
+import {
+	type PaymentIntent,
+	type PaymentIntentRequest,
+	type PaymentProvider,
+	type PaymentStatusResult,
+	type PaymentWebhookEvent,
+	type PaymentWebhookRequest,
+	type RefundResult,
+	PaymentMethod,
+	formatAmount,
+	generateReferenceId,
+} from "../payment-provider";
+import { parseSignedWebhook } from "../webhook-signature";
+
+export interface InStoreProviderConfig {
+	method: PaymentMethod.INSTORE_CASH | PaymentMethod.INSTORE_CARD;
+	webhookSecret: string;
+}
+
+/**
+ * In-store payments: the player pays at a participating location quoting a reference.
+ * The store terminal posts a signed webhook; refunds are handed out at the counter.
+ */
+export class InStoreProvider implements PaymentProvider {
+	readonly name: string;
+	readonly method: PaymentMethod;
+
+	constructor(private readonly config: InStoreProviderConfig) {
+		this.method = config.method;
+		this.name = config.method === PaymentMethod.INSTORE_CASH ? "instore-cash" : "instore-card";
+	}
+
+	async createIntent(request: PaymentIntentRequest): Promise<PaymentIntent> {
+		const referenceId = generateReferenceId("DEP");
+		const tender = this.method === PaymentMethod.INSTORE_CASH ? "in cash" : "by card";
+		return {
+			providerReference: referenceId,
+			referenceId,
+			instructions: `Visit any participating store location and provide reference: ${referenceId}. Pay $${formatAmount(request.amount)} ${tender}.`,
+		};
+	}
+
+	async parseWebhook(request: PaymentWebhookRequest): Promise<PaymentWebhookEvent> {
+		return parseSignedWebhook(request, this.config.webhookSecret);
+	}
+
+	async getStatus(providerReference: string): Promise<PaymentStatusResult> {
+		return { providerReference, status: "UNKNOWN" };
+	}
+
+	async refund(_providerReference: string, _amount: number): Promise<RefundResult> {
+		return { status: "PENDING_MANUAL" };
+	}
+}
@@ -0,0 +1,73 @@
+import * as crypto from "node:crypto";
+import { z } from "zod";
+import { type PaymentWebhookEvent, type PaymentWebhookRequest, PaymentProviderError } from "./payment-provider";
+
+/**
+ * Signed JSON webhooks
+ * The body is signed with HMAC-SHA256 and the hex digest sent in the x-webhook-signature header,
+ * optionally prefixed with "sha256=".
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = "x-webhook-signature";
+
+export const signedWebhookPayloadSchema = z.object({
+	event: z.enum(["payment.completed", "payment.failed"]).default("payment.completed"),
+	transactionId: z.uuid(), // Deposit id
+	providerTransactionId: z.string().min(1).optional(),
+	userId: z.uuid(),
+	amount: z.number().int().positive(),
+	senderInfo: z.string().optional(),
+	reason: z.string().optional(),
+	timestamp: z.coerce.date(),
+	providerData: z.record(z.string(), z.unknown()).optional(),
+});
+export type SignedWebhookPayload = z.input<typeof signedWebhookPayloadSchema>;
+
+export function signWebhookPayload(rawBody: string, secret: string): string {
+	return crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+}
+
+export function verifyWebhookSignature(rawBody: string, signature: string | undefined, secret: string): boolean {
+	if (!signature || !secret) {
+		return false;
+	}
+
+	const expected = Buffer.from(signWebhookPayload(rawBody, secret), "hex");
+	const provided = Buffer.from(signature.replace(/^sha256=/, ""), "hex");
+
+	return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
+
+/**
+ * Verify and parse a signed webhook into a deposit event
+ */
+export function parseSignedWebhook(request: PaymentWebhookRequest, secret: string): PaymentWebhookEvent {
+	if (!verifyWebhookSignature(request.rawBody, request.headers[WEBHOOK_SIGNATURE_HEADER], secret)) {
+		throw new PaymentProviderError("INVALID_SIGNATURE", "Invalid webhook signature");
+	}
+
+	let body: unknown;
+	try {
+		body = JSON.parse(request.rawBody);
+	} catch {
+		throw new PaymentProviderError("INVALID_PAYLOAD", "Webhook body is not valid JSON");
+	}
+
+	const parsed = signedWebhookPayloadSchema.safeParse(body);
+	if (!parsed.success) {
+		throw new PaymentProviderError("INVALID_PAYLOAD", `Invalid webhook payload: ${parsed.error.message}`);
+	}
+
+	const { event, reason, ...confirmation } = parsed.data;
+	if (event === "payment.failed") {
+		return {
+			type: "failed",
+			depositId: confirmation.transactionId,
+			userId: confirmation.userId,
+			reason: reason ?? "Payment failed",
+		};
+	}
+	// The body digest recognises a replayed confirmation that carries no providerTransactionId
+	const payloadDigest = crypto.createHash("sha256").update(request.rawBody).digest("hex");
+	return { type: "confirmed", confirmation: { ...confirmation, payloadDigest } };
+}
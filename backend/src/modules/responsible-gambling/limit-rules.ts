@@ -0,0 +1,214 @@
+import type { PlayerExclusion, PlayerLimit } from "@/core/database/schema";
+
+/**
+ * Player limit rules
+ * Pure calculations behind responsible-gambling limits: which amount is in force, how a requested
+ * change is applied, the period a limit counts over and whether an exclusion is running.
+ */
+
+export type PlayerLimitType = PlayerLimit["type"];
+export type PlayerLimitPeriod = NonNullable<PlayerLimit["period"]>;
+export type PlayerExclusionType = PlayerExclusion["type"];
+
+export type PlayerLimitState = Pick<PlayerLimit, "type" | "period" | "amount" | "pendingAmount" | "pendingEffectiveAt">;
+
+export interface ResponsibleGamblingConfig {
+	increaseDelayHours: number;
+	minCoolOffHours: number;
+	maxCoolOffDays: number;
+	minSelfExclusionDays: number;
+	sessionBreakMinutes: number; // Play resumed after a shorter break continues the same session for SESSION_TIME limits
+}
+
+export type LimitChangePlan =
+	| { kind: "IMMEDIATE"; amount: number } // A new limit or a decrease
+	| { kind: "SCHEDULED"; amount: number | null; effectiveAt: Date } // An increase, or a removal when amount is null
+	| { kind: "UNCHANGED" };
+
+export interface PlaySpan {
+	startedAt: Date;
+	endedAt: Date; // now for a session that is still running
+}
+
+export interface LimitBreach {
+	type: PlayerLimitType;
+	period: PlayerLimitPeriod | null;
+	limit: number;
+	used: number;
+}
+
+const DEFAULT_RESPONSIBLE_GAMBLING_CONFIG: ResponsibleGamblingConfig = {
+	increaseDelayHours: 24,
+	minCoolOffHours: 24,
+	maxCoolOffDays: 42,
+	minSelfExclusionDays: 180,
+	sessionBreakMinutes: 15,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Read platformSettings.responsibleGamblingConfig, falling back to defaults for missing or invalid fields
+ */
+export function resolveResponsibleGamblingConfig(raw: unknown): ResponsibleGamblingConfig {
+	const config = (raw ?? {}) as Record<string, unknown>;
+	const numberOr = (value: unknown, fallback: number) =>
+		typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : fallback;
+
+	return {
+		increaseDelayHours: numberOr(config.increaseDelayHours, DEFAULT_RESPONSIBLE_GAMBLING_CONFIG.increaseDelayHours),
+		minCoolOffHours: numberOr(config.minCoolOffHours, DEFAULT_RESPONSIBLE_GAMBLING_CONFIG.minCoolOffHours),
+		maxCoolOffDays: numberOr(config.maxCoolOffDays, DEFAULT_RESPONSIBLE_GAMBLING_CONFIG.maxCoolOffDays),
+		minSelfExclusionDays: numberOr(
+			config.minSelfExclusionDays,
+			DEFAULT_RESPONSIBLE_GAMBLING_CONFIG.minSelfExclusionDays,
+		),
+		sessionBreakMinutes: numberOr(config.sessionBreakMinutes, DEFAULT_RESPONSIBLE_GAMBLING_CONFIG.sessionBreakMinutes),
+	};
+}
+
+/**
+ * How a requested limit is applied. Anything that makes the player safer applies straight away;
+ * raising or removing a limit waits increaseDelayHours. Asking for the amount already in force
+ * cancels a pending change.
+ */
+export function planLimitChange(
+	current: number | null,
+	requested: number | null,
+	now: Date,
+	config: ResponsibleGamblingConfig,
+): LimitChangePlan {
+	if (requested === current) {
+		return { kind: "UNCHANGED" };
+	}
+	if (requested !== null && (current === null || requested < current)) {
+		return { kind: "IMMEDIATE", amount: requested };
+	}
+	return {
+		kind: "SCHEDULED",
+		amount: requested,
+		effectiveAt: new Date(now.getTime() + config.increaseDelayHours * HOUR_MS),
+	};
+}
+
+/**
+ * Amount in force at `now`: the pending amount once its delay has passed, otherwise the current one.
+ * null when a scheduled removal has taken effect.
+ */
+export function effectiveLimitAmount(limit: PlayerLimitState, now: Date): number | null {
+	if (limit.pendingEffectiveAt && limit.pendingEffectiveAt.getTime() <= now.getTime()) {
+		return limit.pendingAmount;
+	}
+	return limit.amount;
+}
+
+/**
+ * Start of the UTC day, ISO week (Monday) or month that contains `now`
+ */
+export function periodStart(period: PlayerLimitPeriod, now: Date): Date {
+	const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+	if (period === "WEEKLY") {
+		start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+	} else if (period === "MONTHLY") {
+		start.setUTCDate(1);
+	}
+	return start;
+}
+
+/**
+ * The first limit of `type` that adding `amount` to what was already used in its period would pass, or null.
+ * usedInPeriod returns the amount already counted for a period (null for SESSION_TIME).
+ */
+export function findLimitBreach(
+	limits: PlayerLimitState[],
+	type: PlayerLimitType,
+	amount: number,
+	usedInPeriod: (period: PlayerLimitPeriod | null) => number,
+	now: Date,
+): LimitBreach | null {
+	for (const limit of limits) {
+		if (limit.type !== type) continue;
+		const effective = effectiveLimitAmount(limit, now);
+		if (effective === null) continue;
+
+		const used = usedInPeriod(limit.period);
+		if (used + amount > effective) {
+			return { type, period: limit.period, limit: effective, used };
+		}
+	}
+	return null;
+}
+
+/**
+ * Whole minutes the player has been playing without a break of breakMinutes, across games and sessions.
+ * 0 when the last session ended at least breakMinutes ago.
+ */
+export function continuousPlayMinutes(spans: PlaySpan[], now: Date, breakMinutes: number): number {
+	const breakMs = breakMinutes * 60 * 1000;
+	const latestFirst = [...spans].sort((a, b) => b.endedAt.getTime() - a.endedAt.getTime());
+	const [latest, ...earlier] = latestFirst;
+	if (!latest || now.getTime() - latest.endedAt.getTime() >= breakMs) {
+		return 0;
+	}
+
+	let streakStart = latest.startedAt.getTime();
+	for (const span of earlier) {
+		if (streakStart - span.endedAt.getTime() >= breakMs) break;
+		streakStart = Math.min(streakStart, span.startedAt.getTime());
+	}
+	return Math.max(0, Math.floor((now.getTime() - streakStart) / 60000));
+}
+
+/**
+ * The exclusion running at `now`, or null. Self-exclusion wins over cool-off, then the one that ends last.
+ */
+export function activeExclusion<T extends Pick<PlayerExclusion, "type" | "startsAt" | "endsAt">>(
+	exclusions: T[],
+	now: Date,
+): T | null {
+	const rank = (exclusion: T): [number, number] => [
+		exclusion.type === "SELF_EXCLUSION" ? 1 : 0,
+		exclusion.endsAt ? exclusion.endsAt.getTime() : Number.POSITIVE_INFINITY,
+	];
+
+	let active: T | null = null;
+	for (const exclusion of exclusions) {
+		const running =
+			exclusion.startsAt.getTime() <= now.getTime() &&
+			(!exclusion.endsAt || exclusion.endsAt.getTime() > now.getTime());
+		if (!running) continue;
+
+		const [type, end] = rank(exclusion);
+		const [activeType, activeEnd]: [number, number] = active ? rank(active) : [-1, 0];
+		if (type > activeType || (type === activeType && end > activeEnd)) {
+			active = exclusion;
+		}
+	}
+	return active;
+}
+
+/**
+ * When a cool-off of `hours` or a self-exclusion of `days` (null = indefinite) started at `now` ends.
+ * Returns undefined when the duration is outside the configured bounds.
+ */
+export function exclusionEnd(
+	type: PlayerExclusionType,
+	duration: number | null,
+	now: Date,
+	config: ResponsibleGamblingConfig,
+): Date | null | undefined {
+	if (type === "COOL_OFF") {
+		if (duration === null || duration < config.minCoolOffHours || duration > config.maxCoolOffDays * 24) {
+			return undefined;
+		}
+		return new Date(now.getTime() + duration * HOUR_MS);
+	}
+	if (duration === null) {
+		return null;
+	}
+	if (duration < config.minSelfExclusionDays) {
+		return undefined;
+	}
+	return new Date(now.getTime() + duration * DAY_MS);
+}
@@ -0,0 +1,448 @@
+import { type DbTransaction, db } from "@/core/database/db";
+import {
+	depositTable,
+	gameSessionTable,
+	type PlayerExclusion,
+	type PlayerLimit,
+	type PlayerLimitHistory,
+	playerExclusionTable,
+	playerLimitHistoryTable,
+	playerLimitTable,
+	userDailyPlayTable,
+	userTable,
+} from "@/core/database/schema";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+import { lossDay } from "@/modules/gameplay/core/loss-limit-rules";
+import { configurationManager } from "@/shared/config";
+import { and, desc, eq, gte, inArray, isNotNull, isNull, lte, or, sql } from "drizzle-orm";
+import { z } from "zod";
+import {
+	type LimitBreach,
+	type PlayerExclusionType,
+	type PlayerLimitPeriod,
+	type ResponsibleGamblingConfig,
+	activeExclusion,
+	continuousPlayMinutes,
+	exclusionEnd,
+	findLimitBreach,
+	periodStart,
+	planLimitChange,
+	resolveResponsibleGamblingConfig,
+} from "./limit-rules";
+
+/**
+ * Player limits
+ * Responsible-gambling limits and exclusions the player sets on themselves, and the checks
+ * validateBet, validateDeposit and the auth layers run against them. Every change is written
+ * to player_limit_history. Scheduled increases are applied lazily, the next time the limits are read or changed.
+ */
+
+export type PlayerLimitErrorCode = "INVALID_LIMIT" | "INVALID_DURATION";
+
+export class PlayerLimitError extends Error {
+	constructor(
+		public readonly code: PlayerLimitErrorCode,
+		message: string,
+	) {
+		super(message);
+		this.name = "PlayerLimitError";
+	}
+}
+
+export const setPlayerLimitSchema = z
+	.object({
+		type: z.enum(["DEPOSIT", "LOSS", "WAGER", "SESSION_TIME"]),
+		period: z.enum(["DAILY", "WEEKLY", "MONTHLY"]).nullable().optional(),
+		amount: z.number().int().positive().nullable(), // null removes the limit
+	})
+	.refine((limit) => (limit.type === "SESSION_TIME") === !limit.period, {
+		message: "SESSION_TIME limits have no period; every other limit needs one",
+		path: ["period"],
+	});
+export type SetPlayerLimitRequest = z.infer<typeof setPlayerLimitSchema>;
+
+export type LimitRejectionCode =
+	| "SELF_EXCLUDED"
+	| "COOLING_OFF"
+	| "DEPOSIT_LIMIT_EXCEEDED"
+	| "WAGER_LIMIT_EXCEEDED"
+	| "PLAYER_LOSS_LIMIT_EXCEEDED"
+	| "SESSION_TIME_LIMIT_REACHED";
+
+export interface LimitRejection {
+	code: LimitRejectionCode;
+	reason: string;
+}
+
+export interface PlayerLimitsView {
+	limits: Array<Pick<PlayerLimit, "type" | "period" | "amount" | "pendingAmount" | "pendingEffectiveAt">>;
+	exclusion: PlayerExclusion | null;
+}
+
+// Deposits that count towards a deposit limit: anything not failed, cancelled or expired
+const COUNTED_DEPOSIT_STATUSES = ["PENDING", "PROCESSING", "COMPLETED"] as const;
+
+/**
+ * Move scheduled changes whose delay has passed into amount, deleting removed limits
+ */
+async function applyDueLimitChanges(tx: DbTransaction, userId: string, now: Date): Promise<void> {
+	const due: PlayerLimit[] = await tx
+		.select()
+		.from(playerLimitTable)
+		.where(
+			and(
+				eq(playerLimitTable.userId, userId),
+				isNotNull(playerLimitTable.pendingEffectiveAt),
+				lte(playerLimitTable.pendingEffectiveAt, now),
+			),
+		)
+		.for("update");
+
+	for (const limit of due) {
+		if (limit.pendingAmount === null) {
+			await tx.delete(playerLimitTable).where(eq(playerLimitTable.id, limit.id));
+		} else {
+			await tx
+				.update(playerLimitTable)
+				.set({ amount: limit.pendingAmount, pendingAmount: null, pendingEffectiveAt: null, updatedAt: now })
+				.where(eq(playerLimitTable.id, limit.id));
+		}
+		await tx.insert(playerLimitHistoryTable).values({
+			userId,
+			action: limit.pendingAmount === null ? "REMOVED" : "INCREASE_APPLIED",
+			type: limit.type,
+			period: limit.period,
+			previousAmount: limit.amount,
+			newAmount: limit.pendingAmount,
+			effectiveAt: limit.pendingEffectiveAt,
+		});
+	}
+}
+
+async function loadLimits(userId: string): Promise<{ limits: PlayerLimit[]; exclusions: PlayerExclusion[] }> {
+	const now = new Date();
+	const [limits, exclusions] = await Promise.all([
+		db.select().from(playerLimitTable).where(eq(playerLimitTable.userId, userId)),
+		db
+			.select()
+			.from(playerExclusionTable)
+			.where(and(eq(playerExclusionTable.userId, userId), lte(playerExclusionTable.startsAt, now))),
+	]);
+	return { limits: limits as PlayerLimit[], exclusions: exclusions as PlayerExclusion[] };
+}
+
+/**
+ * Responsible-gambling settings of the player's operator
+ */
+async function loadResponsibleGamblingConfig(userId: string): Promise<ResponsibleGamblingConfig> {
+	const [user] = await db.select({ operatorId: userTable.operatorId }).from(userTable).where(eq(userTable.id, userId));
+	return resolveResponsibleGamblingConfig(
+		configurationManager.getConfiguration({ operatorId: user?.operatorId }).responsibleGamblingConfig,
+	);
+}
+
+export async function getPlayerLimits(userId: string): Promise<PlayerLimitsView> {
+	const now = new Date();
+	await db.transaction((tx) => applyDueLimitChanges(tx, userId, now));
+
+	const { limits, exclusions } = await loadLimits(userId);
+	return {
+		limits: limits.map(({ type, period, amount, pendingAmount, pendingEffectiveAt }) => ({
+			type,
+			period,
+			amount,
+			pendingAmount,
+			pendingEffectiveAt,
+		})),
+		exclusion: activeExclusion(exclusions, now),
+	};
+}
+
+/**
+ * Set, lower, raise or remove a limit. Lowering applies at once; raising or removing is scheduled.
+ */
+export async function setPlayerLimit(
+	userId: string,
+	request: SetPlayerLimitRequest,
+	changedBy: string = userId,
+): Promise<PlayerLimitsView> {
+	const { type, period, amount } = setPlayerLimitSchema.parse(request);
+	const config = await loadResponsibleGamblingConfig(userId);
+	const context = createOperationContext({ domain: "gameplay", operation: "setPlayerLimit", userId });
+	const now = new Date();
+
+	await db.transaction(async (tx) => {
+		await applyDueLimitChanges(tx, userId, now);
+
+		const [existing]: PlayerLimit[] = await tx
+			.select()
+			.from(playerLimitTable)
+			.where(
+				and(
+					eq(playerLimitTable.userId, userId),
+					eq(playerLimitTable.type, type),
+					period ? eq(playerLimitTable.period, period) : isNull(playerLimitTable.period),
+				),
+			)
+			.for("update");
+
+		const plan = planLimitChange(existing?.amount ?? null, amount, now, config);
+		const history = { userId, type, period: period ?? null, previousAmount: existing?.amount ?? null, changedBy };
+
+		if (plan.kind === "UNCHANGED") {
+			if (existing?.pendingEffectiveAt) {
+				await tx
+					.update(playerLimitTable)
+					.set({ pendingAmount: null, pendingEffectiveAt: null, updatedAt: now })
+					.where(eq(playerLimitTable.id, existing.id));
+				await tx.insert(playerLimitHistoryTable).values({
+					...history,
+					action: "PENDING_CANCELLED",
+					newAmount: existing.pendingAmount,
+					effectiveAt: existing.pendingEffectiveAt,
+				});
+			}
+			return;
+		}
+
+		if (plan.kind === "IMMEDIATE") {
+			if (existing) {
+				await tx
+					.update(playerLimitTable)
+					.set({ amount: plan.amount, pendingAmount: null, pendingEffectiveAt: null, updatedAt: now })
+					.where(eq(playerLimitTable.id, existing.id));
+			} else {
+				await tx.insert(playerLimitTable).values({ userId, type, period: period ?? null, amount: plan.amount });
+			}
+			await tx
+				.insert(playerLimitHistoryTable)
+				.values({ ...history, action: existing ? "DECREASED" : "SET", newAmount: plan.amount, effectiveAt: now });
+			return;
+		}
+
+		if (!existing) {
+			throw new PlayerLimitError("INVALID_LIMIT", `No ${type} limit to raise or remove`);
+		}
+		await tx
+			.update(playerLimitTable)
+			.set({ pendingAmount: plan.amount, pendingEffectiveAt: plan.effectiveAt, updatedAt: now })
+			.where(eq(playerLimitTable.id, existing.id));
+		await tx.insert(playerLimitHistoryTable).values({
+			...history,
+			action: plan.amount === null ? "REMOVAL_SCHEDULED" : "INCREASE_SCHEDULED",
+			newAmount: plan.amount,
+			effectiveAt: plan.effectiveAt,
+		});
+	});
+
+	appLogger.info("Player limit changed", context, { type, period, amount, changedBy });
+	return getPlayerLimits(userId);
+}
+
+/**
+ * Start a cool-off (duration in hours) or a self-exclusion (duration in days, null for indefinite).
+ * Exclusions start immediately and cannot be shortened; a new one only extends protection.
+ */
+export async function startPlayerExclusion(
+	userId: string,
+	type: PlayerExclusionType,
+	duration: number | null,
+	reason?: string,
+): Promise<PlayerExclusion> {
+	const config = await loadResponsibleGamblingConfig(userId);
+	const now = new Date();
+	const endsAt = exclusionEnd(type, duration, now, config);
+	if (endsAt === undefined) {
+		throw new PlayerLimitError(
+			"INVALID_DURATION",
+			type === "COOL_OFF"
+				? `Cool-off must last between ${config.minCoolOffHours} hours and ${config.maxCoolOffDays} days`
+				: `Self-exclusion must last at least ${config.minSelfExclusionDays} days`,
+		);
+	}
+
+	const exclusion = await db.transaction(async (tx) => {
+		const [created] = await tx
+			.insert(playerExclusionTable)
+			.values({ userId, type, startsAt: now, endsAt, reason })
+			.returning();
+		await tx.insert(playerLimitHistoryTable).values({
+			userId,
+			action: type === "COOL_OFF" ? "COOL_OFF_STARTED" : "SELF_EXCLUSION_STARTED",
+			exclusionType: type,
+			effectiveAt: endsAt,
+			changedBy: userId,
+		});
+		return created as PlayerExclusion;
+	});
+
+	const context = createOperationContext({ domain: "gameplay", operation: "startPlayerExclusion", userId });
+	appLogger.info("Player exclusion started", context, { type, endsAt });
+	return exclusion;
+}
+
+export async function getPlayerLimitHistory(userId: string, limit = 50, offset = 0): Promise<PlayerLimitHistory[]> {
+	return db
+		.select()
+		.from(playerLimitHistoryTable)
+		.where(eq(playerLimitHistoryTable.userId, userId))
+		.orderBy(desc(playerLimitHistoryTable.createdAt))
+		.limit(limit)
+		.offset(offset) as Promise<PlayerLimitHistory[]>;
+}
+
+export async function getActiveExclusion(userId: string): Promise<PlayerExclusion | null> {
+	const { exclusions } = await loadLimits(userId);
+	return activeExclusion(exclusions, new Date());
+}
+
+function exclusionRejection(exclusion: PlayerExclusion): LimitRejection {
+	const until = exclusion.endsAt ? `until ${exclusion.endsAt.toISOString()}` : "indefinitely";
+	return exclusion.type === "SELF_EXCLUSION"
+		? { code: "SELF_EXCLUDED", reason: `Account is self-excluded ${until}` }
+		: { code: "COOLING_OFF", reason: `Account is in a cool-off period ${until}` };
+}
+
+function breachRejection(code: LimitRejectionCode, label: string, breach: LimitBreach): LimitRejection {
+	const period = breach.period ? `${breach.period.toLowerCase()} ` : "";
+	return { code, reason: `This would exceed your ${period}${label} limit of ${breach.limit} (used ${breach.used})` };
+}
+
+/**
+ * Earliest start among the periods of the given limits, or null when there are none
+ */
+function earliestPeriodStart(limits: PlayerLimit[], now: Date): Date | null {
+	const starts = limits.flatMap((limit) => (limit.period ? [periodStart(limit.period, now).getTime()] : []));
+	return starts.length > 0 ? new Date(Math.min(...starts)) : null;
+}
+
+/**
+ * Exclusions and the player's wager, loss and session time limits for a bet of `amount`.
+ * Session time is the player's continuous play across games, so switching game does not restart it.
+ */
+export async function checkPlayerBetLimits(
+	userId: string,
+	amount: number,
+	now = new Date(),
+): Promise<LimitRejection | null> {
+	const { limits, exclusions } = await loadLimits(userId);
+	const exclusion = activeExclusion(exclusions, now);
+	if (exclusion) {
+		return exclusionRejection(exclusion);
+	}
+
+	const playLimits = limits.filter((limit) => limit.type === "WAGER" || limit.type === "LOSS");
+	const since = earliestPeriodStart(playLimits, now);
+	if (since) {
+		const days = await db
+			.select({ day: userDailyPlayTable.day, wagered: userDailyPlayTable.wagered, won: userDailyPlayTable.won })
+			.from(userDailyPlayTable)
+			.where(and(eq(userDailyPlayTable.userId, userId), gte(userDailyPlayTable.day, lossDay(since))));
+		const sumSince = (period: PlayerLimitPeriod | null, value: (day: (typeof days)[number]) => number) => {
+			const from = lossDay(periodStart(period ?? "DAILY", now));
+			return days.filter((day) => day.day >= from).reduce((sum, day) => sum + value(day), 0);
+		};
+
+		const wagerBreach = findLimitBreach(
+			playLimits,
+			"WAGER",
+			amount,
+			(period) => sumSince(period, (day) => day.wagered),
+			now,
+		);
+		if (wagerBreach) {
+			return breachRejection("WAGER_LIMIT_EXCEEDED", "wager", wagerBreach);
+		}
+		const lossBreach = findLimitBreach(
+			playLimits,
+			"LOSS",
+			amount,
+			(period) => sumSince(period, (day) => day.wagered - day.won),
+			now,
+		);
+		if (lossBreach) {
+			return breachRejection("PLAYER_LOSS_LIMIT_EXCEEDED", "loss", lossBreach);
+		}
+	}
+
+	const sessionLimits = limits.filter((limit) => limit.type === "SESSION_TIME");
+	if (sessionLimits.length > 0) {
+		const config = await loadResponsibleGamblingConfig(userId);
+		// Only sessions that ended within the largest limit plus a break can be part of the current streak
+		const longestLimit = Math.max(...sessionLimits.map((limit) => Math.max(limit.amount, limit.pendingAmount ?? 0)));
+		const since = new Date(now.getTime() - (longestLimit + config.sessionBreakMinutes) * 60000);
+		const sessions = await db
+			.select({
+				status: gameSessionTable.status,
+				createdAt: gameSessionTable.createdAt,
+				duration: gameSessionTable.duration,
+			})
+			.from(gameSessionTable)
+			.where(
+				and(
+					eq(gameSessionTable.userId, userId),
+					or(
+						eq(gameSessionTable.status, "ACTIVE"),
+						gte(sql`coalesce(${gameSessionTable.updatedAt}, ${gameSessionTable.createdAt})`, since),
+					),
+				),
+			);
+		const spans = sessions.map((session) => ({
+			startedAt: session.createdAt,
+			endedAt:
+				session.status === "ACTIVE" ? now : new Date(session.createdAt.getTime() + (session.duration ?? 0) * 1000),
+		}));
+		const minutesPlayed = continuousPlayMinutes(spans, now, config.sessionBreakMinutes);
+		const sessionBreach = findLimitBreach(sessionLimits, "SESSION_TIME", 0, () => minutesPlayed, now);
+		if (sessionBreach) {
+			return breachRejection("SESSION_TIME_LIMIT_REACHED", "session time (minutes)", sessionBreach);
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Exclusions and the player's deposit limits for a deposit of `amount`
+ */
+export async function checkPlayerDepositLimits(
+	userId: string,
+	amount: number,
+	now = new Date(),
+): Promise<LimitRejection | null> {
+	const { limits, exclusions } = await loadLimits(userId);
+	const exclusion = activeExclusion(exclusions, now);
+	if (exclusion) {
+		return exclusionRejection(exclusion);
+	}
+
+	const depositLimits = limits.filter((limit) => limit.type === "DEPOSIT");
+	const since = earliestPeriodStart(depositLimits, now);
+	if (!since) {
+		return null;
+	}
+
+	const deposits = await db
+		.select({ amount: depositTable.amount, createdAt: depositTable.createdAt })
+		.from(depositTable)
+		.where(
+			and(
+				eq(depositTable.userId, userId),
+				gte(depositTable.createdAt, since),
+				inArray(depositTable.status, [...COUNTED_DEPOSIT_STATUSES]),
+			),
+		);
+	const breach = findLimitBreach(
+		depositLimits,
+		"DEPOSIT",
+		amount,
+		(period) => {
+			const from = periodStart(period ?? "DAILY", now).getTime();
+			return deposits
+				.filter((deposit) => deposit.createdAt.getTime() >= from)
+				.reduce((sum, deposit) => sum + deposit.amount, 0);
+		},
+		now,
+	);
+	return breach ? breachRejection("DEPOSIT_LIMIT_EXCEEDED", "deposit", breach) : null;
+}
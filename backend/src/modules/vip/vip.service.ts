@@ -1,8 +1,10 @@
 /** biome-ignore-all lint/suspicious/noExplicitAny: <> */
 
-import { db } from "@/core/database/db";
+import { type DbTransaction, db } from "@/core/database/db";
 import { userTable, type User } from "@/core/database/schema";
 import { eq } from "drizzle-orm";
+import { grantFreeSpins } from "@/modules/gameplay/core/free-spins.service";
+import { type OperatorContext, configurationManager } from "@/shared/config";
 
 /**
  * VIP points calculation and level-up system with cost sharing
@@ -19,6 +21,7 @@ export interface VIPLevel {
 		cashback?: number;
 		freeSpins?: number;
 		higherLimits?: boolean;
+		betLimitMultiplier?: number; // Scales the maximum bet and loss limits when higherLimits is on
 		prioritySupport?: boolean;
 	};
 }
@@ -48,7 +51,7 @@ export interface CostSharingAllocation {
 }
 
 /**
- * Default VIP level configuration - should be admin configurable
+ * Default VIP level configuration, used when vipConfig.vipLevels is empty for the operator
  */
 const DEFAULT_VIP_LEVELS: VIPLevel[] = [
 	{
@@ -87,6 +90,7 @@ const DEFAULT_VIP_LEVELS: VIPLevel[] = [
 			cashback: 10, // 10%
 			freeSpins: 25,
 			higherLimits: true,
+			betLimitMultiplier: 2,
 			prioritySupport: true,
 		},
 	},
@@ -100,6 +104,7 @@ const DEFAULT_VIP_LEVELS: VIPLevel[] = [
 			cashback: 15, // 15%
 			freeSpins: 50,
 			higherLimits: true,
+			betLimitMultiplier: 3,
 			prioritySupport: true,
 		},
 	},
@@ -113,6 +118,7 @@ const DEFAULT_VIP_LEVELS: VIPLevel[] = [
 			cashback: 20, // 20%
 			freeSpins: 100,
 			higherLimits: true,
+			betLimitMultiplier: 5,
 			prioritySupport: true,
 		},
 	},
@@ -124,9 +130,10 @@ const DEFAULT_VIP_LEVELS: VIPLevel[] = [
 export function calculateXpForWagerAndWins(
 	wagerAmount: number, // Amount in cents
 	// currentVIP?: VIPInfo,
+	operator?: OperatorContext,
 ): PointsCalculation {
-	// Base points: 1 point per $1 wagered
-	const basePoints = Math.floor(wagerAmount / 100);
+	// Base points: vipConfig.pointsPerDollar (1 by default) per $1 wagered
+	const basePoints = Math.floor((wagerAmount / 100) * getPointsPerDollar(operator));
 
 	// Bonus multiplier based on current VIP level
 	const vipMultiplier = 1; // getVIPMultiplier(currentVIP?.currentLevel || 1)
@@ -137,7 +144,7 @@ export function calculateXpForWagerAndWins(
 	// Check for level up
 	const currentLevel = 1; //currentVIP?.currentLevel || 1
 	const newTotalPoints = 0; // (currentVIP?.totalPoints || 0) + totalPoints
-	const levelUp = checkLevelUp(currentLevel, newTotalPoints);
+	const levelUp = checkLevelUp(currentLevel, newTotalPoints, getVIPLevels(operator));
 
 	return {
 		basePoints,
@@ -166,22 +173,23 @@ function getVIPMultiplier(level: number): number {
 /**
  * Check if user levels up with new points
  */
-function checkLevelUp(currentLevel: number, newTotalPoints: number): boolean {
-	const currentLevelConfig = DEFAULT_VIP_LEVELS.find((l) => l.level === currentLevel);
+function checkLevelUp(currentLevel: number, newTotalPoints: number, levels: VIPLevel[]): boolean {
+	const currentLevelConfig = levels.find((l) => l.level === currentLevel);
 	if (!currentLevelConfig) return false;
 
-	const nextLevel = DEFAULT_VIP_LEVELS.find((l) => l.level === currentLevel + 1);
+	const nextLevel = levels.find((l) => l.level === currentLevel + 1);
 	if (!nextLevel) return false;
 
 	return newTotalPoints >= nextLevel.minPoints;
 }
 
 /**
- * Add XP to user and handle level progression
+ * Add XP to user and handle level progression. Runs inside the caller's transaction when one is given.
  */
 export async function addXpToUser(
 	userId: string,
 	pointsToAdd: number,
+	tx?: DbTransaction,
 ): Promise<{
 	success: boolean;
 	levelUp: boolean;
@@ -190,7 +198,7 @@ export async function addXpToUser(
 	error?: string;
 }> {
 	try {
-		const result = await db.transaction(async (tx) => {
+		const performAdd = async (tx: DbTransaction) => {
 			// Get current user data
 			const player = (await tx.query.userTable.findFirst({
 				where: eq(userTable.id, userId),
@@ -218,13 +226,14 @@ export async function addXpToUser(
 			//   .where(eq(players.id, userId));
 
 			// Check for level up
-			const currentLevel = calculateVIPLevel(currentPoints);
-			const newLevel = calculateVIPLevel(newTotalPoints);
+			const levels = getVIPLevels({ operatorId: player.operatorId });
+			const currentLevel = calculateVIPLevel(currentPoints, levels);
+			const newLevel = calculateVIPLevel(newTotalPoints, levels);
 			const levelUp = newLevel > currentLevel;
 
 			if (levelUp) {
 				// Handle level up benefits
-				await handleLevelUp(tx, userId, newLevel);
+				await handleLevelUp(tx, userId, newLevel, levels);
 			}
 
 			return {
@@ -232,7 +241,8 @@ export async function addXpToUser(
 				levelUp,
 				newLevel,
 			};
-		});
+		};
+		const result = tx ? await performAdd(tx) : await db.transaction(performAdd);
 
 		// Get updated VIP info
 		const newVIPInfo = await getVIPInfo(userId);
@@ -253,9 +263,9 @@ export async function addXpToUser(
 /**
  * Calculate VIP level from total points
  */
-function calculateVIPLevel(totalPoints: number): number {
-	for (let i = DEFAULT_VIP_LEVELS.length - 1; i >= 0; i--) {
-		const level = DEFAULT_VIP_LEVELS[i]!;
+function calculateVIPLevel(totalPoints: number, levels: VIPLevel[]): number {
+	for (let i = levels.length - 1; i >= 0; i--) {
+		const level = levels[i]!;
 		if (totalPoints >= level.minPoints) {
 			return level.level;
 		}
@@ -266,8 +276,8 @@ function calculateVIPLevel(totalPoints: number): number {
 /**
  * Handle level up benefits and notifications
  */
-async function handleLevelUp(tx: unknown, userId: string, newLevel: number): Promise<void> {
-	const levelConfig = DEFAULT_VIP_LEVELS.find((l) => l.level === newLevel);
+async function handleLevelUp(tx: DbTransaction, userId: string, newLevel: number, levels: VIPLevel[]): Promise<void> {
+	const levelConfig = levels.find((l) => l.level === newLevel);
 	if (!levelConfig) return;
 
 	// Log level up (in production, this would trigger notifications)
@@ -297,10 +307,8 @@ async function grantLevelUpCashback(_tx: unknown, userId: string, cashbackPercen
 /**
  * Grant level up free spins
  */
-async function grantLevelUpFreeSpins(_tx: unknown, userId: string, freeSpinsCount: number): Promise<void> {
-	// This would create a free spins bonus record
-	// Implementation depends on your free spins system
-	console.log(`Granting ${freeSpinsCount} free spins to user ${userId}`);
+async function grantLevelUpFreeSpins(tx: DbTransaction, userId: string, freeSpinsCount: number): Promise<void> {
+	await grantFreeSpins({ userId, count: freeSpinsCount, source: "vip_level_up" }, tx);
 }
 
 /**
@@ -324,15 +332,16 @@ export async function getVIPInfo(userId: string): Promise<VIPInfo | null> {
 
 	// Get current points (placeholder - should come from user record or VIP table)
 	const totalPoints = 0; // Placeholder
-	const currentLevel = calculateVIPLevel(totalPoints);
-	const levelConfig = DEFAULT_VIP_LEVELS.find((l) => l.level === currentLevel);
+	const levels = getVIPLevels({ operatorId: user.operatorId });
+	const currentLevel = calculateVIPLevel(totalPoints, levels);
+	const levelConfig = levels.find((l) => l.level === currentLevel);
 
 	if (!levelConfig) {
 		return null;
 	}
 
 	// Calculate progress to next level
-	const nextLevel = DEFAULT_VIP_LEVELS.find((l) => l.level === currentLevel + 1);
+	const nextLevel = levels.find((l) => l.level === currentLevel + 1);
 	const pointsToNextLevel = nextLevel ? nextLevel.minPoints - totalPoints : 0;
 	const progressToNextLevel =
 		nextLevel && nextLevel.minPoints > 0
@@ -501,15 +510,28 @@ async function getUserPeriodActivity(_userId: string, period: "weekly" | "monthl
 }
 
 /**
- * Get all VIP levels configuration
+ * Get all VIP levels configuration: the operator's vipConfig.vipLevels, or the defaults when none are set
  */
-export function getVIPLevels(): VIPLevel[] {
-	return [...DEFAULT_VIP_LEVELS];
+export function getVIPLevels(operator?: OperatorContext): VIPLevel[] {
+	const vipConfig = configurationManager.getConfiguration(operator).vipConfig as any;
+	const configured = Array.isArray(vipConfig?.vipLevels) ? (vipConfig.vipLevels as VIPLevel[]) : [];
+	const levels = configured.length > 0 ? configured : DEFAULT_VIP_LEVELS;
+	return [...levels].sort((a, b) => a.level - b.level);
 }
 
 /**
  * Get specific VIP level configuration
  */
-export function getVIPLevel(level: number): VIPLevel | null {
-	return DEFAULT_VIP_LEVELS.find((l) => l.level === level) || null;
+export function getVIPLevel(level: number, operator?: OperatorContext): VIPLevel | null {
+	return getVIPLevels(operator).find((l) => l.level === level) || null;
+}
+
+/**
+ * VIP points per $1 wagered for the operator (vipConfig.pointsPerDollar, 1 when unset)
+ */
+function getPointsPerDollar(operator?: OperatorContext): number {
+	const pointsPerDollar = (configurationManager.getConfiguration(operator).vipConfig as any)?.pointsPerDollar;
+	return typeof pointsPerDollar === "number" && Number.isFinite(pointsPerDollar) && pointsPerDollar >= 0
+		? pointsPerDollar
+		: 1;
 }
@@ -1,12 +1,23 @@
 import { startManufacturedGameplay } from "./modules/bot/bot.service";
 import { showRoutes } from "hono/dev";
 import app from "./app";
-import { db, gameSessionTable } from "./core/database/db";
-import { eq } from "drizzle-orm";
-import { wsRouter } from "./app.ws";
+import { attachWsServer, publishSessionNotice, wsRouter } from "./app.ws";
+import { expireFreeSpins } from "./modules/gameplay/core/free-spins.service";
+import { expireIdleSessions, runSessionChecks } from "./modules/gameplay/core/game-session.service";
+import { expireBonuses } from "./modules/bonus/bonus.service";
+import { registerDefaultPaymentProviders } from "./modules/payments/payment-registry";
+import { registerGameplayListeners } from "./modules/gameplay/listeners";
+import { cleanupExpireddepositTable } from "./modules/gameplay/orchestrators/deposit.orchestrator";
+import { RECONCILIATION_JOB, reconcileBalances } from "./modules/ledger/reconciliation.service";
+import { dispatchOutbox } from "./modules/outbox/outbox.service";
+import { runRecordedJob } from "./shared/job-runs.service";
+import { configurationManager } from "./shared/config";
 
 const port = 3000;
 
+registerDefaultPaymentProviders();
+registerGameplayListeners();
+
 export const CORS_HEADERS = {
 	headers: {
 		"Access-Control-Allow-Origin": "*",
@@ -33,6 +44,7 @@ const server = Bun.serve({
 		return app.fetch(req, server);
 	},
 });
+attachWsServer(server);
 showRoutes(app);
 console.log(`Server is running on port - ${server.port}`);
 console.log(`Running on http://localhost:${server.port}`);
@@ -46,22 +58,69 @@ process.on("SIGINT", () => {
 });
 
 // Initialize the application
-// Use Drizzle ORM to update all game sessions to completed
+// Load the platform settings, close game sessions left idle while the server was down, then start the bots
+const GAME_SESSION_TIMEOUT_JOB = "game-session-timeout";
 (async () => {
 	try {
-		await db
-			.update(gameSessionTable)
-			.set({
-				status: "COMPLETED",
-				isActive: false,
-				updatedAt: new Date(),
-			})
-			.where(eq(gameSessionTable.isActive, true));
-
-		console.log("Successfully updated all active game sessions to COMPLETED status");
-		startManufacturedGameplay();
+		await configurationManager.load();
+	} catch (error) {
+		console.error("Failed to load platform settings, using defaults:", error);
+	}
+	try {
+		await runRecordedJob(GAME_SESSION_TIMEOUT_JOB, () => expireIdleSessions());
 	} catch (error) {
-		console.error("Failed to update game sessions:", error);
-		startManufacturedGameplay(); // Continue with startup even if this fails
+		console.error("Failed to expire idle game sessions:", error);
 	}
+	startManufacturedGameplay(); // Continue with startup even if this fails
 })();
+
+// Pick up platform settings changed by another instance or directly in the database
+const SETTINGS_REFRESH_INTERVAL_MS = 30 * 1000;
+setInterval(() => {
+	configurationManager.refresh().catch((error) => console.error("Failed to refresh platform settings:", error));
+}, SETTINGS_REFRESH_INTERVAL_MS);
+
+// Move game sessions without recent activity to TIMEOUT or ABANDONED
+const GAME_SESSION_TIMEOUT_INTERVAL_MS = 60 * 1000;
+setInterval(() => {
+	runRecordedJob(GAME_SESSION_TIMEOUT_JOB, () => expireIdleSessions()).catch((error) =>
+		console.error("Failed to expire idle game sessions:", error),
+	);
+}, GAME_SESSION_TIMEOUT_INTERVAL_MS);
+
+// Send reality checks and end game sessions that reached the maximum session duration
+const GAME_SESSION_CHECK_INTERVAL_MS = 60 * 1000;
+setInterval(() => {
+	runRecordedJob("game-session-checks", () => runSessionChecks(publishSessionNotice)).catch((error) =>
+		console.error("Failed to run game session checks:", error),
+	);
+}, GAME_SESSION_CHECK_INTERVAL_MS);
+
+// Expire bonuses and free spin grants past their expiry date
+const BONUS_EXPIRY_INTERVAL_MS = 15 * 60 * 1000;
+setInterval(() => {
+	expireBonuses().catch((error) => console.error("Failed to expire bonuses:", error));
+	expireFreeSpins().catch((error) => console.error("Failed to expire free spins:", error));
+}, BONUS_EXPIRY_INTERVAL_MS);
+
+// Expire pending deposits past their payment method's TTL
+const DEPOSIT_EXPIRY_INTERVAL_MS = 5 * 60 * 1000;
+setInterval(() => {
+	runRecordedJob("deposit-expiry", () => cleanupExpireddepositTable()).catch((error) =>
+		console.error("Failed to expire deposits:", error),
+	);
+}, DEPOSIT_EXPIRY_INTERVAL_MS);
+
+// Check balances, counters and jackpot pools against the ledger and history
+const RECONCILIATION_INTERVAL_MS = 60 * 60 * 1000;
+setInterval(() => {
+	runRecordedJob(RECONCILIATION_JOB, () => reconcileBalances({ includeJackpots: true })).catch((error) =>
+		console.error("Failed to reconcile balances:", error),
+	);
+}, RECONCILIATION_INTERVAL_MS);
+
+// Deliver queued bet and deposit side-effects that failed or were cut off, with backoff
+const OUTBOX_DISPATCH_INTERVAL_MS = 5 * 1000;
+setInterval(() => {
+	dispatchOutbox().catch((error) => console.error("Failed to dispatch outbox events:", error));
+}, OUTBOX_DISPATCH_INTERVAL_MS);
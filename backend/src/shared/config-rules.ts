@@ -0,0 +1,76 @@
+import type { PlatformSetting } from "@/core/database/schema";
+
+/**
+ * Configuration rules
+ * Pure helpers behind platform settings versioning and operator overrides: which part of a settings
+ * row is versioned, the field-by-field difference between two versions, and how an operator's
+ * overrides are laid over the platform default.
+ */
+
+/**
+ * The versioned part of the settings: everything except the row id, version and timestamps
+ */
+export type PlatformSettingValues = Omit<PlatformSetting, "id" | "version" | "createdAt" | "updatedAt">;
+
+export interface SettingChange {
+	path: string; // Dotted path into the settings, e.g. "jackpotConfig.minor.rate"
+	before: unknown; // undefined when the field was added
+	after: unknown; // undefined when the field was removed
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+export type OperatorSettingOverrides = Partial<PlatformSettingValues>;
+
+// Fields that always come from the platform row, whatever an operator's overrides say
+const PLATFORM_ONLY_FIELDS = ["id", "version", "default", "createdAt", "updatedAt"];
+
+export function settingValues(settings: PlatformSetting): PlatformSettingValues {
+	const { id: _id, version: _version, createdAt: _createdAt, updatedAt: _updatedAt, ...values } = settings;
+	return values;
+}
+
+/**
+ * Every leaf that differs between two settings, in key order. Nested objects (the jsonb columns) are
+ * compared key by key; arrays and other values are compared as a whole.
+ */
+export function diffSettings(before: unknown, after: unknown, path = ""): SettingChange[] {
+	if (isPlainObject(before) && isPlainObject(after)) {
+		const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+		return keys.flatMap((key) => diffSettings(before[key], after[key], path ? `${path}.${key}` : key));
+	}
+	if (JSON.stringify(before) === JSON.stringify(after)) {
+		return [];
+	}
+	return [{ path, before, after }];
+}
+
+function mergeSetting(base: unknown, override: unknown): unknown {
+	if (override === undefined) {
+		return base;
+	}
+	if (isPlainObject(base) && isPlainObject(override)) {
+		const merged: Record<string, unknown> = { ...base };
+		for (const [key, value] of Object.entries(override)) {
+			merged[key] = mergeSetting(base[key], value);
+		}
+		return merged;
+	}
+	return override;
+}
+
+/**
+ * The settings an operator runs with: its overrides laid over the platform default. Nested objects
+ * are merged key by key; anything else in the overrides, arrays included, replaces the default.
+ */
+export function mergeOperatorSettings(
+	platform: PlatformSetting,
+	overrides: OperatorSettingOverrides | null | undefined,
+): PlatformSetting {
+	if (!isPlainObject(overrides)) {
+		return platform;
+	}
+	const allowed = Object.fromEntries(Object.entries(overrides).filter(([key]) => !PLATFORM_ONLY_FIELDS.includes(key)));
+	return mergeSetting(platform, allowed) as PlatformSetting;
+}
@@ -1,62 +1,509 @@
-import type { PlatformSetting } from "@/core/database/schema";
+import { db } from "@/core/database/db";
+import {
+	type OperatorSetting,
+	type PlatformSetting,
+	type PlatformSettingVersion,
+	PlatformSettingSelectSchema,
+	PlatformSettingUpdateSchema,
+	operatorSettingTable,
+	operatorTable,
+	platformSettingTable,
+	platformSettingVersionTable,
+} from "@/core/database/schema";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+import { and, desc, eq } from "drizzle-orm";
+import { z } from "zod";
+import {
+	type OperatorSettingOverrides,
+	type PlatformSettingValues,
+	type SettingChange,
+	diffSettings,
+	mergeOperatorSettings,
+	settingValues,
+} from "./config-rules";
+
+export type ConfigurationErrorCode =
+	| "INVALID_SETTINGS"
+	| "VERSION_CONFLICT"
+	| "VERSION_NOT_FOUND"
+	| "OPERATOR_NOT_FOUND";
+
+export class ConfigurationError extends Error {
+	constructor(
+		public readonly code: ConfigurationErrorCode,
+		message: string,
+	) {
+		super(message);
+		this.name = "ConfigurationError";
+	}
+}
+
+/**
+ * An admin edit. jsonb settings are replaced as a whole; expectedVersion guards against overwriting
+ * a change made since the admin loaded the settings.
+ */
+export const settingsUpdateSchema = z.object({
+	changes: PlatformSettingUpdateSchema.omit({
+		id: true,
+		default: true,
+		version: true,
+		createdAt: true,
+		updatedAt: true,
+	}).strict(),
+	expectedVersion: z.number().int().positive().optional(),
+	reason: z.string().trim().max(500).optional(),
+});
+export type SettingsUpdateRequest = z.infer<typeof settingsUpdateSchema>;
+
+/**
+ * An operator's overrides, replacing the ones it had. jsonb settings may be partial; they are merged
+ * into the platform default key by key.
+ */
+export const operatorSettingsUpdateSchema = z.object({
+	overrides: settingsUpdateSchema.shape.changes.omit({ name: true, dashboard: true }),
+	expectedVersion: z.number().int().positive().optional(),
+});
+export type OperatorSettingsUpdateRequest = z.infer<typeof operatorSettingsUpdateSchema>;
+
+/**
+ * Whose settings to resolve. Without an operatorId, or for an operator without overrides, the platform default applies.
+ */
+export interface OperatorContext {
+	operatorId?: string | null;
+}
+
+export interface OperatorSettingsView {
+	operatorId: string;
+	overrides: OperatorSettingOverrides;
+	version: number | null; // null while the operator has no overrides
+	settings: PlatformSetting; // What the operator runs with
+}
+
+export interface SettingsChangeResult {
+	settings: PlatformSetting;
+	changes: SettingChange[]; // Empty when the request matched the current settings and no version was written
+}
+
+export type SettingsListener = (settings: PlatformSetting, previous: PlatformSetting) => void;
+
+// Used until the settings are loaded from the database
+function defaultSettings(): PlatformSetting {
+	return {
+		id: "00e78117-692f-45df-958f-10a5855141d5",
+		name: "Default Settings",
+		default: true,
+		version: 1,
+		referralCodeCount: 5,
+		depositWrMultiplier: 1, // 1x deposit wagering
+		bonusWrMultiplier: 30, // 30x bonus wagering
+		freeSpinWrMultiplier: 30, // 30x free spin win wagering
+		avgFreeSpinWinValue: 15, // 15 cents avg free spin win
+		referralCommissionRate: 0.1,
+		rates: { master: 0.1, affiliate: 0.7, subaffiliate: 0.3 },
+		commission: { master: 0.3, affiliate: 0.2, subAffiliate: 0.1 },
+		jackpotConfig: {
+			minor: { rate: 0.01, seedAmount: 1000, maxAmount: 10000 },
+			major: { rate: 0.005, seedAmount: 10000, maxAmount: 100000 },
+			mega: { rate: 0.001, seedAmount: 100000, maxAmount: 1000000 },
+		},
+		vipConfig: {
+			pointsPerDollar: 1,
+			levelMultipliers: {},
+			costSharingPercentage: 0,
+			vipLevels: [],
+			vipRanks: [],
+		},
+		wageringConfig: {
+			defaultWageringMultiplier: 30,
+			maxBonusBetPercentage: 0.1,
+			bonusExpiryDays: 30,
+			gameContributions: { SLOTS: 100, FISH: 100, TABLE: 10, LIVE: 10, OTHER: 50 }, // % of a stake counted towards wagering
+		},
+		depositConfig: {
+			partialPayment: "CREDIT_RECEIVED", // credit what arrived, keep the remainder pending
+			overpayment: "CREDIT_ACTUAL", // credit everything received and flag for review
+			pendingTtlMinutes: { CASHAPP: 60, INSTORE_CASH: 24 * 60, INSTORE_CARD: 24 * 60 },
+			defaultPendingTtlMinutes: 24 * 60,
+			minDepositAmount: 10, // deposit requests outside these bounds are refused
+			maxDepositAmount: 1000000,
+		},
+		sessionConfig: {
+			idleTimeoutMinutes: 30, // a session with bets and no activity for this long is TIMEOUT
+			abandonAfterMinutes: 10, // a session without a single bet is ABANDONED after this long
+			realityCheckIntervalMinutes: 60, // bets pause until the player acknowledges a reality check; 0 disables
+			maxSessionMinutes: 240, // sessions are force-ended (EXPIRED) after this long; 0 disables
+		},
+		responsibleGamblingConfig: {
+			increaseDelayHours: 24, // raising or removing a player limit waits this long
+			minCoolOffHours: 24,
+			maxCoolOffDays: 42,
+			minSelfExclusionDays: 180, // self-exclusion is at least this long, or indefinite
+			sessionBreakMinutes: 15, // a shorter break does not restart the clock of a session time limit
+		},
+		currencyConfig: {
+			defaultCurrency: "USD", // wallets are opened in this currency
+			allowedCurrencies: ["USD"], // operators override this list for their markets
+			reportingCurrency: "USD",
+		},
+		systemLimits: {
+			maxBetAmount: 100000,
+			maxDailyLoss: 1000000,
+			maxSessionLoss: 500000,
+			minBetAmount: 10,
+		},
+		dashboard: dashboardConfig,
+		createdAt: new Date(),
+		updatedAt: new Date(),
+	};
+}
 
 /**
- * Mock Configuration Manager
- * Provides default settings since the real one wasn't provided.
+ * Configuration Manager
+ * Serves the default platform_settings row from memory so getConfiguration() stays synchronous.
+ * load() reads the row at startup and refresh() polls its version, so edits made by another
+ * instance are picked up without a restart; every swap is announced to onChange listeners.
+ * Changes go through update() and rollback(), which validate the full settings with
+ * PlatformSettingSelectSchema and append the result to platform_setting_versions.
+ * Operators can override any setting in operator_settings; getConfiguration(operatorContext)
+ * resolves each one from the operator's overrides, falling back to the platform default.
  */
 class ConfigurationManager {
-	private settings: PlatformSetting;
-
-	constructor() {
-		// Load default settings
-		this.settings = {
-			id: "00e78117-692f-45df-958f-10a5855141d5",
-			name: "Default Settings",
-			default: true,
-			referralCodeCount: 5,
-			depositWrMultiplier: 1, // 1x deposit wagering
-			bonusWrMultiplier: 30, // 30x bonus wagering
-			freeSpinWrMultiplier: 30, // 30x free spin win wagering
-			avgFreeSpinWinValue: 15, // 15 cents avg free spin win
-			referralCommissionRate: 0.1,
-			rates: { master: 0.1, affiliate: 0.7, subaffiliate: 0.3 },
-			commission: { master: 0.3, affiliate: 0.2, subAffiliate: 0.1 },
-			jackpotConfig: {
-				minor: { rate: 0.01, seedAmount: 1000, maxAmount: 10000 },
-				major: { rate: 0.005, seedAmount: 10000, maxAmount: 100000 },
-				mega: { rate: 0.001, seedAmount: 100000, maxAmount: 1000000 },
-			},
-			vipConfig: {
-				pointsPerDollar: 1,
-				levelMultipliers: {},
-				costSharingPercentage: 0,
-				vipLevels: [],
-				vipRanks: [],
-			},
-			wageringConfig: {
-				defaultWageringMultiplier: 30,
-				maxBonusBetPercentage: 0.1,
-				bonusExpiryDays: 30,
-			},
-			systemLimits: {
-				maxBetAmount: 100000,
-				maxDailyLoss: 1000000,
-				maxSessionLoss: 500000,
-				minBetAmount: 10,
-			},
-			dashboard: dashboardConfig,
-			createdAt: new Date(),
-			updatedAt: new Date(),
+	private settings: PlatformSetting = defaultSettings();
+	private readonly listeners = new Set<SettingsListener>();
+	private operatorOverrides = new Map<string, OperatorSetting>();
+	private readonly operatorSettings = new Map<string, PlatformSetting>(); // Merged settings, cleared on any change
+
+	getConfiguration(operator?: OperatorContext): PlatformSetting {
+		const operatorId = operator?.operatorId;
+		const override = operatorId ? this.operatorOverrides.get(operatorId) : undefined;
+		if (!operatorId || !override) {
+			return this.settings;
+		}
+
+		let settings = this.operatorSettings.get(operatorId);
+		if (!settings) {
+			settings = mergeOperatorSettings(this.settings, override.overrides as OperatorSettingOverrides);
+			this.operatorSettings.set(operatorId, settings);
+		}
+		return settings;
+	}
+
+	/**
+	 * Call the listener with the new and previous settings whenever they change. Returns a function that removes it again.
+	 */
+	onChange(listener: SettingsListener): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	/**
+	 * Read the default settings row, creating it and its first version on first boot. A row that
+	 * fails validation is logged and ignored so the last good settings stay in force.
+	 */
+	async load(): Promise<PlatformSetting> {
+		const context = createOperationContext({ domain: "config", operation: "loadSettings" });
+
+		let [row] = await db.select().from(platformSettingTable).where(eq(platformSettingTable.default, true)).limit(1);
+		if (!row) {
+			[row] = await db
+				.insert(platformSettingTable)
+				.values({ name: this.settings.name, dashboard: dashboardConfig })
+				.returning();
+			appLogger.info("Created default platform settings", context);
+		}
+		if (!row) {
+			return this.settings;
+		}
+
+		const parsed = PlatformSettingSelectSchema.safeParse(row);
+		if (!parsed.success) {
+			appLogger.error("Platform settings failed validation; keeping the current settings", context, parsed.error);
+			return this.settings;
+		}
+
+		// Rows created or edited outside update() get their version recorded the first time they are seen
+		await db
+			.insert(platformSettingVersionTable)
+			.values({ settingId: parsed.data.id, version: parsed.data.version, settings: settingValues(parsed.data) })
+			.onConflictDoNothing();
+
+		this.apply(parsed.data);
+		await this.loadOperatorOverrides();
+		return parsed.data;
+	}
+
+	/**
+	 * Reload the settings if the row changed since they were last read. Returns true when they were reloaded.
+	 */
+	async refresh(): Promise<boolean> {
+		const [row] = await db
+			.select({ version: platformSettingTable.version, updatedAt: platformSettingTable.updatedAt })
+			.from(platformSettingTable)
+			.where(eq(platformSettingTable.default, true))
+			.limit(1);
+
+		const unchanged =
+			row && row.version === this.settings.version && row.updatedAt?.getTime() === this.settings.updatedAt?.getTime();
+		if (!unchanged) {
+			await this.load();
+			return true;
+		}
+
+		const operatorRows = await db
+			.select({ operatorId: operatorSettingTable.operatorId, version: operatorSettingTable.version })
+			.from(operatorSettingTable);
+		const operatorsUnchanged =
+			operatorRows.length === this.operatorOverrides.size &&
+			operatorRows.every(
+				(operatorRow) => this.operatorOverrides.get(operatorRow.operatorId)?.version === operatorRow.version,
+			);
+		if (operatorsUnchanged) {
+			return false;
+		}
+		await this.loadOperatorOverrides();
+		return true;
+	}
+
+	async getOperatorSettings(operatorId: string): Promise<OperatorSettingsView> {
+		const [row] = await db.select().from(operatorSettingTable).where(eq(operatorSettingTable.operatorId, operatorId));
+		return {
+			operatorId,
+			overrides: (row?.overrides ?? {}) as OperatorSettingOverrides,
+			version: row?.version ?? null,
+			settings: mergeOperatorSettings(this.settings, row?.overrides as OperatorSettingOverrides),
 		};
 	}
 
-	getConfiguration(): PlatformSetting {
-		// In a real app, this might fetch from DB or cache
-		return this.settings;
+	/**
+	 * Replace an operator's overrides. The settings they produce are validated in full before they are saved.
+	 * Returns the operator's settings and what changed in them.
+	 */
+	async setOperatorSettings(
+		operatorId: string,
+		request: OperatorSettingsUpdateRequest,
+		adminId: string,
+	): Promise<OperatorSettingsView & { changes: SettingChange[] }> {
+		const context = createOperationContext({ domain: "config", operation: "setOperatorSettings" });
+		const overrides = request.overrides as OperatorSettingOverrides;
+
+		const parsed = PlatformSettingSelectSchema.safeParse(mergeOperatorSettings(this.settings, overrides));
+		if (!parsed.success) {
+			throw new ConfigurationError("INVALID_SETTINGS", z.prettifyError(parsed.error));
+		}
+
+		const saved = await db.transaction(async (tx) => {
+			const [operator] = await tx
+				.select({ id: operatorTable.id })
+				.from(operatorTable)
+				.where(eq(operatorTable.id, operatorId));
+			if (!operator) {
+				throw new ConfigurationError("OPERATOR_NOT_FOUND", `Operator ${operatorId} not found`);
+			}
+
+			const [current] = await tx
+				.select()
+				.from(operatorSettingTable)
+				.where(eq(operatorSettingTable.operatorId, operatorId))
+				.for("update");
+			if (request.expectedVersion !== undefined && request.expectedVersion !== (current?.version ?? null)) {
+				throw new ConfigurationError(
+					"VERSION_CONFLICT",
+					`Operator settings are at version ${current?.version ?? "none"}, not ${request.expectedVersion}`,
+				);
+			}
+
+			const [row] = current
+				? await tx
+						.update(operatorSettingTable)
+						.set({ overrides, version: current.version + 1, updatedBy: adminId, updatedAt: new Date() })
+						.where(eq(operatorSettingTable.id, current.id))
+						.returning()
+				: await tx.insert(operatorSettingTable).values({ operatorId, overrides, updatedBy: adminId }).returning();
+			return row as OperatorSetting;
+		});
+
+		const previous = this.getConfiguration({ operatorId });
+		this.operatorOverrides.set(operatorId, saved);
+		this.operatorSettings.delete(operatorId);
+		const settings = this.getConfiguration({ operatorId });
+		const changes = diffSettings(settingValues(previous), settingValues(settings));
+
+		appLogger.info("Operator settings changed", context, {
+			operatorId,
+			version: saved.version,
+			changedBy: adminId,
+			paths: changes.map((change) => change.path),
+		});
+		return { operatorId, overrides, version: saved.version, settings, changes };
+	}
+
+	/**
+	 * Drop an operator's overrides so it runs on the platform default. Returns false when it had none.
+	 */
+	async removeOperatorSettings(operatorId: string): Promise<boolean> {
+		const deleted = await db
+			.delete(operatorSettingTable)
+			.where(eq(operatorSettingTable.operatorId, operatorId))
+			.returning({ id: operatorSettingTable.id });
+
+		this.operatorOverrides.delete(operatorId);
+		this.operatorSettings.delete(operatorId);
+		return deleted.length > 0;
+	}
+
+	/**
+	 * Apply an admin edit as a new version
+	 */
+	async update(request: SettingsUpdateRequest, adminId: string): Promise<SettingsChangeResult> {
+		return this.writeVersion(request.changes as Partial<PlatformSettingValues>, {
+			expectedVersion: request.expectedVersion,
+			changedBy: adminId,
+			reason: request.reason,
+		});
+	}
+
+	/**
+	 * Restore the settings of an earlier version. The rollback is itself a new version; history is never rewritten.
+	 */
+	async rollback(version: number, adminId: string, reason?: string): Promise<SettingsChangeResult> {
+		const target = await this.getVersion(version);
+		return this.writeVersion(target.settings as PlatformSettingValues, {
+			changedBy: adminId,
+			reason: reason ?? `Rollback to version ${version}`,
+			restoredFromVersion: version,
+		});
+	}
+
+	async getVersions(limit = 20): Promise<PlatformSettingVersion[]> {
+		return (await db
+			.select()
+			.from(platformSettingVersionTable)
+			.where(eq(platformSettingVersionTable.settingId, this.settings.id))
+			.orderBy(desc(platformSettingVersionTable.version))
+			.limit(limit)) as PlatformSettingVersion[];
+	}
+
+	async getVersion(version: number): Promise<PlatformSettingVersion> {
+		const [row] = await db
+			.select()
+			.from(platformSettingVersionTable)
+			.where(
+				and(
+					eq(platformSettingVersionTable.settingId, this.settings.id),
+					eq(platformSettingVersionTable.version, version),
+				),
+			);
+		if (!row) {
+			throw new ConfigurationError("VERSION_NOT_FOUND", `Settings version ${version} not found`);
+		}
+		return row as PlatformSettingVersion;
+	}
+
+	/**
+	 * What changed from one version to another, or to the settings in force when `to` is left out
+	 */
+	async diffVersions(from: number, to?: number): Promise<SettingChange[]> {
+		const before = await this.getVersion(from);
+		const after = to === undefined ? settingValues(this.settings) : (await this.getVersion(to)).settings;
+		return diffSettings(before.settings, after);
+	}
+
+	private async writeVersion(
+		values: Partial<PlatformSettingValues>,
+		options: { expectedVersion?: number; changedBy: string; reason?: string; restoredFromVersion?: number },
+	): Promise<SettingsChangeResult> {
+		const context = createOperationContext({ domain: "config", operation: "writeSettingsVersion" });
+
+		const result = await db.transaction(async (tx) => {
+			const [current] = await tx
+				.select()
+				.from(platformSettingTable)
+				.where(eq(platformSettingTable.default, true))
+				.limit(1)
+				.for("update");
+			if (!current) {
+				throw new ConfigurationError("VERSION_NOT_FOUND", "Platform settings have not been created yet");
+			}
+			if (options.expectedVersion !== undefined && options.expectedVersion !== current.version) {
+				throw new ConfigurationError(
+					"VERSION_CONFLICT",
+					`Settings are at version ${current.version}, not ${options.expectedVersion}`,
+				);
+			}
+
+			const parsed = PlatformSettingSelectSchema.safeParse({
+				...current,
+				...values,
+				id: current.id,
+				default: current.default,
+				version: current.version + 1,
+				updatedAt: new Date(),
+			});
+			if (!parsed.success) {
+				throw new ConfigurationError("INVALID_SETTINGS", z.prettifyError(parsed.error));
+			}
+
+			const changes = diffSettings(settingValues(current as PlatformSetting), settingValues(parsed.data));
+			if (changes.length === 0) {
+				return { settings: current as PlatformSetting, changes };
+			}
+
+			const [saved] = await tx
+				.update(platformSettingTable)
+				.set({ ...settingValues(parsed.data), version: parsed.data.version, updatedAt: parsed.data.updatedAt })
+				.where(eq(platformSettingTable.id, current.id))
+				.returning();
+			await tx.insert(platformSettingVersionTable).values({
+				settingId: current.id,
+				version: parsed.data.version,
+				settings: settingValues(parsed.data),
+				changedBy: options.changedBy,
+				reason: options.reason ?? null,
+				restoredFromVersion: options.restoredFromVersion ?? null,
+			});
+
+			return { settings: saved as PlatformSetting, changes };
+		});
+
+		if (result.changes.length > 0) {
+			appLogger.info("Platform settings changed", context, {
+				version: result.settings.version,
+				changedBy: options.changedBy,
+				paths: result.changes.map((change) => change.path),
+			});
+			this.apply(result.settings);
+		}
+		return result;
+	}
+
+	private async loadOperatorOverrides(): Promise<void> {
+		const rows = await db.select().from(operatorSettingTable);
+		this.operatorOverrides = new Map(rows.map((row) => [row.operatorId, row as OperatorSetting]));
+		this.operatorSettings.clear();
+	}
+
+	private apply(next: PlatformSetting): void {
+		const previous = this.settings;
+		this.settings = next;
+		this.operatorSettings.clear(); // Operator settings are merged over the platform default
+		if (previous.version === next.version && previous.updatedAt?.getTime() === next.updatedAt?.getTime()) {
+			return;
+		}
+
+		for (const listener of this.listeners) {
+			try {
+				listener(next, previous);
+			} catch (error) {
+				appLogger.error(
+					"Settings change listener failed",
+					createOperationContext({ domain: "config", operation: "notifySettingsChange" }),
+					error as Error,
+				);
+			}
+		}
 	}
 }
 
-export const configurationManager = new ConfigurationManager();
 export const dashboardConfig = {
 	code: 0,
 	message: "OK",
@@ -474,3 +921,5 @@ export const dashboardConfig = {
 	],
 	originUrl: "/role/permissions/tree",
 };
+
+export const configurationManager = new ConfigurationManager();
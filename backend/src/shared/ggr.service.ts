@@ -10,6 +10,8 @@ export async function logGGRContribution(
 	totalBetAmount: number,
 	totalWonAmount: number,
 	userId: string,
+	betId?: string,
+	currency?: string, // Of the player's wallet; amounts are in its minor units
 ): Promise<void> {
 	const ggr = totalBetAmount - totalWonAmount;
   const context = createOperationContext({
@@ -25,6 +27,8 @@ export async function logGGRContribution(
 			ggr,
 			totalBetAmount,
 			totalWonAmount,
+			betId,
+			currency,
 		});
 
 		// Here you would typically store this in a database or send to analytics
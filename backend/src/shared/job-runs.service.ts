@@ -0,0 +1,66 @@
+/**
+ * Job Runs Service
+ * Records every execution of a background job in job_runs
+ */
+
+import { db } from "@/core/database/db";
+import { type JobRun, jobRunTable } from "@/core/database/schema";
+import { appLogger, createOperationContext } from "@/core/logger/app-logger";
+import { desc, eq } from "drizzle-orm";
+
+export interface JobResult {
+	processed: number;
+	error?: string; // Set when the job handled its own failure
+	[key: string]: unknown;
+}
+
+/**
+ * Run a job and record its outcome. The job's result is returned unchanged; a thrown error is
+ * recorded and rethrown. Failing to write the record never fails the job itself.
+ */
+export async function runRecordedJob<T extends JobResult>(jobName: string, job: () => Promise<T>): Promise<T> {
+	const context = createOperationContext({ domain: "jobs", operation: jobName });
+
+	let runId: string | undefined;
+	try {
+		const [run] = await db.insert(jobRunTable).values({ jobName }).returning({ id: jobRunTable.id });
+		runId = run?.id;
+	} catch (error) {
+		appLogger.error("Failed to record job start", context, error as Error);
+	}
+
+	const finish = async (values: Partial<typeof jobRunTable.$inferInsert>) => {
+		if (!runId) return;
+		try {
+			await db
+				.update(jobRunTable)
+				.set({ ...values, finishedAt: new Date() })
+				.where(eq(jobRunTable.id, runId));
+		} catch (error) {
+			appLogger.error("Failed to record job result", context, error as Error);
+		}
+	};
+
+	try {
+		const result = await job();
+		await finish({
+			status: result.error ? "FAILED" : "SUCCEEDED",
+			processed: result.processed,
+			result,
+			error: result.error ?? null,
+		});
+		return result;
+	} catch (error) {
+		await finish({ status: "FAILED", error: error instanceof Error ? error.message : String(error) });
+		throw error;
+	}
+}
+
+export async function getRecentJobRuns(jobName?: string, limit = 20): Promise<JobRun[]> {
+	return (await db
+		.select()
+		.from(jobRunTable)
+		.where(jobName ? eq(jobRunTable.jobName, jobName) : undefined)
+		.orderBy(desc(jobRunTable.startedAt))
+		.limit(limit)) as JobRun[];
+}
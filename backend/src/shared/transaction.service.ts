@@ -3,17 +3,18 @@
  * Handles all transaction logging and processing by writing to the database.
  */
 
-import { db } from "@/core/database/db";
+import { type DbExecutor, db } from "@/core/database/db";
 import { transactionLogTable, type TransactionLogInsert, type TransactionLog } from "@/core/database/schema/finance";
 import { appLogger, createOperationContext, type LogContext } from "@/core/logger/app-logger";
 import { eq, desc } from "drizzle-orm";
 
 /**
- * Logs a transaction record to the database.
- * This function now acts as an adapter, handling inconsistent payloads
- * from listeners and splitting them into correct DB entries.
+ * Logs a transaction record to the player's activity history.
+ * Money movements are accounted for in the ledger (modules/ledger), posted in the same
+ * transaction as the balance change; these rows only describe the activity for display,
+ * so amounts live in wagerAmount whatever the direction. Written with the caller's transaction when one is given.
  */
-export async function logTransaction(payload: any): Promise<void> {
+export async function logTransaction(payload: any, tx: DbExecutor = db): Promise<void> {
     const context = createOperationContext({
         domain: 'transaction',
         operation: 'logTransaction',
@@ -26,6 +27,7 @@ export async function logTransaction(payload: any): Promise<void> {
 			userId: payload.userId,
 			type: payload.type,
 			status: payload.status || "COMPLETED",
+			currency: payload.currency, // Left out on events without one, so the column default applies
 			relatedId: payload.relatedId || payload.depositId,
 			gameId: payload.gameId,
 			operatorId: payload.operatorId,
@@ -43,14 +45,12 @@ export async function logTransaction(payload: any): Promise<void> {
 
 		// 2. Handle specific logic based on transaction type
 		if (payload.type === "DEPOSIT") {
-			// A deposit is a credit. The schema only has `wagerAmount`.
-			// We will store the deposit amount in the `wagerAmount` field.
-			// This is a schema smell, but it's the only place to store it.
+			// The credited amount is kept in `wagerAmount`; the DEPOSIT journal holds the accounting
 			dbPayload.wagerAmount = payload.winAmount || payload.amount || 0;
 			dbPayload.type = "DEPOSIT";
 
 			// Insert the single deposit transaction
-			await db.insert(transactionLogTable).values(dbPayload);
+			await tx.insert(transactionLogTable).values(dbPayload);
 
 			appLogger.info("Transaction logged: DEPOSIT", context, {
                 transactionId: dbPayload.id,
@@ -66,7 +66,7 @@ export async function logTransaction(payload: any): Promise<void> {
 				type: "BET",
 				wagerAmount: payload.wagerAmount || 0,
 			};
-			await db.insert(transactionLogTable).values(betPayload);
+			await tx.insert(transactionLogTable).values(betPayload);
 			appLogger.info("Transaction logged: BET", context, {
                 wager: betPayload.wagerAmount,
               });
@@ -78,16 +78,15 @@ export async function logTransaction(payload: any): Promise<void> {
 					type: "WIN",
 					// Store the win amount in the `wagerAmount` field
 					wagerAmount: payload.winAmount,
-					// IMPORTANT: The "before" balance for the WIN is the "after" balance of the BET
-					// However, the payload from the listener gives the *overall* before/after.
-					// We will use the payload's final balances for the WIN record.
-					realBalanceBefore: payload.realBalanceBefore, // This is slightly inaccurate, but what the payload provides
+					// The listener only has the round's overall before/after; the BET and WIN journals for
+					// relatedId carry the exact per-step movements
+					realBalanceBefore: payload.realBalanceBefore,
 					realBalanceAfter: payload.realBalanceAfter,
 					bonusBalanceBefore: payload.bonusBalanceBefore,
 					bonusBalanceAfter: payload.bonusBalanceAfter,
 					id: undefined, // Let DB generate a new UUID
 				};
-				await db.insert(transactionLogTable).values(winPayload);
+				await tx.insert(transactionLogTable).values(winPayload);
 				appLogger.info("Transaction logged: WIN", context, {
                     win: winPayload.wagerAmount,
                   });
@@ -95,7 +94,7 @@ export async function logTransaction(payload: any): Promise<void> {
 		} else {
 			// Handle other types directly if they match schema
 			dbPayload.wagerAmount = payload.wagerAmount || payload.amount || 0;
-			await db.insert(transactionLogTable).values(dbPayload);
+			await tx.insert(transactionLogTable).values(dbPayload);
 
 			appLogger.info("Transaction logged: OTHER", context, {
                 transactionId: dbPayload.id,
@@ -106,7 +105,8 @@ export async function logTransaction(payload: any): Promise<void> {
 		appLogger.error("Failed to log transaction to database", context, error as Error, {
             payload
         });
-		// Do not re-throw, as this is a non-blocking side-effect
+		// Rethrown so the outbox keeps the event and retries it
+		throw error;
 	}
 }
 
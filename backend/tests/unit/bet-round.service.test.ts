@@ -0,0 +1,132 @@
+/**
+ * Bet Round Service Tests
+ * Round idempotency: replaying a settled round and refusing a round id reused for another bet
+ */
+
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/core/database/db', () => import('../utils/service-db'));
+
+import { eq, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { betRoundTable, fairnessSeedTable, gameSessionTable, operatorTable, outboxEventTable, userBalanceTable, userTable } from '../../src/core/database/schema';
+import { BET_COMPLETED_EVENT } from '../../src/modules/events/domain-events';
+import { getBetDetails, processBet } from '../../src/modules/gameplay/orchestrators/bet.orchestrator';
+import { db, pushTestSchema, truncateAllTables } from '../utils/service-db';
+
+const OPERATOR_ID = '79032f3f-7c4e-4575-abf9-4298ad3e9d1a';
+const USER_ID = uuidv4();
+const GAME_ID = uuidv4();
+
+async function seedPlayer(): Promise<void>
+{
+    await db.insert(operatorTable).values({ id: OPERATOR_ID, name: 'The House', balance: 1_000_000 });
+    await db.insert(userTable).values({ id: USER_ID, username: 'player', authEmail: 'player@example.com', operatorId: OPERATOR_ID });
+    await db.insert(userBalanceTable).values({ id: uuidv4(), userId: USER_ID, realBalance: 10000 });
+    // startedAt and createdAt share a column builder, so drizzle cannot insert into games
+    await db.execute(sql`insert into games (id, name) values (${GAME_ID}, 'Lucky Sevens')`);
+    await db.insert(gameSessionTable).values({ userId: USER_ID, gameId: GAME_ID, gameName: 'Lucky Sevens' });
+}
+
+async function getBalance()
+{
+    const [balance] = await db.select().from(userBalanceTable).where(eq(userBalanceTable.userId, USER_ID));
+    return balance!;
+}
+
+async function getRound(roundId: string)
+{
+    const [round] = await db.select().from(betRoundTable).where(eq(betRoundTable.roundId, roundId));
+    return round!;
+}
+
+describe('Bet Round Service Tests', () =>
+{
+    beforeAll(async () =>
+    {
+        await pushTestSchema();
+    });
+
+    beforeEach(async () =>
+    {
+        await truncateAllTables();
+        await seedPlayer();
+    });
+
+    it('should settle a round once and replay it when the same round id comes back', async () =>
+    {
+        const roundId = uuidv4();
+        const request = { userId: USER_ID, gameId: GAME_ID, wagerAmount: 500, roundId };
+
+        const first = await processBet(request, { winAmount: 1200 });
+        expect(first).toMatchObject({ success: true, roundId, wagerAmount: 500, winAmount: 1200 });
+        expect(first.replayed).toBeFalsy();
+
+        const second = await processBet(request, { winAmount: 0 });
+        expect(second).toMatchObject({ success: true, replayed: true, roundId, winAmount: 1200 });
+
+        expect(await getBalance()).toMatchObject({ realBalance: 10700 });
+        expect(await db.select().from(betRoundTable).where(eq(betRoundTable.roundId, roundId))).toHaveLength(1);
+        const events = await db.select().from(outboxEventTable).where(eq(outboxEventTable.eventType, BET_COMPLETED_EVENT));
+        expect(events).toHaveLength(1);
+    });
+
+    it('should look up a settled bet before its transaction log rows are written', async () =>
+    {
+        const roundId = uuidv4();
+        await processBet({ userId: USER_ID, gameId: GAME_ID, wagerAmount: 500, roundId }, { winAmount: 1200 });
+
+        expect(await getBetDetails(roundId, USER_ID)).toMatchObject({
+            betId: roundId,
+            gameId: GAME_ID,
+            wagerAmount: 500,
+            winAmount: 1200,
+            realBalanceBefore: 10000,
+            realBalanceAfter: 10700,
+            status: 'CLOSED',
+        });
+        expect(await getBetDetails(roundId, uuidv4())).toBeNull();
+    });
+
+    it('should store the commitment and the balance of a generated round and reserve one nonce for it', async () =>
+    {
+        const roundId = uuidv4();
+        const request = { userId: USER_ID, gameId: GAME_ID, wagerAmount: 500, roundId };
+
+        const outcome = await processBet(request);
+        expect(outcome).toMatchObject({ success: true, roundId });
+        await processBet(request);
+
+        const round = await getRound(roundId);
+        expect(round).toMatchObject({ realBalanceBefore: 10000, bonusBalanceBefore: 0 });
+        expect(round.fairness).toMatchObject({ nonce: 0 });
+        expect(outcome.newBalance).toBe((await getBalance()).realBalance);
+
+        const [seed] = await db.select().from(fairnessSeedTable).where(eq(fairnessSeedTable.userId, USER_ID));
+        expect(seed).toMatchObject({ nonce: 1 });
+    });
+
+    it('should refuse a round id reused for a different stake or game', async () =>
+    {
+        const roundId = uuidv4();
+        await processBet({ userId: USER_ID, gameId: GAME_ID, wagerAmount: 500, roundId }, { winAmount: 0 });
+
+        const otherStake = await processBet({ userId: USER_ID, gameId: GAME_ID, wagerAmount: 900, roundId }, { winAmount: 0 });
+        expect(otherStake).toMatchObject({ success: false, errorCode: 'ROUND_MISMATCH' });
+
+        const otherGame = await processBet({ userId: USER_ID, gameId: uuidv4(), wagerAmount: 500, roundId }, { winAmount: 0 });
+        expect(otherGame).toMatchObject({ success: false, errorCode: 'ROUND_MISMATCH' });
+
+        expect(await getBalance()).toMatchObject({ realBalance: 9500 });
+    });
+
+    it('should refuse a bet without an active session for the game', async () =>
+    {
+        await db.update(gameSessionTable).set({ status: 'COMPLETED' }).where(eq(gameSessionTable.userId, USER_ID));
+
+        const outcome = await processBet({ userId: USER_ID, gameId: GAME_ID, wagerAmount: 500 }, { winAmount: 0 });
+
+        expect(outcome).toMatchObject({ success: false, errorCode: 'GAME_SESSION_REQUIRED' });
+        expect(await getBalance()).toMatchObject({ realBalance: 10000 });
+    });
+});
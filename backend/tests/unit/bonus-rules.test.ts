@@ -0,0 +1,167 @@
+/**
+ * Bonus Rules Unit Tests
+ * Award sizing, game restrictions, wagering allocation and the user bonus status machine
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import
+{
+    allocateWagering,
+    bonusMaxBet,
+    calculateBonusAward,
+    calculateWageringRequired,
+    canTransitionBonus,
+    isBonusEligibleForGame,
+    resolveWageringConfig,
+    wageringContributionRate,
+    type BonusAwardSource,
+    type BonusRestrictionSource
+} from '../../src/modules/bonus/bonus-rules';
+
+function buildBonus(overrides: Partial<BonusAwardSource> = {}): BonusAwardSource
+{
+    return {
+        type: 'DEPOSIT_MATCH',
+        amount: null,
+        percentage: 100,
+        maxAmount: null,
+        ...overrides,
+    };
+}
+
+function buildRestrictions(overrides: Partial<BonusRestrictionSource> = {}): BonusRestrictionSource
+{
+    return {
+        maxBet: null,
+        allowedGameTypes: null,
+        excludedGameIds: null,
+        slot: true,
+        casino: true,
+        contributionPercentage: 100,
+        ...overrides,
+    };
+}
+
+describe('Bonus Rules Unit Tests', () =>
+{
+    describe('calculateBonusAward', () =>
+    {
+        it('should match a percentage of the deposit', () =>
+        {
+            expect(calculateBonusAward(buildBonus({ percentage: 50 }), 10000)).toBe(5000);
+        });
+
+        it('should cap the award at maxAmount', () =>
+        {
+            expect(calculateBonusAward(buildBonus({ maxAmount: 2500 }), 10000)).toBe(2500);
+        });
+
+        it('should pay the fixed amount for manual and level up bonuses', () =>
+        {
+            expect(calculateBonusAward(buildBonus({ type: 'MANUAL', amount: 1000 }))).toBe(1000);
+            expect(calculateBonusAward(buildBonus({ type: 'LEVEL_UP', amount: 700, maxAmount: 500 }))).toBe(500);
+        });
+
+        it('should award no money for free spin bonuses', () =>
+        {
+            expect(calculateBonusAward(buildBonus({ type: 'FREE_SPINS', amount: 20 }))).toBe(0);
+        });
+    });
+
+    it('should multiply the award by the wagering multiplier', () =>
+    {
+        expect(calculateWageringRequired(5000, 30)).toBe(150000);
+        expect(calculateWageringRequired(333, 1.5)).toBe(500);
+    });
+
+    describe('allocateWagering', () =>
+    {
+        const bonuses = [
+            { id: 'a', wageringRequired: 1000, wageringProgress: 900 },
+            { id: 'b', wageringRequired: 500, wageringProgress: 0 },
+        ];
+
+        it('should fill the oldest bonus first and carry the rest over', () =>
+        {
+            expect(allocateWagering(bonuses, 300).allocations).toEqual([
+                { bonusId: 'a', progressBefore: 900, progressAfter: 1000, completed: true },
+                { bonusId: 'b', progressBefore: 0, progressAfter: 200, completed: false },
+            ]);
+        });
+
+        it('should stop once the stake is used up', () =>
+        {
+            expect(allocateWagering(bonuses, 50)).toEqual({
+                allocations: [{ bonusId: 'a', progressBefore: 900, progressAfter: 950, completed: false }],
+                leftoverStake: 0,
+            });
+        });
+
+        it('should count only the contribution rate of the stake', () =>
+        {
+            const { allocations, leftoverStake } = allocateWagering(
+                [{ id: 'a', wageringRequired: 1000, wageringProgress: 990, contributionRate: 0.1 }, bonuses[1]!],
+                200,
+            );
+
+            expect(allocations).toEqual([
+                { bonusId: 'a', progressBefore: 990, progressAfter: 1000, completed: true },
+                { bonusId: 'b', progressBefore: 0, progressAfter: 100, completed: false },
+            ]);
+            expect(leftoverStake).toBe(0);
+        });
+
+        it('should return the stake no bonus needed', () =>
+        {
+            expect(allocateWagering([{ id: 'a', wageringRequired: 100, wageringProgress: 0 }], 250).leftoverStake).toBe(150);
+        });
+    });
+
+    describe('game restrictions', () =>
+    {
+        const slot = { id: 'game-1', category: 'SLOTS' as const };
+        const table = { id: 'game-2', category: 'TABLE' as const };
+
+        it('should skip excluded games and categories', () =>
+        {
+            expect(isBonusEligibleForGame(buildRestrictions({ excludedGameIds: ['game-1'] }), slot)).toBe(false);
+            expect(isBonusEligibleForGame(buildRestrictions({ allowedGameTypes: ['SLOTS'] }), table)).toBe(false);
+            expect(isBonusEligibleForGame(buildRestrictions({ allowedGameTypes: ['SLOTS'] }), slot)).toBe(true);
+        });
+
+        it('should apply the slot and casino flags', () =>
+        {
+            expect(isBonusEligibleForGame(buildRestrictions({ slot: false }), slot)).toBe(false);
+            expect(isBonusEligibleForGame(buildRestrictions({ casino: false }), table)).toBe(false);
+            expect(isBonusEligibleForGame(buildRestrictions({ casino: false }), slot)).toBe(true);
+        });
+
+        it('should combine bonus and category contribution percentages', () =>
+        {
+            const config = resolveWageringConfig({ gameContributions: { TABLE: 10 } });
+
+            expect(wageringContributionRate(buildRestrictions({ contributionPercentage: 50 }), slot, config)).toBe(0.5);
+            expect(wageringContributionRate(buildRestrictions({ contributionPercentage: 50 }), table, config)).toBeCloseTo(0.05);
+            expect(wageringContributionRate(null, table, config)).toBeCloseTo(0.1);
+        });
+
+        it('should cap the stake at the lowest bonus max bet', () =>
+        {
+            const config = resolveWageringConfig({ maxBonusBetPercentage: 0.1 });
+
+            expect(bonusMaxBet([{ maxBet: 500, awardedAmount: 10000 }], config)).toBe(500);
+            expect(bonusMaxBet([{ maxBet: null, awardedAmount: 3000 }, { maxBet: 1000, awardedAmount: 20000 }], config)).toBe(300);
+            expect(bonusMaxBet([], config)).toBeNull();
+        });
+    });
+
+    it('should only allow the PENDING -> ACTIVE -> terminal lifecycle', () =>
+    {
+        expect(canTransitionBonus('PENDING', 'ACTIVE')).toBe(true);
+        expect(canTransitionBonus('ACTIVE', 'COMPLETED')).toBe(true);
+        expect(canTransitionBonus('PENDING', 'COMPLETED')).toBe(false);
+        expect(canTransitionBonus('COMPLETED', 'CANCELLED')).toBe(false);
+        expect(canTransitionBonus('EXPIRED', 'ACTIVE')).toBe(false);
+    });
+});
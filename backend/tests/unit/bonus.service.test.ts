@@ -0,0 +1,133 @@
+/**
+ * Bonus Service Tests
+ * Claiming bonuses directly and as the DEPOSIT_MATCH picked for a deposit, against an in-memory database
+ */
+
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/core/database/db', () => import('../utils/service-db'));
+
+import { eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { bonusTable, depositTable, operatorTable, userBalanceTable, userBonusTable, userTable } from '../../src/core/database/schema';
+import { BonusError, claimBonus } from '../../src/modules/bonus/bonus.service';
+import { executeCoreDeposit } from '../../src/modules/gameplay/core/core-deposit.service';
+import { db, pushTestSchema, truncateAllTables } from '../utils/service-db';
+
+const OPERATOR_ID = '79032f3f-7c4e-4575-abf9-4298ad3e9d1a';
+const USER_ID = uuidv4();
+const MATCH_BONUS_ID = uuidv4();
+
+async function seedPlayer(): Promise<void>
+{
+    await db.insert(operatorTable).values({ id: OPERATOR_ID, name: 'The House', balance: 1_000_000 });
+    await db.insert(userTable).values({ id: USER_ID, username: 'player', authEmail: 'player@example.com' });
+    await db.insert(userBalanceTable).values({ id: uuidv4(), userId: USER_ID });
+    await db.insert(bonusTable).values({
+        id: MATCH_BONUS_ID,
+        name: '100% first deposit',
+        type: 'DEPOSIT_MATCH',
+        percentage: 100,
+        maxAmount: 5000,
+        wageringMultiplier: 10,
+    });
+}
+
+async function createDeposit(amount: number, metadata: Record<string, unknown>): Promise<string>
+{
+    const depositId = uuidv4();
+    await db.insert(depositTable).values({
+        id: depositId,
+        userId: USER_ID,
+        amount,
+        bonusAmount: 0,
+        paymentMethod: 'CASHAPP',
+        metadata,
+    });
+    return depositId;
+}
+
+async function getBalance()
+{
+    const [balance] = await db.select().from(userBalanceTable).where(eq(userBalanceTable.userId, USER_ID));
+    return balance!;
+}
+
+describe('Bonus Service Tests', () =>
+{
+    beforeAll(async () =>
+    {
+        await pushTestSchema();
+    });
+
+    beforeEach(async () =>
+    {
+        await truncateAllTables();
+        await seedPlayer();
+    });
+
+    it('should award a DEPOSIT_MATCH on the base amount, capped at maxAmount', async () =>
+    {
+        const userBonus = await claimBonus(USER_ID, MATCH_BONUS_ID, { baseAmount: 3000, activate: true });
+
+        expect(userBonus).toMatchObject({ status: 'ACTIVE', awardedAmount: 3000, wageringRequired: 30000 });
+        expect(await getBalance()).toMatchObject({ bonusBalance: 3000, bonusWrRemaining: 30000 });
+
+        const capped = await claimBonus(USER_ID, MATCH_BONUS_ID, { baseAmount: 20000 });
+        expect(capped).toMatchObject({ status: 'PENDING', awardedAmount: 5000 });
+    });
+
+    it('should refuse a claim that awards nothing', async () =>
+    {
+        await expect(claimBonus(USER_ID, MATCH_BONUS_ID)).rejects.toMatchObject({ code: 'NOTHING_TO_AWARD' });
+        await expect(claimBonus(USER_ID, uuidv4(), { baseAmount: 1000 })).rejects.toBeInstanceOf(BonusError);
+    });
+
+    it('should match a deposit made for a bonus once it completes', async () =>
+    {
+        const depositId = await createDeposit(2000, { bonusId: MATCH_BONUS_ID });
+
+        const result = await executeCoreDeposit({
+            transactionId: depositId,
+            userId: USER_ID,
+            amount: 2000,
+            timestamp: new Date(),
+        });
+
+        expect(result.outcome).toBe('COMPLETED');
+        expect(await getBalance()).toMatchObject({ realBalance: 2000, bonusBalance: 2000 });
+
+        const userBonuses = await db.select().from(userBonusTable).where(eq(userBonusTable.userId, USER_ID));
+        expect(userBonuses).toHaveLength(1);
+        expect(userBonuses[0]).toMatchObject({ bonusId: MATCH_BONUS_ID, status: 'ACTIVE', awardedAmount: 2000 });
+    });
+
+    it('should only match once the whole deposit has been paid', async () =>
+    {
+        const depositId = await createDeposit(2000, { bonusId: MATCH_BONUS_ID });
+
+        await executeCoreDeposit({ transactionId: depositId, userId: USER_ID, amount: 500, timestamp: new Date() });
+        expect(await db.select().from(userBonusTable)).toHaveLength(0);
+
+        await executeCoreDeposit({ transactionId: depositId, userId: USER_ID, amount: 1500, timestamp: new Date() });
+        const [userBonus] = await db.select().from(userBonusTable);
+        expect(userBonus).toMatchObject({ awardedAmount: 2000 });
+    });
+
+    it('should still credit the deposit when its bonus is no longer offered', async () =>
+    {
+        const depositId = await createDeposit(2000, { bonusId: MATCH_BONUS_ID });
+        await db.update(bonusTable).set({ isActive: false }).where(eq(bonusTable.id, MATCH_BONUS_ID));
+
+        const result = await executeCoreDeposit({
+            transactionId: depositId,
+            userId: USER_ID,
+            amount: 2000,
+            timestamp: new Date(),
+        });
+
+        expect(result.outcome).toBe('COMPLETED');
+        expect(await getBalance()).toMatchObject({ realBalance: 2000, bonusBalance: 0 });
+        expect(await db.select().from(userBonusTable)).toHaveLength(0);
+    });
+});
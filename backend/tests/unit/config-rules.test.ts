@@ -0,0 +1,112 @@
+/**
+ * Configuration Rules Unit Tests
+ * Versioned setting values, field-by-field settings diffs and operator overrides
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import
+{
+    diffSettings,
+    mergeOperatorSettings,
+    settingValues
+} from '../../src/shared/config-rules';
+
+describe('Configuration Rules Unit Tests', () =>
+{
+    it('should leave the row id, version and timestamps out of the versioned values', () =>
+    {
+        const values = settingValues({
+            id: 'settings-1',
+            version: 4,
+            name: 'Default Settings',
+            referralCodeCount: 5,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        } as any);
+
+        expect(values).toEqual({ name: 'Default Settings', referralCodeCount: 5 });
+    });
+
+    it('should report nested jsonb changes by dotted path', () =>
+    {
+        const before = {
+            bonusWrMultiplier: 30,
+            jackpotConfig: { minor: { rate: 0.01, seedAmount: 1000 }, major: { rate: 0.005 } },
+        };
+        const after = {
+            bonusWrMultiplier: 35,
+            jackpotConfig: { minor: { rate: 0.02, seedAmount: 1000 }, major: { rate: 0.005 } },
+        };
+
+        expect(diffSettings(before, after)).toEqual([
+            { path: 'bonusWrMultiplier', before: 30, after: 35 },
+            { path: 'jackpotConfig.minor.rate', before: 0.01, after: 0.02 },
+        ]);
+    });
+
+    it('should report added and removed fields and compare arrays as a whole', () =>
+    {
+        const changes = diffSettings(
+            { vipConfig: { vipLevels: [1, 2], legacy: true } },
+            { vipConfig: { vipLevels: [1, 2, 3], costSharingPercentage: 5 } },
+        );
+
+        expect(changes).toEqual([
+            { path: 'vipConfig.costSharingPercentage', before: undefined, after: 5 },
+            { path: 'vipConfig.legacy', before: true, after: undefined },
+            { path: 'vipConfig.vipLevels', before: [1, 2], after: [1, 2, 3] },
+        ]);
+    });
+
+    it('should find no changes between identical settings', () =>
+    {
+        const settings = { systemLimits: { maxBetAmount: 100000 }, dashboard: null };
+
+        expect(diffSettings(settings, structuredClone(settings))).toEqual([]);
+    });
+
+    describe('mergeOperatorSettings', () =>
+    {
+        const platform = {
+            id: 'settings-1',
+            version: 3,
+            bonusWrMultiplier: 30,
+            jackpotConfig: { minor: { rate: 0.01, maxAmount: 10000 }, major: { rate: 0.005, maxAmount: 100000 } },
+            vipConfig: { pointsPerDollar: 1, vipLevels: [{ level: 1 }, { level: 2 }] },
+        } as any;
+
+        it('should fall back to the platform default for anything the operator does not override', () =>
+        {
+            expect(mergeOperatorSettings(platform, null)).toBe(platform);
+
+            const merged = mergeOperatorSettings(platform, { jackpotConfig: { minor: { rate: 0.02 } } } as any);
+
+            expect(merged.bonusWrMultiplier).toBe(30);
+            expect(merged.jackpotConfig).toEqual({
+                minor: { rate: 0.02, maxAmount: 10000 },
+                major: { rate: 0.005, maxAmount: 100000 },
+            });
+            expect(platform.jackpotConfig.minor.rate).toBe(0.01);
+        });
+
+        it('should replace arrays and plain values as a whole', () =>
+        {
+            const merged = mergeOperatorSettings(platform, {
+                bonusWrMultiplier: 20,
+                vipConfig: { vipLevels: [{ level: 1 }] },
+            } as any);
+
+            expect(merged.bonusWrMultiplier).toBe(20);
+            expect(merged.vipConfig).toEqual({ pointsPerDollar: 1, vipLevels: [{ level: 1 }] });
+        });
+
+        it('should keep the platform row id and version', () =>
+        {
+            const merged = mergeOperatorSettings(platform, { id: 'other', version: 99 } as any);
+
+            expect(merged.id).toBe('settings-1');
+            expect(merged.version).toBe(3);
+        });
+    });
+});
@@ -0,0 +1,103 @@
+/**
+ * Currency Rules Unit Tests
+ * Allowed currencies, minor-unit scales, FX conversion and per-currency reporting
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import
+{
+    buildCurrencyReport,
+    convertMinorUnits,
+    findFxRate,
+    formatMinorUnits,
+    normalizeCurrencyCode,
+    resolveCurrencyConfig
+} from '../../src/modules/currency/currency-rules';
+
+const SCALES = [
+    { code: 'USD', minorUnits: 2 },
+    { code: 'JPY', minorUnits: 0 },
+    { code: 'KWD', minorUnits: 3 },
+];
+
+const RATES = [
+    { baseCurrency: 'USD', quoteCurrency: 'JPY', rate: 150 },
+    { baseCurrency: 'KWD', quoteCurrency: 'USD', rate: 3.25 },
+];
+
+describe('Currency Rules Unit Tests', () =>
+{
+    it('should fall back to USD and always allow the default currency', () =>
+    {
+        expect(resolveCurrencyConfig(undefined)).toEqual({
+            defaultCurrency: 'USD',
+            allowedCurrencies: ['USD'],
+            reportingCurrency: 'USD',
+        });
+        expect(resolveCurrencyConfig({ defaultCurrency: 'jpy', allowedCurrencies: ['USD', 'nope', 'usd'] })).toEqual({
+            defaultCurrency: 'JPY',
+            allowedCurrencies: ['JPY', 'USD'],
+            reportingCurrency: 'USD',
+        });
+    });
+
+    it('should only accept three-letter currency codes', () =>
+    {
+        expect(normalizeCurrencyCode(' eur ')).toBe('EUR');
+        expect(normalizeCurrencyCode('EURO')).toBeNull();
+        expect(normalizeCurrencyCode(42)).toBeNull();
+    });
+
+    it('should format amounts with the currency scale', () =>
+    {
+        expect(formatMinorUnits(1234, 2)).toBe('12.34');
+        expect(formatMinorUnits(1234, 0)).toBe('1234');
+        expect(formatMinorUnits(1234, 3)).toBe('1.234');
+    });
+
+    it('should use listed rates directly or inverted', () =>
+    {
+        expect(findFxRate(RATES, 'USD', 'USD')).toBe(1);
+        expect(findFxRate(RATES, 'USD', 'JPY')).toBe(150);
+        expect(findFxRate(RATES, 'USD', 'KWD')).toBeCloseTo(1 / 3.25);
+        expect(findFxRate(RATES, 'JPY', 'KWD')).toBeNull();
+    });
+
+    it('should convert between minor units of different scales', () =>
+    {
+        expect(convertMinorUnits(1000, SCALES[0]!, SCALES[1]!, 150)).toBe(1500); // $10.00 -> ¥1500
+        expect(convertMinorUnits(1500, SCALES[1]!, SCALES[0]!, 1 / 150)).toBe(1000);
+        expect(convertMinorUnits(1000, SCALES[2]!, SCALES[0]!, 3.25)).toBe(325); // 1.000 KWD -> $3.25
+    });
+
+    it('should total each currency and convert what it can into the reporting currency', () =>
+    {
+        const report = buildCurrencyReport(
+            [
+                { currency: 'USD', type: 'BET', amount: 10000 },
+                { currency: 'USD', type: 'WIN', amount: 9000 },
+                { currency: 'USD', type: 'DEPOSIT', amount: 5000 },
+                { currency: 'JPY', type: 'BET', amount: 30000 },
+                { currency: 'JPY', type: 'WIN', amount: 15000 },
+                { currency: 'BRL', type: 'BET', amount: 800 },
+                { currency: 'USD', type: 'ADJUSTMENT', amount: 123 },
+            ],
+            SCALES,
+            RATES,
+            'USD',
+        );
+
+        expect(report.byCurrency.map((row) => row.currency)).toEqual(['BRL', 'JPY', 'USD']);
+        expect(report.byCurrency[1]).toMatchObject({
+            currency: 'JPY',
+            wagered: 30000,
+            won: 15000,
+            ggr: 15000,
+            converted: { wagered: 20000, won: 10000, ggr: 10000 },
+        });
+        expect(report.byCurrency[0]!.converted).toBeNull();
+        expect(report.missingRates).toEqual(['BRL']);
+        expect(report.total).toEqual({ deposits: 5000, withdrawals: 0, wagered: 30000, won: 19000, ggr: 11000 });
+    });
+});
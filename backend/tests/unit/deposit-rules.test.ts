@@ -0,0 +1,144 @@
+/**
+ * Deposit Rules Unit Tests
+ * Partial and over payment policies, replay detection, the metadata payment history and pending TTLs
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import
+{
+    applyDepositPayment,
+    isDepositExpired,
+    isDuplicatePayment,
+    pendingTtlMinutes,
+    readDepositPaymentState,
+    resolveDepositConfig
+} from '../../src/modules/gameplay/core/deposit-rules';
+
+const CREDIT_RECEIVED = resolveDepositConfig({});
+const STRICT = resolveDepositConfig({ partialPayment: 'REJECT', overpayment: 'CREDIT_EXPECTED' });
+const RECEIVED_AT = new Date('2026-01-01T00:00:00.000Z');
+
+describe('Deposit Rules Unit Tests', () =>
+{
+    it('should complete an exact payment', () =>
+    {
+        const result = applyDepositPayment(5000, readDepositPaymentState(null), { amount: 5000, receivedAt: RECEIVED_AT }, CREDIT_RECEIVED);
+
+        expect(result.outcome).toBe('COMPLETED');
+        expect(result.credit).toBe(5000);
+        expect(result.remainingAmount).toBe(0);
+        expect(result.state.reviewRequired).toBe(false);
+    });
+
+    describe('partial payments', () =>
+    {
+        it('should credit what arrived and keep the remainder pending', () =>
+        {
+            const first = applyDepositPayment(5000, readDepositPaymentState({}), { amount: 2000, providerTransactionId: 'tx-1' }, CREDIT_RECEIVED);
+            expect(first.outcome).toBe('PARTIAL');
+            expect(first.credit).toBe(2000);
+            expect(first.remainingAmount).toBe(3000);
+
+            const second = applyDepositPayment(5000, first.state, { amount: 3000, providerTransactionId: 'tx-2' }, CREDIT_RECEIVED);
+            expect(second.outcome).toBe('COMPLETED');
+            expect(second.state.amountReceived).toBe(5000);
+            expect(second.state.amountCredited).toBe(5000);
+            expect(second.state.payments.map((p) => p.providerTransactionId)).toEqual(['tx-1', 'tx-2']);
+        });
+
+        it('should hold short payments uncredited under the REJECT policy', () =>
+        {
+            const result = applyDepositPayment(5000, readDepositPaymentState({}), { amount: 2000 }, STRICT);
+
+            expect(result.outcome).toBe('UNDERPAID');
+            expect(result.credit).toBe(0);
+            expect(result.remainingAmount).toBe(5000);
+            expect(result.state.reviewReasons).toEqual(['Underpaid by 3000']);
+        });
+    });
+
+    describe('overpayments', () =>
+    {
+        it('should credit the actual amount and flag for review', () =>
+        {
+            const result = applyDepositPayment(5000, readDepositPaymentState({}), { amount: 6500 }, CREDIT_RECEIVED);
+
+            expect(result.outcome).toBe('COMPLETED');
+            expect(result.credit).toBe(6500);
+            expect(result.state.reviewRequired).toBe(true);
+            expect(result.state.reviewReasons).toEqual(['Overpaid by 1500']);
+        });
+
+        it('should credit only the outstanding amount under CREDIT_EXPECTED', () =>
+        {
+            const partial = applyDepositPayment(5000, readDepositPaymentState({}), { amount: 4000 }, CREDIT_RECEIVED);
+            const result = applyDepositPayment(5000, partial.state, { amount: 2000 }, STRICT);
+
+            expect(result.credit).toBe(1000);
+            expect(result.state.amountReceived).toBe(6000);
+            expect(result.state.amountCredited).toBe(5000);
+        });
+    });
+
+    it('should recognise a provider transaction that was already applied', () =>
+    {
+        const { state } = applyDepositPayment(5000, readDepositPaymentState({}), { amount: 2000, providerTransactionId: 'tx-1' }, CREDIT_RECEIVED);
+
+        expect(isDuplicatePayment(state, 'tx-1')).toBe(true);
+        expect(isDuplicatePayment(state, 'tx-2')).toBe(false);
+        expect(isDuplicatePayment(state, undefined)).toBe(false);
+    });
+
+    it('should recognise a replayed webhook body when the provider sends no transaction id', () =>
+    {
+        const { state } = applyDepositPayment(5000, readDepositPaymentState({}), { amount: 2000, payloadDigest: 'digest-1' }, CREDIT_RECEIVED);
+        const stored = readDepositPaymentState(JSON.parse(JSON.stringify(state)));
+
+        expect(isDuplicatePayment(stored, undefined, 'digest-1')).toBe(true);
+        expect(isDuplicatePayment(stored, undefined, 'digest-2')).toBe(false);
+        expect(isDuplicatePayment(stored, 'tx-1', 'digest-2')).toBe(false);
+    });
+
+    it('should keep unrelated metadata readable', () =>
+    {
+        const state = readDepositPaymentState({ provider: 'cashapp', amountReceived: '1200' });
+
+        expect(state).toEqual({
+            payments: [],
+            amountReceived: 1200,
+            amountCredited: 0,
+            reviewRequired: false,
+            reviewReasons: [],
+        });
+    });
+
+    describe('pending TTL', () =>
+    {
+        const config = resolveDepositConfig({ pendingTtlMinutes: { CASHAPP: 60, INSTORE_CASH: -5 }, defaultPendingTtlMinutes: 120 });
+
+        it('should use the method TTL and fall back to the default', () =>
+        {
+            expect(pendingTtlMinutes('CASHAPP', config)).toBe(60);
+            expect(pendingTtlMinutes('INSTORE_CASH', config)).toBe(120);
+            expect(pendingTtlMinutes(null, config)).toBe(120);
+            expect(pendingTtlMinutes(null, resolveDepositConfig({}))).toBe(24 * 60);
+        });
+
+        it('should read the deposit amount bounds and ignore invalid ones', () =>
+        {
+            expect(resolveDepositConfig({ minDepositAmount: 500, maxDepositAmount: 20000 })).toMatchObject({ minDepositAmount: 500, maxDepositAmount: 20000 });
+            expect(resolveDepositConfig({ minDepositAmount: -1, maxDepositAmount: 'lots' })).toMatchObject({ minDepositAmount: 10, maxDepositAmount: 1000000 });
+        });
+
+        it('should expire a deposit once its TTL has passed', () =>
+        {
+            const createdAt = new Date('2026-01-01T00:00:00.000Z');
+            const deposit = { paymentMethod: 'CASHAPP', createdAt };
+
+            expect(isDepositExpired(deposit, config, new Date('2026-01-01T00:59:00.000Z'))).toBe(false);
+            expect(isDepositExpired(deposit, config, new Date('2026-01-01T01:00:00.000Z'))).toBe(true);
+            expect(isDepositExpired({ paymentMethod: null, createdAt }, config, new Date('2026-01-01T01:30:00.000Z'))).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,176 @@
+/**
+ * Deposit Webhook Service Tests
+ * The public payment webhook: source IP allowlist, provider signature check and the deposit it confirms
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const connection = vi.hoisted(() => ({ address: '203.0.113.10' }));
+
+vi.mock('../../src/core/database/db', () => import('../utils/service-db'));
+vi.mock('../../src/api/middlewares/auth.middleware', () => ({ default: async (_c: unknown, next: () => Promise<void>) => next() }));
+vi.mock('hono/bun', () => ({ getConnInfo: () => ({ remote: { address: connection.address } }) }));
+
+import { eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import depositRoutes from '../../src/api/routes/deposit.routes';
+import { depositTable, operatorTable, userBalanceTable, userTable } from '../../src/core/database/schema';
+import { PaymentMethod } from '../../src/modules/payments/payment-provider';
+import { paymentProviders } from '../../src/modules/payments/payment-registry';
+import { InStoreProvider } from '../../src/modules/payments/providers/instore.provider';
+import { WEBHOOK_SIGNATURE_HEADER, signWebhookPayload } from '../../src/modules/payments/webhook-signature';
+import { db, pushTestSchema, truncateAllTables } from '../utils/service-db';
+
+const OPERATOR_ID = '79032f3f-7c4e-4575-abf9-4298ad3e9d1a';
+const OTHER_OPERATOR_ID = 'c1d2e3f4-a5b6-4c7d-8e9f-0a1b2c3d4e5f';
+const OTHER_SECRET = 'other-tenant-secret';
+const USER_ID = uuidv4();
+const WEBHOOK_SECRET = 'webhook-secret';
+const ALLOWED_IP = '203.0.113.10';
+
+async function seedDeposit(amount: number): Promise<string>
+{
+    const depositId = uuidv4();
+    await db.insert(operatorTable).values({ id: OPERATOR_ID, name: 'The House', balance: 1_000_000 });
+    await db.insert(userTable).values({ id: USER_ID, username: 'player', authEmail: 'player@example.com', operatorId: OPERATOR_ID });
+    await db.insert(userBalanceTable).values({ id: uuidv4(), userId: USER_ID });
+    await db.insert(depositTable).values({
+        id: depositId,
+        userId: USER_ID,
+        amount,
+        bonusAmount: 0,
+        paymentMethod: PaymentMethod.INSTORE_CASH,
+    });
+    return depositId;
+}
+
+function postWebhook(body: string, signature: string, path = `/webhook/${PaymentMethod.INSTORE_CASH}`)
+{
+    return depositRoutes.request(path, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', [WEBHOOK_SIGNATURE_HEADER]: signature },
+        body,
+    });
+}
+
+async function getRealBalance(): Promise<number>
+{
+    const [balance] = await db.select().from(userBalanceTable).where(eq(userBalanceTable.userId, USER_ID));
+    return balance!.realBalance;
+}
+
+describe('Deposit Webhook Service Tests', () =>
+{
+    let depositId: string;
+    let body: string;
+
+    beforeAll(async () =>
+    {
+        await pushTestSchema();
+        paymentProviders.register(new InStoreProvider({ method: PaymentMethod.INSTORE_CASH, webhookSecret: WEBHOOK_SECRET }));
+        paymentProviders.register(new InStoreProvider({ method: PaymentMethod.INSTORE_CASH, webhookSecret: OTHER_SECRET }), OTHER_OPERATOR_ID);
+        paymentProviders.register(new InStoreProvider({ method: PaymentMethod.INSTORE_CARD, webhookSecret: OTHER_SECRET }));
+        vi.stubGlobal('Bun', { env: { PAYMENT_WEBHOOK_ALLOWED_IPS: `198.51.100.7, ${ALLOWED_IP}` } });
+    });
+
+    afterAll(() =>
+    {
+        paymentProviders.clear();
+        vi.unstubAllGlobals();
+    });
+
+    beforeEach(async () =>
+    {
+        await truncateAllTables();
+        connection.address = ALLOWED_IP;
+        depositId = await seedDeposit(2500);
+        body = JSON.stringify({
+            event: 'payment.completed',
+            transactionId: depositId,
+            userId: USER_ID,
+            amount: 2500,
+            timestamp: new Date().toISOString(),
+        });
+    });
+
+    it('should credit a signed webhook from an allowed source', async () =>
+    {
+        const response = await postWebhook(body, signWebhookPayload(body, WEBHOOK_SECRET));
+
+        expect(response.status).toBe(200);
+        expect(await getRealBalance()).toBe(2500);
+        const [deposit] = await db.select().from(depositTable).where(eq(depositTable.id, depositId));
+        expect(deposit).toMatchObject({ status: 'COMPLETED' });
+    });
+
+    it('should pay the deposit out of the operator the player belongs to', async () =>
+    {
+        const partnerId = uuidv4();
+        await db.insert(operatorTable).values({ id: partnerId, name: 'Partner Casino', balance: 50_000 });
+        await db.update(userTable).set({ operatorId: partnerId }).where(eq(userTable.id, USER_ID));
+
+        expect((await postWebhook(body, signWebhookPayload(body, WEBHOOK_SECRET))).status).toBe(200);
+
+        const operators = await db.select().from(operatorTable);
+        expect(operators.find((operator) => operator.id === partnerId)).toMatchObject({ balance: 47_500 });
+        expect(operators.find((operator) => operator.id === OPERATOR_ID)).toMatchObject({ balance: 1_000_000 });
+    });
+
+    it('should refuse a source outside the allowlist before checking the signature', async () =>
+    {
+        connection.address = '192.0.2.44';
+
+        const response = await postWebhook(body, signWebhookPayload(body, WEBHOOK_SECRET));
+
+        expect(response.status).toBe(403);
+        expect(await getRealBalance()).toBe(0);
+    });
+
+    it('should refuse a missing, wrong or tampered signature', async () =>
+    {
+        const tampered = body.replace('2500', '9500');
+
+        expect((await postWebhook(body, '')).status).toBe(401);
+        expect((await postWebhook(body, signWebhookPayload(body, 'another-secret'))).status).toBe(401);
+        expect((await postWebhook(tampered, signWebhookPayload(body, WEBHOOK_SECRET))).status).toBe(401);
+        expect(await getRealBalance()).toBe(0);
+    });
+
+    it('should refuse a webhook verified by a provider that does not serve the deposit', async () =>
+    {
+        const signature = signWebhookPayload(body, OTHER_SECRET);
+
+        const otherOperator = await postWebhook(body, signature, `/webhook/${PaymentMethod.INSTORE_CASH}?operatorId=${OTHER_OPERATOR_ID}`);
+        expect(otherOperator.status).toBe(403);
+        expect(await otherOperator.json()).toMatchObject({ code: 'PROVIDER_MISMATCH' });
+
+        const otherMethod = await postWebhook(body, signature, `/webhook/${PaymentMethod.INSTORE_CARD}`);
+        expect(otherMethod.status).toBe(403);
+
+        expect(await getRealBalance()).toBe(0);
+    });
+
+    it('should not credit a replayed partial payment without a provider transaction id', async () =>
+    {
+        const partial = JSON.stringify({ ...JSON.parse(body), amount: 1000 });
+        const signature = signWebhookPayload(partial, WEBHOOK_SECRET);
+
+        expect((await postWebhook(partial, signature)).status).toBe(200);
+        const replay = await postWebhook(partial, signature);
+        expect(await replay.json()).toMatchObject({ success: true, duplicate: true, amount: 0 });
+
+        expect(await getRealBalance()).toBe(1000);
+        const [deposit] = await db.select().from(depositTable).where(eq(depositTable.id, depositId));
+        expect(deposit).toMatchObject({ status: 'PENDING' });
+    });
+
+    it('should not credit a redelivered webhook twice', async () =>
+    {
+        const signature = `sha256=${signWebhookPayload(body, WEBHOOK_SECRET)}`;
+
+        expect((await postWebhook(body, signature)).status).toBe(200);
+        await postWebhook(body, signature);
+
+        expect(await getRealBalance()).toBe(2500);
+    });
+});
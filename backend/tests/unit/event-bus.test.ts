@@ -0,0 +1,135 @@
+/**
+ * Event Bus Unit Tests
+ * Listener ordering, error isolation, timeouts, resuming from earlier results and metrics
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import { EventBus } from '../../src/modules/events/event-bus';
+
+interface TestEvents
+{
+    'bet.completed': { userId: string; wagerAmount: number; operatorId?: string };
+}
+
+const event = { userId: 'user-1', wagerAmount: 100 };
+
+describe('Event Bus Unit Tests', () =>
+{
+    it('should run lower order groups first and pass their results on', async () =>
+    {
+        const bus = new EventBus<TestEvents>();
+        const calls: string[] = [];
+
+        bus.on('bet.completed', {
+            name: 'transaction',
+            order: 1,
+            handle: (_event, results) =>
+            {
+                calls.push('transaction');
+                return results.ggr;
+            },
+        });
+        bus.on('bet.completed', {
+            name: 'ggr',
+            handle: (e) =>
+            {
+                calls.push('ggr');
+                return e.wagerAmount;
+            },
+        });
+
+        const { results, failures } = await bus.publish('bet.completed', event);
+
+        expect(calls).toEqual(['ggr', 'transaction']);
+        expect(results).toEqual({ ggr: 100, transaction: 100 });
+        expect(failures).toEqual([]);
+    });
+
+    it('should isolate a failing listener and hold back later groups', async () =>
+    {
+        const bus = new EventBus<TestEvents>();
+        let laterRan = false;
+
+        bus.on('bet.completed', {
+            name: 'jackpot',
+            handle: () =>
+            {
+                throw new Error('pool locked');
+            },
+        });
+        bus.on('bet.completed', { name: 'vip', handle: () => 5 });
+        bus.on('bet.completed', {
+            name: 'transaction',
+            order: 1,
+            handle: () =>
+            {
+                laterRan = true;
+            },
+        });
+
+        const { results, failures } = await bus.publish('bet.completed', event);
+
+        expect(results).toEqual({ vip: 5 });
+        expect(failures).toEqual([{ listener: 'jackpot', error: 'pool locked', timedOut: false }]);
+        expect(laterRan).toBe(false);
+    });
+
+    it('should only run what is left when resuming from earlier results', async () =>
+    {
+        const bus = new EventBus<TestEvents>();
+        const calls: string[] = [];
+        for (const name of ['jackpot', 'vip'])
+        {
+            bus.on('bet.completed', {
+                name,
+                handle: () =>
+                {
+                    calls.push(name);
+                    return 1;
+                },
+            });
+        }
+
+        const { results } = await bus.publish('bet.completed', event, { vip: 5 });
+
+        expect(calls).toEqual(['jackpot']);
+        expect(results).toEqual({ vip: 5, jackpot: 1 });
+    });
+
+    it('should fail a listener that runs past its timeout', async () =>
+    {
+        const bus = new EventBus<TestEvents>();
+        bus.on('bet.completed', {
+            name: 'slow',
+            timeoutMs: 10,
+            handle: () => new Promise((resolve) => setTimeout(resolve, 200)),
+        });
+
+        const { failures } = await bus.publish('bet.completed', event);
+
+        expect(failures).toEqual([{ listener: 'slow', error: 'Listener slow timed out after 10ms', timedOut: true }]);
+        expect(bus.getMetrics()[0]).toMatchObject({ listener: 'slow', invocations: 1, failed: 1, timedOut: 1 });
+    });
+
+    it('should skip disabled listeners and record them as done', async () =>
+    {
+        const bus = new EventBus<TestEvents>();
+        bus.on('bet.completed', { name: 'affiliate', enabled: (e) => e.operatorId === 'op-1', handle: () => 'tracked' });
+
+        expect((await bus.publish('bet.completed', event)).results).toEqual({ affiliate: null });
+        expect((await bus.publish('bet.completed', { ...event, operatorId: 'op-1' })).results).toEqual({ affiliate: 'tracked' });
+        expect(bus.getMetrics()[0]).toMatchObject({ invocations: 1, succeeded: 1, skipped: 1 });
+    });
+
+    it('should reject duplicate names and allow removing a listener', async () =>
+    {
+        const bus = new EventBus<TestEvents>();
+        const off = bus.on('bet.completed', { name: 'stats', handle: () => 1 });
+
+        expect(() => bus.on('bet.completed', { name: 'stats', handle: () => 2 })).toThrow('already registered');
+
+        off();
+        expect((await bus.publish('bet.completed', event)).results).toEqual({});
+    });
+});
@@ -0,0 +1,124 @@
+/**
+ * Game Session Rules Unit Tests
+ * Session RTP, duration and idle session timeouts
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import
+{
+    idleSessionOutcome,
+    realityCheckSummary,
+    resolveSessionConfig,
+    sessionCheckAction,
+    sessionDurationSeconds,
+    sessionPlayBlock,
+    sessionRtp
+} from '../../src/modules/gameplay/core/game-session-rules';
+
+const NOW = new Date('2025-01-01T12:00:00Z');
+
+function minutesAgo(minutes: number): Date
+{
+    return new Date(NOW.getTime() - minutes * 60000);
+}
+
+describe('Game Session Rules Unit Tests', () =>
+{
+    it('should fall back to defaults for missing or invalid config', () =>
+    {
+        expect(resolveSessionConfig(undefined)).toEqual({
+            idleTimeoutMinutes: 30,
+            abandonAfterMinutes: 10,
+            realityCheckIntervalMinutes: 60,
+            maxSessionMinutes: 240,
+        });
+        expect(resolveSessionConfig({ idleTimeoutMinutes: 5, abandonAfterMinutes: -1 })).toEqual({
+            idleTimeoutMinutes: 5,
+            abandonAfterMinutes: 10,
+            realityCheckIntervalMinutes: 60,
+            maxSessionMinutes: 240,
+        });
+    });
+
+    it('should compute session RTP in percent', () =>
+    {
+        expect(sessionRtp(0, 0)).toBe(0);
+        expect(sessionRtp(1000, 950)).toBe(95);
+        expect(sessionRtp(300, 100)).toBe(33.33);
+    });
+
+    it('should count whole seconds of session duration', () =>
+    {
+        expect(sessionDurationSeconds(minutesAgo(2), NOW)).toBe(120);
+        expect(sessionDurationSeconds(new Date(NOW.getTime() - 1500), NOW)).toBe(1);
+        expect(sessionDurationSeconds(NOW, minutesAgo(1))).toBe(0);
+    });
+
+    describe('idleSessionOutcome', () =>
+    {
+        const config = resolveSessionConfig({ idleTimeoutMinutes: 30, abandonAfterMinutes: 10 });
+
+        it('should time out sessions with bets after the idle timeout', () =>
+        {
+            expect(idleSessionOutcome({ betCount: 3, lastActivityAt: minutesAgo(29) }, NOW, config)).toBeNull();
+            expect(idleSessionOutcome({ betCount: 3, lastActivityAt: minutesAgo(30) }, NOW, config)).toBe('TIMEOUT');
+        });
+
+        it('should abandon sessions without bets sooner', () =>
+        {
+            expect(idleSessionOutcome({ betCount: 0, lastActivityAt: minutesAgo(9) }, NOW, config)).toBeNull();
+            expect(idleSessionOutcome({ betCount: 0, lastActivityAt: minutesAgo(11) }, NOW, config)).toBe('ABANDONED');
+        });
+    });
+
+    describe('sessionCheckAction', () =>
+    {
+        const config = resolveSessionConfig({ realityCheckIntervalMinutes: 60, maxSessionMinutes: 240 });
+
+        it('should send a reality check every interval', () =>
+        {
+            const state = { createdAt: minutesAgo(61), lastRealityCheckAt: null, realityCheckPendingSince: null };
+
+            expect(sessionCheckAction(state, NOW, config)).toBe('REALITY_CHECK');
+            expect(sessionCheckAction({ ...state, lastRealityCheckAt: minutesAgo(30) }, NOW, config)).toBeNull();
+        });
+
+        it('should not repeat a reality check that is still unacknowledged', () =>
+        {
+            const state = { createdAt: minutesAgo(180), lastRealityCheckAt: minutesAgo(120), realityCheckPendingSince: minutesAgo(120) };
+
+            expect(sessionCheckAction(state, NOW, config)).toBeNull();
+        });
+
+        it('should end sessions that reached the maximum duration', () =>
+        {
+            const state = { createdAt: minutesAgo(240), lastRealityCheckAt: null, realityCheckPendingSince: minutesAgo(5) };
+
+            expect(sessionCheckAction(state, NOW, config)).toBe('END_SESSION');
+            expect(sessionCheckAction(state, NOW, { ...config, maxSessionMinutes: 0 })).toBeNull();
+        });
+    });
+
+    it('should only take bets in a running session that is not waiting for a reality check', () =>
+    {
+        const config = resolveSessionConfig({ maxSessionMinutes: 240 });
+        const session = { createdAt: minutesAgo(30), realityCheckPendingSince: null };
+
+        expect(sessionPlayBlock(session, NOW, config)).toBeNull();
+        expect(sessionPlayBlock(undefined, NOW, config)).toBe('GAME_SESSION_REQUIRED');
+        expect(sessionPlayBlock({ ...session, realityCheckPendingSince: minutesAgo(1) }, NOW, config)).toBe('REALITY_CHECK_PENDING');
+        expect(sessionPlayBlock({ ...session, createdAt: minutesAgo(240) }, NOW, config)).toBe('GAME_SESSION_EXPIRED');
+        expect(sessionPlayBlock({ ...session, createdAt: minutesAgo(240) }, NOW, { ...config, maxSessionMinutes: 0 })).toBeNull();
+    });
+
+    it('should summarise elapsed time and net result for a reality check', () =>
+    {
+        expect(realityCheckSummary({ createdAt: minutesAgo(75), totalWagered: 5000, totalWon: 3200 }, NOW)).toEqual({
+            elapsedMinutes: 75,
+            totalWagered: 5000,
+            totalWon: 3200,
+            netResult: -1800,
+        });
+    });
+});
@@ -0,0 +1,107 @@
+/**
+ * Ledger Rules Unit Tests
+ * Journal legs for each money movement, balancing and projection drift
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import
+{
+    betLegs,
+    bonusConvertLegs,
+    compareBalanceProjection,
+    depositLegs,
+    jackpotContributionLegs,
+    jackpotWinLegs,
+    ledgerAccounts,
+    normalizeLegs,
+    UnbalancedJournalError,
+    winLegs,
+    withdrawalLegs,
+    type LedgerLeg
+} from '../../src/modules/ledger/ledger-rules';
+
+const USER = 'user-1';
+
+function total(legs: LedgerLeg[]): number
+{
+    return legs.reduce((sum, leg) => sum + leg.amount, 0);
+}
+
+describe('Ledger Rules Unit Tests', () =>
+{
+    describe('normalizeLegs', () =>
+    {
+        it('should drop zero legs and merge legs on the same account', () =>
+        {
+            const legs = normalizeLegs([
+                { account: ledgerAccounts.playerReal(USER), amount: -300 },
+                { account: ledgerAccounts.playerReal(USER), amount: -200 },
+                { account: ledgerAccounts.playerBonus(USER), amount: 0 },
+                { account: ledgerAccounts.ggr(), amount: 500 },
+            ]);
+
+            expect(legs).toEqual([
+                { account: { type: 'PLAYER_REAL', ownerId: USER }, amount: -500 },
+                { account: { type: 'GGR', ownerId: 'platform' }, amount: 500 },
+            ]);
+        });
+
+        it('should reject journals that do not balance or use fractional cents', () =>
+        {
+            expect(() => normalizeLegs([{ account: ledgerAccounts.playerReal(USER), amount: 100 }])).toThrow(UnbalancedJournalError);
+            expect(() => normalizeLegs(depositLegs(USER, 10.5))).toThrow(UnbalancedJournalError);
+        });
+
+        it('should return nothing when no money moved', () =>
+        {
+            expect(normalizeLegs(betLegs(USER, { real: 0, bonus: 0 }))).toEqual([]);
+        });
+    });
+
+    it('should book a mixed stake as GGR and pay wins back out of it', () =>
+    {
+        const bet = normalizeLegs(betLegs(USER, { real: 300, bonus: 200 }, 'op-1'));
+        const win = normalizeLegs(winLegs(USER, { real: 0, bonus: 800 }, 'op-1'));
+
+        expect(bet).toContainEqual({ account: { type: 'GGR', ownerId: 'op-1' }, amount: 500 });
+        expect(win).toEqual([
+            { account: { type: 'PLAYER_BONUS', ownerId: USER }, amount: 800 },
+            { account: { type: 'GGR', ownerId: 'op-1' }, amount: -800 },
+        ]);
+    });
+
+    it('should move deposits and withdrawals between the float and the player', () =>
+    {
+        expect(depositLegs(USER, 1000)).toEqual([
+            { account: ledgerAccounts.operatorFloat(), amount: -1000 },
+            { account: ledgerAccounts.playerReal(USER), amount: 1000 },
+        ]);
+        expect(total(withdrawalLegs(USER, 1000))).toBe(0);
+        expect(withdrawalLegs(USER, 1000)).toContainEqual({ account: ledgerAccounts.playerReal(USER), amount: -1000 });
+        expect(normalizeLegs(bonusConvertLegs(USER, 250))).toHaveLength(2);
+    });
+
+    it('should fund jackpot pools from GGR and pay winners from the pool', () =>
+    {
+        const contribution = normalizeLegs(jackpotContributionLegs({ MINOR: 10, MAJOR: 5, GRAND: 0 }));
+
+        expect(contribution).toEqual([
+            { account: { type: 'JACKPOT_POOL', ownerId: 'MINOR' }, amount: 10 },
+            { account: { type: 'JACKPOT_POOL', ownerId: 'MAJOR' }, amount: 5 },
+            { account: { type: 'GGR', ownerId: 'platform' }, amount: -15 },
+        ]);
+        expect(jackpotWinLegs(USER, 'MINOR', 5000)).toContainEqual({ account: ledgerAccounts.playerReal(USER), amount: 5000 });
+    });
+
+    it('should report drift between the stored balance and the ledger', () =>
+    {
+        const stored = { userId: USER, realBalance: 1000, bonusBalance: 200 };
+
+        expect(compareBalanceProjection(stored, { realBalance: 1000, bonusBalance: 200 })).toBeNull();
+        expect(compareBalanceProjection(stored, { realBalance: 900, bonusBalance: 250 })).toMatchObject({
+            realDrift: 100,
+            bonusDrift: -50,
+        });
+    });
+});
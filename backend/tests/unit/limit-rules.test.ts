@@ -0,0 +1,130 @@
+/**
+ * Player Limit Rules Unit Tests
+ * Limit changes, limit periods, breaches and exclusions
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import
+{
+    activeExclusion,
+    continuousPlayMinutes,
+    effectiveLimitAmount,
+    exclusionEnd,
+    findLimitBreach,
+    periodStart,
+    planLimitChange,
+    resolveResponsibleGamblingConfig,
+    type PlayerLimitState
+} from '../../src/modules/responsible-gambling/limit-rules';
+
+const NOW = new Date('2025-01-15T12:00:00Z'); // A Wednesday
+const config = resolveResponsibleGamblingConfig({ increaseDelayHours: 24 });
+
+function buildLimit(overrides: Partial<PlayerLimitState> = {}): PlayerLimitState
+{
+    return {
+        type: 'DEPOSIT',
+        period: 'DAILY',
+        amount: 10000,
+        pendingAmount: null,
+        pendingEffectiveAt: null,
+        ...overrides,
+    };
+}
+
+describe('Player Limit Rules Unit Tests', () =>
+{
+    describe('planLimitChange', () =>
+    {
+        it('should apply new limits and decreases immediately', () =>
+        {
+            expect(planLimitChange(null, 5000, NOW, config)).toEqual({ kind: 'IMMEDIATE', amount: 5000 });
+            expect(planLimitChange(10000, 5000, NOW, config)).toEqual({ kind: 'IMMEDIATE', amount: 5000 });
+        });
+
+        it('should delay increases and removals', () =>
+        {
+            const effectiveAt = new Date('2025-01-16T12:00:00Z');
+
+            expect(planLimitChange(5000, 10000, NOW, config)).toEqual({ kind: 'SCHEDULED', amount: 10000, effectiveAt });
+            expect(planLimitChange(5000, null, NOW, config)).toEqual({ kind: 'SCHEDULED', amount: null, effectiveAt });
+        });
+
+        it('should leave the current amount unchanged', () =>
+        {
+            expect(planLimitChange(5000, 5000, NOW, config)).toEqual({ kind: 'UNCHANGED' });
+        });
+    });
+
+    it('should switch to the pending amount once its delay has passed', () =>
+    {
+        const limit = buildLimit({ pendingAmount: 20000, pendingEffectiveAt: new Date('2025-01-15T13:00:00Z') });
+
+        expect(effectiveLimitAmount(limit, NOW)).toBe(10000);
+        expect(effectiveLimitAmount(limit, new Date('2025-01-15T13:00:00Z'))).toBe(20000);
+        expect(effectiveLimitAmount(buildLimit({ pendingEffectiveAt: NOW }), NOW)).toBeNull();
+    });
+
+    it('should start periods at UTC midnight, Monday and the first of the month', () =>
+    {
+        expect(periodStart('DAILY', NOW).toISOString()).toBe('2025-01-15T00:00:00.000Z');
+        expect(periodStart('WEEKLY', NOW).toISOString()).toBe('2025-01-13T00:00:00.000Z');
+        expect(periodStart('WEEKLY', new Date('2025-01-19T23:00:00Z')).toISOString()).toBe('2025-01-13T00:00:00.000Z');
+        expect(periodStart('MONTHLY', NOW).toISOString()).toBe('2025-01-01T00:00:00.000Z');
+    });
+
+    it('should report the first limit an amount would pass', () =>
+    {
+        const limits = [buildLimit(), buildLimit({ period: 'WEEKLY', amount: 24000 }), buildLimit({ type: 'LOSS' })];
+        const used = (period: string | null) => (period === 'DAILY' ? 4000 : 20000);
+
+        expect(findLimitBreach(limits, 'DEPOSIT', 5000, used, NOW)).toEqual({
+            type: 'DEPOSIT',
+            period: 'WEEKLY',
+            limit: 24000,
+            used: 20000,
+        });
+        expect(findLimitBreach(limits, 'DEPOSIT', 5000, () => 0, NOW)).toBeNull();
+        expect(findLimitBreach(limits, 'WAGER', 1000000, used, NOW)).toBeNull();
+    });
+
+    it('should count play across sessions until the player takes a break', () =>
+    {
+        const at = (minutesAgo: number) => new Date(NOW.getTime() - minutesAgo * 60000);
+        const spans = [
+            { startedAt: at(30), endedAt: NOW }, // The running session
+            { startedAt: at(70), endedAt: at(35) }, // Another game, 5 minutes earlier
+            { startedAt: at(200), endedAt: at(100) }, // Before a 30 minute break
+        ];
+
+        expect(continuousPlayMinutes(spans, NOW, 15)).toBe(70);
+        expect(continuousPlayMinutes(spans, NOW, 45)).toBe(200);
+        expect(continuousPlayMinutes(spans.slice(1), NOW, 45)).toBe(200); // Between games, within the break
+        expect(continuousPlayMinutes(spans.slice(1), NOW, 15)).toBe(0);
+        expect(continuousPlayMinutes([], NOW, 15)).toBe(0);
+    });
+
+    describe('exclusions', () =>
+    {
+        it('should prefer a running self-exclusion over a cool-off', () =>
+        {
+            const coolOff = { type: 'COOL_OFF' as const, startsAt: NOW, endsAt: new Date('2025-02-01T00:00:00Z') };
+            const selfExclusion = { type: 'SELF_EXCLUSION' as const, startsAt: NOW, endsAt: null };
+            const finished = { type: 'SELF_EXCLUSION' as const, startsAt: NOW, endsAt: NOW };
+
+            expect(activeExclusion([coolOff, selfExclusion], NOW)).toBe(selfExclusion);
+            expect(activeExclusion([finished, coolOff], NOW)).toBe(coolOff);
+            expect(activeExclusion([finished], NOW)).toBeNull();
+        });
+
+        it('should bound cool-off and self-exclusion durations', () =>
+        {
+            expect(exclusionEnd('COOL_OFF', 48, NOW, config)?.toISOString()).toBe('2025-01-17T12:00:00.000Z');
+            expect(exclusionEnd('COOL_OFF', 1, NOW, config)).toBeUndefined();
+            expect(exclusionEnd('COOL_OFF', 43 * 24, NOW, config)).toBeUndefined();
+            expect(exclusionEnd('SELF_EXCLUSION', null, NOW, config)).toBeNull();
+            expect(exclusionEnd('SELF_EXCLUSION', 30, NOW, config)).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,61 @@
+/**
+ * Loss Limit Rules Unit Tests
+ * System limit defaults, loss days and daily/session loss limit checks
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import
+{
+    checkLossLimits,
+    lossDay,
+    resolveSystemLimits
+} from '../../src/modules/gameplay/core/loss-limit-rules';
+
+describe('Loss Limit Rules Unit Tests', () =>
+{
+    it('should fall back to defaults for missing or invalid limits', () =>
+    {
+        expect(resolveSystemLimits(null)).toEqual({
+            maxBetAmount: 100000,
+            minBetAmount: 10,
+            maxDailyLoss: 1000000,
+            maxSessionLoss: 500000,
+        });
+        expect(resolveSystemLimits({ maxDailyLoss: 5000, maxSessionLoss: 'lots' }).maxDailyLoss).toBe(5000);
+        expect(resolveSystemLimits({ maxDailyLoss: 5000, maxSessionLoss: 'lots' }).maxSessionLoss).toBe(500000);
+    });
+
+    it('should use the UTC calendar day', () =>
+    {
+        expect(lossDay(new Date('2025-03-01T23:59:59Z'))).toBe('2025-03-01');
+        expect(lossDay(new Date('2025-03-02T00:00:00+02:00'))).toBe('2025-03-01');
+    });
+
+    describe('checkLossLimits', () =>
+    {
+        const limits = { maxDailyLoss: 10000, maxSessionLoss: 5000 };
+
+        it('should allow a bet that only reaches the limit', () =>
+        {
+            expect(checkLossLimits({ dailyNetLoss: 9000, sessionNetLoss: 0 }, 1000, limits)).toBeNull();
+        });
+
+        it('should refuse a bet that would pass the daily limit before the session limit', () =>
+        {
+            expect(checkLossLimits({ dailyNetLoss: 9500, sessionNetLoss: 4900 }, 1000, limits)).toEqual({
+                code: 'DAILY_LOSS_LIMIT_EXCEEDED',
+                limit: 10000,
+                netLoss: 9500,
+            });
+            expect(checkLossLimits({ dailyNetLoss: 4900, sessionNetLoss: 4900 }, 200, limits)?.code).toBe(
+                'SESSION_LOSS_LIMIT_EXCEEDED',
+            );
+        });
+
+        it('should give players who are ahead more room', () =>
+        {
+            expect(checkLossLimits({ dailyNetLoss: -20000, sessionNetLoss: -1000 }, 6000, limits)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,39 @@
+/**
+ * Outbox Rules Unit Tests
+ * Retry backoff and dead-lettering
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import
+{
+    DEFAULT_OUTBOX_RETRY_POLICY,
+    planNextAttempt,
+    type OutboxRetryPolicy
+} from '../../src/modules/outbox/outbox-rules';
+
+const policy: OutboxRetryPolicy = { maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+describe('Outbox Rules Unit Tests', () =>
+{
+    describe('planNextAttempt', () =>
+    {
+        it('should double the delay after each failed attempt', () =>
+        {
+            expect(planNextAttempt(1, policy)).toEqual({ status: 'PENDING', retryInMs: 1000 });
+            expect(planNextAttempt(2, policy)).toEqual({ status: 'PENDING', retryInMs: 2000 });
+            expect(planNextAttempt(3, policy)).toEqual({ status: 'PENDING', retryInMs: 4000 });
+        });
+
+        it('should cap the delay at maxDelayMs', () =>
+        {
+            expect(planNextAttempt(3, { ...policy, maxDelayMs: 3000 })).toEqual({ status: 'PENDING', retryInMs: 3000 });
+        });
+
+        it('should dead-letter the event once its attempts are used up', () =>
+        {
+            expect(planNextAttempt(4, policy)).toEqual({ status: 'DEAD' });
+            expect(planNextAttempt(DEFAULT_OUTBOX_RETRY_POLICY.maxAttempts)).toEqual({ status: 'DEAD' });
+        });
+    });
+});
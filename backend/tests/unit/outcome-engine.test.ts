@@ -0,0 +1,157 @@
+/**
+ * Outcome Engine Unit Tests
+ * Game math model construction and server-side outcome generation
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import
+{
+    buildGameMathModel,
+    expectedReturn,
+    normalizeRtp,
+    normalizeVolatility
+} from '../../src/modules/gameplay/outcome/game-math';
+
+import
+{
+    generateGameOutcome,
+    getOutcomeEngine,
+    paytableOutcomeEngine,
+    registerOutcomeEngine,
+    type OutcomeGame
+} from '../../src/modules/gameplay/outcome/outcome-engine';
+
+import type { RandomSource } from '../../src/modules/gameplay/outcome/random-source';
+
+function fixedRandom(values: number[]): RandomSource
+{
+    let index = 0;
+    return {
+        next: () => values[index++ % values.length]!,
+    };
+}
+
+function buildGame(overrides: Partial<OutcomeGame> = {}): OutcomeGame
+{
+    return {
+        id: 'game-1',
+        category: 'SLOTS',
+        goldsvetData: null,
+        volatility: 1,
+        targetRtp: 95,
+        ...overrides,
+    };
+}
+
+describe('Outcome Engine Unit Tests', () =>
+{
+    describe('buildGameMathModel', () =>
+    {
+        it('should hit the target RTP for every volatility level', () =>
+        {
+            for (let volatility = 1; volatility <= 5; volatility++)
+            {
+                const model = buildGameMathModel(buildGame({ volatility, targetRtp: 92 }));
+                expect(expectedReturn(model)).toBeCloseTo(0.92, 6);
+            }
+        });
+
+        it('should lower the hit rate as volatility increases', () =>
+        {
+            const low = buildGameMathModel(buildGame({ volatility: 1 }));
+            const high = buildGameMathModel(buildGame({ volatility: 5 }));
+
+            expect(high.hitRate).toBeLessThan(low.hitRate);
+        });
+
+        it('should use a paytable configured in goldsvetData', () =>
+        {
+            const model = buildGameMathModel(buildGame({
+                goldsvetData: { paytable: [{ multiplier: 2, weight: 3 }, { multiplier: 10, weight: 1 }] },
+            }));
+
+            expect(model.paytable.map((entry) => entry.multiplier)).toEqual([2, 10]);
+            expect(model.paytable[0]!.probability / model.paytable[1]!.probability).toBeCloseTo(3, 6);
+            expect(expectedReturn(model)).toBeCloseTo(0.95, 6);
+        });
+
+        it('should ignore invalid paytable entries', () =>
+        {
+            const model = buildGameMathModel(buildGame({
+                goldsvetData: { paytable: [5, -1, 'x', { multiplier: 0 }] },
+            }));
+
+            expect(model.paytable.map((entry) => entry.multiplier)).toEqual([5]);
+        });
+    });
+
+    describe('normalization', () =>
+    {
+        it('should accept RTP as a percentage or a fraction', () =>
+        {
+            expect(normalizeRtp(96)).toBeCloseTo(0.96);
+            expect(normalizeRtp(0.9)).toBeCloseTo(0.9);
+            expect(normalizeRtp(null)).toBeCloseTo(0.95);
+        });
+
+        it('should clamp volatility to the supported range', () =>
+        {
+            expect(normalizeVolatility(0)).toBe(1);
+            expect(normalizeVolatility(9)).toBe(5);
+            expect(normalizeVolatility(null)).toBe(1);
+        });
+    });
+
+    describe('generateGameOutcome', () =>
+    {
+        it('should pay nothing when the roll misses every paytable entry', () =>
+        {
+            const outcome = generateGameOutcome(buildGame(), 100, fixedRandom([0.999999]));
+
+            expect(outcome.winAmount).toBe(0);
+            expect(outcome.gameData?.multiplier).toBe(0);
+        });
+
+        it('should pay the lowest multiplier for the lowest roll', () =>
+        {
+            const outcome = generateGameOutcome(buildGame(), 250, fixedRandom([0]));
+
+            expect(outcome.winAmount).toBe(250);
+            expect(outcome.gameData?.engine).toBe('paytable');
+        });
+
+        it('should converge on the target RTP over many spins', () =>
+        {
+            const game = buildGame({ targetRtp: 90, goldsvetData: { paytable: [1, 2, 5] } });
+            let seed = 42;
+            const lcg: RandomSource = {
+                next: () =>
+                {
+                    seed = (seed * 1664525 + 1013904223) % 4294967296;
+                    return seed / 4294967296;
+                },
+            };
+
+            let totalWon = 0;
+            const spins = 50000;
+            for (let i = 0; i < spins; i++)
+            {
+                totalWon += generateGameOutcome(game, 100, lcg).winAmount;
+            }
+
+            expect(totalWon / (spins * 100)).toBeCloseTo(0.9, 1);
+        });
+
+        it('should route to an engine registered for the game category', () =>
+        {
+            registerOutcomeEngine('TABLE', {
+                name: 'fixed',
+                generate: (_game, wagerAmount) => ({ winAmount: wagerAmount * 2, gameData: {} }),
+            });
+
+            expect(getOutcomeEngine('SLOTS')).toBe(paytableOutcomeEngine);
+            expect(generateGameOutcome(buildGame({ category: 'TABLE' }), 100).winAmount).toBe(200);
+        });
+    });
+});
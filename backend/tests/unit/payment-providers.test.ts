@@ -0,0 +1,124 @@
+/**
+ * Payment Provider Unit Tests
+ * Adapter instructions, signed webhooks, the fake provider and per-operator registration
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import { PaymentMethod, PaymentProviderError } from '../../src/modules/payments/payment-provider';
+import { DEFAULT_OPERATOR, PaymentProviderRegistry } from '../../src/modules/payments/payment-registry';
+import { CashAppProvider } from '../../src/modules/payments/providers/cashapp.provider';
+import { FakePaymentProvider } from '../../src/modules/payments/providers/fake.provider';
+import { InStoreProvider } from '../../src/modules/payments/providers/instore.provider';
+import { WEBHOOK_SIGNATURE_HEADER, signWebhookPayload } from '../../src/modules/payments/webhook-signature';
+
+const DEPOSIT_ID = '6f1c2b0e-8a4d-4c1e-9b7a-2d5e3f4a1b6c';
+const USER_ID = '0b8e7d6c-5a4b-4c3d-8e2f-1a0b9c8d7e6f';
+const OPERATOR_ID = '79032f3f-7c4e-4575-abf9-4298ad3e9d1a';
+
+describe('Payment Provider Unit Tests', () =>
+{
+    describe('adapters', () =>
+    {
+        it('should quote the configured cashtag and reference', async () =>
+        {
+            const provider = new CashAppProvider({ cashtag: '$house', webhookSecret: 'secret' });
+            const intent = await provider.createIntent({ depositId: DEPOSIT_ID, userId: USER_ID, amount: 2550 });
+
+            expect(intent.instructions).toBe(`Send $25.50 via CashApp to $house. Include reference: ${intent.referenceId}`);
+        });
+
+        it('should describe the tender for in-store payments', async () =>
+        {
+            const provider = new InStoreProvider({ method: PaymentMethod.INSTORE_CARD, webhookSecret: 'secret' });
+            const intent = await provider.createIntent({ depositId: DEPOSIT_ID, userId: USER_ID, amount: 1000 });
+
+            expect(provider.method).toBe(PaymentMethod.INSTORE_CARD);
+            expect(intent.instructions).toContain('Pay $10.00 by card.');
+        });
+
+        it('should accept a correctly signed webhook and reject a tampered one', async () =>
+        {
+            const provider = new CashAppProvider({ cashtag: '$house', webhookSecret: 'secret' });
+            const rawBody = JSON.stringify({
+                transactionId: DEPOSIT_ID,
+                userId: USER_ID,
+                amount: 1000,
+                timestamp: '2026-01-01T00:00:00.000Z',
+            });
+            const headers = { [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signWebhookPayload(rawBody, 'secret')}` };
+
+            const event = await provider.parseWebhook({ rawBody, headers });
+            expect(event.type).toBe('confirmed');
+
+            await expect(provider.parseWebhook({ rawBody: rawBody.replace('1000', '9000'), headers })).rejects.toMatchObject({
+                code: 'INVALID_SIGNATURE',
+            });
+        });
+    });
+
+    describe('FakePaymentProvider', () =>
+    {
+        it('should simulate a confirmation the provider itself accepts', async () =>
+        {
+            const provider = new FakePaymentProvider();
+            const intent = await provider.createIntent({ depositId: DEPOSIT_ID, userId: USER_ID, amount: 5000 });
+
+            const event = await provider.parseWebhook(provider.simulateConfirmation(intent.providerReference));
+
+            expect(event).toMatchObject({
+                type: 'confirmed',
+                confirmation: { transactionId: DEPOSIT_ID, userId: USER_ID, amount: 5000 },
+            });
+            expect((await provider.getStatus(intent.providerReference)).status).toBe('COMPLETED');
+        });
+
+        it('should simulate failures', async () =>
+        {
+            const provider = new FakePaymentProvider(PaymentMethod.INSTORE_CASH);
+            const intent = await provider.createIntent({ depositId: DEPOSIT_ID, userId: USER_ID, amount: 5000 });
+
+            const event = await provider.parseWebhook(provider.simulateFailure(intent.providerReference, 'Card declined'));
+
+            expect(event).toEqual({ type: 'failed', depositId: DEPOSIT_ID, userId: USER_ID, reason: 'Card declined' });
+            expect((await provider.refund(intent.providerReference, 5000)).status).toBe('FAILED');
+        });
+
+        it('should refund completed payments up to the paid amount', async () =>
+        {
+            const provider = new FakePaymentProvider();
+            const intent = await provider.createIntent({ depositId: DEPOSIT_ID, userId: USER_ID, amount: 5000 });
+            provider.simulateConfirmation(intent.providerReference);
+
+            expect((await provider.refund(intent.providerReference, 3000)).status).toBe('COMPLETED');
+            expect((await provider.refund(intent.providerReference, 3000)).status).toBe('FAILED');
+            expect((await provider.refund(intent.providerReference, 2000)).status).toBe('COMPLETED');
+            expect((await provider.getStatus(intent.providerReference)).status).toBe('REFUNDED');
+        });
+    });
+
+    describe('PaymentProviderRegistry', () =>
+    {
+        it('should prefer the operator adapter and fall back to the default', () =>
+        {
+            const registry = new PaymentProviderRegistry();
+            const fallback = new FakePaymentProvider(PaymentMethod.CASHAPP);
+            const operatorProvider = new FakePaymentProvider(PaymentMethod.CASHAPP);
+            registry.register(fallback);
+            registry.register(operatorProvider, OPERATOR_ID);
+
+            expect(registry.get(PaymentMethod.CASHAPP, OPERATOR_ID)).toBe(operatorProvider);
+            expect(registry.get(PaymentMethod.CASHAPP, 'other-operator')).toBe(fallback);
+            expect(registry.get(PaymentMethod.CASHAPP)).toBe(fallback);
+        });
+
+        it('should throw when no adapter serves the method', () =>
+        {
+            const registry = new PaymentProviderRegistry();
+            registry.register(new FakePaymentProvider(PaymentMethod.CASHAPP), DEFAULT_OPERATOR);
+
+            expect(() => registry.get(PaymentMethod.INSTORE_CASH)).toThrow(PaymentProviderError);
+            expect(registry.methods()).toEqual([PaymentMethod.CASHAPP]);
+        });
+    });
+});
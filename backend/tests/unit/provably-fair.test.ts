@@ -0,0 +1,80 @@
+/**
+ * Provably-Fair Unit Tests
+ * HMAC-based round derivation and server seed commitments
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { describe, expect, it } from 'vitest';
+
+import
+{
+    createHmacRandomSource,
+    generateClientSeed,
+    generateServerSeed,
+    hashServerSeed
+} from '../../src/modules/gameplay/outcome/provably-fair';
+
+import { generateGameOutcome } from '../../src/modules/gameplay/outcome/outcome-engine';
+
+const SEEDS = { serverSeed: 'server-seed', clientSeed: 'client-seed', nonce: 7 };
+
+describe('Provably-Fair Unit Tests', () =>
+{
+    it('should commit to the server seed with its sha256 hash', () =>
+    {
+        const serverSeed = generateServerSeed();
+
+        expect(serverSeed).toMatch(/^[0-9a-f]{64}$/);
+        expect(generateClientSeed()).toMatch(/^[0-9a-f]{32}$/);
+        expect(hashServerSeed(serverSeed)).toBe(createHash('sha256').update(serverSeed).digest('hex'));
+    });
+
+    it('should derive the first draw from HMAC(serverSeed, clientSeed:nonce:0)', () =>
+    {
+        const digest = createHmac('sha256', SEEDS.serverSeed).update('client-seed:7:0').digest();
+        const expected = digest.readUIntBE(0, 6) / 2 ** 48;
+
+        expect(createHmacRandomSource(SEEDS).next()).toBe(expected);
+    });
+
+    it('should be deterministic for the same seeds and nonce', () =>
+    {
+        const a = createHmacRandomSource(SEEDS);
+        const b = createHmacRandomSource(SEEDS);
+
+        for (let i = 0; i < 12; i++)
+        {
+            expect(a.next()).toBe(b.next());
+        }
+    });
+
+    it('should move to the next digest once the current one is used up', () =>
+    {
+        const source = createHmacRandomSource(SEEDS);
+        for (let i = 0; i < 5; i++)
+        {
+            source.next();
+        }
+
+        const nextDigest = createHmac('sha256', SEEDS.serverSeed).update('client-seed:7:1').digest();
+        expect(source.next()).toBe(nextDigest.readUIntBE(0, 6) / 2 ** 48);
+    });
+
+    it('should produce different rounds for different nonces', () =>
+    {
+        const first = createHmacRandomSource(SEEDS).next();
+        const second = createHmacRandomSource({ ...SEEDS, nonce: SEEDS.nonce + 1 }).next();
+
+        expect(first).not.toBe(second);
+    });
+
+    it('should let a revealed seed reproduce a recorded outcome', () =>
+    {
+        const game = { id: 'game-1', category: 'SLOTS' as const, goldsvetData: null, volatility: 3, targetRtp: 94 };
+
+        const recorded = generateGameOutcome(game, 500, createHmacRandomSource(SEEDS));
+        const recomputed = generateGameOutcome(game, 500, createHmacRandomSource(SEEDS));
+
+        expect(recomputed).toEqual(recorded);
+    });
+});
@@ -0,0 +1,105 @@
+/**
+ * Reconciliation Rules Unit Tests
+ * Drift location, counter comparison and jackpot history replay
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import
+{
+    compareCounters,
+    expectedCounters,
+    locateDriftPoints,
+    replayJackpotPool,
+    type JournalReplayRow
+} from '../../src/modules/ledger/reconciliation-rules';
+
+function journal(id: string, realDelta: number, realBalanceAfter: number | null, bonusDelta = 0, bonusBalanceAfter: number | null = 0): JournalReplayRow
+{
+    return { id, type: 'BET', relatedId: `round-${id}`, realDelta, bonusDelta, realBalanceAfter, bonusBalanceAfter };
+}
+
+describe('Reconciliation Rules Unit Tests', () =>
+{
+    describe('locateDriftPoints', () =>
+    {
+        it('should find nothing when every snapshot matches the ledger', () =>
+        {
+            expect(locateDriftPoints([journal('a', 1000, 1000), journal('b', -200, 800)])).toEqual([]);
+        });
+
+        it('should point at the journal where the balances first disagreed', () =>
+        {
+            const points = locateDriftPoints([
+                journal('a', 1000, 1000),
+                journal('b', -200, 850),
+                journal('c', 100, 950),
+            ]);
+
+            expect(points).toEqual([
+                { journalId: 'b', type: 'BET', relatedId: 'round-b', realDrift: 50, bonusDrift: 0 },
+            ]);
+        });
+
+        it('should report each change in drift and skip journals without a snapshot', () =>
+        {
+            const points = locateDriftPoints([
+                journal('a', 500, 600),
+                journal('b', 100, null, 0, null),
+                journal('c', 0, 700, 40, 0),
+            ]);
+
+            expect(points.map((point) => [point.journalId, point.realDrift, point.bonusDrift])).toEqual([
+                ['a', 100, 0],
+                ['c', 100, -40],
+            ]);
+        });
+    });
+
+    it('should build counters from journal movements and compare them', () =>
+    {
+        const expected = expectedCounters({
+            deposits: 5000,
+            bets: -3000,
+            wins: 1200,
+            reversedWagered: 100,
+            reversedWon: 200,
+            withdrawals: 1000,
+        });
+
+        expect(expected).toEqual({ totalDeposited: 5000, totalWithdrawn: 1000, totalWagered: 2900, totalWon: 1000 });
+        expect(compareCounters({ ...expected, totalWon: 1500 }, expected)).toEqual([
+            { counter: 'totalWon', stored: 1500, expected: 1000, drift: 500 },
+        ]);
+    });
+
+    describe('replayJackpotPool', () =>
+    {
+        const at = (minute: number) => new Date(Date.UTC(2026, 0, 1, 0, minute));
+
+        it('should grow from the seed with each contribution', () =>
+        {
+            expect(replayJackpotPool(1000, [
+                { kind: 'CONTRIBUTION', amount: 50, at: at(1) },
+                { kind: 'CONTRIBUTION', amount: 25, at: at(2) },
+            ])).toBe(1075);
+        });
+
+        it('should reseed the pool after a win that empties it', () =>
+        {
+            expect(replayJackpotPool(1000, [
+                { kind: 'CONTRIBUTION', amount: 500, at: at(1) },
+                { kind: 'WIN', amount: 1500, at: at(2) },
+                { kind: 'CONTRIBUTION', amount: 30, at: at(3) },
+            ])).toBe(1030);
+        });
+
+        it('should keep what is left after a partial win', () =>
+        {
+            expect(replayJackpotPool(100, [
+                { kind: 'WIN', amount: 300, at: at(2) },
+                { kind: 'CONTRIBUTION', amount: 1000, at: at(1) },
+            ])).toBe(800);
+        });
+    });
+});
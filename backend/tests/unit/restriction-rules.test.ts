@@ -0,0 +1,82 @@
+/**
+ * Restriction Rules Unit Tests
+ * Layering of system, operator, game, VIP and per-user bet restrictions
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import
+{
+    isValidRestrictionOverride,
+    layerBetRestrictions
+} from '../../src/modules/gameplay/core/restriction-rules';
+
+const SYSTEM = {
+    maxBetAmount: 100000,
+    minBetAmount: 10,
+    maxDailyLoss: 1000000,
+    maxSessionLoss: 500000,
+};
+
+describe('Restriction Rules Unit Tests', () =>
+{
+    it('should use the system limits when no other layer applies', () =>
+    {
+        const { limits, sources } = layerBetRestrictions({ system: SYSTEM });
+
+        expect(limits).toEqual(SYSTEM);
+        expect(new Set(Object.values(sources))).toEqual(new Set(['SYSTEM']));
+    });
+
+    it('should let the game min/max replace operator stake limits', () =>
+    {
+        const { limits, sources } = layerBetRestrictions({
+            system: SYSTEM,
+            operator: { minBetAmount: 50, maxBetAmount: 20000, maxDailyLoss: 200000, maxSessionLoss: null },
+            game: { minBet: 100, maxBet: null },
+        });
+
+        expect(limits).toEqual({ minBetAmount: 100, maxBetAmount: 20000, maxDailyLoss: 200000, maxSessionLoss: 500000 });
+        expect(sources).toEqual({
+            minBetAmount: 'GAME',
+            maxBetAmount: 'OPERATOR',
+            maxDailyLoss: 'OPERATOR',
+            maxSessionLoss: 'SYSTEM',
+        });
+    });
+
+    it('should scale ceilings but not the minimum by the VIP multiplier', () =>
+    {
+        const { limits, sources } = layerBetRestrictions({
+            system: SYSTEM,
+            game: { minBet: 100, maxBet: 50000 },
+            vipMultiplier: 2,
+        });
+
+        expect(limits).toEqual({ minBetAmount: 100, maxBetAmount: 100000, maxDailyLoss: 2000000, maxSessionLoss: 1000000 });
+        expect(sources.minBetAmount).toBe('GAME');
+        expect(sources.maxBetAmount).toBe('VIP');
+    });
+
+    it('should give per-user overrides the last word', () =>
+    {
+        const { limits, sources } = layerBetRestrictions({
+            system: SYSTEM,
+            game: { minBet: 100, maxBet: 50000 },
+            vipMultiplier: 5,
+            user: { maxBetAmount: 1000, maxDailyLoss: null },
+        });
+
+        expect(limits.maxBetAmount).toBe(1000);
+        expect(sources.maxBetAmount).toBe('USER');
+        expect(limits.maxDailyLoss).toBe(5000000);
+        expect(sources.maxDailyLoss).toBe('VIP');
+    });
+
+    it('should reject overrides whose minimum is above their maximum', () =>
+    {
+        expect(isValidRestrictionOverride({ minBetAmount: 500, maxBetAmount: 100 })).toBe(false);
+        expect(isValidRestrictionOverride({ minBetAmount: 500, maxBetAmount: null })).toBe(true);
+        expect(isValidRestrictionOverride({ minBetAmount: 100, maxBetAmount: 100 })).toBe(true);
+    });
+});
@@ -0,0 +1,67 @@
+/**
+ * Restrictions Service Tests
+ * Deposit requests checked against the amount bounds of the player's operator
+ */
+
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/core/database/db', () => import('../utils/service-db'));
+
+import { v4 as uuidv4 } from 'uuid';
+import { operatorTable, userBalanceTable, userTable } from '../../src/core/database/schema';
+import { validateDeposit } from '../../src/modules/gameplay/core/restrictions.service';
+import { configurationManager } from '../../src/shared/config';
+import { db, getUserWithBalance, pushTestSchema, truncateAllTables } from '../utils/service-db';
+
+const OPERATOR_ID = '79032f3f-7c4e-4575-abf9-4298ad3e9d1a';
+const PARTNER_ID = uuidv4();
+const ADMIN_ID = uuidv4();
+
+async function seedPlayer(operatorId: string)
+{
+    const userId = uuidv4();
+    await db.insert(userTable).values({ id: userId, username: `player-${userId}`, authEmail: `${userId}@example.com`, operatorId });
+    await db.insert(userBalanceTable).values({ id: uuidv4(), userId });
+    return (await getUserWithBalance(userId))!;
+}
+
+describe('Restrictions Service Tests', () =>
+{
+    beforeAll(async () =>
+    {
+        await pushTestSchema();
+    });
+
+    beforeEach(async () =>
+    {
+        await truncateAllTables();
+        await db.insert(operatorTable).values([
+            { id: OPERATOR_ID, name: 'The House', balance: 1_000_000 },
+            { id: PARTNER_ID, name: 'Partner Casino', balance: 50_000 },
+        ]);
+        await configurationManager.load(); // The platform default row, as on first boot
+        await configurationManager.setOperatorSettings(
+            PARTNER_ID,
+            { overrides: { depositConfig: { minDepositAmount: 500, maxDepositAmount: 20_000 } } },
+            ADMIN_ID,
+        );
+    });
+
+    it('should check a deposit against the bounds of the player\'s operator', async () =>
+    {
+        const player = await seedPlayer(PARTNER_ID);
+
+        expect(await validateDeposit(player, 499, 'CASHAPP')).toMatchObject({ valid: false, error: 'DEPOSIT_TOO_LOW' });
+        expect(await validateDeposit(player, 20_001, 'CASHAPP')).toMatchObject({ valid: false, error: 'DEPOSIT_TOO_HIGH' });
+        expect(await validateDeposit(player, 500, 'CASHAPP')).toEqual({ valid: true });
+    });
+
+    it('should fall back to the platform bounds for an operator without overrides', async () =>
+    {
+        const player = await seedPlayer(OPERATOR_ID);
+
+        expect(await validateDeposit(player, 10, 'CASHAPP')).toEqual({ valid: true });
+        expect(await validateDeposit(player, 9, 'CASHAPP')).toMatchObject({ valid: false, error: 'DEPOSIT_TOO_LOW' });
+        expect(await validateDeposit(player, 1_000_001, 'CASHAPP')).toMatchObject({ valid: false, error: 'DEPOSIT_TOO_HIGH' });
+    });
+});
@@ -0,0 +1,162 @@
+/**
+ * Seamless Wallet Service Tests
+ * Balance effects of debit, credit, rollback and endRound, and retried provider transactions
+ */
+
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/core/database/db', () => import('../utils/service-db'));
+
+import { eq, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { betRoundTable, gameSessionTable, operatorTable, userBalanceTable, userDailyPlayTable, userTable } from '../../src/core/database/schema';
+import { lossDay } from '../../src/modules/gameplay/core/loss-limit-rules';
+import { credit, debit, endRound, rollback } from '../../src/modules/gameplay/orchestrators/wallet.orchestrator';
+import { db, pushTestSchema, truncateAllTables } from '../utils/service-db';
+
+const OPERATOR_ID = '79032f3f-7c4e-4575-abf9-4298ad3e9d1a';
+const USER_ID = uuidv4();
+const GAME_ID = uuidv4();
+
+async function seedPlayer(): Promise<void>
+{
+    await db.insert(operatorTable).values({ id: OPERATOR_ID, name: 'The House', balance: 1_000_000 });
+    await db.insert(userTable).values({ id: USER_ID, username: 'player', authEmail: 'player@example.com', operatorId: OPERATOR_ID });
+    await db.insert(userBalanceTable).values({ id: uuidv4(), userId: USER_ID, realBalance: 10000 });
+    // startedAt and createdAt share a column builder, so drizzle cannot insert into games
+    await db.execute(sql`insert into games (id, name) values (${GAME_ID}, 'Lucky Sevens')`);
+    await db.insert(gameSessionTable).values({ userId: USER_ID, gameId: GAME_ID, gameName: 'Lucky Sevens' });
+}
+
+async function getRealBalance(): Promise<number>
+{
+    const [balance] = await db.select().from(userBalanceTable).where(eq(userBalanceTable.userId, USER_ID));
+    return balance!.realBalance;
+}
+
+async function getRound(roundId: string)
+{
+    const [round] = await db.select().from(betRoundTable).where(eq(betRoundTable.roundId, roundId));
+    return round!;
+}
+
+describe('Seamless Wallet Service Tests', () =>
+{
+    beforeAll(async () =>
+    {
+        await pushTestSchema();
+    });
+
+    beforeEach(async () =>
+    {
+        await truncateAllTables();
+        await seedPlayer();
+    });
+
+    it('should debit and credit a round and settle it on endRound', async () =>
+    {
+        const roundId = uuidv4();
+
+        const debited = await debit({ userId: USER_ID, gameId: GAME_ID, roundId, transactionId: 'd-1', amount: 500 });
+        expect(debited).toMatchObject({ success: true, realBalance: 9500, duplicate: false });
+
+        const credited = await credit({ userId: USER_ID, roundId, transactionId: 'c-1', amount: 1200 });
+        expect(credited).toMatchObject({ success: true, realBalance: 10700, duplicate: false });
+
+        const ended = await endRound(USER_ID, roundId);
+        expect(ended).toMatchObject({ success: true, wagerAmount: 500, winAmount: 1200, roundId });
+        expect(await getRound(roundId)).toMatchObject({ status: 'CLOSED' });
+
+        const again = await endRound(USER_ID, roundId);
+        expect(again).toMatchObject({ success: true, replayed: true, winAmount: 1200 });
+        expect(await getRealBalance()).toBe(10700);
+    });
+
+    it('should apply a retried transaction id only once', async () =>
+    {
+        const roundId = uuidv4();
+        const request = { userId: USER_ID, gameId: GAME_ID, roundId, transactionId: 'd-1', amount: 500 };
+
+        await debit(request);
+        expect(await debit(request)).toMatchObject({ success: true, realBalance: 9500, duplicate: true });
+
+        await credit({ userId: USER_ID, roundId, transactionId: 'c-1', amount: 300 });
+        expect(await credit({ userId: USER_ID, roundId, transactionId: 'c-1', amount: 300 })).toMatchObject({ duplicate: true });
+        expect(await getRealBalance()).toBe(9800);
+    });
+
+    it('should refund debits and take back credits on rollback', async () =>
+    {
+        const roundId = uuidv4();
+        await debit({ userId: USER_ID, gameId: GAME_ID, roundId, transactionId: 'd-1', amount: 500 });
+        await credit({ userId: USER_ID, roundId, transactionId: 'c-1', amount: 200 });
+
+        const rolledBack = await rollback({ userId: USER_ID, roundId, transactionId: 'r-1' });
+        expect(rolledBack).toMatchObject({ success: true, status: 'ROLLED_BACK', realBalance: 10000 });
+
+        expect(await endRound(USER_ID, roundId)).toMatchObject({ success: false, errorCode: 'ROUND_ROLLED_BACK' });
+        expect(await debit({ userId: USER_ID, gameId: GAME_ID, roundId, transactionId: 'd-2', amount: 100 })).toMatchObject({
+            success: false,
+            errorCode: 'ROUND_ROLLED_BACK',
+        });
+        expect(await getRealBalance()).toBe(10000);
+    });
+
+    it('should take a rolled back round off the day it was played', async () =>
+    {
+        const roundId = uuidv4();
+        const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+        await debit({ userId: USER_ID, gameId: GAME_ID, roundId, transactionId: 'd-1', amount: 500 });
+        await db.update(betRoundTable).set({ createdAt: yesterday }).where(eq(betRoundTable.roundId, roundId));
+        await db.update(userDailyPlayTable).set({ day: lossDay(yesterday) }).where(eq(userDailyPlayTable.userId, USER_ID));
+
+        await rollback({ userId: USER_ID, roundId, transactionId: 'r-1' });
+
+        const days = await db.select().from(userDailyPlayTable).where(eq(userDailyPlayTable.userId, USER_ID));
+        expect(days).toHaveLength(1);
+        expect(days[0]).toMatchObject({ day: lossDay(yesterday), wagered: 0, won: 0 });
+    });
+
+    it('should refuse a debit on a round opened for another game', async () =>
+    {
+        const roundId = uuidv4();
+        const otherGameId = uuidv4();
+        await db.execute(sql`insert into games (id, name) values (${otherGameId}, 'Fish Frenzy')`);
+        await db.insert(gameSessionTable).values({ userId: USER_ID, gameId: otherGameId, gameName: 'Fish Frenzy' });
+        await debit({ userId: USER_ID, gameId: GAME_ID, roundId, transactionId: 'd-1', amount: 500 });
+
+        const other = await debit({ userId: USER_ID, gameId: otherGameId, roundId, transactionId: 'd-2', amount: 300 });
+        expect(other).toMatchObject({ success: false, errorCode: 'ROUND_MISMATCH' });
+        expect(await getRound(roundId)).toMatchObject({ gameId: GAME_ID, wagerAmount: 500 });
+        expect(await getRealBalance()).toBe(9500);
+    });
+
+    it('should refuse a late debit for a round rolled back before it was seen', async () =>
+    {
+        const roundId = uuidv4();
+        await rollback({ userId: USER_ID, roundId, transactionId: 'r-1' });
+
+        const late = await debit({ userId: USER_ID, gameId: GAME_ID, roundId, transactionId: 'd-1', amount: 500 });
+        expect(late).toMatchObject({ success: false, errorCode: 'ROUND_ROLLED_BACK' });
+        expect(await getRealBalance()).toBe(10000);
+    });
+
+    it('should still pay a credit that arrives after the round was ended', async () =>
+    {
+        const roundId = uuidv4();
+        await debit({ userId: USER_ID, gameId: GAME_ID, roundId, transactionId: 'd-1', amount: 500 });
+        await endRound(USER_ID, roundId);
+
+        const lateWin = await credit({ userId: USER_ID, roundId, transactionId: 'c-1', amount: 900 });
+        expect(lateWin).toMatchObject({ success: true, realBalance: 10400 });
+    });
+
+    it('should refuse a debit without an active session for the game', async () =>
+    {
+        await db.update(gameSessionTable).set({ status: 'COMPLETED' }).where(eq(gameSessionTable.userId, USER_ID));
+
+        const debited = await debit({ userId: USER_ID, gameId: GAME_ID, roundId: uuidv4(), transactionId: 'd-1', amount: 500 });
+        expect(debited).toMatchObject({ success: false, errorCode: 'GAME_SESSION_REQUIRED' });
+        expect(await getRealBalance()).toBe(10000);
+    });
+});
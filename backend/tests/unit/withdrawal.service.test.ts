@@ -0,0 +1,111 @@
+/**
+ * Withdrawal Service Tests
+ * Funds reserved on request, returned on rejection and counted as withdrawn on approval
+ */
+
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/core/database/db', () => import('../utils/service-db'));
+
+import { eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { operatorTable, transactionLogTable, userBalanceTable, userTable, withdrawalTable } from '../../src/core/database/schema';
+import {
+    WithdrawalError,
+    approveWithdrawal,
+    rejectWithdrawal,
+    requestWithdrawal
+} from '../../src/modules/gameplay/core/core-withdrawal.service';
+import { db, pushTestSchema, truncateAllTables } from '../utils/service-db';
+
+const OPERATOR_ID = '79032f3f-7c4e-4575-abf9-4298ad3e9d1a';
+const USER_ID = uuidv4();
+const ADMIN_ID = uuidv4();
+
+async function seedPlayer(): Promise<void>
+{
+    const joined = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000); // Past the fraud check's new-account window
+    await db.insert(operatorTable).values({ id: OPERATOR_ID, name: 'The House', balance: 1_000_000 });
+    await db.insert(userTable).values({
+        id: USER_ID,
+        username: 'player',
+        authEmail: 'player@example.com',
+        operatorId: OPERATOR_ID,
+        createdAt: joined,
+    });
+    await db.insert(userBalanceTable).values({ id: uuidv4(), userId: USER_ID, realBalance: 10000, bonusBalance: 300 });
+}
+
+async function getBalance()
+{
+    const [balance] = await db.select().from(userBalanceTable).where(eq(userBalanceTable.userId, USER_ID));
+    return balance!;
+}
+
+describe('Withdrawal Service Tests', () =>
+{
+    beforeAll(async () =>
+    {
+        await pushTestSchema();
+    });
+
+    beforeEach(async () =>
+    {
+        await truncateAllTables();
+        await seedPlayer();
+    });
+
+    it('should reserve the amount from real balance when requested', async () =>
+    {
+        const withdrawal = await requestWithdrawal({ userId: USER_ID, amount: 4000, payoutMethod: 'CASHAPP' });
+
+        expect(withdrawal).toMatchObject({ status: 'PENDING', amount: 4000 });
+        expect(await getBalance()).toMatchObject({ realBalance: 6000, bonusBalance: 300, totalWithdrawn: 0 });
+    });
+
+    it('should refuse more than the real balance or while wagering is outstanding', async () =>
+    {
+        await expect(requestWithdrawal({ userId: USER_ID, amount: 10001, payoutMethod: 'CASHAPP' }))
+            .rejects.toMatchObject({ code: 'INSUFFICIENT_BALANCE' });
+
+        await db.update(userBalanceTable).set({ depositWrRemaining: 500 }).where(eq(userBalanceTable.userId, USER_ID));
+        await expect(requestWithdrawal({ userId: USER_ID, amount: 1000, payoutMethod: 'CASHAPP' }))
+            .rejects.toBeInstanceOf(WithdrawalError);
+
+        expect(await getBalance()).toMatchObject({ realBalance: 10000 });
+        expect(await db.select().from(withdrawalTable)).toHaveLength(0);
+    });
+
+    it('should return the reserved funds when rejected', async () =>
+    {
+        const withdrawal = await requestWithdrawal({ userId: USER_ID, amount: 4000, payoutMethod: 'CASHAPP' });
+
+        const rejected = await rejectWithdrawal(withdrawal.id, ADMIN_ID, 'Payout details do not match');
+
+        expect(rejected).toMatchObject({ status: 'REJECTED' });
+        expect(await getBalance()).toMatchObject({ realBalance: 10000, totalWithdrawn: 0 });
+        await expect(approveWithdrawal(withdrawal.id, ADMIN_ID)).rejects.toMatchObject({ code: 'INVALID_STATUS' });
+    });
+
+    it('should log the withdrawal and count it as withdrawn when approved', async () =>
+    {
+        const withdrawal = await requestWithdrawal({ userId: USER_ID, amount: 4000, payoutMethod: 'CASHAPP' });
+
+        const approved = await approveWithdrawal(withdrawal.id, ADMIN_ID);
+
+        expect(approved).toMatchObject({ status: 'COMPLETED' });
+        expect(await getBalance()).toMatchObject({ realBalance: 6000, totalWithdrawn: 4000 });
+
+        const [log] = await db.select().from(transactionLogTable).where(eq(transactionLogTable.relatedId, withdrawal.id));
+        expect(log).toMatchObject({
+            type: 'WITHDRAWAL',
+            status: 'COMPLETED',
+            operatorId: OPERATOR_ID,
+            wagerAmount: 4000,
+            realBalanceBefore: 10000,
+            realBalanceAfter: 6000,
+        });
+        expect(approved.transactionId).toBe(log!.id);
+        await expect(rejectWithdrawal(withdrawal.id, ADMIN_ID, 'Too late')).rejects.toMatchObject({ code: 'INVALID_STATUS' });
+    });
+});
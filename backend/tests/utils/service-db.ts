@@ -0,0 +1,64 @@
+/**
+ * Service Test Database
+ * An in-memory Postgres (PGlite) with the current schema pushed into it, standing in for
+ * src/core/database/db in service-level tests:
+ *
+ *     vi.mock('../../src/core/database/db', () => import('../utils/service-db'));
+ */
+
+import { PGlite } from '@electric-sql/pglite';
+import { sql } from 'drizzle-orm';
+import { drizzle } from 'drizzle-orm/pglite';
+import * as schema from '../../src/core/database/schema';
+
+const client = new PGlite();
+
+export const db = drizzle(client, { schema });
+
+export const {
+    userTable,
+    userBalanceTable,
+    gameTable,
+    gameSessionTable,
+    transactionLogTable,
+} = schema;
+
+export const getUserWithBalance = async (userId: string) =>
+{
+    return await db.query.userTable.findFirst({
+        where: (userTable, { eq }) => eq(userTable.id, userId),
+        with: {
+            userBalances: true,
+        },
+    });
+};
+
+let schemaPushed: Promise<void> | undefined;
+
+/**
+ * Create every table of the schema; safe to call from each test file's beforeAll
+ */
+export function pushTestSchema(): Promise<void>
+{
+    schemaPushed ??= (async () =>
+    {
+        const { pushSchema } = await import('drizzle-kit/api');
+        const { apply } = await pushSchema(schema, db as any);
+        await apply();
+    })();
+    return schemaPushed;
+}
+
+/**
+ * Empty every table between tests
+ */
+export async function truncateAllTables(): Promise<void>
+{
+    const { rows } = await client.query<{ tablename: string }>(
+        `select tablename from pg_tables where schemaname = 'public'`,
+    );
+    if (rows.length > 0)
+    {
+        await db.execute(sql.raw(`truncate ${rows.map((row) => `"${row.tablename}"`).join(', ')} cascade`));
+    }
+}